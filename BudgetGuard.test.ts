@@ -0,0 +1,193 @@
+/**
+ * BudgetGuard Tests
+ *
+ * Unit tests for token estimation, cost projection and budget caps
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BudgetGuard, estimateTokens } from './BudgetGuard';
+import { UsageTracker } from './UsageTracker';
+import { CareerOSSettings, LLMConfig, UsageOperation, UsageTotals } from './types';
+
+const createMockSettings = (provider: LLMConfig['provider'] = 'openai'): CareerOSSettings => {
+  const config: LLMConfig = { provider, model: 'gpt-4o-mini' };
+  return {
+    llmConfigs: { extract: config, analyze: config, embedding: config },
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    googleApiKey: '',
+    maxRetries: 0,
+    timeout: 30000,
+    concurrency: 2,
+    exclusionRules: { directories: [], tags: [] },
+    taxonomy: [],
+    dryRunEnabled: false,
+    dryRunMaxNotes: 10,
+    indexDirectory: 'test-index',
+    mappingDirectory: 'test-mapping',
+    marketCardsDirectory: 'test-market-cards',
+  };
+};
+
+// Tracker stub reporting fixed totals for the day and for the current run
+const createMockTracker = (settings: CareerOSSettings, day: Partial<UsageTotals>, run: Partial<UsageTotals>) => {
+  const totals = (partial: Partial<UsageTotals>): UsageTotals => ({
+    calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, ...partial,
+  });
+
+  const tracker = new UsageTracker({ vault: {} } as any, settings, 'plugin');
+  vi.spyOn(tracker, 'getTotalsSince').mockImplementation(
+    async (_since: string, operation?: UsageOperation) => operation === 'note_card' ? totals(run) : totals(day)
+  );
+  return tracker;
+};
+
+describe('estimateTokens', () => {
+  it('should count four characters per token for latin text', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should count one token per CJK character', () => {
+    expect(estimateTokens('学习笔记')).toBe(4);
+    expect(estimateTokens('React 笔记')).toBe(2 + 2);
+  });
+});
+
+describe('BudgetGuard', () => {
+  let settings: CareerOSSettings;
+
+  beforeEach(() => {
+    settings = createMockSettings();
+  });
+
+  describe('estimate', () => {
+    it('should project tokens, cost and duration', () => {
+      const guard = new BudgetGuard(settings, createMockTracker(settings, {}, {}));
+
+      const estimate = guard.estimate(['a'.repeat(400), 'b'.repeat(400), 'c'.repeat(400)], 100);
+
+      expect(estimate.notes).toBe(3);
+      expect(estimate.promptTokens).toBe(3 * (100 + 100));
+      expect(estimate.completionTokens).toBe(3 * 500);
+      expect(estimate.priced).toBe(true);
+      expect(estimate.cost).toBeCloseTo((600 * 0.15 + 1500 * 0.6) / 1_000_000);
+      // Two rounds at concurrency 2
+      expect(estimate.estimatedSeconds).toBe(Math.round(2 * (2 + 500 / 40)));
+    });
+
+    it('should pay prompt overhead and completion per request for chunked notes', () => {
+      const guard = new BudgetGuard(settings, createMockTracker(settings, {}, {}));
+
+      const estimate = guard.estimate(['a'.repeat(400)], 100, 3);
+
+      expect(estimate.notes).toBe(1);
+      expect(estimate.promptTokens).toBe(100 + 3 * 100);
+      expect(estimate.completionTokens).toBe(3 * 500);
+    });
+
+    it('should mark models missing from the price table as unpriced', () => {
+      settings.llmConfigs.extract = { provider: 'openai', model: 'unknown-model' };
+      const guard = new BudgetGuard(settings, createMockTracker(settings, {}, {}));
+
+      const estimate = guard.estimate(['note'], 0);
+
+      expect(estimate.priced).toBe(false);
+      expect(estimate.cost).toBe(0);
+    });
+  });
+
+  describe('isEnforced', () => {
+    it('should require a cap', () => {
+      const guard = new BudgetGuard(settings, createMockTracker(settings, {}, {}));
+      expect(guard.isEnforced()).toBe(false);
+
+      settings.budgetPerRunUsd = 1;
+      expect(guard.isEnforced()).toBe(true);
+    });
+
+    it('should not apply to local models', () => {
+      settings = createMockSettings('local');
+      settings.budgetPerRunUsd = 1;
+      const guard = new BudgetGuard(settings, createMockTracker(settings, {}, {}));
+
+      expect(guard.isEnforced()).toBe(false);
+
+      settings.customBaseUrl = 'https://api.example.com/v1';
+      expect(guard.isEnforced()).toBe(true);
+    });
+
+    it('should apply when a local model falls back to an external one', () => {
+      settings = createMockSettings('local');
+      settings.budgetPerDayUsd = 1;
+      settings.llmFallbacks = { extract: [{ provider: 'openai', model: 'gpt-4o-mini' }] };
+      const guard = new BudgetGuard(settings, createMockTracker(settings, {}, {}));
+
+      // Note content never reaches a fallback that does not allow it
+      expect(guard.isEnforced()).toBe(false);
+
+      settings.llmFallbacks.extract![0].allowSensitive = true;
+      expect(guard.isEnforced()).toBe(true);
+    });
+  });
+
+  describe('check', () => {
+    it('should pass while under every cap', async () => {
+      settings.budgetPerRunUsd = 1;
+      settings.budgetPerDayTokens = 10000;
+      const guard = new BudgetGuard(settings, createMockTracker(
+        settings,
+        { cost: 0.5, promptTokens: 4000, completionTokens: 1000 },
+        { cost: 0.5 }
+      ));
+      guard.startRun();
+
+      const status = await guard.check();
+
+      expect(status.exceeded).toBe(false);
+      expect(status.dayTokens).toBe(5000);
+    });
+
+    it('should report the per-run cost cap', async () => {
+      settings.budgetPerRunUsd = 1;
+      const guard = new BudgetGuard(settings, createMockTracker(settings, { cost: 1.5 }, { cost: 1.2 }));
+      guard.startRun();
+
+      const status = await guard.check();
+
+      expect(status.exceeded).toBe(true);
+      expect(status.reason).toContain('per-run budget');
+    });
+
+    it('should only count run usage after startRun', async () => {
+      settings.budgetPerRunTokens = 100;
+      const guard = new BudgetGuard(settings, createMockTracker(settings, {}, { promptTokens: 200 }));
+
+      expect((await guard.check()).exceeded).toBe(false);
+
+      guard.startRun();
+      expect((await guard.check()).exceeded).toBe(true);
+
+      guard.endRun();
+      expect((await guard.check()).exceeded).toBe(false);
+    });
+
+    it('should report the daily token cap', async () => {
+      settings.budgetPerDayTokens = 1000;
+      const guard = new BudgetGuard(settings, createMockTracker(settings, { promptTokens: 800, completionTokens: 300 }, {}));
+
+      const status = await guard.check();
+
+      expect(status.exceeded).toBe(true);
+      expect(status.reason).toContain('daily token budget');
+    });
+
+    it('should never be exceeded for local models', async () => {
+      settings = createMockSettings('local');
+      settings.budgetPerDayUsd = 0.01;
+      const guard = new BudgetGuard(settings, createMockTracker(settings, { cost: 5 }, {}));
+
+      expect((await guard.check()).exceeded).toBe(false);
+    });
+  });
+});
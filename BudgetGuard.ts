@@ -0,0 +1,196 @@
+/**
+ * BudgetGuard - Spending limits for cold-start indexing
+ *
+ * Responsible for:
+ * - Estimating tokens, cost and duration of a cold start before it runs
+ * - Enforcing per-run and per-day caps (USD and tokens) against the usage ledger
+ *
+ * Caps only apply when the extract role uses an external provider; local
+ * models are free and unlimited.
+ */
+
+import { CareerOSSettings, CostEstimate, BudgetStatus } from './types';
+import { UsageTracker, findModelPrice, calculateCost } from './UsageTracker';
+import { getModelChain, isExternalConfig } from './llmClient';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Expected size of a NoteCard JSON response
+ */
+export const ESTIMATED_COMPLETION_TOKENS_PER_NOTE = 500;
+
+/**
+ * Rough generation speed and per-request overhead used for the time estimate
+ */
+const ESTIMATED_TOKENS_PER_SECOND = 40;
+const ESTIMATED_REQUEST_OVERHEAD_SECONDS = 2;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Estimate the token count of a text without a tokenizer
+ *
+ * CJK characters are counted as one token each; other text as one token
+ * per four characters, which is close for English and code.
+ */
+export function estimateTokens(text: string): number {
+  const cjkMatches = text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g);
+  const cjkCount = cjkMatches ? cjkMatches.length : 0;
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / 4);
+}
+
+/**
+ * Start of the current local day as an ISO timestamp (comparable with ledger timestamps)
+ */
+function startOfToday(): string {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date.toISOString();
+}
+
+/**
+ * Format a budget amount for messages
+ */
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+// ============================================================================
+// BudgetGuard Class
+// ============================================================================
+
+export class BudgetGuard {
+  private settings: CareerOSSettings;
+  private usageTracker: UsageTracker;
+  private runStartedAt: string | null = null;
+
+  constructor(settings: CareerOSSettings, usageTracker: UsageTracker) {
+    this.settings = settings;
+    this.usageTracker = usageTracker;
+  }
+
+  /**
+   * Update settings (e.g., when user changes configuration)
+   */
+  updateSettings(settings: CareerOSSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether caps apply: any config extraction may use (the primary or a
+   * fallback allowed to see note content) is external, and at least one cap is set
+   */
+  isEnforced(): boolean {
+    const isExternal = getModelChain(this.settings, 'extract', true)
+      .some(config => isExternalConfig(config, this.settings));
+    const hasCap = [
+      this.settings.budgetPerRunUsd,
+      this.settings.budgetPerDayUsd,
+      this.settings.budgetPerRunTokens,
+      this.settings.budgetPerDayTokens,
+    ].some(cap => (cap ?? 0) > 0);
+
+    return isExternal && hasCap;
+  }
+
+  /**
+   * Project the tokens, cost and duration of extracting NoteCards
+   *
+   * @param noteContents - Content of each note to be indexed
+   * @param promptOverheadTokens - Tokens of the NoteCard prompt template without note content
+   * @param requestCount - Extraction requests (more than the notes when long notes are chunked)
+   */
+  estimate(noteContents: string[], promptOverheadTokens: number, requestCount = noteContents.length): CostEstimate {
+    const config = this.settings.llmConfigs.extract;
+    const model = this.settings.customBaseUrl && this.settings.customModel
+      ? this.settings.customModel
+      : config.model;
+    const price = findModelPrice(model, this.usageTracker.getPriceTable());
+
+    const promptTokens = noteContents.reduce(
+      (sum, content) => sum + estimateTokens(content),
+      requestCount * promptOverheadTokens
+    );
+    const completionTokens = requestCount * ESTIMATED_COMPLETION_TOKENS_PER_NOTE;
+
+    const secondsPerRequest = ESTIMATED_REQUEST_OVERHEAD_SECONDS +
+      ESTIMATED_COMPLETION_TOKENS_PER_NOTE / ESTIMATED_TOKENS_PER_SECOND;
+    const rounds = Math.ceil(requestCount / Math.max(1, this.settings.concurrency));
+
+    return {
+      notes: noteContents.length,
+      promptTokens,
+      completionTokens,
+      cost: calculateCost({ prompt_tokens: promptTokens, completion_tokens: completionTokens }, price),
+      estimatedSeconds: Math.round(rounds * secondsPerRequest),
+      priced: price !== null,
+    };
+  }
+
+  /**
+   * Mark the start of a run; per-run caps count usage from this point
+   */
+  startRun(): void {
+    this.runStartedAt = new Date().toISOString();
+  }
+
+  /**
+   * Mark the end of a run
+   */
+  endRun(): void {
+    this.runStartedAt = null;
+  }
+
+  /**
+   * Compare recorded spend with the configured caps
+   *
+   * Per-run totals only count NoteCard extraction since `startRun`; per-day
+   * totals count every recorded call since local midnight.
+   */
+  async check(): Promise<BudgetStatus> {
+    const day = await this.usageTracker.getTotalsSince(startOfToday());
+    const run = this.runStartedAt
+      ? await this.usageTracker.getTotalsSince(this.runStartedAt, 'note_card')
+      : { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+
+    const status: BudgetStatus = {
+      exceeded: false,
+      runCost: run.cost,
+      runTokens: run.promptTokens + run.completionTokens,
+      dayCost: day.cost,
+      dayTokens: day.promptTokens + day.completionTokens,
+    };
+
+    if (!this.isEnforced()) {
+      return status;
+    }
+
+    const { budgetPerRunUsd = 0, budgetPerDayUsd = 0, budgetPerRunTokens = 0, budgetPerDayTokens = 0 } = this.settings;
+
+    if (budgetPerRunUsd > 0 && status.runCost >= budgetPerRunUsd) {
+      status.reason = `per-run budget of ${formatUsd(budgetPerRunUsd)} reached (${formatUsd(status.runCost)} spent)`;
+    } else if (budgetPerDayUsd > 0 && status.dayCost >= budgetPerDayUsd) {
+      status.reason = `daily budget of ${formatUsd(budgetPerDayUsd)} reached (${formatUsd(status.dayCost)} spent today)`;
+    } else if (budgetPerRunTokens > 0 && status.runTokens >= budgetPerRunTokens) {
+      status.reason = `per-run token budget of ${budgetPerRunTokens} reached (${status.runTokens} used)`;
+    } else if (budgetPerDayTokens > 0 && status.dayTokens >= budgetPerDayTokens) {
+      status.reason = `daily token budget of ${budgetPerDayTokens} reached (${status.dayTokens} used today)`;
+    }
+
+    status.exceeded = status.reason !== undefined;
+    return status;
+  }
+}
+
+/**
+ * Create a BudgetGuard instance
+ */
+export function createBudgetGuard(settings: CareerOSSettings, usageTracker: UsageTracker): BudgetGuard {
+  return new BudgetGuard(settings, usageTracker);
+}
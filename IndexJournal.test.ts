@@ -0,0 +1,145 @@
+/**
+ * IndexJournal Tests
+ *
+ * Unit tests for run journaling, interrupted run lookup and attempt limits
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IndexJournal } from './IndexJournal';
+import { CareerOSSettings, LLMConfig } from './types';
+import { createMockApp } from './test-mocks/vault';
+
+const createMockSettings = (): CareerOSSettings => {
+  const config: LLMConfig = { provider: 'openai', model: 'gpt-4o-mini' };
+  return {
+    llmConfigs: { extract: config, analyze: config, embedding: config },
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    googleApiKey: '',
+    maxRetries: 0,
+    timeout: 30000,
+    concurrency: 1,
+    exclusionRules: { directories: [], tags: [] },
+    taxonomy: [],
+    dryRunEnabled: false,
+    dryRunMaxNotes: 10,
+    indexDirectory: 'test-index',
+    mappingDirectory: 'test-mapping',
+    marketCardsDirectory: 'test-market-cards',
+    maxIndexAttempts: 2,
+  };
+};
+
+describe('IndexJournal', () => {
+  let settings: CareerOSSettings;
+  let app: any;
+
+  beforeEach(() => {
+    app = createMockApp().app;
+    settings = createMockSettings();
+  });
+
+  it('should offer the unfinished notes of an interrupted run after a restart', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+    await journal.beginRun(['a.md', 'b.md', 'c.md']);
+    await journal.markRunning('a.md');
+    await journal.markDone('a.md');
+    await journal.markRunning('b.md');
+
+    // Obsidian closes here; a fresh instance reads the journal back
+    const reloaded = new IndexJournal(app, settings, 'plugin');
+    const run = await reloaded.getInterruptedRun();
+
+    expect(run?.notePaths).toEqual(['b.md', 'c.md']);
+  });
+
+  it('should have nothing to resume after the run ends', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+    await journal.beginRun(['a.md']);
+    await journal.endRun();
+
+    expect(await journal.getInterruptedRun()).toBeNull();
+  });
+
+  it('should not resume notes that used up their attempts', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+    await journal.beginRun(['crash.md', 'ok.md']);
+    await journal.markRunning('crash.md');
+    await journal.beginRun(['crash.md', 'ok.md']);
+    await journal.markRunning('crash.md');
+
+    const run = await journal.getInterruptedRun();
+
+    expect(run?.notePaths).toEqual(['ok.md']);
+  });
+
+  it('should keep attempt counts across runs until the note is edited', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+    const editedBefore = Date.now() - 1000;
+
+    for (let i = 0; i < 2; i++) {
+      await journal.beginRun(['bad.md']);
+      await journal.markRunning('bad.md');
+      await journal.markFailed('bad.md', 'invalid JSON');
+      await journal.endRun();
+    }
+
+    expect(await journal.isExhausted('bad.md', editedBefore)).toBe(true);
+    expect(await journal.isExhausted('bad.md', Date.now() + 1000)).toBe(false);
+    expect(await journal.isExhausted('other.md', editedBefore)).toBe(false);
+  });
+
+  it('should give an edited note a fresh set of attempts', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+
+    for (let i = 0; i < 3; i++) {
+      await journal.beginRun(['bad.md']);
+      await journal.markRunning('bad.md', 0);
+      await journal.markFailed('bad.md', 'invalid JSON');
+      await journal.endRun();
+    }
+    expect(await journal.isExhausted('bad.md', 0)).toBe(true);
+
+    const editedAt = Date.now() + 1000;
+    await journal.beginRun(['bad.md']);
+    await journal.markRunning('bad.md', editedAt);
+    await journal.markFailed('bad.md', 'invalid JSON');
+    await journal.endRun();
+
+    // One attempt of the fresh set is used, so the failure does not exhaust the note
+    expect(await journal.isExhausted('bad.md', 0)).toBe(false);
+  });
+
+  it('should remember ignored notes across restarts', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+    await journal.beginRun(['bad.md']);
+    await journal.markRunning('bad.md');
+    await journal.markFailed('bad.md', 'invalid JSON');
+    await journal.endRun();
+    await journal.ignoreNotes(['bad.md']);
+
+    const reloaded = new IndexJournal(app, settings, 'plugin');
+    expect(await reloaded.isIgnored('bad.md')).toBe(true);
+    expect(await reloaded.isIgnored('other.md')).toBe(false);
+  });
+
+  it('should index a note again once it is un-ignored', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+    await journal.ignoreNotes(['bad.md', 'other.md']);
+    await journal.unignoreNotes(['bad.md']);
+
+    expect(await journal.isIgnored('bad.md')).toBe(false);
+    expect(await journal.isIgnored('other.md')).toBe(true);
+  });
+
+  it('should forget a note once it succeeds', async () => {
+    const journal = new IndexJournal(app, settings, 'plugin');
+    await journal.beginRun(['flaky.md']);
+    await journal.markRunning('flaky.md');
+    await journal.markFailed('flaky.md', 'timeout');
+    await journal.markRunning('flaky.md');
+    await journal.markDone('flaky.md');
+
+    expect(await journal.isExhausted('flaky.md', 0)).toBe(false);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * IndexJournal - On-disk journal of cold start indexing tasks
+ *
+ * Responsible for:
+ * - Recording pending/running/failed extraction tasks while a run is in progress
+ * - Offering the unfinished tasks of an interrupted run for resumption
+ * - Counting attempts per note so repeatedly failing notes are not retried forever
+ * - Remembering notes whose errors were ignored, so they are not indexed again
+ *
+ * The journal lives in the plugin data directory (index_journal.json). Successful
+ * notes are dropped from it; failed notes stay to keep their attempt count.
+ */
+
+import { App } from 'obsidian';
+import { CareerOSSettings, IndexJournalState, IndexJournalTask } from './types';
+import { IndexJournalStateSchema } from './schema';
+import { FileService } from './fs';
+import { WriteQueue } from './utils/writeQueue';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_MAX_INDEX_ATTEMPTS = 3;
+
+// ============================================================================
+// IndexJournal Class
+// ============================================================================
+
+export class IndexJournal {
+  private settings: CareerOSSettings;
+  private fileService: FileService;
+  private journalPath: string;
+  private stateLoad: Promise<IndexJournalState> | null = null;
+  private writeQueue = new WriteQueue();
+
+  constructor(app: App, settings: CareerOSSettings, pluginDataDir: string) {
+    this.settings = settings;
+    this.fileService = new FileService(app, pluginDataDir);
+    this.journalPath = `${pluginDataDir}/index_journal.json`;
+  }
+
+  /**
+   * Update settings (e.g., when user changes configuration)
+   */
+  updateSettings(settings: CareerOSSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Unfinished notes of a run cut off by a restart
+   * Notes that already used up their attempts are left out.
+   *
+   * @returns null when no run was interrupted
+   */
+  async getInterruptedRun(): Promise<{ startedAt: string; notePaths: string[] } | null> {
+    const state = await this.loadState();
+    if (!state.run_started_at) {
+      return null;
+    }
+
+    const notePaths = state.tasks
+      .filter(t => t.status !== 'failed' && t.attempts < this.getMaxAttempts())
+      .map(t => t.note_path);
+
+    return notePaths.length > 0 ? { startedAt: state.run_started_at, notePaths } : null;
+  }
+
+  /**
+   * Whether a note failed too often to be queued again
+   * An edit after the last attempt earns the note a fresh set of attempts
+   * (the count restarts in `markRunning`).
+   *
+   * @param modifiedAt - Note modification time (epoch ms)
+   */
+  async isExhausted(notePath: string, modifiedAt: number): Promise<boolean> {
+    const state = await this.loadState();
+    const task = state.tasks.find(t => t.note_path === notePath);
+    return !!task &&
+      task.attempts >= this.getMaxAttempts() &&
+      modifiedAt <= new Date(task.updated_at).getTime();
+  }
+
+  /**
+   * Whether the note's errors were ignored in the error log
+   */
+  async isIgnored(notePath: string): Promise<boolean> {
+    const state = await this.loadState();
+    return state.ignored?.includes(notePath) ?? false;
+  }
+
+  /**
+   * Stop indexing notes whose errors were ignored
+   * They also leave the attempt counts, as they are never retried.
+   */
+  async ignoreNotes(notePaths: string[]): Promise<void> {
+    await this.update(state => {
+      const ignored = new Set([...(state.ignored ?? []), ...notePaths]);
+      state.ignored = Array.from(ignored);
+      state.tasks = state.tasks.filter(t => !ignored.has(t.note_path));
+    });
+  }
+
+  /**
+   * Index notes again after they were edited, renamed, deleted or un-ignored
+   */
+  async unignoreNotes(notePaths: string[]): Promise<void> {
+    const state = await this.loadState();
+    if (!state.ignored?.some(p => notePaths.includes(p))) {
+      return;
+    }
+
+    await this.update(state => {
+      state.ignored = (state.ignored ?? []).filter(p => !notePaths.includes(p));
+    });
+  }
+
+  /**
+   * Record the notes of a new run as pending
+   * Attempt counts of notes already in the journal are kept.
+   */
+  async beginRun(notePaths: string[]): Promise<void> {
+    await this.update(state => {
+      const now = new Date().toISOString();
+      const known = new Map(state.tasks.map(t => [t.note_path, t]));
+
+      for (const notePath of notePaths) {
+        const task = known.get(notePath);
+        if (task) {
+          task.status = 'pending';
+        } else {
+          known.set(notePath, { note_path: notePath, status: 'pending', attempts: 0, updated_at: now });
+        }
+      }
+
+      state.run_started_at = now;
+      state.tasks = Array.from(known.values());
+    });
+  }
+
+  /**
+   * Count an attempt as soon as extraction starts, so a note that crashes
+   * Obsidian is not picked up again indefinitely
+   *
+   * @param modifiedAt - Note modification time (epoch ms); an edit since the
+   *   last attempt restarts the count
+   */
+  async markRunning(notePath: string, modifiedAt: number = 0): Promise<void> {
+    await this.updateTask(notePath, task => {
+      if (task.updated_at && modifiedAt > new Date(task.updated_at).getTime()) {
+        task.attempts = 0;
+      }
+      task.status = 'running';
+      task.attempts++;
+    });
+  }
+
+  /**
+   * Drop a successfully indexed note from the journal
+   */
+  async markDone(notePath: string): Promise<void> {
+    await this.update(state => {
+      state.tasks = state.tasks.filter(t => t.note_path !== notePath);
+    });
+  }
+
+  async markFailed(notePath: string, error: string): Promise<void> {
+    await this.updateTask(notePath, task => {
+      task.status = 'failed';
+      task.last_error = error;
+    });
+  }
+
+  /**
+   * Close the current run (finished or cancelled)
+   * Notes never attempted are dropped; attempted ones keep their count.
+   */
+  async endRun(): Promise<void> {
+    await this.update(state => {
+      state.run_started_at = null;
+      state.tasks = state.tasks.filter(t => t.attempts > 0);
+      for (const task of state.tasks) {
+        task.status = 'failed';
+      }
+    });
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private getMaxAttempts(): number {
+    return this.settings.maxIndexAttempts ?? DEFAULT_MAX_INDEX_ATTEMPTS;
+  }
+
+  private async updateTask(notePath: string, mutate: (task: IndexJournalTask) => void): Promise<void> {
+    await this.update(state => {
+      let task = state.tasks.find(t => t.note_path === notePath);
+      if (!task) {
+        task = { note_path: notePath, status: 'pending', attempts: 0, updated_at: '' };
+        state.tasks.push(task);
+      }
+      mutate(task);
+      task.updated_at = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Apply a change and write the journal; changes are serialized and
+   * failures are logged, not thrown, so indexing never fails on the journal
+   */
+  private update(mutate: (state: IndexJournalState) => void): Promise<void> {
+    return this.writeQueue.runLogged(async () => {
+      const state = await this.loadState();
+      mutate(state);
+      await this.fileService.writeJSON(this.journalPath, state, IndexJournalStateSchema);
+    }, 'Failed to update index journal:');
+  }
+
+  /**
+   * Load the journal once; concurrent callers share the same load
+   */
+  private loadState(): Promise<IndexJournalState> {
+    if (!this.stateLoad) {
+      this.stateLoad = (async () => {
+        try {
+          const state = await this.fileService.readJSON(this.journalPath, IndexJournalStateSchema);
+          if (state) {
+            return state;
+          }
+        } catch (error) {
+          console.error('Failed to read index journal, starting fresh:', error);
+        }
+        return { run_started_at: null, tasks: [] };
+      })();
+    }
+    return this.stateLoad;
+  }
+}
+
+/**
+ * Create an IndexJournal instance
+ */
+export function createIndexJournal(
+  app: App,
+  settings: CareerOSSettings,
+  pluginDataDir: string
+): IndexJournal {
+  return new IndexJournal(app, settings, pluginDataDir);
+}
@@ -463,6 +463,8 @@ export class IndexStore {
     generatedAt: string;
     planPath: string;
     isActive?: boolean;
+    previousPlan?: string;
+    revision?: number;
   }>> {
     const files = await this.fileService.listFiles(this.mappingDirectory, 'md');
     const plans: Array<{
@@ -473,6 +475,8 @@ export class IndexStore {
       generatedAt: string;
       planPath: string;
       isActive?: boolean;
+      previousPlan?: string;
+      revision?: number;
     }> = [];
     
     for (const filePath of files) {
@@ -493,6 +497,10 @@ export class IndexStore {
             generatedAt: frontmatter.generated_at || '',
             planPath: filePath,
             isActive: frontmatter.is_active || false,
+            previousPlan: frontmatter.previous_plan
+              ? `${String(frontmatter.previous_plan).replace(/^\[\[|\]\]$/g, '')}.md`
+              : undefined,
+            revision: frontmatter.revision || undefined,
           });
         }
       } catch (error) {
@@ -206,7 +206,8 @@ export class MarketScanner {
       const jdCardsArray = await this.llmClient.callJSON(
         'extract',
         prompt,
-        z.array(JDCardSchema)
+        z.array(JDCardSchema),
+        { usage: { operation: 'jd_card', note_path: notePath } }
       );
       
       // Process each JD card
@@ -66,6 +66,17 @@ export class PrivacyGuard {
       return content;
     }
     
+    return this.redactPII(content);
+  }
+  
+  /**
+   * Remove PII from content regardless of the target
+   * For callers that decide themselves whether the content leaves the machine.
+   * 
+   * @param content - Original content
+   * @returns Filtered content with PII removed
+   */
+  redactPII(content: string): string {
     let filtered = content;
     
     // Apply all PII patterns
@@ -0,0 +1,159 @@
+/**
+ * ProfileEngine Tests
+ *
+ * Unit tests for which notes cold start and incremental updates index,
+ * and for how chunked extractions are attributed
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProfileEngine } from './ProfileEngine';
+import { IndexStore } from './IndexStore';
+import { PromptStore } from './PromptStore';
+import { PrivacyGuard } from './PrivacyGuard';
+import type { LLMClient } from './llmClient';
+import type { IndexJournal } from './IndexJournal';
+import { CareerOSSettings } from './types';
+import { createMockApp } from './test-mocks/vault';
+
+const NOTES = {
+  'projects/api.md': '# API\nBuilt a FastAPI service.',
+  'CareerOS/Tasks/action_plan_backend/week_01.md': '- [x] [skill:Python] 完成异步编程教程 ^cos-w1-abc',
+  'CareerOS/Reviews/weekly_review_2024-01-14.md': '# Weekly Review\n- [[projects/api]] (project) — Built a FastAPI service.',
+};
+
+describe('ProfileEngine indexing', () => {
+  let engine: ProfileEngine;
+  let ignored: string[];
+
+  beforeEach(() => {
+    ignored = [];
+    const indexJournal = {
+      isIgnored: vi.fn(async (notePath: string) => ignored.includes(notePath)),
+      unignoreNotes: vi.fn(async (notePaths: string[]) => {
+        ignored = ignored.filter(p => !notePaths.includes(p));
+      }),
+    } as unknown as IndexJournal;
+    const { app } = createMockApp(NOTES);
+    const settings = {
+      exclusionRules: { directories: [], tags: [] },
+      taxonomy: [],
+    } as unknown as CareerOSSettings;
+    const indexStore = new IndexStore(app, 'test-plugin-dir', 'index', 'mapping', 'market_cards');
+    vi.spyOn(indexStore, 'readNoteCard').mockResolvedValue(null);
+
+    engine = new ProfileEngine(
+      app,
+      settings,
+      {} as LLMClient,
+      indexStore,
+      new PromptStore(app, 'test-plugin-dir'),
+      new PrivacyGuard(settings.exclusionRules),
+      'test-plugin-dir',
+      undefined,
+      undefined,
+      undefined,
+      indexJournal
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should leave plan tasks and weekly review notes out of cold start', async () => {
+    const notes = await engine.filterUnindexedNotes(await engine.scanDirectories([]));
+
+    expect(notes).toEqual(['projects/api.md']);
+  });
+
+  it('should not queue a plan tasks note when it is saved', async () => {
+    vi.useFakeTimers();
+
+    const pending = engine.handleNoteSaved('CareerOS/Tasks/action_plan_backend/week_01.md');
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await pending).toMatchObject({ action: 'skipped', reason: 'Plan tasks note' });
+  });
+
+  it('should not queue a weekly review note when it is written', async () => {
+    vi.useFakeTimers();
+
+    const pending = engine.handleNoteSaved('CareerOS/Reviews/weekly_review_2024-01-14.md');
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await pending).toMatchObject({ action: 'skipped', reason: 'Weekly review note' });
+  });
+
+  it('should leave notes whose errors were ignored out of cold start until they are edited', async () => {
+    ignored = ['projects/api.md'];
+    vi.useFakeTimers();
+
+    expect(await engine.coldStartIndex([])).toMatchObject({ totalNotes: 0 });
+
+    const pending = engine.handleNoteSaved('projects/api.md');
+    await vi.advanceTimersByTimeAsync(2000);
+    await pending;
+
+    expect(ignored).toEqual([]);
+  });
+});
+
+describe('ProfileEngine chunked extraction', () => {
+  const part = (summary: string) => ({
+    schema_version: 1,
+    note_path: 'projects/log.md',
+    hash: '',
+    summary,
+    type: 'project' as const,
+    time_span: '',
+    tech_stack: [],
+    topics: [],
+    preferences: { likes: [], dislikes: [], traits: [] },
+    evidence: [],
+    detected_date: '',
+    last_updated: '2024-01-01',
+  });
+
+  it('should credit the card to an external provider when any chunk used one', async () => {
+    const { app } = createMockApp({
+      'projects/log.md': `# Week 1\n${'Built the crawler. '.repeat(20)}\n# Week 2\n${'Deployed to Kubernetes. '.repeat(20)}`,
+    });
+    const local = { provider: 'local' as const, model: 'llama3' };
+    const settings = {
+      exclusionRules: { directories: [], tags: [] },
+      taxonomy: [],
+      llmConfigs: { extract: local, analyze: local, embedding: local },
+      maxRetries: 0,
+      chunkMaxTokens: 150,
+    } as unknown as CareerOSSettings;
+    // The first chunk falls back to an external provider, the second stays local
+    const providers = [{ provider: 'openai' as const, model: 'gpt-4o-mini' }, local];
+    let calls = 0;
+    const llmClient = {
+      callJSON: vi.fn(async (_role: string, _prompt: string, _schema: unknown, options: any) => {
+        const index = calls++;
+        options.onProvider(providers[index]);
+        return part(`Chunk ${index + 1}.`);
+      }),
+    };
+    const indexStore = new IndexStore(app, 'test-plugin-dir', 'index', 'mapping', 'market_cards');
+    vi.spyOn(indexStore, 'readNoteCard').mockResolvedValue(null);
+    vi.spyOn(indexStore, 'writeNoteCard').mockResolvedValue(undefined as any);
+    const promptStore = new PromptStore(app, 'test-plugin-dir');
+    vi.spyOn(promptStore, 'getPrompt').mockResolvedValue('Extract a NoteCard');
+    const engine = new ProfileEngine(
+      app,
+      settings,
+      llmClient as unknown as LLMClient,
+      indexStore,
+      promptStore,
+      new PrivacyGuard(settings.exclusionRules),
+      'test-plugin-dir'
+    );
+
+    const result = await engine.processNote('projects/log.md');
+
+    expect(llmClient.callJSON).toHaveBeenCalledTimes(2);
+    expect(result.noteCard?.extracted_by).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+  });
+});
@@ -13,17 +13,30 @@
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 2.1, 2.2, 2.3, 2.4, 2.5, 4.1, 4.2, 4.3, 5.2, 5.3, 5.4, 15.1, 15.2, 15.3
  */
 
-import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { App, TFile, TFolder, normalizePath, parseYaml } from 'obsidian';
 import { z } from 'zod';
-import { NoteCard, CareerOSSettings, IndexOptions, IndexResult, Task, QueueStatus, SelfProfile, SkillProfile, ProjectSummary, Preferences, TechItem, SkillCategory } from './types';
+import { NoteCard, NoteCardOverrides, CareerOSSettings, LLMConfig, SelfProfileCardMode, IndexOptions, IndexResult, Task, QueueStatus, SelfProfile, SkillProfile, ProjectSummary, Preferences, TechItem, SkillCategory, SkillDecayInfo, CostEstimate, TaskEvidence } from './types';
 import { NoteCardSchema, SelfProfileSchema, CURRENT_SCHEMA_VERSION } from './schema';
-import { LLMClient } from './llmClient';
+import { LLMClient, isExternalConfig } from './llmClient';
 import { IndexStore } from './IndexStore';
 import { PromptStore, getNoteCardPrompt } from './PromptStore';
 import { PrivacyGuard } from './PrivacyGuard';
 import { FileService } from './fs';
 import { QueueManager, createQueueManager, createTask, TaskResult } from './queue';
 import { Taxonomy } from './Taxonomy';
+import type { RagEngine } from './RagEngine';
+import { BudgetGuard, estimateTokens, ESTIMATED_COMPLETION_TOKENS_PER_NOTE } from './BudgetGuard';
+import type { RateLimiter } from './RateLimiter';
+import { IndexJournal, DEFAULT_MAX_INDEX_ATTEMPTS } from './IndexJournal';
+import type { Logger } from './logger';
+import type { ProfileHistory } from './ProfileHistory';
+import type { TaskBridge } from './TaskBridge';
+import { isTaskDirectoryNote } from './TaskBridge';
+import { isWeeklyReviewNote } from './WeeklyReview';
+import { splitNoteIntoChunks, mergeNoteCardContents, DEFAULT_CHUNK_MAX_TOKENS } from './utils/noteChunker';
+import { parseNoteCardOverrides, applyNoteCardOverrides } from './utils/noteCardOverrides';
+import { calculateDecay, resolveDecayCurve, DEFAULT_DECAY_CURVE } from './utils/skillDecay';
+import { diffProfiles, renderProfileDiffMarkdown } from './utils/profileDiff';
 
 // ============================================================================
 // Types
@@ -125,6 +138,8 @@ const LLMNoteCardOutputSchema = z.object({
   status: z.enum(['draft', 'confirmed']).optional(),
 });
 
+type LLMNoteCardOutput = z.infer<typeof LLMNoteCardOutputSchema>;
+
 // ============================================================================
 // Content Hash Calculation
 // ============================================================================
@@ -255,47 +270,6 @@ export function inferLastUpdated(content: string, filename: string, file: TFile)
   return getTimeFromFileMetadata(file);
 }
 
-// ============================================================================
-// Error Logging
-// ============================================================================
-
-/**
- * Append error to error log file
- */
-async function logExtractionError(
-  fileService: FileService,
-  pluginDataDir: string,
-  error: ExtractionError
-): Promise<void> {
-  const errorLogPath = `${pluginDataDir}/error_log.md`;
-  
-  const errorEntry = `
-## ${error.timestamp}
-
-- **Path**: ${error.path}
-- **Attempts**: ${error.attempts}
-- **Error**: ${error.error}
-
----
-`;
-  
-  try {
-    // Try to read existing log
-    let existingContent = '';
-    try {
-      existingContent = await fileService.read(errorLogPath);
-    } catch {
-      // File doesn't exist, start fresh
-      existingContent = '# CareerOS Error Log\n\n';
-    }
-    
-    // Append new error
-    await fileService.write(errorLogPath, existingContent + errorEntry);
-  } catch (logError) {
-    console.error('Failed to write to error log:', logError);
-  }
-}
-
 // ============================================================================
 // ProfileEngine Class
 // ============================================================================
@@ -340,32 +314,28 @@ const NOTE_TYPE_WEIGHTS: Record<string, number> = {
 };
 
 /**
- * Time decay calculation
+ * Weight of confirmed cards against drafts in 'prefer_confirmed' mode
+ */
+export const CONFIRMED_CARD_WEIGHT = 2;
+
+/**
+ * Skill score of one completed plan task (about a '熟悉' course note)
+ */
+export const DEFAULT_TASK_EVIDENCE_SCORE = 2;
+
+/**
+ * Extra weight of a completed task that links the notes it produced
+ */
+const TASK_OUTPUT_NOTE_WEIGHT = 1.5;
+
+/**
+ * Time decay calculation with the default stepped curve
  * Property 19: Skill scoring with time decay
  * 
- * Uses a stepped decay function:
- * - Within 6 months: 1.0 (no decay)
- * - 6-12 months: 0.8
- * - 12-24 months: 0.6
- * - 24-36 months: 0.4
- * - Over 36 months: 0.2
+ * Skills with a configured curve are scored through utils/skillDecay.ts.
  */
 export function calculateTimeDecay(lastActiveDate: string): number {
-  const now = new Date();
-  const lastActive = new Date(lastActiveDate);
-  
-  // Handle invalid dates
-  if (isNaN(lastActive.getTime())) {
-    return 0.5; // Default decay for invalid dates
-  }
-  
-  const monthsDiff = (now.getTime() - lastActive.getTime()) / (1000 * 60 * 60 * 24 * 30);
-  
-  if (monthsDiff <= 6) return 1.0;
-  if (monthsDiff <= 12) return 0.8;
-  if (monthsDiff <= 24) return 0.6;
-  if (monthsDiff <= 36) return 0.4;
-  return 0.2;
+  return calculateDecay(DEFAULT_DECAY_CURVE, lastActiveDate);
 }
 
 /**
@@ -417,6 +387,14 @@ export class ProfileEngine {
   private fileService: FileService;
   private pluginDataDir: string;
   private taxonomy: Taxonomy;
+  private ragEngine?: RagEngine;
+  private budgetGuard?: BudgetGuard;
+  private rateLimiter?: RateLimiter;
+  private indexJournal?: IndexJournal;
+  private logger?: Logger;
+  private profileHistory?: ProfileHistory;
+  private taskBridge?: TaskBridge;
+  private promptOverheadTokens?: number;
   
   constructor(
     app: App,
@@ -425,7 +403,14 @@ export class ProfileEngine {
     indexStore: IndexStore,
     promptStore: PromptStore,
     privacyGuard: PrivacyGuard,
-    pluginDataDir: string
+    pluginDataDir: string,
+    ragEngine?: RagEngine,
+    budgetGuard?: BudgetGuard,
+    rateLimiter?: RateLimiter,
+    indexJournal?: IndexJournal,
+    logger?: Logger,
+    profileHistory?: ProfileHistory,
+    taskBridge?: TaskBridge
   ) {
     this.app = app;
     this.settings = settings;
@@ -436,6 +421,13 @@ export class ProfileEngine {
     this.pluginDataDir = pluginDataDir;
     this.fileService = new FileService(app, pluginDataDir);
     this.taxonomy = new Taxonomy(settings.taxonomy);
+    this.ragEngine = ragEngine;
+    this.budgetGuard = budgetGuard;
+    this.rateLimiter = rateLimiter;
+    this.indexJournal = indexJournal;
+    this.logger = logger;
+    this.profileHistory = profileHistory;
+    this.taskBridge = taskBridge;
   }
   
   /**
@@ -446,6 +438,10 @@ export class ProfileEngine {
     this.llmClient.updateSettings(settings);
     this.privacyGuard.updateExclusionRules(settings.exclusionRules);
     this.taxonomy = new Taxonomy(settings.taxonomy);
+    this.ragEngine?.updateSettings(settings);
+    this.budgetGuard?.updateSettings(settings);
+    this.rateLimiter?.updateSettings(settings);
+    this.indexJournal?.updateSettings(settings);
   }
 
   // ============================================================================
@@ -476,12 +472,17 @@ export class ProfileEngine {
     
     // Step 1: Read all non-deleted NoteCards from IndexStore
     const allCards = await this.indexStore.listNoteCards();
-    const activeCards = allCards.filter(card => !card.deleted);
+    const activeCards = allCards.filter(card =>
+      !card.deleted &&
+      (this.getCardMode() !== 'confirmed_only' || card.status === 'confirmed')
+    );
     
-    console.log(`Building SelfProfile from ${activeCards.length} active NoteCards`);
+    console.log(`Building SelfProfile from ${activeCards.length} active NoteCards (${this.getCardMode()})`);
     
-    // Step 2: Aggregate skills with normalization and scoring
-    const skills = this.aggregateSkills(activeCards);
+    // Step 2: Aggregate skills with normalization and scoring, including
+    // completed plan tasks
+    const taskEvidence = await this.taskBridge?.listTaskEvidence() ?? [];
+    const skills = this.aggregateSkills(activeCards, taskEvidence);
     
     // Step 3: Aggregate preferences from reflection-type notes
     const preferences = this.aggregatePreferences(activeCards);
@@ -508,6 +509,9 @@ export class ProfileEngine {
     // Step 8: Save as Markdown
     await this.saveSelfProfileAsMarkdown(selfProfile);
     
+    // Step 9: Keep a versioned snapshot for the skill history
+    await this.profileHistory?.record(selfProfile);
+    
     console.log(`SelfProfile built successfully: ${skills.length} skills, ${projects.length} projects`);
     
     return selfProfile;
@@ -520,25 +524,51 @@ export class ProfileEngine {
    * Property 19: Skill scoring with time decay
    * 
    * @param cards - Array of NoteCards to aggregate
+   * @param taskEvidence - Completed plan tasks linked to skills
    * @returns Array of SkillProfile sorted by level (descending)
    */
-  private aggregateSkills(cards: NoteCard[]): SkillProfile[] {
+  private aggregateSkills(cards: NoteCard[], taskEvidence: TaskEvidence[] = []): SkillProfile[] {
     // Map to accumulate skill data: normalized name -> aggregated data
     const skillMap = new Map<string, {
       name: string;
       category?: SkillCategory;
+      decay: Pick<SkillDecayInfo, 'curve' | 'source'>;
       totalScore: number;
+      taskScore: number;
       evidenceNotes: Set<string>;
+      taskEvidence: TaskEvidence[];
       lastActive: Date;
     }>();
+
+    const getEntry = (normalizedName: string) => {
+      let skillEntry = skillMap.get(normalizedName);
+      if (!skillEntry) {
+        const category = this.taxonomy.getCategory(normalizedName);
+        skillEntry = {
+          name: normalizedName,
+          category,
+          decay: resolveDecayCurve(
+            this.taxonomy.getMapping(normalizedName)?.decay,
+            category,
+            this.settings.decayCurves
+          ),
+          totalScore: 0,
+          taskScore: 0,
+          evidenceNotes: new Set(),
+          taskEvidence: [],
+          lastActive: new Date(0),
+        };
+        skillMap.set(normalizedName, skillEntry);
+      }
+      return skillEntry;
+    };
     
     for (const card of cards) {
-      // Get time decay factor based on card's last_updated
-      const timeDecay = calculateTimeDecay(card.last_updated);
-      
       // Get note type weight
       const noteTypeWeight = NOTE_TYPE_WEIGHTS[card.type] || 0.5;
       
+      const reviewWeight = this.getReviewWeight(card);
+      
       for (const tech of card.tech_stack) {
         // Normalize skill name using Taxonomy (Property 18)
         const normalizedName = this.taxonomy.normalize(tech.name);
@@ -546,24 +576,14 @@ export class ProfileEngine {
         // Get skill level score
         const levelScore = SKILL_LEVEL_SCORES[tech.level] || 1;
         
-        // Calculate weighted score (Property 19)
-        const weightedScore = levelScore * noteTypeWeight * timeDecay;
-        
         // Get or create skill entry
-        let skillEntry = skillMap.get(normalizedName);
-        if (!skillEntry) {
-          skillEntry = {
-            name: normalizedName,
-            category: this.taxonomy.getCategory(normalizedName),
-            totalScore: 0,
-            evidenceNotes: new Set(),
-            lastActive: new Date(0),
-          };
-          skillMap.set(normalizedName, skillEntry);
-        }
+        const skillEntry = getEntry(normalizedName);
         
-        // Accumulate score
-        skillEntry.totalScore += weightedScore;
+        // Time decay of the card under the skill's curve (Property 19)
+        const timeDecay = calculateDecay(skillEntry.decay.curve, card.last_updated);
+        
+        // Accumulate weighted score
+        skillEntry.totalScore += levelScore * noteTypeWeight * timeDecay * reviewWeight;
         
         // Add evidence note
         skillEntry.evidenceNotes.add(card.note_path);
@@ -575,6 +595,28 @@ export class ProfileEngine {
         }
       }
     }
+
+    // Completed plan tasks count like a note at the configured score
+    const taskScore = this.settings.taskEvidenceScore ?? DEFAULT_TASK_EVIDENCE_SCORE;
+    if (taskScore > 0) {
+      for (const task of taskEvidence) {
+        const outputWeight = task.output_notes.length > 0 ? TASK_OUTPUT_NOTE_WEIGHT : 1;
+
+        for (const skill of new Set(task.skills.map(s => this.taxonomy.normalize(s)))) {
+          const skillEntry = getEntry(skill);
+          const score = taskScore * outputWeight * calculateDecay(skillEntry.decay.curve, task.completed_at);
+
+          skillEntry.totalScore += score;
+          skillEntry.taskScore += score;
+          skillEntry.taskEvidence.push(task);
+
+          const completedAt = parseDate(task.completed_at);
+          if (completedAt && completedAt > skillEntry.lastActive) {
+            skillEntry.lastActive = completedAt;
+          }
+        }
+      }
+    }
     
     // Convert to SkillProfile array and normalize scores to 0-5 range
     const skills: SkillProfile[] = [];
@@ -594,13 +636,27 @@ export class ProfileEngine {
         ? Math.min(5, (entry.totalScore / maxScore) * 5)
         : 0;
       
-      skills.push({
+      const skill: SkillProfile = {
         name: entry.name,
         category: entry.category,
         level: Math.round(normalizedLevel * 100) / 100, // Round to 2 decimal places
         evidence_notes: Array.from(entry.evidenceNotes),
         last_active: entry.lastActive.toISOString().split('T')[0],
-      });
+        decay: {
+          ...entry.decay,
+          factor: Math.round(calculateDecay(entry.decay.curve, entry.lastActive.toISOString()) * 100) / 100,
+        },
+      };
+
+      // Share of the level that comes from plan tasks
+      if (entry.taskEvidence.length > 0) {
+        skill.task_level = entry.totalScore > 0
+          ? Math.round(normalizedLevel * (entry.taskScore / entry.totalScore) * 100) / 100
+          : 0;
+        skill.task_evidence = entry.taskEvidence;
+      }
+
+      skills.push(skill);
     }
     
     // Sort by level (descending)
@@ -625,7 +681,7 @@ export class ProfileEngine {
     
     // Process cards, giving higher weight to reflection-type notes
     for (const card of cards) {
-      const weight = card.type === 'reflection' ? 2 : 1;
+      const weight = (card.type === 'reflection' ? 2 : 1) * this.getReviewWeight(card);
       
       for (const like of card.preferences.likes) {
         const normalized = like.trim();
@@ -663,6 +719,19 @@ export class ProfileEngine {
     };
   }
 
+  private getCardMode(): SelfProfileCardMode {
+    return this.settings.selfProfileCardMode ?? 'all';
+  }
+
+  /**
+   * Extra weight of a human-confirmed card in 'prefer_confirmed' mode
+   */
+  private getReviewWeight(card: NoteCard): number {
+    return this.getCardMode() === 'prefer_confirmed' && card.status === 'confirmed'
+      ? CONFIRMED_CARD_WEIGHT
+      : 1;
+  }
+
   /**
    * Extract project summaries from project-type NoteCards
    * 
@@ -859,11 +928,12 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       const tags = this.extractTags(content);
       
       // Check exclusion rules (Property 9)
-      if (this.privacyGuard.shouldExclude(normalizedPath, tags)) {
+      const exclusionReason = this.getExclusionReason(normalizedPath, tags);
+      if (exclusionReason) {
         return {
           success: true,
           skipped: true,
-          skipReason: 'Note excluded by privacy rules',
+          skipReason: exclusionReason,
         };
       }
       
@@ -890,14 +960,13 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       // Get current date for detected_date
       const currentDate = new Date().toISOString();
       
-      // Build prompt
-      const prompt = await getNoteCardPrompt(
-        this.promptStore,
-        normalizedPath,
-        filteredContent,
-        contentHash,
-        currentDate
-      );
+      // Long notes are extracted in chunks; parts that succeeded are kept across retries
+      const chunks = splitNoteIntoChunks(filteredContent, this.getChunkMaxTokens());
+      const partials: LLMNoteCardOutput[] = [];
+      const extractors: LLMConfig[] = [];
+      
+      // Fields pinned in the note's careeros frontmatter
+      const overrides = this.readNoteCardOverrides(content, normalizedPath);
       
       // Call LLM with retry logic (Property 15)
       let noteCard: NoteCard;
@@ -908,16 +977,17 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
         attempts++;
         
         try {
-          // Call LLM expecting JSON output
-          const llmOutput = await this.llmClient.callJSON(
-            'extract',
-            prompt,
-            LLMNoteCardOutputSchema,
-            { maxRetries: 0 } // We handle retries ourselves
+          const { output: llmOutput, extractedBy } = await this.extractNoteCardOutput(
+            normalizedPath,
+            chunks,
+            partials,
+            extractors,
+            contentHash,
+            currentDate
           );
           
-          // Ensure required fields are set correctly
-          noteCard = {
+          // Ensure required fields are set correctly (hash covers the whole note)
+          noteCard = applyNoteCardOverrides({
             ...llmOutput,
             schema_version: CURRENT_SCHEMA_VERSION,
             note_path: normalizedPath,
@@ -925,7 +995,10 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
             detected_date: currentDate,
             // Infer last_updated if LLM didn't provide a good value
             last_updated: llmOutput.last_updated || inferLastUpdated(content, file.name, file),
-          };
+            // Fresh extractions wait for human review
+            status: 'draft',
+            extracted_by: extractedBy,
+          }, overrides);
           
           // Validate final NoteCard against schema
           NoteCardSchema.parse(noteCard);
@@ -954,7 +1027,7 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
             attempts,
           };
           
-          await logExtractionError(this.fileService, this.pluginDataDir, extractionError);
+          await this.logExtractionError(extractionError);
           
           return {
             success: false,
@@ -977,6 +1050,104 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
     }
   }
   
+  /**
+   * Call the LLM for each chunk of a note and merge the partial outputs
+   * 
+   * @param partials - Outputs of chunks already extracted (filled in place, by chunk index)
+   * @param extractors - Config that answered for each chunk (filled in place, by chunk index)
+   */
+  private async extractNoteCardOutput(
+    notePath: string,
+    chunks: string[],
+    partials: LLMNoteCardOutput[],
+    extractors: LLMConfig[],
+    contentHash: string,
+    currentDate: string
+  ): Promise<{ output: LLMNoteCardOutput; extractedBy: NoteCard['extracted_by'] }> {
+    for (let i = 0; i < chunks.length; i++) {
+      if (partials[i]) {
+        continue;
+      }
+      
+      // Build prompt (date only: detected_date is set by the caller, and a full
+      // timestamp would make every prompt unique to the response cache)
+      const prompt = await getNoteCardPrompt(
+        this.promptStore,
+        notePath,
+        chunks[i],
+        contentHash,
+        currentDate.split('T')[0]
+      );
+      
+      // Call LLM expecting JSON output (falls through the extract chain)
+      partials[i] = await this.llmClient.callJSON(
+        'extract',
+        prompt,
+        LLMNoteCardOutputSchema,
+        {
+          maxRetries: 0, // The caller handles retries
+          usage: { operation: 'note_card', note_path: notePath },
+          sensitive: true,
+          onProvider: (config) => {
+            extractors[i] = config;
+          },
+        }
+      );
+    }
+    
+    if (chunks.length > 1) {
+      console.log(`Extracted ${notePath} in ${chunks.length} chunks`);
+    }
+    
+    // A chunk sent to an external provider outranks local ones, so the card
+    // never claims to have stayed on this machine when part of it did not
+    const extractor = extractors.find(config => config && isExternalConfig(config, this.settings)) ?? extractors[0];
+    
+    return {
+      output: { ...partials[0], ...mergeNoteCardContents(partials) },
+      extractedBy: extractor && { provider: extractor.provider, model: extractor.model },
+    };
+  }
+  
+  /**
+   * Parse the careeros block of a note's frontmatter
+   */
+  private readNoteCardOverrides(content: string, notePath: string): NoteCardOverrides | null {
+    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+    if (!frontmatterMatch) {
+      return null;
+    }
+    
+    try {
+      return parseNoteCardOverrides(parseYaml(frontmatterMatch[1]), notePath);
+    } catch (error) {
+      console.warn(`Failed to parse frontmatter of ${notePath}:`, error);
+      return null;
+    }
+  }
+  
+  private getChunkMaxTokens(): number {
+    return this.settings.chunkMaxTokens ?? DEFAULT_CHUNK_MAX_TOKENS;
+  }
+  
+  /**
+   * Why a note is left out of indexing, or null when it is indexed
+   * 
+   * Besides the privacy rules, notes CareerOS writes itself are skipped.
+   */
+  private getExclusionReason(notePath: string, tags: string[]): string | null {
+    if (this.privacyGuard.shouldExclude(notePath, tags)) {
+      return 'Note excluded by privacy rules';
+    }
+    if (isTaskDirectoryNote(notePath, this.settings)) {
+      return 'Plan tasks note';
+    }
+    if (isWeeklyReviewNote(notePath, this.settings)) {
+      return 'Weekly review note';
+    }
+    return null;
+  }
+  
   /**
    * Extract tags from note content (frontmatter and inline)
    */
@@ -1062,6 +1233,97 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
     };
   }
 
+  // ============================================================================
+  // Human Review
+  // ============================================================================
+
+  /**
+   * NoteCards waiting for review, most recently extracted first
+   * Cards without a status (extracted before review existed) count as drafts.
+   */
+  async listDraftCards(): Promise<NoteCard[]> {
+    const cards = await this.indexStore.listNoteCards();
+    
+    return cards
+      .filter(card => !card.deleted && card.status !== 'confirmed')
+      .sort((a, b) => b.detected_date.localeCompare(a.detected_date));
+  }
+
+  /**
+   * Save a card edited in the review queue
+   * 
+   * The hash is kept, so the edits stand until the note itself changes and
+   * is extracted again (which returns the card to draft).
+   * 
+   * @param confirm - Mark the card confirmed; otherwise it stays a draft
+   */
+  async saveReviewedCard(card: NoteCard, confirm: boolean): Promise<NoteCard> {
+    const existing = await this.indexStore.readNoteCard(card.note_path);
+    if (!existing) {
+      throw new Error(`NoteCard not found: ${card.note_path}`);
+    }
+    
+    const reviewed: NoteCard = {
+      ...existing,
+      summary: card.summary,
+      tech_stack: card.tech_stack,
+      preferences: card.preferences,
+      evidence: card.evidence,
+      status: confirm ? 'confirmed' : 'draft',
+    };
+    
+    NoteCardSchema.parse(reviewed);
+    await this.indexStore.writeNoteCard(reviewed);
+    await this.syncVectorIndex(rag => rag.upsertCard(reviewed));
+    
+    return reviewed;
+  }
+
+  // ============================================================================
+  // Profile Diff
+  // ============================================================================
+
+  /**
+   * Write a Markdown report of what changed between two profile snapshots
+   * 
+   * Without ids the latest snapshot is compared with the one before it.
+   * 
+   * @returns Vault path of the report, or null when fewer than two snapshots exist
+   */
+  async writeProfileDiffReport(fromId?: string, toId?: string): Promise<string | null> {
+    if (!this.profileHistory) {
+      throw new Error('Profile history not available');
+    }
+    
+    const snapshots = await this.profileHistory.listSnapshots();
+    const toEntry = toId ? snapshots.find(s => s.id === toId) : snapshots[snapshots.length - 1];
+    const fromEntry = fromId
+      ? snapshots.find(s => s.id === fromId)
+      : snapshots[snapshots.length - 2];
+    if (!fromEntry || !toEntry) {
+      return null;
+    }
+    
+    // Always report from the older build to the newer one
+    const [older, newer] = fromEntry.built_at <= toEntry.built_at ? [fromEntry, toEntry] : [toEntry, fromEntry];
+    const before = await this.profileHistory.readSnapshot(older.id);
+    const after = await this.profileHistory.readSnapshot(newer.id);
+    if (!before || !after) {
+      throw new Error('Profile snapshot could not be read');
+    }
+    
+    const cards = await this.indexStore.listNoteCards();
+    const diff = diffProfiles(before, after, cards);
+    
+    const stamp = (date: string) => date.slice(0, 19).replace(/[:T]/g, '-');
+    const reportPath = `${this.settings.mappingDirectory}/profile_diff_${stamp(older.built_at)}_to_${stamp(newer.built_at)}.md`;
+    await this.fileService.write(reportPath, renderProfileDiffMarkdown(diff));
+    
+    console.log(`Profile diff report saved to: ${reportPath}`);
+    
+    return reportPath;
+  }
+
   // ============================================================================
   // Cold Start Indexing
   // Requirements: 4.1, 4.2, 4.3, 15.1, 15.2, 15.3
@@ -1135,7 +1397,7 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       const tags = this.extractTags(content);
       
       // Check exclusion rules (Property 9)
-      if (this.privacyGuard.shouldExclude(normalizedPath, tags)) {
+      if (this.getExclusionReason(normalizedPath, tags)) {
         continue;
       }
       
@@ -1164,8 +1426,16 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
    * - 15.2: Dry-run displays results without writing files
    * - 15.3: Dry-run does not write card files
    * 
+   * With a BudgetGuard, the projected cost is passed to `options.onEstimate`
+   * before any LLM call, and the queue pauses once a per-run or per-day cap
+   * is reached (`options.onBudgetExceeded` is notified).
+   * 
+   * With an IndexJournal, tasks are journaled to disk so an interrupted run
+   * can be resumed, and notes that failed `maxIndexAttempts` times are left
+   * out until they are edited.
+   * 
    * @param directories - Array of directory paths to scan (empty = scan entire vault)
-   * @param options - Index options (dryRun, maxNotes, concurrency)
+   * @param options - Index options (dryRun, maxNotes, concurrency, budget callbacks)
    * @param onProgress - Progress callback for UI updates
    * @returns IndexResult with statistics
    */
@@ -1184,13 +1454,122 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
     const allNotes = await this.scanDirectories(directories);
     
     // Step 2: Filter to only unindexed notes (check hash against existing cards)
-    let notesToProcess = await this.filterUnindexedNotes(allNotes);
+    // whose errors were not ignored in the error log
+    let notesToProcess = await this.filterIgnoredNotes(await this.filterUnindexedNotes(allNotes));
     
     // Step 3: Apply maxNotes limit for dry-run mode
     if (maxNotes !== undefined && maxNotes > 0) {
       notesToProcess = notesToProcess.slice(0, maxNotes);
     }
     
+    // If no notes to process, return early
+    if (notesToProcess.length === 0) {
+      return { totalNotes: 0, processedNotes: 0, failedNotes: 0, errors: [] };
+    }
+    
+    // For dry-run mode, process without writing files
+    if (dryRun) {
+      return await this.dryRunIndex(notesToProcess, onProgress);
+    }
+    
+    // Leave out notes that keep failing
+    const retryable = await this.filterExhaustedNotes(notesToProcess);
+    const skippedNotes = notesToProcess.length - retryable.length;
+    if (skippedNotes > 0) {
+      console.log(`Skipping ${skippedNotes} notes that failed ${this.settings.maxIndexAttempts ?? DEFAULT_MAX_INDEX_ATTEMPTS} times`);
+    }
+    
+    const result = await this.runIndexQueue(retryable, { ...options, concurrency }, onProgress);
+    return skippedNotes > 0 ? { ...result, skippedNotes } : result;
+  }
+
+  /**
+   * Resume a cold start run that was interrupted by closing Obsidian
+   * 
+   * Picks up the journaled pending and running notes without rescanning
+   * and re-hashing the vault. Returns an empty result when there is nothing to resume.
+   */
+  async resumeInterruptedIndex(
+    options: IndexOptions = {},
+    onProgress?: IndexProgressCallback
+  ): Promise<IndexResult> {
+    const run = await this.getInterruptedIndexRun();
+    const notePaths = await this.filterIgnoredNotes((run?.notePaths ?? []).filter(
+      notePath => this.app.vault.getAbstractFileByPath(notePath) instanceof TFile
+    ));
+    
+    return await this.runIndexQueue(
+      notePaths,
+      { ...options, concurrency: options.concurrency ?? this.settings.concurrency },
+      onProgress
+    );
+  }
+
+  /**
+   * Unfinished notes of an interrupted cold start run, if any
+   */
+  async getInterruptedIndexRun(): Promise<{ startedAt: string; notePaths: string[] } | null> {
+    return this.indexJournal ? await this.indexJournal.getInterruptedRun() : null;
+  }
+
+  /**
+   * Forget an interrupted run instead of resuming it
+   */
+  async discardInterruptedIndexRun(): Promise<void> {
+    await this.indexJournal?.endRun();
+  }
+
+  /**
+   * Drop notes whose errors were ignored in the error log
+   */
+  private async filterIgnoredNotes(notePaths: string[]): Promise<string[]> {
+    if (!this.indexJournal) {
+      return notePaths;
+    }
+    
+    const kept: string[] = [];
+    for (const notePath of notePaths) {
+      if (!(await this.indexJournal.isIgnored(notePath))) {
+        kept.push(notePath);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Drop notes that used up their attempts and were not edited since
+   */
+  private async filterExhaustedNotes(notePaths: string[]): Promise<string[]> {
+    if (!this.indexJournal) {
+      return notePaths;
+    }
+    
+    const retryable: string[] = [];
+    for (const notePath of notePaths) {
+      if (!(await this.indexJournal.isExhausted(notePath, this.getModifiedAt(notePath)))) {
+        retryable.push(notePath);
+      }
+    }
+    return retryable;
+  }
+
+  /**
+   * Modification time of a note (epoch ms), 0 when unknown
+   */
+  private getModifiedAt(notePath: string): number {
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    return file instanceof TFile ? file.stat?.mtime ?? 0 : 0;
+  }
+
+  /**
+   * Extract NoteCards for the given notes through the task queue
+   * Shared by a fresh cold start and a resumed run.
+   */
+  private async runIndexQueue(
+    notesToProcess: string[],
+    options: IndexOptions & { concurrency: number },
+    onProgress?: IndexProgressCallback
+  ): Promise<IndexResult> {
     // Initialize result tracking
     const result: IndexResult = {
       totalNotes: notesToProcess.length,
@@ -1199,24 +1578,49 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       errors: [],
     };
     
-    // If no notes to process, return early
     if (notesToProcess.length === 0) {
       return result;
     }
     
-    // For dry-run mode, process without writing files
-    if (dryRun) {
-      return await this.dryRunIndex(notesToProcess, onProgress);
+    // Step 4: Show the projected cost and check spending caps before any LLM call
+    if (this.budgetGuard) {
+      if (options.onEstimate) {
+        const estimate = await this.estimateColdStart(notesToProcess);
+        if (!(await options.onEstimate(estimate))) {
+          return { ...result, aborted: true };
+        }
+      }
+      
+      const budgetStatus = await this.budgetGuard.check();
+      if (budgetStatus.exceeded) {
+        options.onBudgetExceeded?.(budgetStatus);
+        return { ...result, budgetExceeded: true };
+      }
+      
+      this.budgetGuard.startRun();
     }
     
-    // Step 4: Create task queue with QueueManager
+    // Journal the run so it can be resumed after a restart
+    await this.indexJournal?.beginRun(notesToProcess);
+    
+    // Step 5: Create task queue with QueueManager
     this.currentQueueManager = createQueueManager(
       async (task: Task) => {
         const notePath = task.data.notePath as string;
-        return await this.processNote(notePath);
+        await this.indexJournal?.markRunning(notePath, this.getModifiedAt(notePath));
+        const processResult = await this.processNote(notePath);
+        if (processResult.success) {
+          await this.indexJournal?.markDone(notePath);
+          await this.resolveLoggedErrors(notePath);
+        } else {
+          await this.indexJournal?.markFailed(notePath, processResult.error || 'Unknown error');
+        }
+        return processResult;
       },
       {
-        concurrency,
+        concurrency: options.concurrency,
+        rateLimiter: this.rateLimiter,
+        estimateTokens: (task: Task) => this.estimateNoteTokens(task.data.notePath as string),
         onProgress: (status) => {
           if (onProgress) {
             onProgress(status);
@@ -1241,28 +1645,102 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
               error: taskResult.error?.message || 'Unknown error',
             });
           }
+          
+          this.enforceBudget(options.onBudgetExceeded);
         },
       }
     );
     
-    // Step 5: Enqueue all notes as tasks
+    // Step 6: Enqueue all notes as tasks
     for (const notePath of notesToProcess) {
       const task = createTask('extract_note', { notePath });
       await this.currentQueueManager.enqueue(task);
     }
     
-    // Step 6: Start processing
+    // Step 7: Start processing
     this.currentQueueManager.start();
     
-    // Step 7: Wait for completion
+    // Step 8: Wait for completion
     await this.currentQueueManager.waitForCompletion();
     
     // Clear queue manager reference
     this.currentQueueManager = undefined;
+    this.budgetGuard?.endRun();
+    await this.indexJournal?.endRun();
     
     return result;
   }
 
+  /**
+   * Project tokens, cost and time of extracting NoteCards for the given notes
+   */
+  async estimateColdStart(notePaths: string[]): Promise<CostEstimate> {
+    if (!this.budgetGuard) {
+      throw new Error('BudgetGuard not configured');
+    }
+    
+    const contents: string[] = [];
+    let requests = 0;
+    
+    for (const notePath of notePaths) {
+      const file = this.app.vault.getAbstractFileByPath(normalizePath(notePath));
+      if (file instanceof TFile) {
+        const content = await this.app.vault.read(file);
+        contents.push(content);
+        requests += splitNoteIntoChunks(content, this.getChunkMaxTokens()).length;
+      }
+    }
+    
+    // Template tokens are paid once per request (one per chunk) on top of the note content
+    const template = await getNoteCardPrompt(this.promptStore, '', '', '', '');
+    const overhead = estimateTokens(template);
+    
+    return this.budgetGuard.estimate(contents, overhead, requests);
+  }
+
+  /**
+   * Estimated tokens of one NoteCard extraction, for tokens-per-minute throttling
+   * Only reads the note when a token limit is configured.
+   */
+  private async estimateNoteTokens(notePath: string): Promise<number> {
+    if (!this.settings.tokensPerMinute) {
+      return 0;
+    }
+    
+    if (this.promptOverheadTokens === undefined) {
+      this.promptOverheadTokens = estimateTokens(await getNoteCardPrompt(this.promptStore, '', '', '', ''));
+    }
+    
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(notePath));
+    const content = file instanceof TFile ? await this.app.vault.read(file) : '';
+    
+    const requests = splitNoteIntoChunks(content, this.getChunkMaxTokens()).length;
+    
+    return estimateTokens(content) + requests * (this.promptOverheadTokens + ESTIMATED_COMPLETION_TOKENS_PER_NOTE);
+  }
+
+  /**
+   * Pause the cold start queue once a budget cap is reached
+   * Runs after each finished task; concurrent checks only notify once.
+   */
+  private async enforceBudget(onBudgetExceeded?: IndexOptions['onBudgetExceeded']): Promise<void> {
+    if (!this.budgetGuard?.isEnforced()) {
+      return;
+    }
+    
+    try {
+      const status = await this.budgetGuard.check();
+      const queue = this.currentQueueManager;
+      if (status.exceeded && queue?.isRunning()) {
+        queue.pause();
+        console.log(`Indexing paused: ${status.reason}`);
+        onBudgetExceeded?.(status);
+      }
+    } catch (error) {
+      console.error('Budget check failed:', error);
+    }
+  }
+
   /**
    * Dry-run indexing - process notes without writing files
    * 
@@ -1365,6 +1843,9 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
         console.log(`  Type: ${dryResult.noteCard.type}`);
         console.log(`  Summary: ${dryResult.noteCard.summary.substring(0, 100)}...`);
         console.log(`  Skills: ${dryResult.noteCard.tech_stack.map(t => t.name).join(', ')}`);
+        if (dryResult.noteCard.extracted_by) {
+          console.log(`  Extracted by: ${dryResult.noteCard.extracted_by.provider}/${dryResult.noteCard.extracted_by.model}`);
+        }
       } else if (dryResult.skipped) {
         console.log(`⊘ ${dryResult.path} (skipped: ${dryResult.skipReason})`);
       } else {
@@ -1404,11 +1885,12 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       const tags = this.extractTags(content);
       
       // Check exclusion rules (Property 9)
-      if (this.privacyGuard.shouldExclude(normalizedPath, tags)) {
+      const exclusionReason = this.getExclusionReason(normalizedPath, tags);
+      if (exclusionReason) {
         return {
           success: true,
           skipped: true,
-          skipReason: 'Note excluded by privacy rules',
+          skipReason: exclusionReason,
         };
       }
       
@@ -1435,14 +1917,13 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       // Get current date for detected_date
       const currentDate = new Date().toISOString();
       
-      // Build prompt
-      const prompt = await getNoteCardPrompt(
-        this.promptStore,
-        normalizedPath,
-        filteredContent,
-        contentHash,
-        currentDate
-      );
+      // Long notes are extracted in chunks; parts that succeeded are kept across retries
+      const chunks = splitNoteIntoChunks(filteredContent, this.getChunkMaxTokens());
+      const partials: LLMNoteCardOutput[] = [];
+      const extractors: LLMConfig[] = [];
+      
+      // Fields pinned in the note's careeros frontmatter
+      const overrides = this.readNoteCardOverrides(content, normalizedPath);
       
       // Call LLM with retry logic (Property 15)
       let noteCard: NoteCard;
@@ -1453,16 +1934,17 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
         attempts++;
         
         try {
-          // Call LLM expecting JSON output
-          const llmOutput = await this.llmClient.callJSON(
-            'extract',
-            prompt,
-            LLMNoteCardOutputSchema,
-            { maxRetries: 0 } // We handle retries ourselves
+          const { output: llmOutput, extractedBy } = await this.extractNoteCardOutput(
+            normalizedPath,
+            chunks,
+            partials,
+            extractors,
+            contentHash,
+            currentDate
           );
           
-          // Ensure required fields are set correctly
-          noteCard = {
+          // Ensure required fields are set correctly (hash covers the whole note)
+          noteCard = applyNoteCardOverrides({
             ...llmOutput,
             schema_version: CURRENT_SCHEMA_VERSION,
             note_path: normalizedPath,
@@ -1470,7 +1952,10 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
             detected_date: currentDate,
             // Infer last_updated if LLM didn't provide a good value
             last_updated: llmOutput.last_updated || inferLastUpdated(content, file.name, file),
-          };
+            // Fresh extractions wait for human review
+            status: 'draft',
+            extracted_by: extractedBy,
+          }, overrides);
           
           // Validate final NoteCard against schema
           NoteCardSchema.parse(noteCard);
@@ -1635,14 +2120,18 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       const tags = this.extractTags(content);
       
       // Check exclusion rules (Property 9)
-      if (this.privacyGuard.shouldExclude(notePath, tags)) {
+      const exclusionReason = this.getExclusionReason(notePath, tags);
+      if (exclusionReason) {
         return {
           action: 'skipped',
-          reason: 'Note excluded by privacy rules',
+          reason: exclusionReason,
           notePath,
         };
       }
       
+      // An edit gives a note whose errors were ignored another try
+      await this.indexJournal?.unignoreNotes([notePath]);
+      
       const currentHash = calculateContentHash(content);
       
       // Get existing card (Requirement 2.1)
@@ -1692,6 +2181,9 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
     const normalizedNewPath = normalizePath(newPath);
     
     try {
+      // An ignore belongs to the old path only
+      await this.indexJournal?.unignoreNotes([normalizedOldPath]);
+      
       // Read existing card
       const existingCard = await this.indexStore.readNoteCard(normalizedOldPath);
       
@@ -1720,6 +2212,9 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       // Delete old card file
       await this.indexStore.deleteNoteCard(normalizedOldPath);
       
+      // Move the stored vector along with the card
+      await this.syncVectorIndex(rag => rag.renameNote(normalizedOldPath, normalizedNewPath));
+      
       console.log(`NoteCard relocated: ${normalizedOldPath} -> ${normalizedNewPath}`);
       
       return {
@@ -1755,6 +2250,8 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
     const normalizedPath = normalizePath(notePath);
     
     try {
+      await this.indexJournal?.unignoreNotes([normalizedPath]);
+      
       // Read existing card
       const existingCard = await this.indexStore.readNoteCard(normalizedPath);
       
@@ -1776,6 +2273,9 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       // Write updated card (don't physically remove)
       await this.indexStore.writeNoteCard(updatedCard);
       
+      // Deleted notes must not be retrieved as evidence
+      await this.syncVectorIndex(rag => rag.removeNote(normalizedPath));
+      
       console.log(`NoteCard marked as deleted: ${normalizedPath}`);
       
       return {
@@ -1805,10 +2305,24 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       this.incrementalQueueManager = createQueueManager(
         async (task: Task) => {
           const taskNotePath = task.data.notePath as string;
-          return await this.processNote(taskNotePath);
+          const result = await this.processNote(taskNotePath);
+          
+          if (result.success) {
+            await this.resolveLoggedErrors(taskNotePath);
+          }
+          
+          // Re-embed the refreshed card so retrieval sees the new content
+          const noteCard = result.noteCard;
+          if (result.success && noteCard) {
+            await this.syncVectorIndex(rag => rag.upsertCard(noteCard));
+          }
+          
+          return result;
         },
         {
           concurrency: 1, // Process one at a time for incremental updates
+          rateLimiter: this.rateLimiter,
+          estimateTokens: (task: Task) => this.estimateNoteTokens(task.data.notePath as string),
           onTaskComplete: (result: TaskResult) => {
             if (result.success) {
               console.log(`Incremental update completed: ${result.taskId}`);
@@ -1818,18 +2332,78 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
           },
         }
       );
-      
-      // Start the queue
-      this.incrementalQueueManager.start();
     }
     
     // Create and enqueue task
     const task = createTask('extract_note', { notePath }, 0);
     await this.incrementalQueueManager.enqueue(task);
     
+    // (Re)start the queue; it goes idle whenever it runs empty
+    this.incrementalQueueManager.start();
+    
     console.log(`Note queued for incremental update: ${notePath}`);
   }
 
+  /**
+   * Apply a change to the RAG vector index when retrieval is enabled
+   * 
+   * Embedding failures are logged but never fail the card operation itself;
+   * a later full sync will pick up any missed cards.
+   */
+  private async syncVectorIndex(update: (rag: RagEngine) => Promise<unknown>): Promise<void> {
+    if (!this.ragEngine || !this.ragEngine.isEnabled()) {
+      return;
+    }
+    
+    try {
+      await update(this.ragEngine);
+    } catch (error) {
+      console.error('Failed to update vector index:', error);
+    }
+  }
+
+  /**
+   * Re-extract notes listed in the error log through the incremental queue
+   * 
+   * Their log entries are marked resolved once extraction succeeds.
+   * 
+   * @returns Paths that were queued (notes no longer in the vault are left out)
+   */
+  async retryNotes(notePaths: string[]): Promise<string[]> {
+    const queued: string[] = [];
+    
+    for (const notePath of new Set(notePaths.map(p => normalizePath(p)))) {
+      if (this.app.vault.getAbstractFileByPath(notePath) instanceof TFile) {
+        await this.addToIncrementalQueue(notePath);
+        queued.push(notePath);
+      }
+    }
+    
+    return queued;
+  }
+
+  /**
+   * Append an extraction failure to the error log; failures are logged, not thrown
+   */
+  private async logExtractionError(error: ExtractionError): Promise<void> {
+    try {
+      await this.logger?.logExtractionError(error.path, error.error, error.attempts);
+    } catch (logError) {
+      console.error('Failed to write to error log:', logError);
+    }
+  }
+
+  /**
+   * Mark error log entries of a note resolved after it was indexed
+   */
+  private async resolveLoggedErrors(notePath: string): Promise<void> {
+    try {
+      await this.logger?.resolveEntriesForPath(notePath);
+    } catch (error) {
+      console.error(`Failed to update error log for ${notePath}:`, error);
+    }
+  }
+
   /**
    * Get incremental queue status
    */
@@ -1868,7 +2442,7 @@ ${profile.preferences.traits.length > 0 ? profile.preferences.traits.map(t => `-
       attempts: 0,
     };
     
-    await logExtractionError(this.fileService, this.pluginDataDir, extractionError);
+    await this.logExtractionError(extractionError);
     
     // Try to regenerate by processing the note
     return await this.processNote(normalizedPath);
@@ -1885,7 +2459,14 @@ export function createProfileEngine(
   indexStore: IndexStore,
   promptStore: PromptStore,
   privacyGuard: PrivacyGuard,
-  pluginDataDir: string
+  pluginDataDir: string,
+  ragEngine?: RagEngine,
+  budgetGuard?: BudgetGuard,
+  rateLimiter?: RateLimiter,
+  indexJournal?: IndexJournal,
+  logger?: Logger,
+  profileHistory?: ProfileHistory,
+  taskBridge?: TaskBridge
 ): ProfileEngine {
   return new ProfileEngine(
     app,
@@ -1894,6 +2475,13 @@ export function createProfileEngine(
     indexStore,
     promptStore,
     privacyGuard,
-    pluginDataDir
+    pluginDataDir,
+    ragEngine,
+    budgetGuard,
+    rateLimiter,
+    indexJournal,
+    logger,
+    profileHistory,
+    taskBridge
   );
 }
@@ -0,0 +1,89 @@
+/**
+ * ProfileHistory Tests
+ *
+ * Unit tests for snapshot storage, eviction and skill level series
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProfileHistory, MAX_PROFILE_SNAPSHOTS } from './ProfileHistory';
+import { SelfProfile } from './types';
+import { createMockApp } from './test-mocks/vault';
+
+const createProfile = (builtAt: string, levels: Record<string, number>): SelfProfile => ({
+  schema_version: 1,
+  skills: Object.entries(levels).map(([name, level]) => ({
+    name,
+    level,
+    evidence_notes: [],
+    last_active: builtAt.split('T')[0],
+  })),
+  preferences: { likes: [], dislikes: [], traits: [] },
+  projects: [],
+  last_built: builtAt,
+});
+
+describe('ProfileHistory', () => {
+  let app: any;
+  let files: Map<string, string>;
+
+  beforeEach(() => {
+    const mock = createMockApp();
+    app = mock.app;
+    files = mock.files;
+  });
+
+  it('should store full snapshots and read them back', async () => {
+    const history = new ProfileHistory(app, 'plugin');
+    const profile = createProfile('2024-05-01T10:00:00.000Z', { React: 3.5 });
+    await history.record(profile);
+
+    // A fresh instance reads the index back from disk
+    const reloaded = new ProfileHistory(app, 'plugin');
+    const snapshots = await reloaded.listSnapshots();
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].skill_levels).toEqual({ React: 3.5 });
+    expect(await reloaded.readSnapshot(snapshots[0].id)).toEqual(profile);
+  });
+
+  it('should build a skill series from its first appearance', async () => {
+    const history = new ProfileHistory(app, 'plugin');
+    await history.record(createProfile('2024-01-01T00:00:00.000Z', { React: 2 }));
+    await history.record(createProfile('2024-02-01T00:00:00.000Z', { React: 2.5, Go: 1 }));
+    await history.record(createProfile('2024-03-01T00:00:00.000Z', { React: 3 }));
+
+    expect(await history.getSkillSeries('Go')).toEqual([
+      { date: '2024-02-01T00:00:00.000Z', level: 1 },
+      { date: '2024-03-01T00:00:00.000Z', level: 0 },
+    ]);
+    expect((await history.getSkillSeries('React')).map(p => p.level)).toEqual([2, 2.5, 3]);
+    expect(await history.getSkillSeries('Rust')).toEqual([]);
+  });
+
+  it('should include the level from plan tasks when a snapshot has one', async () => {
+    const history = new ProfileHistory(app, 'plugin');
+    await history.record(createProfile('2024-01-01T00:00:00.000Z', { Python: 2 }));
+    const withTasks = createProfile('2024-02-01T00:00:00.000Z', { Python: 3 });
+    withTasks.skills[0].task_level = 0.8;
+    await history.record(withTasks);
+
+    expect(await history.getSkillSeries('Python')).toEqual([
+      { date: '2024-01-01T00:00:00.000Z', level: 2 },
+      { date: '2024-02-01T00:00:00.000Z', level: 3, task_level: 0.8 },
+    ]);
+  });
+
+  it('should drop the oldest snapshots beyond the limit', async () => {
+    const history = new ProfileHistory(app, 'plugin');
+    const start = new Date('2024-01-01T00:00:00.000Z').getTime();
+
+    for (let i = 0; i <= MAX_PROFILE_SNAPSHOTS; i++) {
+      await history.record(createProfile(new Date(start + i * 60000).toISOString(), { React: 1 }));
+    }
+
+    const snapshots = await history.listSnapshots();
+    expect(snapshots).toHaveLength(MAX_PROFILE_SNAPSHOTS);
+    expect(snapshots[0].built_at).toBe(new Date(start + 60000).toISOString());
+    expect(files.has('plugin/profile_history/self_profile_2024-01-01T00-00-00-000Z.json')).toBe(false);
+  });
+});
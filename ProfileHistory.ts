@@ -0,0 +1,159 @@
+/**
+ * ProfileHistory - Versioned SelfProfile snapshots
+ *
+ * Responsible for:
+ * - Storing a full copy of every built SelfProfile (profile_history/)
+ * - Keeping a small index with the skill levels of each snapshot
+ * - Per-skill level series for the dashboard timeline
+ *
+ * The index makes series cheap: only snapshots opened in full (e.g. for a
+ * diff) are read from disk.
+ */
+
+import { App } from 'obsidian';
+import { ProfileHistoryIndex, ProfileSnapshotEntry, SelfProfile, SkillLevelPoint } from './types';
+import { ProfileHistoryIndexSchema, SelfProfileSchema } from './schema';
+import { FileService } from './fs';
+import { WriteQueue } from './utils/writeQueue';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Snapshots kept; the oldest are removed beyond this
+ */
+export const MAX_PROFILE_SNAPSHOTS = 200;
+
+// ============================================================================
+// ProfileHistory Class
+// ============================================================================
+
+export class ProfileHistory {
+  private fileService: FileService;
+  private historyDir: string;
+  private indexPath: string;
+  private indexLoad: Promise<ProfileHistoryIndex> | null = null;
+  private writeQueue = new WriteQueue();
+
+  constructor(app: App, pluginDataDir: string) {
+    this.fileService = new FileService(app, pluginDataDir);
+    this.historyDir = `${pluginDataDir}/profile_history`;
+    this.indexPath = `${this.historyDir}/index.json`;
+  }
+
+  /**
+   * Store a snapshot of a freshly built profile
+   *
+   * Never throws: a failed snapshot must not fail the profile build.
+   */
+  async record(profile: SelfProfile): Promise<void> {
+    const entry: ProfileSnapshotEntry = {
+      id: `self_profile_${profile.last_built.replace(/[:.]/g, '-')}`,
+      built_at: profile.last_built,
+      skill_levels: Object.fromEntries(profile.skills.map(s => [s.name, s.level])),
+      task_levels: Object.fromEntries(profile.skills.filter(s => s.task_level).map(s => [s.name, s.task_level!])),
+    };
+
+    await this.enqueue(async () => {
+      await this.fileService.writeJSON(this.getSnapshotPath(entry.id), profile, SelfProfileSchema);
+
+      const index = await this.loadIndex();
+      index.snapshots = index.snapshots.filter(s => s.id !== entry.id);
+      index.snapshots.push(entry);
+
+      while (index.snapshots.length > MAX_PROFILE_SNAPSHOTS) {
+        const removed = index.snapshots.shift()!;
+        await this.fileService.delete(this.getSnapshotPath(removed.id));
+      }
+
+      await this.fileService.writeJSON(this.indexPath, index, ProfileHistoryIndexSchema);
+    });
+  }
+
+  /**
+   * All snapshots, oldest first
+   */
+  async listSnapshots(): Promise<ProfileSnapshotEntry[]> {
+    const index = await this.loadIndex();
+    return [...index.snapshots];
+  }
+
+  /**
+   * Read the full profile of a snapshot
+   *
+   * @returns null when the snapshot no longer exists
+   */
+  async readSnapshot(id: string): Promise<SelfProfile | null> {
+    try {
+      return await this.fileService.readJSON(this.getSnapshotPath(id), SelfProfileSchema);
+    } catch (error) {
+      console.error(`Failed to read profile snapshot ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Level of a skill in every snapshot since it first appeared
+   * Snapshots where the skill is missing count as level 0. The part coming
+   * from plan tasks is included when the snapshot has one.
+   */
+  async getSkillSeries(skillName: string): Promise<SkillLevelPoint[]> {
+    const index = await this.loadIndex();
+    const first = index.snapshots.findIndex(s => skillName in s.skill_levels);
+    if (first < 0) {
+      return [];
+    }
+
+    return index.snapshots.slice(first).map(s => {
+      const point: SkillLevelPoint = { date: s.built_at, level: s.skill_levels[skillName] ?? 0 };
+      const taskLevel = s.task_levels?.[skillName];
+      if (taskLevel !== undefined) {
+        point.task_level = taskLevel;
+      }
+      return point;
+    });
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private getSnapshotPath(id: string): string {
+    return `${this.historyDir}/${id}.json`;
+  }
+
+  /**
+   * Load the index once; concurrent callers share the same load
+   */
+  private loadIndex(): Promise<ProfileHistoryIndex> {
+    if (!this.indexLoad) {
+      this.indexLoad = (async () => {
+        try {
+          const index = await this.fileService.readJSON(this.indexPath, ProfileHistoryIndexSchema);
+          if (index) {
+            return index;
+          }
+        } catch (error) {
+          console.error('Failed to read profile history index, starting fresh:', error);
+        }
+        return { snapshots: [] };
+      })();
+    }
+    return this.indexLoad;
+  }
+
+  /**
+   * Serialize history writes; failures are logged, not thrown
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    return this.writeQueue.runLogged(task, 'Failed to record profile snapshot:');
+  }
+}
+
+/**
+ * Create a ProfileHistory instance
+ */
+export function createProfileHistory(app: App, pluginDataDir: string): ProfileHistory {
+  return new ProfileHistory(app, pluginDataDir);
+}
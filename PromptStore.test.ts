@@ -37,6 +37,32 @@ describe('EmbeddedPromptStore', () => {
       expect(prompt).toContain('{{target_role}}');
     });
 
+    it('should return gap analysis prompt template', () => {
+      const prompt = store.getPrompt('gapAnalysis', {});
+      expect(prompt).toContain('差距分析');
+      expect(prompt).toContain('matchPercentage');
+      expect(prompt).toContain('{{target_role}}');
+    });
+
+    it('should return target comparison prompt template', () => {
+      const prompt = store.getPrompt('targetComparison', {});
+      expect(prompt).toContain('推荐');
+      expect(prompt).toContain('{{target_comparison}}');
+    });
+
+    it('should return re-plan prompt template', () => {
+      const prompt = store.getPrompt('replan', {});
+      expect(prompt).toContain('修订');
+      expect(prompt).toContain('{{completed_tasks}}');
+      expect(prompt).toContain('{{remaining_weeks}}');
+    });
+
+    it('should return weekly review prompt template', () => {
+      const prompt = store.getPrompt('weeklyReview', {});
+      expect(prompt).toContain('下周重点');
+      expect(prompt).toContain('{{weekly_review}}');
+    });
+
     it('should throw error for unknown prompt', () => {
       expect(() => store.getPrompt('unknown' as any, {})).toThrow('Unknown prompt');
     });
@@ -8,13 +8,17 @@
 import { App, TFile } from 'obsidian';
 
 // Prompt template names
-export type PromptName = 'noteCard' | 'jdCard' | 'plan';
+export type PromptName = 'noteCard' | 'jdCard' | 'plan' | 'gapAnalysis' | 'targetComparison' | 'replan' | 'weeklyReview';
 
 // Mapping from prompt names to file paths
 const PROMPT_FILES: Record<PromptName, string> = {
   noteCard: 'prompts/noteCardPrompt.txt',
   jdCard: 'prompts/jdCardPrompt.txt',
   plan: 'prompts/planPrompt.txt',
+  gapAnalysis: 'prompts/gapAnalysisPrompt.txt',
+  targetComparison: 'prompts/targetComparisonPrompt.txt',
+  replan: 'prompts/replanPrompt.txt',
+  weeklyReview: 'prompts/weeklyReviewPrompt.txt',
 };
 
 // Variable interpolation pattern: {{variable_name}}
@@ -200,6 +204,86 @@ export async function getPlanPrompt(
   });
 }
 
+/**
+ * Helper function to generate the structured (JSON) gap analysis prompt
+ */
+export async function getGapAnalysisPrompt(
+  store: PromptStore,
+  selfProfileAnalysisView: string,
+  marketProfile: string,
+  targetRole: string,
+  targetLocation: string
+): Promise<string> {
+  return store.getPrompt('gapAnalysis', {
+    self_profile_analysis_view: selfProfileAnalysisView,
+    market_profile: marketProfile,
+    target_role: targetRole,
+    target_location: targetLocation,
+  });
+}
+
+/**
+ * Helper function to generate the multi-target recommendation prompt
+ */
+export async function getTargetComparisonPrompt(
+  store: PromptStore,
+  selfProfileAnalysisView: string,
+  targetComparison: string
+): Promise<string> {
+  return store.getPrompt('targetComparison', {
+    self_profile_analysis_view: selfProfileAnalysisView,
+    target_comparison: targetComparison,
+  });
+}
+
+/**
+ * Helper function to generate the re-plan prompt
+ */
+export async function getReplanPrompt(
+  store: PromptStore,
+  variables: {
+    selfProfileAnalysisView: string;
+    marketProfile: string;
+    gapAnalysis: string;
+    targetRole: string;
+    targetLocation: string;
+    weeklyHours: number;
+    periodWeeks: number;
+    elapsedWeeks: number;
+    remainingWeeks: number;
+    completedTasks: string;
+    openTasks: string;
+  }
+): Promise<string> {
+  return store.getPrompt('replan', {
+    self_profile_analysis_view: variables.selfProfileAnalysisView,
+    market_profile: variables.marketProfile,
+    gap_analysis: variables.gapAnalysis,
+    target_role: variables.targetRole,
+    target_location: variables.targetLocation,
+    weekly_hours: String(variables.weeklyHours),
+    period_weeks: String(variables.periodWeeks),
+    elapsed_weeks: String(variables.elapsedWeeks),
+    remaining_weeks: String(variables.remainingWeeks),
+    completed_tasks: variables.completedTasks,
+    open_tasks: variables.openTasks,
+  });
+}
+
+/**
+ * Helper function to generate the weekly review summary prompt
+ */
+export async function getWeeklyReviewPrompt(
+  store: PromptStore,
+  weeklyReview: string,
+  activePlan: string
+): Promise<string> {
+  return store.getPrompt('weeklyReview', {
+    weekly_review: weeklyReview,
+    active_plan: activePlan,
+  });
+}
+
 /**
  * Create a PromptStore instance with embedded prompts (for testing or fallback)
  * This version doesn't require file system access
@@ -291,9 +375,98 @@ export class EmbeddedPromptStore {
 生成 Markdown 格式的行动计划，包含：
 1. 差距分析摘要（匹配度、优势、差距）
 2. 阶段性目标
-3. 每周任务清单
+3. 每周任务清单（「### 第 N 周」下的「- [ ] [skill:技能名] 任务（预计 X 小时）」）
 4. 学习资源推荐
 5. 里程碑检查点`);
+
+    // Gap analysis prompt (simplified version for embedding)
+    this.prompts.set('gapAnalysis', `你是一个专业的职业规划顾问。
+
+# 任务
+根据用户画像和市场画像，给出结构化的差距分析。
+
+# 用户能力画像
+{{self_profile_analysis_view}}
+
+# 目标市场画像
+{{market_profile}}
+
+# 目标
+- 目标岗位：{{target_role}}
+- 目标地点：{{target_location}}
+
+# 输出要求
+返回一个 JSON 对象，包含：
+- matchPercentage: 0-100 的整体匹配度
+- summary: 整体评估
+- strengths: [{skill, reason}]
+- gaps: [{skillName, marketDemand, currentLevel, priority: "high" | "medium" | "low", suggestion}]
+
+直接返回 JSON，不要添加 Markdown 格式。`);
+
+    // Target comparison prompt (simplified version for embedding)
+    this.prompts.set('targetComparison', `你是一个专业的职业规划顾问。
+
+# 任务
+根据各目标方向的匹配度和技能差距，推荐优先投入的方向。
+
+# 用户能力画像
+{{self_profile_analysis_view}}
+
+# 各目标方向对比
+{{target_comparison}}
+
+# 输出要求
+用 Markdown 输出：推荐方向及理由、优先弥补的共同差距、各方向取舍、下一步建议。`);
+
+    // Re-plan prompt (simplified version for embedding)
+    this.prompts.set('replan', `你是一个专业的职业规划顾问。
+
+# 任务
+根据原计划的执行进度和最新差距分析，为剩余周期生成修订后的行动计划。
+
+# 用户能力画像
+{{self_profile_analysis_view}}
+
+# 目标市场画像
+{{market_profile}}
+
+# 最新差距分析
+{{gap_analysis}}
+
+# 原计划执行情况
+- 原计划周期：{{period_weeks}} 周，已过去 {{elapsed_weeks}} 周，剩余 {{remaining_weeks}} 周
+- 已完成的任务：
+{{completed_tasks}}
+- 未完成的任务：
+{{open_tasks}}
+
+# 约束条件
+- 目标岗位：{{target_role}}
+- 目标地点：{{target_location}}
+- 每周可用时间：{{weekly_hours}} 小时
+
+# 输出要求
+生成 Markdown 格式的修订计划，包含：
+1. 进度回顾
+2. 阶段性目标（周次从第 1 周重新开始）
+3. 每周任务清单（「### 第 N 周」下的「- [ ] [skill:技能名] 任务（预计 X 小时）」），不重复已完成任务
+4. 里程碑检查点`);
+
+    // Weekly review prompt (simplified version for embedding)
+    this.prompts.set('weeklyReview', `你是一个专业的职业规划顾问。
+
+# 任务
+根据用户本周的记录写一段周复盘总结，并建议下周的重点。
+
+# 本周记录
+{{weekly_review}}
+
+# 当前行动计划
+{{active_plan}}
+
+# 输出要求
+用 Markdown 输出「### 本周总结」（3-5 句话）和「### 下周重点」（2-4 条建议），不要重复输入数据。`);
   }
 
   /**
@@ -0,0 +1,174 @@
+/**
+ * RagEngine Tests
+ *
+ * Unit tests for the NoteCard vector index: similarity, sync and search
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RagEngine, cosineSimilarity, buildEmbeddingText } from './RagEngine';
+import { CareerOSSettings, LLMConfig, NoteCard } from './types';
+import { LLMClient } from './llmClient';
+import { IndexStore } from './IndexStore';
+import { createMockApp } from './test-mocks/vault';
+
+const createMockSettings = (embedding: LLMConfig): CareerOSSettings => ({
+  llmConfigs: {
+    extract: embedding,
+    analyze: embedding,
+    embedding,
+  },
+  openaiApiKey: '',
+  anthropicApiKey: '',
+  googleApiKey: '',
+  maxRetries: 0,
+  timeout: 30000,
+  concurrency: 1,
+  exclusionRules: { directories: [], tags: [] },
+  taxonomy: [],
+  dryRunEnabled: false,
+  dryRunMaxNotes: 10,
+  ragEnabled: true,
+  indexDirectory: 'test-index',
+  mappingDirectory: 'test-mapping',
+  marketCardsDirectory: 'test-market-cards',
+});
+
+const createCard = (notePath: string, summary: string, hash: string = 'h1'): NoteCard => ({
+  schema_version: 1,
+  note_path: notePath,
+  hash,
+  summary,
+  type: 'project',
+  time_span: '2024',
+  tech_stack: [],
+  topics: [],
+  preferences: { likes: [], dislikes: [], traits: [] },
+  evidence: [],
+  last_updated: '2024-01-01',
+  detected_date: '2024-01-01T00:00:00Z',
+});
+
+// Deterministic fake embeddings: one dimension per keyword
+const KEYWORDS = ['python', 'react', 'docker'];
+const fakeEmbed = async (texts: string[]) =>
+  texts.map(text => KEYWORDS.map(k => (text.toLowerCase().includes(k) ? 1 : 0)));
+
+describe('cosineSimilarity', () => {
+  it('should return 1 for identical vectors', () => {
+    expect(cosineSimilarity([1, 2, 3], [1, 2, 3])).toBeCloseTo(1);
+  });
+
+  it('should return 0 for orthogonal vectors', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it('should return 0 for mismatched or zero vectors', () => {
+    expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+  });
+});
+
+describe('buildEmbeddingText', () => {
+  it('should include summary, tech stack and evidence', () => {
+    const card = createCard('a.md', 'Built an API');
+    card.tech_stack = [{ name: 'Python', context: 'backend', level: '熟练' }];
+    card.evidence = ['Handled 1k QPS'];
+
+    const text = buildEmbeddingText(card);
+
+    expect(text).toContain('Built an API');
+    expect(text).toContain('Python');
+    expect(text).toContain('Handled 1k QPS');
+  });
+});
+
+describe('RagEngine', () => {
+  let settings: CareerOSSettings;
+  let llmClient: LLMClient;
+  let indexStore: IndexStore;
+  let files: Map<string, string>;
+  let engine: RagEngine;
+
+  beforeEach(() => {
+    const mock = createMockApp();
+    files = mock.files;
+    settings = createMockSettings({ provider: 'local', model: 'nomic-embed-text' });
+    llmClient = { embed: vi.fn(fakeEmbed) } as unknown as LLMClient;
+    indexStore = { listNoteCards: vi.fn(async () => []) } as unknown as IndexStore;
+    engine = new RagEngine(mock.app, settings, llmClient, indexStore, 'plugin');
+  });
+
+  it('should rank cards by similarity to the query', async () => {
+    await engine.upsertCard(createCard('py.md', 'Python service'));
+    await engine.upsertCard(createCard('fe.md', 'React dashboard'));
+
+    const results = await engine.search('python', 1);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].note_path).toBe('py.md');
+    expect(files.has('plugin/vector_index.json')).toBe(true);
+  });
+
+  it('should score each card by its best-matching query', async () => {
+    await engine.upsertCard(createCard('py.md', 'Python service'));
+    await engine.upsertCard(createCard('ops.md', 'Docker deployment'));
+
+    const results = await engine.searchMany(['react', 'docker'], 1);
+
+    expect(results[0].note_path).toBe('ops.md');
+    expect(results[0].matched_query).toBe('docker');
+  });
+
+  it('should skip re-embedding when the card hash is unchanged', async () => {
+    const card = createCard('py.md', 'Python service');
+
+    expect(await engine.upsertCard(card)).toBe(true);
+    expect(await engine.upsertCard(card)).toBe(false);
+    expect(llmClient.embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-embed a reviewed card whose hash is unchanged', async () => {
+    const card = createCard('py.md', 'Python service');
+    await engine.upsertCard(card);
+
+    expect(await engine.upsertCard({ ...card, summary: 'Python and Docker service' })).toBe(true);
+    expect(llmClient.embed).toHaveBeenCalledTimes(2);
+    expect((await engine.search('docker'))[0].note_path).toBe('py.md');
+
+    vi.mocked(indexStore.listNoteCards).mockResolvedValue([{ ...card, summary: 'React service' }]);
+    expect(await engine.syncAll()).toMatchObject({ embedded: 1, unchanged: 0 });
+  });
+
+  it('should move vectors on rename and drop them on delete', async () => {
+    await engine.upsertCard(createCard('old.md', 'Python service'));
+
+    await engine.renameNote('old.md', 'new.md');
+    expect((await engine.search('python'))[0].note_path).toBe('new.md');
+
+    await engine.removeNote('new.md');
+    expect(await engine.getEntryCount()).toBe(0);
+  });
+
+  it('should sync against IndexStore, embedding stale cards and removing orphans', async () => {
+    await engine.upsertCard(createCard('gone.md', 'React app'));
+    await engine.upsertCard(createCard('same.md', 'Docker', 'h1'));
+    vi.mocked(indexStore.listNoteCards).mockResolvedValue([
+      createCard('same.md', 'Docker', 'h1'),
+      createCard('new.md', 'Python', 'h2'),
+    ]);
+
+    const result = await engine.syncAll();
+
+    expect(result).toEqual({ embedded: 1, removed: 1, unchanged: 1, failed: 0 });
+    expect(await engine.getEntryCount()).toBe(2);
+  });
+
+  it('should discard vectors when the embedding model changes', async () => {
+    await engine.upsertCard(createCard('py.md', 'Python service'));
+
+    settings.llmConfigs.embedding = { provider: 'openai', model: 'text-embedding-3-small' };
+
+    expect(await engine.getEntryCount()).toBe(0);
+  });
+});
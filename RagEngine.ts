@@ -0,0 +1,382 @@
+/**
+ * RagEngine - Local vector index of NoteCards for retrieval-augmented analysis
+ *
+ * Responsible for:
+ * - Embedding NoteCard summary/evidence via the embedding role
+ * - Persisting vectors to the plugin data directory (vector_index.json)
+ * - Keeping vectors in sync with NoteCard writes, renames and deletions
+ * - Top-K cosine similarity search over indexed NoteCards
+ */
+
+import { App } from 'obsidian';
+import {
+  NoteCard,
+  CareerOSSettings,
+  VectorIndex,
+  VectorIndexEntry,
+  RetrievalResult,
+} from './types';
+import { VectorIndexSchema } from './schema';
+import { LLMClient } from './llmClient';
+import { IndexStore } from './IndexStore';
+import { FileService } from './fs';
+import { WriteQueue } from './utils/writeQueue';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RagSyncResult {
+  embedded: number;
+  removed: number;
+  unchanged: number;
+  failed: number;
+}
+
+/**
+ * Default number of NoteCards returned by search
+ */
+export const DEFAULT_RAG_TOP_K = 5;
+
+/**
+ * Number of cards embedded per batch during a full sync
+ */
+const SYNC_BATCH_SIZE = 16;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Cosine similarity between two vectors
+ * Returns 0 for empty, mismatched or zero-length vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Build the text embedded for a NoteCard: summary, tech stack and evidence
+ */
+export function buildEmbeddingText(card: NoteCard): string {
+  const parts: string[] = [card.summary];
+
+  if (card.tech_stack.length > 0) {
+    parts.push(`技术栈: ${card.tech_stack.map(t => t.name).join(', ')}`);
+  }
+
+  for (const evidence of card.evidence) {
+    parts.push(evidence);
+  }
+
+  return parts.filter(p => p.trim().length > 0).join('\n');
+}
+
+// ============================================================================
+// RagEngine Class
+// ============================================================================
+
+export class RagEngine {
+  private settings: CareerOSSettings;
+  private llmClient: LLMClient;
+  private indexStore: IndexStore;
+  private fileService: FileService;
+  private indexPath: string;
+  private index: VectorIndex | null = null;
+  private writeQueue = new WriteQueue();
+
+  constructor(
+    app: App,
+    settings: CareerOSSettings,
+    llmClient: LLMClient,
+    indexStore: IndexStore,
+    pluginDataDir: string
+  ) {
+    this.settings = settings;
+    this.llmClient = llmClient;
+    this.indexStore = indexStore;
+    this.fileService = new FileService(app, pluginDataDir);
+    this.indexPath = `${pluginDataDir}/vector_index.json`;
+  }
+
+  /**
+   * Update settings (e.g., when user changes configuration)
+   */
+  updateSettings(settings: CareerOSSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether retrieval is enabled in settings
+   */
+  isEnabled(): boolean {
+    return !!this.settings.ragEnabled;
+  }
+
+  /**
+   * Number of NoteCards currently indexed
+   */
+  async getEntryCount(): Promise<number> {
+    const index = await this.loadIndex();
+    return index.entries.length;
+  }
+
+  // ============================================================================
+  // Index Maintenance
+  // ============================================================================
+
+  /**
+   * Embed a NoteCard and store its vector
+   *
+   * Deleted cards are removed; cards whose hash and embedded text match the
+   * stored vector are skipped (the text differs after a review edit).
+   *
+   * @returns true if a new vector was written
+   */
+  async upsertCard(card: NoteCard): Promise<boolean> {
+    if (card.deleted) {
+      await this.removeNote(card.note_path);
+      return false;
+    }
+
+    const index = await this.loadIndex();
+    const existing = index.entries.find(e => e.note_path === card.note_path);
+    const text = buildEmbeddingText(card);
+    if (existing && existing.card_hash === card.hash && existing.text === text) {
+      return false;
+    }
+
+    const [vector] = await this.llmClient.embed([text], {
+      usage: { operation: 'embedding', note_path: card.note_path },
+    });
+
+    await this.mutate(current => {
+      current.entries = current.entries.filter(e => e.note_path !== card.note_path);
+      current.entries.push({
+        note_path: card.note_path,
+        card_hash: card.hash,
+        text,
+        vector,
+      });
+    });
+
+    return true;
+  }
+
+  /**
+   * Remove a note's vector from the index
+   */
+  async removeNote(notePath: string): Promise<void> {
+    const index = await this.loadIndex();
+    if (!index.entries.some(e => e.note_path === notePath)) {
+      return;
+    }
+
+    await this.mutate(current => {
+      current.entries = current.entries.filter(e => e.note_path !== notePath);
+    });
+  }
+
+  /**
+   * Move a note's vector to its new path (content unchanged, no re-embedding)
+   */
+  async renameNote(oldPath: string, newPath: string): Promise<void> {
+    const index = await this.loadIndex();
+    if (!index.entries.some(e => e.note_path === oldPath)) {
+      return;
+    }
+
+    await this.mutate(current => {
+      current.entries = current.entries
+        .filter(e => e.note_path !== newPath)
+        .map(e => (e.note_path === oldPath ? { ...e, note_path: newPath } : e));
+    });
+  }
+
+  /**
+   * Bring the vector index in line with all NoteCards in IndexStore
+   *
+   * Embeds new or changed cards in batches and drops vectors for deleted
+   * or missing cards. A failed batch is counted and skipped.
+   */
+  async syncAll(onProgress?: (done: number, total: number) => void): Promise<RagSyncResult> {
+    const result: RagSyncResult = { embedded: 0, removed: 0, unchanged: 0, failed: 0 };
+    const cards = (await this.indexStore.listNoteCards()).filter(c => !c.deleted);
+    const index = await this.loadIndex();
+
+    const livePaths = new Set(cards.map(c => c.note_path));
+    const byPath = new Map<string, VectorIndexEntry>();
+    for (const entry of index.entries) {
+      byPath.set(entry.note_path, entry);
+    }
+
+    const stale = cards.filter(card => {
+      const entry = byPath.get(card.note_path);
+      return !entry || entry.card_hash !== card.hash || entry.text !== buildEmbeddingText(card);
+    });
+    result.unchanged = cards.length - stale.length;
+
+    const orphaned = index.entries.filter(e => !livePaths.has(e.note_path));
+    result.removed = orphaned.length;
+
+    const fresh: VectorIndexEntry[] = [];
+    for (let start = 0; start < stale.length; start += SYNC_BATCH_SIZE) {
+      const batch = stale.slice(start, start + SYNC_BATCH_SIZE);
+      const texts = batch.map(buildEmbeddingText);
+
+      try {
+        const vectors = await this.llmClient.embed(texts);
+        batch.forEach((card, i) => {
+          fresh.push({
+            note_path: card.note_path,
+            card_hash: card.hash,
+            text: texts[i],
+            vector: vectors[i],
+          });
+        });
+        result.embedded += batch.length;
+      } catch (error) {
+        console.error('Failed to embed NoteCard batch:', error);
+        result.failed += batch.length;
+      }
+
+      onProgress?.(Math.min(start + SYNC_BATCH_SIZE, stale.length), stale.length);
+    }
+
+    const freshPaths = new Set(fresh.map(e => e.note_path));
+    await this.mutate(current => {
+      current.entries = current.entries
+        .filter(e => livePaths.has(e.note_path) && !freshPaths.has(e.note_path))
+        .concat(fresh);
+    });
+
+    console.log(
+      `Vector index synced: ${result.embedded} embedded, ${result.removed} removed, ` +
+      `${result.unchanged} unchanged, ${result.failed} failed`
+    );
+
+    return result;
+  }
+
+  // ============================================================================
+  // Search
+  // ============================================================================
+
+  /**
+   * Find the K NoteCards most similar to a query
+   */
+  async search(query: string, k: number = DEFAULT_RAG_TOP_K): Promise<RetrievalResult[]> {
+    return this.searchMany([query], k);
+  }
+
+  /**
+   * Find the K NoteCards most similar to any of several queries
+   *
+   * Each card is scored by its best-matching query, so a single call can
+   * gather evidence for a list of market skills.
+   */
+  async searchMany(queries: string[], k: number = DEFAULT_RAG_TOP_K): Promise<RetrievalResult[]> {
+    const index = await this.loadIndex();
+    const nonEmpty = queries.filter(q => q.trim().length > 0);
+
+    if (index.entries.length === 0 || nonEmpty.length === 0 || k <= 0) {
+      return [];
+    }
+
+    const queryVectors = await this.llmClient.embed(nonEmpty);
+
+    const results: RetrievalResult[] = index.entries.map(entry => {
+      let best: RetrievalResult = { note_path: entry.note_path, score: -1, matched_query: '' };
+      queryVectors.forEach((queryVector, i) => {
+        const score = cosineSimilarity(queryVector, entry.vector);
+        if (score > best.score) {
+          best = { note_path: entry.note_path, score, matched_query: nonEmpty[i] };
+        }
+      });
+      return best;
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  /**
+   * Load the vector index, discarding it if the embedding model changed
+   */
+  private async loadIndex(): Promise<VectorIndex> {
+    const config = this.settings.llmConfigs.embedding;
+
+    if (!this.index) {
+      try {
+        this.index = await this.fileService.readJSON(this.indexPath, VectorIndexSchema);
+      } catch (error) {
+        console.error('Failed to read vector index, starting fresh:', error);
+        this.index = null;
+      }
+    }
+
+    // Vectors from different models are not comparable
+    if (!this.index || this.index.provider !== config.provider || this.index.model !== config.model) {
+      this.index = {
+        provider: config.provider,
+        model: config.model,
+        updated_at: new Date().toISOString(),
+        entries: [],
+      };
+    }
+
+    return this.index;
+  }
+
+  /**
+   * Apply a change to the in-memory index and persist it
+   * Writes are serialized so concurrent updates never interleave on disk
+   */
+  private async mutate(change: (index: VectorIndex) => void): Promise<void> {
+    const run = async () => {
+      const index = await this.loadIndex();
+      change(index);
+      index.updated_at = new Date().toISOString();
+      // Compact JSON: pretty-printing puts every vector component on its own line
+      await this.fileService.write(this.indexPath, JSON.stringify(index));
+    };
+
+    return this.writeQueue.run(run);
+  }
+}
+
+/**
+ * Create a RagEngine instance
+ */
+export function createRagEngine(
+  app: App,
+  settings: CareerOSSettings,
+  llmClient: LLMClient,
+  indexStore: IndexStore,
+  pluginDataDir: string
+): RagEngine {
+  return new RagEngine(app, settings, llmClient, indexStore, pluginDataDir);
+}
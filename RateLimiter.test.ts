@@ -0,0 +1,104 @@
+/**
+ * RateLimiter Tests
+ *
+ * Unit tests for requests/tokens per minute buckets and Retry-After blocking
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimiter } from './RateLimiter';
+import { CareerOSSettings, LLMConfig } from './types';
+
+const createMockSettings = (requestsPerMinute: number, tokensPerMinute: number): CareerOSSettings => {
+  const config: LLMConfig = { provider: 'openai', model: 'gpt-4o-mini' };
+  return {
+    llmConfigs: { extract: config, analyze: config, embedding: config },
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    googleApiKey: '',
+    maxRetries: 0,
+    timeout: 30000,
+    concurrency: 1,
+    exclusionRules: { directories: [], tags: [] },
+    taxonomy: [],
+    dryRunEnabled: false,
+    dryRunMaxNotes: 10,
+    indexDirectory: 'test-index',
+    mappingDirectory: 'test-mapping',
+    marketCardsDirectory: 'test-market-cards',
+    requestsPerMinute,
+    tokensPerMinute,
+  };
+};
+
+describe('RateLimiter', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should admit everything when unlimited', () => {
+    const limiter = new RateLimiter(createMockSettings(0, 0), clock);
+
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.tryAcquire(10000)).toBe(0);
+    }
+  });
+
+  it('should spread requests evenly over the minute', () => {
+    const limiter = new RateLimiter(createMockSettings(2, 0), clock);
+
+    expect(limiter.tryAcquire(0)).toBe(0);
+    expect(limiter.tryAcquire(0)).toBe(0);
+    expect(limiter.tryAcquire(0)).toBe(30000);
+
+    now = 30000;
+    expect(limiter.tryAcquire(0)).toBe(0);
+  });
+
+  it('should wait for estimated tokens', () => {
+    const limiter = new RateLimiter(createMockSettings(0, 1000), clock);
+
+    expect(limiter.tryAcquire(800)).toBe(0);
+    expect(limiter.tryAcquire(500)).toBe(Math.ceil(300 * 60000 / 1000));
+  });
+
+  it('should only wait for a full bucket when a request exceeds the limit', () => {
+    const limiter = new RateLimiter(createMockSettings(0, 1000), clock);
+
+    expect(limiter.tryAcquire(5000)).toBe(0);
+    expect(limiter.tryAcquire(5000)).toBe(60000);
+  });
+
+  it('should block every request for a Retry-After window', () => {
+    const limiter = new RateLimiter(createMockSettings(0, 0), clock);
+
+    limiter.blockFor(5000);
+    expect(limiter.tryAcquire(0)).toBe(5000);
+
+    now = 5000;
+    expect(limiter.tryAcquire(0)).toBe(0);
+  });
+
+  it('should pick up changed limits without a restart', () => {
+    const settings = createMockSettings(0, 0);
+    const limiter = new RateLimiter(settings, clock);
+    expect(limiter.tryAcquire(0)).toBe(0);
+
+    settings.requestsPerMinute = 1;
+    expect(limiter.tryAcquire(0)).toBe(0);
+    expect(limiter.tryAcquire(0)).toBe(60000);
+  });
+
+  it('should stop waiting for capacity once cancelled', async () => {
+    const limiter = new RateLimiter(createMockSettings(1, 0));
+    const controller = new AbortController();
+
+    expect(await limiter.acquire(0, controller.signal)).toBe(true);
+
+    const pending = limiter.acquire(0, controller.signal);
+    controller.abort();
+    expect(await pending).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * RateLimiter - Requests-per-minute and tokens-per-minute throttling
+ *
+ * Responsible for:
+ * - Token buckets for requests/min and estimated tokens/min
+ * - Blocking all requests while a provider's Retry-After window is open
+ * - Reporting how long the next request has to wait
+ *
+ * Shared by the QueueManagers (which hold back tasks while there is no
+ * capacity) and the LLMClient (which takes capacity for every HTTP request,
+ * retries included, and reports Retry-After from rate limited responses).
+ */
+
+import { CareerOSSettings, RateLimitPreset } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Longest single wait in `acquire`, so cancellation and settings edits apply quickly
+ */
+const ACQUIRE_POLL_MS = 1000;
+
+/**
+ * Limits behind the slow/medium/fast presets (0 = unlimited)
+ */
+export const RATE_LIMIT_PRESETS: Record<Exclude<RateLimitPreset, 'custom'>, { requestsPerMinute: number; tokensPerMinute: number }> = {
+  off: { requestsPerMinute: 0, tokensPerMinute: 0 },
+  slow: { requestsPerMinute: 10, tokensPerMinute: 20000 },
+  medium: { requestsPerMinute: 30, tokensPerMinute: 60000 },
+  fast: { requestsPerMinute: 60, tokensPerMinute: 150000 },
+};
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+/**
+ * Bucket holding up to `capacity` units, refilled evenly over one minute
+ */
+class TokenBucket {
+  private available: number;
+  private updatedAt: number;
+
+  constructor(private capacity: number, now: number) {
+    this.available = capacity;
+    this.updatedAt = now;
+  }
+
+  setCapacity(capacity: number, now: number): void {
+    if (capacity === this.capacity) {
+      return;
+    }
+    // A bucket that was unlimited starts full
+    this.refill(now);
+    this.available = this.capacity <= 0 ? capacity : Math.min(this.available, capacity);
+    this.capacity = capacity;
+  }
+
+  /**
+   * Milliseconds until `amount` units are available (0 when unlimited)
+   * Amounts above the capacity only wait for a full bucket.
+   */
+  getWaitTime(amount: number, now: number): number {
+    if (this.capacity <= 0) {
+      return 0;
+    }
+    this.refill(now);
+    const missing = Math.min(amount, this.capacity) - this.available;
+    return missing > 0 ? Math.ceil(missing * MINUTE_MS / this.capacity) : 0;
+  }
+
+  take(amount: number, now: number): void {
+    if (this.capacity <= 0) {
+      return;
+    }
+    this.refill(now);
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.updatedAt;
+    this.available = Math.min(this.capacity, this.available + elapsed * this.capacity / MINUTE_MS);
+    this.updatedAt = now;
+  }
+}
+
+// ============================================================================
+// RateLimiter Class
+// ============================================================================
+
+export class RateLimiter {
+  private settings: CareerOSSettings;
+  private requests: TokenBucket;
+  private tokens: TokenBucket;
+  private blockedUntil = 0;
+  private now: () => number;
+
+  constructor(settings: CareerOSSettings, now: () => number = Date.now) {
+    this.settings = settings;
+    this.now = now;
+    this.requests = new TokenBucket(settings.requestsPerMinute ?? 0, now());
+    this.tokens = new TokenBucket(settings.tokensPerMinute ?? 0, now());
+  }
+
+  /**
+   * Update settings (e.g., when user changes configuration)
+   */
+  updateSettings(settings: CareerOSSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Milliseconds before a request of `estimatedTokens` may start
+   */
+  getWaitTime(estimatedTokens: number): number {
+    const now = this.now();
+    // Limits are re-read on every check so edits in the settings tab apply mid-run
+    this.requests.setCapacity(this.settings.requestsPerMinute ?? 0, now);
+    this.tokens.setCapacity(this.settings.tokensPerMinute ?? 0, now);
+    return Math.max(
+      this.blockedUntil - now,
+      this.requests.getWaitTime(1, now),
+      this.tokens.getWaitTime(estimatedTokens, now),
+      0
+    );
+  }
+
+  /**
+   * Consume capacity if the request may start now
+   *
+   * @returns 0 when the request was admitted, otherwise the milliseconds to wait
+   */
+  tryAcquire(estimatedTokens: number): number {
+    const wait = this.getWaitTime(estimatedTokens);
+    if (wait > 0) {
+      return wait;
+    }
+    const now = this.now();
+    this.requests.take(1, now);
+    this.tokens.take(estimatedTokens, now);
+    return 0;
+  }
+
+  /**
+   * Wait until a request may start, then consume its capacity
+   *
+   * @returns false if `signal` was aborted while waiting
+   */
+  async acquire(estimatedTokens: number, signal?: AbortSignal): Promise<boolean> {
+    while (!signal?.aborted) {
+      const wait = this.tryAcquire(estimatedTokens);
+      if (wait === 0) {
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(wait, ACQUIRE_POLL_MS)));
+    }
+    return false;
+  }
+
+  /**
+   * Hold back every request for a provider-specified period (Retry-After)
+   */
+  blockFor(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, this.now() + ms);
+  }
+}
+
+/**
+ * Create a RateLimiter instance
+ */
+export function createRateLimiter(settings: CareerOSSettings): RateLimiter {
+  return new RateLimiter(settings);
+}
@@ -0,0 +1,119 @@
+/**
+ * ResponseCache Tests
+ *
+ * Unit tests for cache keys, lookup, eviction and clearing
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ResponseCache, computeCacheKey } from './ResponseCache';
+import { CareerOSSettings, LLMConfig } from './types';
+import { createMockApp } from './test-mocks/vault';
+
+const createMockSettings = (): CareerOSSettings => {
+  const config: LLMConfig = { provider: 'openai', model: 'gpt-4o-mini' };
+  return {
+    llmConfigs: { extract: config, analyze: config, embedding: config },
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    googleApiKey: '',
+    maxRetries: 0,
+    timeout: 30000,
+    concurrency: 1,
+    exclusionRules: { directories: [], tags: [] },
+    taxonomy: [],
+    dryRunEnabled: false,
+    dryRunMaxNotes: 10,
+    indexDirectory: 'test-index',
+    mappingDirectory: 'test-mapping',
+    marketCardsDirectory: 'test-market-cards',
+    responseCacheEnabled: true,
+  };
+};
+
+const meta = { provider: 'openai' as const, model: 'gpt-4o-mini', temperature: 0.7 };
+
+describe('computeCacheKey', () => {
+  it('should be stable for identical requests', () => {
+    expect(computeCacheKey('openai', 'gpt-4o-mini', 0.7, 'hi'))
+      .toBe(computeCacheKey('openai', 'gpt-4o-mini', 0.7, 'hi'));
+  });
+
+  it('should differ by provider, model, temperature and prompt', () => {
+    const base = computeCacheKey('openai', 'gpt-4o-mini', 0.7, 'hi');
+
+    expect(computeCacheKey('google', 'gpt-4o-mini', 0.7, 'hi')).not.toBe(base);
+    expect(computeCacheKey('openai', 'gpt-4o', 0.7, 'hi')).not.toBe(base);
+    expect(computeCacheKey('openai', 'gpt-4o-mini', 0, 'hi')).not.toBe(base);
+    expect(computeCacheKey('openai', 'gpt-4o-mini', 0.7, 'hello')).not.toBe(base);
+  });
+});
+
+describe('ResponseCache', () => {
+  let settings: CareerOSSettings;
+  let files: Map<string, string>;
+  let app: any;
+
+  beforeEach(() => {
+    const mock = createMockApp();
+    app = mock.app;
+    files = mock.files;
+    settings = createMockSettings();
+  });
+
+  it('should store responses on disk and read them back', async () => {
+    const cache = new ResponseCache(app, settings, 'plugin');
+    await cache.set('k1', meta, 'response');
+
+    expect(files.has('plugin/llm_cache/k1.json')).toBe(true);
+
+    // A fresh instance reads the index back from disk
+    const reloaded = new ResponseCache(app, settings, 'plugin');
+    expect(await reloaded.get('k1')).toBe('response');
+    expect(await reloaded.get('missing')).toBeNull();
+  });
+
+  it('should ignore entries older than the max age', async () => {
+    settings.responseCacheMaxAgeDays = 1;
+    const cache = new ResponseCache(app, settings, 'plugin');
+    await cache.set('k1', meta, 'response');
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    try {
+      expect(await cache.get('k1')).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should evict the oldest entries above the size limit', async () => {
+    settings.responseCacheMaxSizeMb = 1;
+    const cache = new ResponseCache(app, settings, 'plugin');
+    const large = 'x'.repeat(600 * 1024);
+
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date('2024-05-01T00:00:00Z'));
+      await cache.set('old', meta, large);
+      vi.setSystemTime(new Date('2024-05-02T00:00:00Z'));
+      await cache.set('new', meta, large);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    settings.responseCacheMaxAgeDays = 0;
+    expect(await cache.get('old')).toBeNull();
+    expect(await cache.get('new')).toBe(large);
+    expect(files.has('plugin/llm_cache/old.json')).toBe(false);
+  });
+
+  it('should clear every entry', async () => {
+    const cache = new ResponseCache(app, settings, 'plugin');
+    await cache.set('k1', meta, 'a');
+    await cache.set('k2', meta, 'b');
+
+    expect(await cache.clear()).toBe(2);
+    expect(await cache.get('k1')).toBeNull();
+    expect(await cache.getStats()).toEqual({ entries: 0, size: 0 });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * ResponseCache - Persistent on-disk cache for LLM responses
+ *
+ * Responsible for:
+ * - Content-addressed storage keyed by provider, model, temperature and prompt hash
+ * - One file per response under the plugin data directory (llm_cache/)
+ * - Size and age eviction tracked in a small index file
+ * - Clearing the cache from settings
+ *
+ * Identical prompts are served from disk, so re-running cold start after a
+ * crash or regenerating a plan from the same inputs does not pay twice.
+ */
+
+import { App } from 'obsidian';
+import { createHash } from 'crypto';
+import { CareerOSSettings, LLMProvider, ResponseCacheEntry, ResponseCacheIndex } from './types';
+import { ResponseCacheEntrySchema, ResponseCacheIndexSchema } from './schema';
+import { FileService } from './fs';
+import { WriteQueue } from './utils/writeQueue';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_MAX_SIZE_MB = 50;
+const DEFAULT_MAX_AGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Compute the cache key of a request
+ *
+ * The prompt is hashed on its own first so the key input stays small.
+ */
+export function computeCacheKey(
+  provider: LLMProvider,
+  model: string,
+  temperature: number,
+  prompt: string
+): string {
+  const promptHash = createHash('sha256').update(prompt).digest('hex');
+  return createHash('sha256')
+    .update(`${provider}\n${model}\n${temperature}\n${promptHash}`)
+    .digest('hex');
+}
+
+// ============================================================================
+// ResponseCache Class
+// ============================================================================
+
+export class ResponseCache {
+  private settings: CareerOSSettings;
+  private fileService: FileService;
+  private cacheDir: string;
+  private indexPath: string;
+  private indexLoad: Promise<ResponseCacheIndex> | null = null;
+  private writeQueue = new WriteQueue();
+
+  constructor(app: App, settings: CareerOSSettings, pluginDataDir: string) {
+    this.settings = settings;
+    this.fileService = new FileService(app, pluginDataDir);
+    this.cacheDir = `${pluginDataDir}/llm_cache`;
+    this.indexPath = `${this.cacheDir}/index.json`;
+  }
+
+  /**
+   * Update settings (e.g., when user changes configuration)
+   */
+  updateSettings(settings: CareerOSSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether responses are read from and written to the cache
+   */
+  isEnabled(): boolean {
+    return this.settings.responseCacheEnabled ?? false;
+  }
+
+  /**
+   * Look up a cached response; expired or unreadable entries are misses
+   */
+  async get(key: string): Promise<string | null> {
+    const index = await this.loadIndex();
+    const item = index.entries.find(e => e.key === key);
+    if (!item) {
+      return null;
+    }
+
+    if (this.isExpired(item.created_at, Date.now())) {
+      return null;
+    }
+
+    try {
+      const entry = await this.fileService.readJSON(this.getEntryPath(key), ResponseCacheEntrySchema);
+      return entry ? entry.response : null;
+    } catch (error) {
+      console.error('Failed to read cached LLM response:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a response and evict entries past the age or size limits
+   *
+   * Never throws: a failure to cache must not fail the LLM call.
+   */
+  async set(
+    key: string,
+    meta: { provider: LLMProvider; model: string; temperature: number },
+    response: string
+  ): Promise<void> {
+    const entry: ResponseCacheEntry = {
+      key,
+      ...meta,
+      created_at: new Date().toISOString(),
+      response,
+    };
+
+    await this.enqueue(async () => {
+      await this.fileService.writeJSON(this.getEntryPath(key), entry, ResponseCacheEntrySchema);
+
+      const index = await this.loadIndex();
+      index.entries = index.entries.filter(e => e.key !== key);
+      index.entries.push({ key, created_at: entry.created_at, size: response.length });
+
+      await this.evict(index);
+      await this.fileService.writeJSON(this.indexPath, index, ResponseCacheIndexSchema);
+    });
+  }
+
+  /**
+   * Number of cached responses and their total size in bytes (approximate)
+   */
+  async getStats(): Promise<{ entries: number; size: number }> {
+    const index = await this.loadIndex();
+    return {
+      entries: index.entries.length,
+      size: index.entries.reduce((sum, e) => sum + e.size, 0),
+    };
+  }
+
+  /**
+   * Remove every cached response
+   *
+   * @returns Number of entries removed
+   */
+  async clear(): Promise<number> {
+    let removed = 0;
+
+    await this.enqueue(async () => {
+      const index = await this.loadIndex();
+      removed = index.entries.length;
+
+      for (const item of index.entries) {
+        await this.fileService.delete(this.getEntryPath(item.key));
+      }
+
+      index.entries = [];
+      await this.fileService.writeJSON(this.indexPath, index, ResponseCacheIndexSchema);
+    });
+
+    return removed;
+  }
+
+  // ============================================================================
+  // Eviction and Persistence
+  // ============================================================================
+
+  private getEntryPath(key: string): string {
+    return `${this.cacheDir}/${key}.json`;
+  }
+
+  private isExpired(createdAt: string, now: number): boolean {
+    const maxAgeDays = this.settings.responseCacheMaxAgeDays ?? DEFAULT_MAX_AGE_DAYS;
+    return maxAgeDays > 0 && now - new Date(createdAt).getTime() > maxAgeDays * DAY_MS;
+  }
+
+  /**
+   * Drop expired entries, then the oldest entries until under the size limit
+   */
+  private async evict(index: ResponseCacheIndex): Promise<void> {
+    const now = Date.now();
+    const maxBytes = (this.settings.responseCacheMaxSizeMb ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+
+    const kept = index.entries
+      .filter(e => !this.isExpired(e.created_at, now))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    let total = kept.reduce((sum, e) => sum + e.size, 0);
+    while (kept.length > 1 && total > maxBytes) {
+      total -= kept.shift()!.size;
+    }
+
+    const keptKeys = new Set(kept.map(e => e.key));
+    for (const item of index.entries) {
+      if (!keptKeys.has(item.key)) {
+        await this.fileService.delete(this.getEntryPath(item.key));
+      }
+    }
+
+    index.entries = kept;
+  }
+
+  /**
+   * Load the index once; concurrent callers share the same load
+   */
+  private loadIndex(): Promise<ResponseCacheIndex> {
+    if (!this.indexLoad) {
+      this.indexLoad = (async () => {
+        try {
+          const index = await this.fileService.readJSON(this.indexPath, ResponseCacheIndexSchema);
+          if (index) {
+            return index;
+          }
+        } catch (error) {
+          console.error('Failed to read LLM cache index, starting fresh:', error);
+        }
+        return { entries: [] };
+      })();
+    }
+    return this.indexLoad;
+  }
+
+  /**
+   * Serialize index mutations; failures are logged, not thrown
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    return this.writeQueue.runLogged(task, 'Failed to update LLM response cache:');
+  }
+}
+
+/**
+ * Create a ResponseCache instance
+ */
+export function createResponseCache(
+  app: App,
+  settings: CareerOSSettings,
+  pluginDataDir: string
+): ResponseCache {
+  return new ResponseCache(app, settings, pluginDataDir);
+}
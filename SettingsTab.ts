@@ -3,18 +3,30 @@
  * 
  * Validates: Requirements 3.5, 12.1, 12.5, 13.3
  * - LLM provider settings with separate model configuration for extract/analyze/embedding roles
+ * - Fallback chains for the extract/analyze roles
  * - API key inputs with secure storage
  * - Proxy and custom base URL configuration
  * - Retry count, timeout, and concurrency settings
+ * - Requests/tokens per minute rate limiting
+ * - Attempt limit for notes that keep failing
  * - Directory and tag exclusion configuration
  * - Taxonomy management UI
  * - Dry-run mode toggle
+ * - Model price table for usage cost accounting
+ * - Response cache toggle, limits and clearing
  * - Clear warnings for external LLM usage
  */
 
 import { App, PluginSettingTab, Setting, Notice, TextComponent, DropdownComponent } from 'obsidian';
 import type CareerOSPlugin from './main';
-import { CareerOSSettings, LLMProvider, ModelRole, SkillMapping, SkillCategory, LLMConfig } from './types';
+import { CareerOSSettings, LLMProvider, ModelRole, SkillMapping, SkillCategory, LLMConfig, LLMFallbackConfig, RateLimitPreset, SelfProfileCardMode, DecayCurve, GapAnalysisMode, DegreeLevel, TaskBridgeTarget } from './types';
+import { DEFAULT_PRICE_TABLE, formatPriceTable, parsePriceTable } from './UsageTracker';
+import { RATE_LIMIT_PRESETS } from './RateLimiter';
+import { DEFAULT_MAX_INDEX_ATTEMPTS } from './IndexJournal';
+import { DEFAULT_CHUNK_MAX_TOKENS } from './utils/noteChunker';
+import { DEFAULT_TASK_DIRECTORY } from './TaskBridge';
+import { DEFAULT_TASK_EVIDENCE_SCORE } from './ProfileEngine';
+import { DEFAULT_WEEKLY_REVIEW_FOLDER } from './WeeklyReview';
 
 // LLM Provider options
 const LLM_PROVIDERS: { value: LLMProvider; label: string; isExternal: boolean }[] = [
@@ -28,7 +40,7 @@ const LLM_PROVIDERS: { value: LLMProvider; label: string; isExternal: boolean }[
 const MODEL_ROLE_LABELS: Record<ModelRole, string> = {
   extract: '提取角色 (NoteCard/JDCard 提取)',
   analyze: '分析角色 (差距分析/计划生成)',
-  embedding: '嵌入角色 (预留功能)',
+  embedding: '嵌入角色 (向量嵌入/语义检索)',
 };
 
 // Skill category options
@@ -41,6 +53,9 @@ const SKILL_CATEGORIES: { value: SkillCategory; label: string }[] = [
   { value: 'soft', label: '软技能' },
 ];
 
+// Half-life offered when switching a curve to half-life
+const DEFAULT_HALF_LIFE_MONTHS = 24;
+
 export class CareerOSSettingsTab extends PluginSettingTab {
   plugin: CareerOSPlugin;
   
@@ -48,6 +63,7 @@ export class CareerOSSettingsTab extends PluginSettingTab {
   private newSkillName: string = '';
   private newSkillAliases: string = '';
   private newSkillCategory: SkillCategory = 'tool';
+  private newSkillDecay: DecayCurve | undefined = undefined;
   private taxonomyContainer: HTMLElement | null = null;
 
   constructor(app: App, plugin: CareerOSPlugin) {
@@ -85,6 +101,33 @@ export class CareerOSSettingsTab extends PluginSettingTab {
     // Dry-Run Mode Section
     this.renderDryRunSection(containerEl);
 
+    // NoteCard Review Section
+    this.renderReviewSection(containerEl);
+
+    // Gap Analysis Section
+    this.renderGapAnalysisSection(containerEl);
+
+    // Job Fit Section
+    this.renderJobFitSection(containerEl);
+
+    // Task Bridge Section
+    this.renderTaskBridgeSection(containerEl);
+
+    // Weekly Review Section
+    this.renderWeeklyReviewSection(containerEl);
+
+    // Semantic Retrieval Section
+    this.renderRetrievalSection(containerEl);
+
+    // Usage & Cost Section
+    this.renderUsageSection(containerEl);
+
+    // Budget Section
+    this.renderBudgetSection(containerEl);
+
+    // Response Cache Section
+    this.renderCacheSection(containerEl);
+
     // Directory Configuration Section
     this.renderDirectorySection(containerEl);
   }
@@ -117,11 +160,13 @@ export class CareerOSSettingsTab extends PluginSettingTab {
    * Check if any external LLM provider is configured
    */
   private hasExternalLLMConfigured(): boolean {
-    const { llmConfigs } = this.plugin.settings;
+    const { llmConfigs, llmFallbacks } = this.plugin.settings;
+    const fallbacks = [...(llmFallbacks?.extract ?? []), ...(llmFallbacks?.analyze ?? [])];
     return (
       llmConfigs.extract.provider !== 'local' ||
       llmConfigs.analyze.provider !== 'local' ||
-      llmConfigs.embedding.provider !== 'local'
+      llmConfigs.embedding.provider !== 'local' ||
+      fallbacks.some(entry => entry.provider !== 'local')
     );
   }
 
@@ -211,6 +256,16 @@ export class CareerOSSettingsTab extends PluginSettingTab {
         });
     }
 
+    // Embedding role has no chat output, so JSON mode does not apply
+    if (role === 'embedding') {
+      if (config.provider === 'anthropic') {
+        new Setting(containerEl)
+          .setName('⚠️ 不支持的提供商')
+          .setDesc('Anthropic 不提供嵌入接口，请选择 OpenAI、Google 或本地模型（如 nomic-embed-text）');
+      }
+      return;
+    }
+
     // JSON mode toggle
     new Setting(containerEl)
       .setName('JSON 模式')
@@ -222,6 +277,91 @@ export class CareerOSSettingsTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           });
       });
+
+    this.renderFallbackChain(containerEl, role);
+  }
+
+  /**
+   * Render the ordered fallback chain for a chat role
+   */
+  private renderFallbackChain(containerEl: HTMLElement, role: 'extract' | 'analyze'): void {
+    const chain = this.plugin.settings.llmFallbacks?.[role] ?? [];
+
+    new Setting(containerEl)
+      .setName('备用模型')
+      .setDesc('主模型失败（服务不可用、超出重试次数）时按顺序尝试。外部备用模型默认不接收笔记内容')
+      .addButton(button => {
+        button.setButtonText('添加备用模型')
+          .onClick(async () => {
+            const fallbacks = this.plugin.settings.llmFallbacks ?? {};
+            fallbacks[role] = [...chain, { provider: 'local', model: '', baseUrl: 'http://localhost:11434' }];
+            this.plugin.settings.llmFallbacks = fallbacks;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    chain.forEach((entry: LLMFallbackConfig, index: number) => {
+      const isExternal = LLM_PROVIDERS.find(p => p.value === entry.provider)?.isExternal ?? true;
+
+      const setting = new Setting(containerEl)
+        .setName(`备用 ${index + 1}`)
+        .addDropdown(dropdown => {
+          for (const provider of LLM_PROVIDERS) {
+            dropdown.addOption(provider.value, provider.label);
+          }
+          dropdown.setValue(entry.provider);
+          dropdown.onChange(async (value: string) => {
+            entry.provider = value as LLMProvider;
+            if (entry.provider === 'local' && !entry.baseUrl) {
+              entry.baseUrl = 'http://localhost:11434';
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        })
+        .addText(text => {
+          text.setPlaceholder('模型名称')
+            .setValue(entry.model)
+            .onChange(async (value) => {
+              entry.model = value;
+              await this.plugin.saveSettings();
+            });
+        });
+
+      if (!isExternal) {
+        setting.addText(text => {
+          text.setPlaceholder('http://localhost:11434')
+            .setValue(entry.baseUrl || '')
+            .onChange(async (value) => {
+              entry.baseUrl = value;
+              await this.plugin.saveSettings();
+            });
+        });
+      } else {
+        setting
+          .setDesc(entry.allowSensitive ? '⚠️ 允许接收笔记内容（已过滤 PII）' : '仅用于不含笔记内容的请求')
+          .addToggle(toggle => {
+            toggle.setTooltip('允许接收笔记内容')
+              .setValue(entry.allowSensitive || false)
+              .onChange(async (value) => {
+                entry.allowSensitive = value;
+                await this.plugin.saveSettings();
+                this.display();
+              });
+          });
+      }
+
+      setting.addExtraButton(button => {
+        button.setIcon('trash')
+          .setTooltip('移除')
+          .onClick(async () => {
+            chain.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+    });
   }
 
   /**
@@ -448,6 +588,107 @@ export class CareerOSSettingsTab extends PluginSettingTab {
             this.display();
           });
       });
+
+    // Attempt limit across cold start runs
+    new Setting(containerEl)
+      .setName('笔记最大尝试次数')
+      .setDesc('冷启动中一篇笔记失败达到该次数后不再重试，直到笔记被修改（1-10）')
+      .addSlider(slider => {
+        slider.setLimits(1, 10, 1)
+          .setValue(this.plugin.settings.maxIndexAttempts ?? DEFAULT_MAX_INDEX_ATTEMPTS)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.maxIndexAttempts = value;
+            await this.plugin.saveSettings();
+          });
+      })
+      .addExtraButton(button => {
+        button.setIcon('reset')
+          .setTooltip(`重置为默认值 (${DEFAULT_MAX_INDEX_ATTEMPTS})`)
+          .onClick(async () => {
+            delete this.plugin.settings.maxIndexAttempts;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    // Chunked extraction for long notes
+    new Setting(containerEl)
+      .setName('长笔记分块大小')
+      .setDesc('超过该 token 数的笔记按标题拆分为多段分别提取，再合并为一张卡片（0 = 不分块）')
+      .addSlider(slider => {
+        slider.setLimits(0, 16000, 1000)
+          .setValue(this.plugin.settings.chunkMaxTokens ?? DEFAULT_CHUNK_MAX_TOKENS)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.chunkMaxTokens = value;
+            await this.plugin.saveSettings();
+          });
+      })
+      .addExtraButton(button => {
+        button.setIcon('reset')
+          .setTooltip(`重置为默认值 (${DEFAULT_CHUNK_MAX_TOKENS})`)
+          .onClick(async () => {
+            delete this.plugin.settings.chunkMaxTokens;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    // Rate limiting
+    new Setting(containerEl)
+      .setName('速率限制')
+      .setDesc('限制每分钟的请求数和 token 数，避免触发提供商的 429 限流')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('off', '关闭')
+          .addOption('slow', '慢速（10 请求 / 20k token 每分钟）')
+          .addOption('medium', '中速（30 请求 / 60k token 每分钟）')
+          .addOption('fast', '快速（60 请求 / 150k token 每分钟）')
+          .addOption('custom', '自定义')
+          .setValue(this.plugin.settings.rateLimitPreset || 'off')
+          .onChange(async (value) => {
+            const preset = value as RateLimitPreset;
+            this.plugin.settings.rateLimitPreset = preset;
+            if (preset !== 'custom') {
+              const limits = RATE_LIMIT_PRESETS[preset];
+              this.plugin.settings.requestsPerMinute = limits.requestsPerMinute;
+              this.plugin.settings.tokensPerMinute = limits.tokensPerMinute;
+            }
+            await this.plugin.saveSettings();
+            this.display(); // Refresh to show the resulting limits
+          });
+      });
+
+    if ((this.plugin.settings.rateLimitPreset || 'off') !== 'off') {
+      this.addRateLimitSetting(containerEl, '每分钟请求数', '0 表示不限制', 'requestsPerMinute');
+      this.addRateLimitSetting(containerEl, '每分钟 token 数', '按笔记长度估算，0 表示不限制', 'tokensPerMinute');
+    }
+  }
+
+  /**
+   * Add a numeric rate limit input; editing it switches the preset to custom
+   */
+  private addRateLimitSetting(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    key: 'requestsPerMinute' | 'tokensPerMinute'
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text => {
+        text.setPlaceholder('0')
+          .setValue(this.plugin.settings[key] ? String(this.plugin.settings[key]) : '')
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            this.plugin.settings[key] = parsed > 0 ? parsed : 0;
+            this.plugin.settings.rateLimitPreset = 'custom';
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'number';
+      });
   }
 
 
@@ -559,6 +800,18 @@ export class CareerOSSettingsTab extends PluginSettingTab {
         });
       });
 
+    // Decay curve of this skill
+    this.addDecayCurveSetting(
+      addFormEl,
+      '时间衰减曲线',
+      '覆盖分类的衰减曲线，例如让短命的框架更快衰减',
+      this.newSkillDecay,
+      '继承分类',
+      async (curve) => {
+        this.newSkillDecay = curve;
+      }
+    );
+
     // Add button
     new Setting(addFormEl)
       .addButton(button => {
@@ -572,6 +825,84 @@ export class CareerOSSettingsTab extends PluginSettingTab {
     // Existing mappings list
     this.taxonomyContainer = containerEl.createDiv({ cls: 'career-os-taxonomy-list' });
     this.renderTaxonomyList();
+
+    // Decay curves per category
+    containerEl.createEl('h3', { text: '时间衰减曲线', cls: 'setting-item-heading' });
+    containerEl.createEl('p', { 
+      text: '技能分数按证据笔记的时间衰减。阶梯曲线：6 个月内 1.0，之后逐步降到 0.2；半衰期曲线：每过 N 个月权重减半。' +
+            '技能映射中设置的曲线优先于分类。',
+      cls: 'setting-item-description'
+    });
+
+    for (const cat of SKILL_CATEGORIES) {
+      this.addDecayCurveSetting(
+        containerEl,
+        cat.label,
+        '',
+        this.plugin.settings.decayCurves?.[cat.value],
+        '默认（阶梯）',
+        async (curve) => {
+          const curves = { ...this.plugin.settings.decayCurves };
+          if (curve) {
+            curves[cat.value] = curve;
+          } else {
+            delete curves[cat.value];
+          }
+          this.plugin.settings.decayCurves = curves;
+          await this.plugin.saveSettings();
+        }
+      );
+    }
+  }
+
+  /**
+   * Add a decay curve picker (curve type and half-life in months)
+   * 
+   * @param inheritLabel - Label of the "not set" option
+   */
+  private addDecayCurveSetting(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    curve: DecayCurve | undefined,
+    inheritLabel: string,
+    onChange: (curve: DecayCurve | undefined) => Promise<void>
+  ): void {
+    let halfLifeInput: TextComponent | null = null;
+
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('', inheritLabel)
+          .addOption('stepped', '阶梯')
+          .addOption('half_life', '半衰期')
+          .setValue(curve?.kind ?? '')
+          .onChange(async (value) => {
+            if (value === 'half_life') {
+              const months = parseFloat(halfLifeInput?.getValue() ?? '') || DEFAULT_HALF_LIFE_MONTHS;
+              halfLifeInput?.setValue(String(months));
+              await onChange({ kind: 'half_life', halfLifeMonths: months });
+            } else {
+              await onChange(value === 'stepped' ? { kind: 'stepped' } : undefined);
+            }
+            halfLifeInput?.setDisabled(value !== 'half_life');
+          });
+      })
+      .addText(text => {
+        halfLifeInput = text;
+        text.setPlaceholder('半衰期（月）')
+          .setValue(curve?.kind === 'half_life' ? String(curve.halfLifeMonths) : '')
+          .setDisabled(curve?.kind !== 'half_life')
+          .onChange(async (value) => {
+            const months = parseFloat(value);
+            if (months > 0) {
+              await onChange({ kind: 'half_life', halfLifeMonths: months });
+            }
+          });
+        text.inputEl.style.width = '100px';
+      });
   }
 
   /**
@@ -607,12 +938,14 @@ export class CareerOSSettingsTab extends PluginSettingTab {
    * Render a single taxonomy item
    */
   private renderTaxonomyItem(containerEl: HTMLElement, mapping: SkillMapping, index: number): void {
-    const itemEl = containerEl.createDiv({ cls: 'career-os-taxonomy-item' });
+    const rowEl = containerEl.createDiv({ cls: 'career-os-taxonomy-item' });
+    rowEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+
+    const itemEl = rowEl.createDiv();
     itemEl.style.display = 'flex';
     itemEl.style.alignItems = 'center';
     itemEl.style.justifyContent = 'space-between';
     itemEl.style.padding = '8px';
-    itemEl.style.borderBottom = '1px solid var(--background-modifier-border)';
 
     // Info section
     const infoEl = itemEl.createDiv();
@@ -639,6 +972,24 @@ export class CareerOSSettingsTab extends PluginSettingTab {
     deleteBtn.addEventListener('click', async () => {
       await this.deleteSkillMapping(index);
     });
+
+    // Decay curve of this skill, editable in place
+    this.addDecayCurveSetting(
+      rowEl,
+      '时间衰减曲线',
+      '',
+      mapping.decay,
+      '继承分类',
+      async (curve) => {
+        const updated = this.plugin.settings.taxonomy[index];
+        if (curve) {
+          updated.decay = curve;
+        } else {
+          delete updated.decay;
+        }
+        await this.plugin.saveSettings();
+      }
+    );
   }
 
   /**
@@ -659,6 +1010,7 @@ export class CareerOSSettingsTab extends PluginSettingTab {
       standardName: this.newSkillName.trim(),
       aliases: aliases,
       category: this.newSkillCategory,
+      ...(this.newSkillDecay ? { decay: this.newSkillDecay } : {}),
     };
 
     // Check for duplicates
@@ -682,6 +1034,7 @@ export class CareerOSSettingsTab extends PluginSettingTab {
     this.newSkillName = '';
     this.newSkillAliases = '';
     this.newSkillCategory = 'tool';
+    this.newSkillDecay = undefined;
 
     // Refresh display
     this.display();
@@ -762,6 +1115,465 @@ export class CareerOSSettingsTab extends PluginSettingTab {
     }
   }
 
+  /**
+   * Render NoteCard review section
+   */
+  private renderReviewSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '人工审核' });
+    containerEl.createEl('p', { 
+      text: '新提取的 NoteCard 为草稿状态。运行「CareerOS: Review Draft NoteCards」在原笔记旁逐张检查、修改并确认。',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(containerEl)
+      .setName('自我画像使用的卡片')
+      .setDesc('构建自我画像时如何对待已确认和草稿卡片')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('all', '全部卡片同等对待')
+          .addOption('prefer_confirmed', '已确认卡片权重更高')
+          .addOption('confirmed_only', '只使用已确认卡片')
+          .setValue(this.plugin.settings.selfProfileCardMode || 'all')
+          .onChange(async (value) => {
+            this.plugin.settings.selfProfileCardMode = value as SelfProfileCardMode;
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Render gap analysis section
+   */
+  private renderGapAnalysisSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '差距分析' });
+
+    new Setting(containerEl)
+      .setName('分析模式')
+      .setDesc('离线模式只用本地算法生成报告（技能表格和证据笔记），不调用 LLM：免费、可重复。也可随时运行「CareerOS: Generate Gap Analysis (Offline)」')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('llm', 'LLM 生成报告')
+          .addOption('offline', '离线（本地算法）')
+          .setValue(this.plugin.settings.gapAnalysisMode || 'llm')
+          .onChange(async (value) => {
+            this.plugin.settings.gapAnalysisMode = value as GapAnalysisMode;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('多目标对比附加 LLM 建议')
+      .setDesc('「CareerOS: Compare Market Targets」生成的对比报告末尾附加一段 LLM 选择建议。排名和差距矩阵始终由本地算法计算；离线模式下不调用 LLM')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.targetComparisonRecommendation || false)
+          .onChange(async (value) => {
+            this.plugin.settings.targetComparisonRecommendation = value;
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Render job fit section (candidate facts the SelfProfile does not hold)
+   */
+  private renderJobFitSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '岗位匹配' });
+    containerEl.createEl('p', {
+      text: 'Dashboard 的 Job Fit 列表按匹配度为每个 JD 打分。留空的项不参与打分',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(containerEl)
+      .setName('工作年限')
+      .setDesc('与 JD 的经验要求（如「3-5年」）比较')
+      .addText(text => {
+        text.setPlaceholder('未设置')
+          .setValue(this.plugin.settings.yearsOfExperience !== undefined ? String(this.plugin.settings.yearsOfExperience) : '')
+          .onChange(async (value) => {
+            const parsed = parseFloat(value);
+            if (parsed >= 0) {
+              this.plugin.settings.yearsOfExperience = parsed;
+            } else {
+              delete this.plugin.settings.yearsOfExperience;
+            }
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('最高学历')
+      .setDesc('与 JD 的学历要求（如「本科及以上」）比较')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('', '未设置')
+          .addOption('none', '无')
+          .addOption('associate', '大专')
+          .addOption('bachelor', '本科')
+          .addOption('master', '硕士')
+          .addOption('phd', '博士')
+          .setValue(this.plugin.settings.degreeLevel || '')
+          .onChange(async (value) => {
+            if (value) {
+              this.plugin.settings.degreeLevel = value as DegreeLevel;
+            } else {
+              delete this.plugin.settings.degreeLevel;
+            }
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Render task bridge section (active plan -> Obsidian tasks)
+   */
+  private renderTaskBridgeSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '计划任务' });
+    containerEl.createEl('p', {
+      text: '设为当前计划后，计划中的每周任务清单会写入笔记，勾选状态自动同步回计划进度',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(containerEl)
+      .setName('任务写入位置')
+      .setDesc('每周笔记：每个计划周一篇任务笔记。日记：每天把当前周及之前未完成的任务加入当天日记')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('weekly_note', '每周任务笔记')
+          .addOption('daily_note', '日记')
+          .setValue(this.plugin.settings.taskBridgeTarget || 'weekly_note')
+          .onChange(async (value) => {
+            this.plugin.settings.taskBridgeTarget = value as TaskBridgeTarget;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('任务笔记目录')
+      .setDesc('每周任务笔记的存储目录（每个计划一个子目录）')
+      .addText(text => {
+        text.setPlaceholder(DEFAULT_TASK_DIRECTORY)
+          .setValue(this.plugin.settings.taskDirectory || '')
+          .onChange(async (value) => {
+            this.plugin.settings.taskDirectory = value.trim() || undefined;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('日记目录')
+      .setDesc('日记所在目录，日记文件名为 YYYY-MM-DD（留空为库根目录）')
+      .addText(text => {
+        text.setPlaceholder('Daily')
+          .setValue(this.plugin.settings.dailyNotesFolder || '')
+          .onChange(async (value) => {
+            this.plugin.settings.dailyNotesFolder = value.trim() || undefined;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('任务技能分值')
+      .setDesc('每个已完成且标注了 [skill:技能名] 的任务计入对应技能的分值，附带产出笔记链接时 ×1.5（0 表示任务不计入能力画像）。重新构建画像后生效')
+      .addSlider(slider => {
+        slider.setLimits(0, 5, 0.5)
+          .setValue(this.plugin.settings.taskEvidenceScore ?? DEFAULT_TASK_EVIDENCE_SCORE)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.taskEvidenceScore = value;
+            await this.plugin.saveSettings();
+          });
+      })
+      .addExtraButton(button => {
+        button.setIcon('reset')
+          .setTooltip(`重置为默认值 (${DEFAULT_TASK_EVIDENCE_SCORE})`)
+          .onClick(async () => {
+            delete this.plugin.settings.taskEvidenceScore;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+  }
+
+  /**
+   * Render weekly review section
+   */
+  private renderWeeklyReviewSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '每周复盘' });
+    containerEl.createEl('p', {
+      text: '汇总过去 7 天新增或更新的笔记、完成的计划任务、技能等级变化和新提取的岗位，写入一篇复盘笔记。也可随时使用「Generate Weekly Review」命令生成',
+      cls: 'setting-item-description'
+    });
+
+    const weekdays = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+    new Setting(containerEl)
+      .setName('自动生成')
+      .setDesc('Obsidian 打开期间，在所选的星期几自动生成当天的复盘笔记（每天只生成一次）')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', '不自动生成');
+        weekdays.forEach((label, day) => dropdown.addOption(String(day), label));
+        dropdown
+          .setValue(this.plugin.settings.weeklyReviewDay !== undefined ? String(this.plugin.settings.weeklyReviewDay) : '')
+          .onChange(async (value) => {
+            this.plugin.settings.weeklyReviewDay = value === '' ? undefined : parseInt(value, 10);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('复盘笔记目录')
+      .setDesc('复盘笔记的存储目录，文件名为 weekly_review_YYYY-MM-DD')
+      .addText(text => {
+        text.setPlaceholder(DEFAULT_WEEKLY_REVIEW_FOLDER)
+          .setValue(this.plugin.settings.weeklyReviewFolder || '')
+          .onChange(async (value) => {
+            this.plugin.settings.weeklyReviewFolder = value.trim() || undefined;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('模板笔记')
+      .setDesc('可用占位符：{{week_start}} {{week_end}} {{generated_at}} {{summary}} {{notes}} {{tasks}} {{skills}} {{jds}}（留空使用内置模板）')
+      .addText(text => {
+        text.setPlaceholder('Templates/Weekly Review.md')
+          .setValue(this.plugin.settings.weeklyReviewTemplate || '')
+          .onChange(async (value) => {
+            this.plugin.settings.weeklyReviewTemplate = value.trim() || undefined;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('LLM 总结')
+      .setDesc('使用分析角色撰写本周总结和下周重点（每次复盘一次调用）')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.weeklyReviewSummary || false)
+          .onChange(async (value) => {
+            this.plugin.settings.weeklyReviewSummary = value;
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Render semantic retrieval (RAG) section
+   */
+  private renderRetrievalSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '语义检索 (RAG)' });
+    containerEl.createEl('p', { 
+      text: '使用嵌入角色为 NoteCard 建立向量索引，差距分析时引用最相关的笔记作为项目证据。',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(containerEl)
+      .setName('启用语义检索')
+      .setDesc('笔记更新时自动维护向量索引（需要可用的嵌入模型）')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.ragEnabled || false)
+          .onChange(async (value) => {
+            this.plugin.settings.ragEnabled = value;
+            await this.plugin.saveSettings();
+            this.display(); // Refresh to show/hide top-K setting
+          });
+      });
+
+    if (this.plugin.settings.ragEnabled) {
+      new Setting(containerEl)
+        .setName('引用笔记数量')
+        .setDesc('差距分析时附加的最相关 NoteCard 数量（1-20）')
+        .addSlider(slider => {
+          slider.setLimits(1, 20, 1)
+            .setValue(this.plugin.settings.ragTopK ?? 5)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.ragTopK = value;
+              await this.plugin.saveSettings();
+            });
+        })
+        .addExtraButton(button => {
+          button.setIcon('reset')
+            .setTooltip('重置为默认值 (5)')
+            .onClick(async () => {
+              this.plugin.settings.ragTopK = 5;
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        });
+
+      const infoEl = containerEl.createDiv({ cls: 'career-os-info' });
+      infoEl.createEl('p', { 
+        text: '💡 提示：首次启用后运行「CareerOS: Sync Vector Index」命令为已有 NoteCard 生成向量。'
+      });
+      infoEl.style.backgroundColor = 'var(--background-secondary)';
+      infoEl.style.padding = '12px';
+      infoEl.style.borderRadius = '4px';
+      infoEl.style.marginTop = '8px';
+    }
+  }
+
+  /**
+   * Render usage accounting (price table) section
+   */
+  private renderUsageSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '用量与费用' });
+    containerEl.createEl('p', { 
+      text: '每次 LLM 调用的 token 用量会按角色、操作和笔记记录到用量账本中，并在 Dashboard 中显示每月合计。',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(containerEl)
+      .setName('模型价格表')
+      .setDesc('每行一个模型：模型名, 输入价格, 输出价格（美元 / 百万 token）。模型名按前缀匹配，未列出的模型按 0 计费')
+      .addTextArea(text => {
+        text.setPlaceholder('gpt-4o-mini, 0.15, 0.6')
+          .setValue(formatPriceTable(this.plugin.settings.priceTable ?? DEFAULT_PRICE_TABLE))
+          .onChange(async (value) => {
+            this.plugin.settings.priceTable = parsePriceTable(value);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 8;
+        text.inputEl.style.width = '100%';
+      })
+      .addExtraButton(button => {
+        button.setIcon('reset')
+          .setTooltip('恢复内置价格表')
+          .onClick(async () => {
+            delete this.plugin.settings.priceTable;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+  }
+
+  /**
+   * Render spending budget section for cold-start indexing
+   */
+  private renderBudgetSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '预算控制' });
+    containerEl.createEl('p', { 
+      text: '冷启动索引前会显示预计 token、费用和耗时并请求确认。达到以下任一上限时索引会暂停，' +
+            '可提高上限后继续或取消。仅对外部服务商生效，0 表示不限制。',
+      cls: 'setting-item-description'
+    });
+
+    this.addBudgetSetting(containerEl, '单次运行费用上限（美元）', '一次冷启动索引最多花费的金额', 'budgetPerRunUsd');
+    this.addBudgetSetting(containerEl, '每日费用上限（美元）', '当天所有 LLM 调用的总费用上限', 'budgetPerDayUsd');
+    this.addBudgetSetting(containerEl, '单次运行 token 上限', '一次冷启动索引最多使用的 token 数', 'budgetPerRunTokens');
+    this.addBudgetSetting(containerEl, '每日 token 上限', '当天所有 LLM 调用的 token 总数上限', 'budgetPerDayTokens');
+  }
+
+  /**
+   * Render LLM response cache section
+   */
+  private renderCacheSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: '响应缓存' });
+    containerEl.createEl('p', { 
+      text: '相同的提供商、模型、温度和提示词直接返回缓存的响应，重新运行索引或用相同输入生成计划时不会重复计费。',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(containerEl)
+      .setName('启用响应缓存')
+      .setDesc('缓存保存在插件数据目录的 llm_cache 文件夹中')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.responseCacheEnabled || false)
+          .onChange(async (value) => {
+            this.plugin.settings.responseCacheEnabled = value;
+            await this.plugin.saveSettings();
+            this.display(); // Refresh to show/hide cache limits
+          });
+      });
+
+    if (this.plugin.settings.responseCacheEnabled) {
+      new Setting(containerEl)
+        .setName('最大缓存大小（MB）')
+        .setDesc('超出后优先删除最早的响应（1-500）')
+        .addSlider(slider => {
+          slider.setLimits(1, 500, 1)
+            .setValue(this.plugin.settings.responseCacheMaxSizeMb ?? 50)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.responseCacheMaxSizeMb = value;
+              await this.plugin.saveSettings();
+            });
+        })
+        .addExtraButton(button => {
+          button.setIcon('reset')
+            .setTooltip('重置为默认值 (50)')
+            .onClick(async () => {
+              this.plugin.settings.responseCacheMaxSizeMb = 50;
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        });
+
+      new Setting(containerEl)
+        .setName('缓存有效期（天）')
+        .setDesc('超过有效期的响应不再使用（0 表示永不过期）')
+        .addSlider(slider => {
+          slider.setLimits(0, 365, 1)
+            .setValue(this.plugin.settings.responseCacheMaxAgeDays ?? 30)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.responseCacheMaxAgeDays = value;
+              await this.plugin.saveSettings();
+            });
+        })
+        .addExtraButton(button => {
+          button.setIcon('reset')
+            .setTooltip('重置为默认值 (30)')
+            .onClick(async () => {
+              this.plugin.settings.responseCacheMaxAgeDays = 30;
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName('清空缓存')
+      .setDesc('删除所有已缓存的 LLM 响应')
+      .addButton(button => {
+        button.setButtonText('清空')
+          .setWarning()
+          .onClick(async () => {
+            if (confirm('确定要清空所有缓存的 LLM 响应吗？')) {
+              const removed = await this.plugin.clearResponseCache();
+              new Notice(`已清空 ${removed} 条缓存响应`);
+            }
+          });
+      });
+  }
+
+  /**
+   * Numeric budget cap input (empty or 0 means no limit)
+   */
+  private addBudgetSetting(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    key: 'budgetPerRunUsd' | 'budgetPerDayUsd' | 'budgetPerRunTokens' | 'budgetPerDayTokens'
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text => {
+        text.setPlaceholder('0')
+          .setValue(this.plugin.settings[key] ? String(this.plugin.settings[key]) : '')
+          .onChange(async (value) => {
+            const parsed = parseFloat(value);
+            if (parsed > 0) {
+              this.plugin.settings[key] = parsed;
+            } else {
+              delete this.plugin.settings[key];
+            }
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'number';
+      });
+  }
+
   /**
    * Render directory configuration section
    */
@@ -850,7 +1662,7 @@ export class CareerOSSettingsTab extends PluginSettingTab {
         embedding: {
           provider: 'local',
           baseUrl: 'http://localhost:11434',
-          model: 'llama2',
+          model: 'nomic-embed-text',
           jsonMode: false,
         },
       },
@@ -869,6 +1681,8 @@ export class CareerOSSettingsTab extends PluginSettingTab {
       taxonomy: [],
       dryRunEnabled: false,
       dryRunMaxNotes: 10,
+      ragEnabled: false,
+      ragTopK: 5,
       indexDirectory: '.career-os/index',
       mappingDirectory: '.career-os/mapping',
       marketCardsDirectory: '.career-os/market_cards',
@@ -0,0 +1,387 @@
+/**
+ * StrategyCore Tests
+ *
+ * Unit tests for the structured LLM gap analysis, the offline
+ * (local algorithm only) mode, the multi-target comparison and re-planning
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { StrategyCore, COMPLETED_HISTORY_HEADING, buildOfflineGapReport, buildTargetComparisonReport, compareMarketTargets, extractCompletedHistory, renderGapAnalysisMarkdown } from './StrategyCore';
+import { CareerOSSettings, GapAnalysisContent, LLMConfig, MarketProfile, SelfProfile } from './types';
+import { LLMClient, LLMCancelledError } from './llmClient';
+import { IndexStore } from './IndexStore';
+import { PromptStore } from './PromptStore';
+
+const createMockApp = (): App => {
+  return {
+    vault: {
+      getAbstractFileByPath: vi.fn().mockReturnValue(null),
+      create: vi.fn(),
+      modify: vi.fn(),
+      createFolder: vi.fn(),
+    },
+  } as any;
+};
+
+const createMockSettings = (): CareerOSSettings => {
+  const llmConfig: LLMConfig = {
+    provider: 'local',
+    model: 'test-model',
+    baseUrl: 'http://localhost:11434',
+  };
+
+  return {
+    llmConfigs: {
+      extract: llmConfig,
+      analyze: llmConfig,
+      embedding: llmConfig,
+    },
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    googleApiKey: '',
+    maxRetries: 3,
+    timeout: 30000,
+    concurrency: 2,
+    exclusionRules: {
+      directories: [],
+      tags: [],
+    },
+    taxonomy: [],
+    dryRunEnabled: false,
+    dryRunMaxNotes: 10,
+    indexDirectory: 'test-index',
+    mappingDirectory: 'test-mapping',
+    marketCardsDirectory: 'test-market-cards',
+    gapAnalysisMode: 'offline',
+  };
+};
+
+const selfProfile: SelfProfile = {
+  schema_version: 1,
+  skills: [
+    { name: 'Python', level: 4.5, evidence_notes: ['projects/api.md'], last_active: '2024-01-01' },
+    { name: 'Rust', level: 3.5, evidence_notes: ['projects/cli.md'], last_active: '2024-01-01' },
+    { name: 'Go', level: 1.0, evidence_notes: ['learning/go.md'], last_active: '2024-01-01' },
+  ],
+  preferences: { likes: [], dislikes: [], traits: [] },
+  projects: [],
+  last_built: '2024-01-01T00:00:00.000Z',
+};
+
+const marketProfile: MarketProfile = {
+  schema_version: 1,
+  role: 'Backend',
+  location: 'Remote',
+  skills_demand: [
+    { name: 'Python', frequency: 10 },
+    { name: 'Kubernetes', frequency: 8 },
+    { name: 'Go', frequency: 5 },
+  ],
+  soft_requirements: ['Communication'],
+  experience_distribution: {},
+  sample_jd_ids: [],
+  last_built: '2024-01-01T00:00:00.000Z',
+};
+
+describe('StrategyCore offline gap analysis', () => {
+  let app: App;
+  let llmClient: LLMClient;
+  let strategyCore: StrategyCore;
+
+  beforeEach(() => {
+    app = createMockApp();
+    const settings = createMockSettings();
+    llmClient = new LLMClient(settings);
+    strategyCore = new StrategyCore(
+      app,
+      settings,
+      llmClient,
+      new IndexStore(app, 'test-plugin-dir', settings.indexDirectory, settings.mappingDirectory, settings.marketCardsDirectory),
+      new PromptStore(app, 'test-plugin-dir'),
+      'test-plugin-dir'
+    );
+  });
+
+  it('should build the report locally without calling the LLM', async () => {
+    const callSpy = vi.spyOn(llmClient, 'call');
+    const streamSpy = vi.spyOn(llmClient, 'stream');
+
+    const result = await strategyCore.analyzeGap(selfProfile, marketProfile);
+
+    expect(result.success).toBe(true);
+    expect(callSpy).not.toHaveBeenCalled();
+    expect(streamSpy).not.toHaveBeenCalled();
+    expect(result.gapAnalysis?.matchPercentage).toBe(66);
+    expect(result.gapAnalysis?.strengths).toEqual(['Python', 'Rust (独特优势)']);
+    expect(result.gapAnalysis?.gaps.map(g => [g.skillName, g.priority])).toEqual([
+      ['Kubernetes', 'high'],
+      ['Go', 'medium'],
+    ]);
+
+    const [reportPath, content] = vi.mocked(app.vault.create).mock.calls[0];
+    expect(reportPath).toBe(result.gapAnalysis?.reportPath);
+    expect(content).toContain('analysis_mode: offline');
+    expect(content).toContain('| Python | 10 | 5.0 | 4.5 | ✅ Meets | [[projects/api]] |');
+  });
+
+  it('should render the same report for the same profiles', () => {
+    const render = () => buildOfflineGapReport(selfProfile.skills, marketProfile, 66, ['Python'], []);
+
+    const report = render();
+    expect(render()).toBe(report);
+    expect(report).toContain('| Kubernetes | 8 | 4.0 | 0.0 | ✅ Meets | - |');
+    expect(report).toContain('- **Python** (level 4.5) — [[projects/api]]');
+    expect(report).toContain('- Communication');
+  });
+});
+
+describe('StrategyCore structured gap analysis', () => {
+  const content: GapAnalysisContent = {
+    matchPercentage: 72,
+    summary: 'Solid Python background, missing container orchestration.',
+    strengths: [{ skill: 'Python', reason: 'Built the API in projects/api.md' }],
+    gaps: [{ skillName: 'Kubernetes', marketDemand: 8, currentLevel: 0, priority: 'high', suggestion: 'Deploy a side project' }],
+  };
+
+  const profileWithView: SelfProfile = {
+    ...selfProfile,
+    analysis_view: { top_skills: selfProfile.skills, recent_projects: [] },
+  };
+
+  let app: App;
+  let llmClient: LLMClient;
+  let strategyCore: StrategyCore;
+
+  beforeEach(() => {
+    app = createMockApp();
+    const settings = { ...createMockSettings(), gapAnalysisMode: 'llm' as const };
+    llmClient = new LLMClient(settings);
+    const promptStore = new PromptStore(app, 'test-plugin-dir');
+    vi.spyOn(promptStore, 'getPrompt').mockResolvedValue('gap prompt');
+    strategyCore = new StrategyCore(
+      app,
+      settings,
+      llmClient,
+      new IndexStore(app, 'test-plugin-dir', settings.indexDirectory, settings.mappingDirectory, settings.marketCardsDirectory),
+      promptStore,
+      'test-plugin-dir'
+    );
+  });
+
+  it('should derive the result and the report from the same JSON', async () => {
+    const callJSON = vi.spyOn(llmClient, 'callJSON').mockResolvedValue(content);
+
+    const result = await strategyCore.analyzeGap(profileWithView, marketProfile);
+
+    expect(callJSON).toHaveBeenCalledWith('analyze', 'gap prompt', expect.anything(), expect.anything());
+    expect(result.gapAnalysis).toMatchObject({
+      matchPercentage: 72,
+      strengths: ['Python'],
+      gaps: content.gaps,
+    });
+
+    const [, report] = vi.mocked(app.vault.create).mock.calls[0];
+    expect(report).toContain('match_percentage: 72');
+    expect(report).toContain('analysis_mode: llm');
+    expect(report).toContain(renderGapAnalysisMarkdown(content));
+  });
+
+  it('should show the rendered report once the JSON is valid', async () => {
+    const callJSON = vi.spyOn(llmClient, 'callJSON').mockResolvedValue(content);
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    await strategyCore.analyzeGap(profileWithView, marketProfile, {
+      onToken: t => tokens.push(t),
+      signal: controller.signal,
+    });
+
+    expect(callJSON.mock.calls[0][3]).toMatchObject({ usage: { operation: 'gap_analysis' }, signal: controller.signal });
+    expect(tokens).toEqual([renderGapAnalysisMarkdown(content)]);
+  });
+
+  it('should abort the request when cancelled', async () => {
+    const controller = new AbortController();
+    vi.spyOn(llmClient, 'callJSON').mockImplementation((_role, _prompt, _schema, options) =>
+      new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new LLMCancelledError('openai')));
+        controller.abort();
+      })
+    );
+
+    const result = await strategyCore.analyzeGap(profileWithView, marketProfile, { signal: controller.signal });
+
+    expect(result).toMatchObject({ success: false, cancelled: true });
+    expect(app.vault.create).not.toHaveBeenCalled();
+  });
+
+  it('should render strengths with reasons and gaps with suggestions', () => {
+    const markdown = renderGapAnalysisMarkdown(content);
+
+    expect(markdown).toContain('- **Overall match**: 72%');
+    expect(markdown).toContain('- **Python**: Built the API in projects/api.md');
+    expect(markdown).toContain('| Kubernetes | 8 | 0.0 | high | Deploy a side project |');
+  });
+});
+
+describe('StrategyCore target comparison', () => {
+  const dataProfile: MarketProfile = {
+    ...marketProfile,
+    role: 'Data',
+    skills_demand: [
+      { name: 'Python', frequency: 6 },
+      { name: 'Spark', frequency: 6 },
+      { name: 'Kubernetes', frequency: 3 },
+    ],
+  };
+
+  it('should rank targets and split shared and unique gaps', () => {
+    const comparison = compareMarketTargets(selfProfile.skills, [dataProfile, marketProfile]);
+
+    expect(comparison.targets.map(t => [t.role, t.matchPercentage, t.uniqueGaps])).toEqual([
+      ['Backend', 66, ['Go']],
+      ['Data', 56, ['Spark']],
+    ]);
+    expect(comparison.sharedGaps).toEqual(['Kubernetes']);
+    expect(comparison.matrix).toEqual([
+      { skill: 'Kubernetes', statuses: ['high', 'medium'] },
+      { skill: 'Go', statuses: ['medium', 'not_required'] },
+      { skill: 'Spark', statuses: ['not_required', 'high'] },
+    ]);
+  });
+
+  it('should render the ranking and the gap matrix', () => {
+    const report = buildTargetComparisonReport(
+      compareMarketTargets(selfProfile.skills, [marketProfile, dataProfile]),
+      '2024-01-01T00:00:00.000Z'
+    );
+
+    expect(report).toContain('best_match: "Backend · Remote"');
+    expect(report).toContain('| 1 | Backend · Remote | 66% | 2 | 1 | Go |');
+    expect(report).toContain('| Spark | – | 🔴 high |');
+    expect(report).not.toContain('## Recommendation');
+  });
+
+  it('should save the comparison without calling the LLM in offline mode', async () => {
+    const app = createMockApp();
+    const settings = { ...createMockSettings(), targetComparisonRecommendation: true };
+    const llmClient = new LLMClient(settings);
+    const callSpy = vi.spyOn(llmClient, 'call');
+    const strategyCore = new StrategyCore(
+      app,
+      settings,
+      llmClient,
+      new IndexStore(app, 'test-plugin-dir', settings.indexDirectory, settings.mappingDirectory, settings.marketCardsDirectory),
+      new PromptStore(app, 'test-plugin-dir'),
+      'test-plugin-dir'
+    );
+
+    expect(await strategyCore.compareTargets(selfProfile, [marketProfile])).toMatchObject({ success: false });
+
+    const result = await strategyCore.compareTargets(selfProfile, [marketProfile, dataProfile]);
+
+    expect(result.success).toBe(true);
+    expect(callSpy).not.toHaveBeenCalled();
+    const [reportPath] = vi.mocked(app.vault.create).mock.calls[0];
+    expect(reportPath).toBe(result.comparison?.reportPath);
+    expect(reportPath).toMatch(/^test-mapping\/target_comparison_\d{4}-\d{2}-\d{2}\.md$/);
+  });
+
+  it('should attribute the recommendation call to target comparison', async () => {
+    const app = createMockApp();
+    const settings = { ...createMockSettings(), gapAnalysisMode: 'llm' as const, targetComparisonRecommendation: true };
+    const llmClient = new LLMClient(settings);
+    const callSpy = vi.spyOn(llmClient, 'call').mockResolvedValue('Pursue Backend first.');
+    const promptStore = new PromptStore(app, 'test-plugin-dir');
+    vi.spyOn(promptStore, 'getPrompt').mockResolvedValue('comparison prompt');
+    const strategyCore = new StrategyCore(
+      app,
+      settings,
+      llmClient,
+      new IndexStore(app, 'test-plugin-dir', settings.indexDirectory, settings.mappingDirectory, settings.marketCardsDirectory),
+      promptStore,
+      'test-plugin-dir'
+    );
+
+    const result = await strategyCore.compareTargets(selfProfile, [marketProfile, dataProfile]);
+
+    expect(callSpy).toHaveBeenCalledWith('analyze', 'comparison prompt', { usage: { operation: 'target_comparison' } });
+    expect(result.comparison?.recommendation).toBe('Pursue Backend first.');
+  });
+});
+
+describe('StrategyCore re-planning', () => {
+  const planPath = 'test-mapping/action_plan_Backend_Remote_2024-01-01.md';
+  const plan = `---
+type: action_plan
+---
+
+### 第 1 周
+- [x] [skill:Python] 完成异步编程教程（预计 3 小时）
+- [ ] [skill:Go] 写一个 CLI（预计 4 小时）
+
+### 第 2 周
+- [ ] [skill:Kubernetes] 部署一个服务（预计 5 小时）
+
+${COMPLETED_HISTORY_HEADING}
+
+- [x] 搭建开发环境（第 1 周，[[test-mapping/action_plan_Backend_Remote_2023-12-01]]）
+`;
+
+  it('should revise the remaining weeks and keep the completed-task history', async () => {
+    const app = createMockApp();
+    vi.mocked(app.vault.getAbstractFileByPath).mockImplementation((path: string) =>
+      path === planPath ? Object.assign(new TFile(), { path }) : null
+    );
+    (app.vault as any).read = vi.fn().mockResolvedValue(plan);
+
+    const settings = createMockSettings();
+    const llmClient = new LLMClient(settings);
+    const callSpy = vi.spyOn(llmClient, 'call').mockResolvedValue('## 3. 每周任务清单\n\n### 第 1 周\n- [ ] [skill:Go] 写一个 CLI（预计 4 小时）');
+    const indexStore = new IndexStore(app, 'test-plugin-dir', settings.indexDirectory, settings.mappingDirectory, settings.marketCardsDirectory);
+    vi.spyOn(indexStore, 'listActionPlans').mockResolvedValue([{
+      role: 'Backend', location: 'Remote', period: '1 个月', weeklyHours: 8,
+      generatedAt: '2024-01-01T00:00:00.000Z', planPath, revision: 1,
+    }]);
+    vi.spyOn(indexStore, 'readSelfProfile').mockResolvedValue({
+      ...selfProfile,
+      analysis_view: { top_skills: selfProfile.skills, recent_projects: [] },
+    });
+    vi.spyOn(indexStore, 'readMarketProfile').mockResolvedValue(marketProfile);
+    const promptStore = new PromptStore(app, 'test-plugin-dir');
+    const promptSpy = vi.spyOn(promptStore, 'getPrompt').mockResolvedValue('replan prompt');
+    const strategyCore = new StrategyCore(app, settings, llmClient, indexStore, promptStore, 'test-plugin-dir');
+
+    const result = await strategyCore.replan(planPath, {
+      now: new Date('2024-01-16T00:00:00.000Z'),
+      progress: {
+        plan_path: planPath,
+        started_at: '2024-01-01T00:00:00.000Z',
+        tasks: [{ id: 'cos-unknown', week: 1, phase: '', title: 'x', skills: [], done: true }],
+        task_notes: [],
+        updated_at: '2024-01-02T00:00:00.000Z',
+      },
+    });
+
+    expect(result).toMatchObject({ success: true, completedCount: 1, openCount: 2 });
+    expect(callSpy).toHaveBeenCalledWith('analyze', 'replan prompt', expect.anything());
+    expect(promptSpy).toHaveBeenCalledWith('replan', expect.objectContaining({
+      elapsed_weeks: '2',
+      remaining_weeks: '2',
+      completed_tasks: '- 第 1 周：[skill:Python] 完成异步编程教程（预计 3 小时）',
+    }));
+
+    // The offline gap report is written first, then the revised plan
+    const [newPath, content] = vi.mocked(app.vault.create).mock.calls[1];
+    expect(newPath).toBe(result.planPath);
+    expect(newPath).toMatch(/^test-mapping\/action_plan_Backend_Remote_\d{4}-\d{2}-\d{2}_r2\.md$/);
+    expect(content).toContain('previous_plan: "[[test-mapping/action_plan_Backend_Remote_2024-01-01]]"');
+    expect(content).toContain('period: "2 周"');
+    expect(content).toContain('revision: 2');
+    expect(extractCompletedHistory(content)).toEqual([
+      '- [x] 搭建开发环境（第 1 周，[[test-mapping/action_plan_Backend_Remote_2023-12-01]]）',
+      '- [x] [skill:Python] 完成异步编程教程（预计 3 小时）（第 1 周，[[test-mapping/action_plan_Backend_Remote_2024-01-01]]）',
+    ]);
+  });
+});
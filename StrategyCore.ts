@@ -4,9 +4,13 @@
  * Responsible for:
  * - Loading compressed SelfProfile analysis_view and target MarketProfile
  * - Constructing prompt with top N skills, recent M projects, and market demands
- * - Calling high-quality LLM (analyze role) with PROMPT 3
- * - Parsing Markdown report with match percentages, strengths, and gaps
+ * - Calling high-quality LLM (analyze role) for a schema-validated JSON gap analysis
+ * - Rendering the Markdown report from that structure (match percentage, strengths, gaps)
  * - Saving gap analysis report to mapping directory with frontmatter metadata
+ * - Attaching the most relevant NoteCards (via RagEngine) as project evidence
+ * - Offline gap reports built from the local algorithm only (no LLM call)
+ * - Comparing several market targets, with an optional LLM recommendation
+ * - Re-planning the remaining period of a plan from its progress
  * 
  * Requirements: 9.1, 9.2, 9.3, 9.4
  */
@@ -16,18 +20,29 @@ import {
   SelfProfile,
   MarketProfile,
   GapAnalysis,
+  GapAnalysisContent,
   Gap,
   GapPriority,
+  GapAnalysisMode,
+  TargetComparison,
+  TargetMatch,
+  TargetGapRow,
   PlanConstraints,
+  PlanProgress,
+  PlanTask,
   CareerOSSettings,
   SkillProfile,
   SkillDemand,
+  UsageOperation,
 } from './types';
-import { GapAnalysisSchema, CURRENT_SCHEMA_VERSION } from './schema';
-import { LLMClient } from './llmClient';
+import { GapAnalysisContentSchema, CURRENT_SCHEMA_VERSION } from './schema';
+import { LLMClient, LLMCancelledError } from './llmClient';
 import { IndexStore } from './IndexStore';
-import { PromptStore, getPlanPrompt } from './PromptStore';
+import { PromptStore, getPlanPrompt, getGapAnalysisPrompt, getTargetComparisonPrompt, getReplanPrompt } from './PromptStore';
 import { FileService } from './fs';
+import { RagEngine, DEFAULT_RAG_TOP_K } from './RagEngine';
+import { getPlanWeek } from './TaskBridge';
+import { parsePeriodWeeks, readPlanTasks, getPlanStart } from './utils/planBurndown';
 
 // ============================================================================
 // Types
@@ -37,23 +52,72 @@ export interface AnalyzeGapResult {
   success: boolean;
   gapAnalysis?: GapAnalysis;
   error?: string;
+  cancelled?: boolean;
+}
+
+export interface CompareTargetsResult {
+  success: boolean;
+  comparison?: TargetComparison;
+  error?: string;
 }
 
 export interface GeneratePlanResult {
   success: boolean;
   planPath?: string;
   error?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * Options for progressive report generation
+ * When either field is set, the analyze LLM is called in streaming mode.
+ */
+export interface GenerationOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface GapAnalysisOptions extends GenerationOptions {
+  mode?: GapAnalysisMode;  // Overrides the gapAnalysisMode setting
+}
+
+export interface ReplanOptions extends GenerationOptions {
+  progress?: PlanProgress | null;  // Tracked task state; ticks there count as done
+  now?: Date;
 }
 
 /**
- * Parsed gap analysis data from LLM response
+ * NoteCard evidence retrieved for the target market's top skills
  */
-interface ParsedGapAnalysis {
-  matchPercentage: number;
-  strengths: string[];
-  gaps: Gap[];
+interface RetrievedEvidence {
+  notePath: string;
+  matchedSkill: string;
+  score: number;
+  summary: string;
+  evidence: string[];
 }
 
+/**
+ * Number of top market skills used as retrieval queries
+ */
+const RETRIEVAL_SKILL_COUNT = 10;
+
+/**
+ * Marks strengths that no JD asked for
+ */
+const UNIQUE_STRENGTH_SUFFIX = ' (独特优势)';
+
+/**
+ * Evidence notes linked per skill in offline reports
+ */
+const OFFLINE_EVIDENCE_NOTES = 3;
+
+/**
+ * Section of a revised plan that carries the completed tasks of its
+ * predecessors; it has no week headings, so it is not read as tasks
+ */
+export const COMPLETED_HISTORY_HEADING = '## 已完成任务（历史）';
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -135,7 +199,7 @@ function identifyStrengths(
       }
     } else if (skill.level >= 3) {
       // High-level skills not in market demands are also strengths
-      strengths.push(`${skill.name} (独特优势)`);
+      strengths.push(`${skill.name}${UNIQUE_STRENGTH_SUFFIX}`);
     }
   }
 
@@ -199,108 +263,232 @@ function identifyGaps(
 }
 
 /**
- * Parse match percentage from LLM response
+ * Build the body of an offline gap report from the local results
+ * 
+ * Every market skill gets a row: the required level is its JD frequency
+ * scaled to 0-5 against the most requested skill, and a skill below 80% of
+ * it is a gap. Evidence links come from the skills' source notes.
  */
-function parseMatchPercentage(content: string): number | null {
-  // Look for patterns like "整体匹配度：XX%" or "Overall match: XX%"
-  const patterns = [
-    /整体匹配度[：:]\s*(\d+(?:\.\d+)?)\s*%/,
-    /匹配度[：:]\s*(\d+(?:\.\d+)?)\s*%/,
-    /Overall match[：:]?\s*(\d+(?:\.\d+)?)\s*%/i,
-    /Match[：:]?\s*(\d+(?:\.\d+)?)\s*%/i,
-  ];
+export function buildOfflineGapReport(
+  selfSkills: SkillProfile[],
+  marketProfile: MarketProfile,
+  matchPercentage: number,
+  strengths: string[],
+  gaps: Gap[]
+): string {
+  const skillMap = new Map(selfSkills.map(s => [s.name.toLowerCase(), s]));
+  const gapMap = new Map(gaps.map(g => [g.skillName.toLowerCase(), g]));
+  const maxDemand = Math.max(...marketProfile.skills_demand.map(d => d.frequency), 1);
+
+  const evidenceFor = (name: string): string => {
+    const notes = skillMap.get(name.toLowerCase())?.evidence_notes.slice(0, OFFLINE_EVIDENCE_NOTES) ?? [];
+    return notes.length > 0
+      ? notes.map(n => `[[${n.replace(/\.md$/, '')}]]`).join(', ')
+      : '-';
+  };
+
+  let content = `## Match Assessment
+
+- **Overall match**: ${matchPercentage}%
+- **Mode**: offline (computed locally from skill levels and JD frequencies, no LLM)
+- **Market skills covered**: ${marketProfile.skills_demand.filter(d => skillMap.has(d.name.toLowerCase())).length} / ${marketProfile.skills_demand.length}
+
+## Skill Match
+
+| Skill | JD Frequency | Required Level | Your Level | Status | Evidence |
+|-------|--------------|----------------|------------|--------|----------|
+`;
+
+  for (const demand of marketProfile.skills_demand) {
+    const level = skillMap.get(demand.name.toLowerCase())?.level ?? 0;
+    const required = (demand.frequency / maxDemand) * 5;
+    const gap = gapMap.get(demand.name.toLowerCase());
+    const status = gap ? `⚠️ Gap (${gap.priority})` : '✅ Meets';
+    content += `| ${demand.name} | ${demand.frequency} | ${required.toFixed(1)} | ${level.toFixed(1)} | ${status} | ${evidenceFor(demand.name)} |\n`;
+  }
+
+  content += '\n## Strengths\n\n';
+  if (strengths.length === 0) {
+    content += '*No skill reaches 80% of its market requirement yet.*\n';
+  }
+  for (const strength of strengths) {
+    const name = strength.endsWith(UNIQUE_STRENGTH_SUFFIX)
+      ? strength.slice(0, -UNIQUE_STRENGTH_SUFFIX.length)
+      : strength;
+    const level = skillMap.get(name.toLowerCase())?.level ?? 0;
+    content += `- **${strength}** (level ${level.toFixed(1)}) — ${evidenceFor(name)}\n`;
+  }
 
-  for (const pattern of patterns) {
-    const match = content.match(pattern);
-    if (match) {
-      return parseFloat(match[1]);
+  content += '\n## Gaps\n\n';
+  if (gaps.length === 0) {
+    content += '*No gaps: every market skill is covered.*\n';
+  } else {
+    content += '| Skill | Market Demand | Current Level | Priority |\n|-------|---------------|---------------|----------|\n';
+    for (const gap of gaps) {
+      content += `| ${gap.skillName} | ${gap.marketDemand} | ${gap.currentLevel.toFixed(1)} | ${gap.priority} |\n`;
     }
   }
 
-  return null;
+  if (marketProfile.soft_requirements.length > 0) {
+    content += '\n## Soft Requirements\n\n*Not assessed in offline mode.*\n\n';
+    content += marketProfile.soft_requirements.map(r => `- ${r}`).join('\n') + '\n';
+  }
+
+  return content;
 }
 
 /**
- * Parse strengths from LLM response
+ * Render the body of an LLM gap report from its structured output
+ * 
+ * The GapAnalysis numbers come from the same structure, so the report text
+ * and the dashboard always agree.
  */
-function parseStrengths(content: string): string[] {
-  const strengths: string[] = [];
-  
-  // Look for strengths section
-  const strengthsSection = content.match(/###?\s*优势分析[\s\S]*?(?=###?\s|$)/i) ||
-                          content.match(/###?\s*Strengths[\s\S]*?(?=###?\s|$)/i) ||
-                          content.match(/###?\s*核心技能匹配[\s\S]*?(?=###?\s|$)/i);
-  
-  if (strengthsSection) {
-    // Extract bullet points
-    const bulletMatches = strengthsSection[0].matchAll(/[-*]\s+(.+)/g);
-    for (const match of bulletMatches) {
-      const strength = match[1].trim();
-      if (strength && !strength.includes('|')) { // Exclude table rows
-        strengths.push(strength);
-      }
+export function renderGapAnalysisMarkdown(content: GapAnalysisContent): string {
+  let markdown = `## Match Assessment
+
+- **Overall match**: ${content.matchPercentage}%
+
+${content.summary}
+
+## Strengths
+
+`;
+
+  if (content.strengths.length === 0) {
+    markdown += '*No strengths identified.*\n';
+  }
+  for (const strength of content.strengths) {
+    markdown += `- **${strength.skill}**: ${strength.reason}\n`;
+  }
+
+  markdown += '\n## Gaps\n\n';
+  if (content.gaps.length === 0) {
+    markdown += '*No gaps identified.*\n';
+  } else {
+    markdown += '| Skill | Market Demand | Current Level | Priority | Suggestion |\n|-------|---------------|---------------|----------|------------|\n';
+    for (const gap of content.gaps) {
+      markdown += `| ${gap.skillName} | ${gap.marketDemand} | ${gap.currentLevel.toFixed(1)} | ${gap.priority} | ${gap.suggestion ?? '-'} |\n`;
     }
   }
 
-  return strengths.slice(0, 10);
+  return markdown;
 }
 
 /**
- * Parse gaps from LLM response
+ * Run the local match algorithm against several market profiles
+ * 
+ * Targets are ranked by match percentage. A gap is shared when every target
+ * has it and unique when only one does; the matrix lists every skill that is
+ * a gap somewhere, most widespread first.
  */
-function parseGapsFromContent(content: string): Gap[] {
-  const gaps: Gap[] = [];
-  
-  // Look for gaps section or table
-  const gapsSection = content.match(/###?\s*差距分析[\s\S]*?(?=##\s|$)/i) ||
-                     content.match(/###?\s*关键差距[\s\S]*?(?=##\s|$)/i) ||
-                     content.match(/###?\s*Gaps[\s\S]*?(?=##\s|$)/i);
-  
-  if (gapsSection) {
-    // Try to parse table format
-    const tableRows = gapsSection[0].matchAll(/\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*(高|中|低|high|medium|low)\s*\|/gi);
-    
-    for (const row of tableRows) {
-      const skillName = row[1].trim();
-      if (skillName && !skillName.includes('---') && skillName !== '技能') {
-        const marketDemand = parseFloat(row[2]) || 0;
-        const currentLevel = parseFloat(row[3]) || 0;
-        let priority: GapPriority = 'medium';
-        
-        const priorityStr = row[4].toLowerCase().trim();
-        if (priorityStr === '高' || priorityStr === 'high') {
-          priority = 'high';
-        } else if (priorityStr === '低' || priorityStr === 'low') {
-          priority = 'low';
-        }
-
-        gaps.push({
-          skillName,
-          marketDemand,
-          currentLevel,
-          priority,
-        });
+export function compareMarketTargets(
+  selfSkills: SkillProfile[],
+  marketProfiles: MarketProfile[]
+): TargetComparison {
+  const ranked = marketProfiles
+    .map(profile => ({
+      target: {
+        role: profile.role,
+        location: profile.location,
+        matchPercentage: calculateMatchPercentage(selfSkills, profile.skills_demand),
+        gaps: identifyGaps(selfSkills, profile.skills_demand),
+        uniqueGaps: [],
+      } as TargetMatch,
+      demanded: new Set(profile.skills_demand.map(d => d.name.toLowerCase())),
+    }))
+    .sort((a, b) => b.target.matchPercentage - a.target.matchPercentage || a.target.role.localeCompare(b.target.role));
+  const targets = ranked.map(r => r.target);
+
+  // Skill key -> display name, in order of first appearance
+  const gapSkills = new Map<string, string>();
+  for (const target of targets) {
+    for (const gap of target.gaps) {
+      const key = gap.skillName.toLowerCase();
+      if (!gapSkills.has(key)) {
+        gapSkills.set(key, gap.skillName);
       }
     }
+  }
 
-    // If no table found, try bullet points
-    if (gaps.length === 0) {
-      const bulletMatches = gapsSection[0].matchAll(/[-*]\s+\*?\*?([^*\n]+)\*?\*?/g);
-      for (const match of bulletMatches) {
-        const skillName = match[1].trim();
-        if (skillName && !skillName.includes('|')) {
-          gaps.push({
-            skillName,
-            marketDemand: 0,
-            currentLevel: 0,
-            priority: 'medium',
-          });
-        }
-      }
+  const matrix: TargetGapRow[] = Array.from(gapSkills.entries()).map(([key, skill]) => ({
+    skill,
+    statuses: targets.map((target, i) => {
+      const gap = target.gaps.find(g => g.skillName.toLowerCase() === key);
+      if (gap) return gap.priority;
+      return ranked[i].demanded.has(key) ? 'met' : 'not_required';
+    }),
+  }));
+
+  const gapCount = (row: TargetGapRow) =>
+    row.statuses.filter(s => s !== 'met' && s !== 'not_required').length;
+  matrix.sort((a, b) => gapCount(b) - gapCount(a) || a.skill.localeCompare(b.skill));
+
+  const sharedGaps = matrix.filter(row => gapCount(row) === targets.length).map(row => row.skill);
+  for (const row of matrix) {
+    if (gapCount(row) === 1) {
+      const index = row.statuses.findIndex(s => s !== 'met' && s !== 'not_required');
+      targets[index].uniqueGaps.push(row.skill);
     }
   }
 
-  return gaps;
+  return { targets, sharedGaps, matrix };
+}
+
+/**
+ * Render a target comparison as a Markdown report
+ */
+export function buildTargetComparisonReport(comparison: TargetComparison, timestamp: string): string {
+  const statusLabels: Record<TargetGapRow['statuses'][number], string> = {
+    high: '🔴 high',
+    medium: '🟠 medium',
+    low: '🟡 low',
+    met: '✅',
+    not_required: '–',
+  };
+  const targetLabel = (t: TargetMatch) => `${t.role} · ${t.location}`;
+
+  let content = `---
+type: target_comparison
+targets: ${comparison.targets.length}
+best_match: "${comparison.targets[0] ? targetLabel(comparison.targets[0]) : ''}"
+shared_gaps: ${comparison.sharedGaps.length}
+generated_at: "${timestamp}"
+schema_version: ${CURRENT_SCHEMA_VERSION}
+---
+
+# Target Comparison
+
+Computed locally from the SelfProfile skill levels and each market profile's JD frequencies.
+
+## Ranking
+
+| # | Target | Match | Gaps | High Priority | Unique Gaps |
+|---|--------|-------|------|---------------|-------------|
+`;
+
+  comparison.targets.forEach((target, i) => {
+    const high = target.gaps.filter(g => g.priority === 'high').length;
+    content += `| ${i + 1} | ${targetLabel(target)} | ${target.matchPercentage}% | ${target.gaps.length} | ${high} | ${target.uniqueGaps.join(', ') || '-'} |\n`;
+  });
+
+  content += '\n## Shared Gaps\n\n';
+  content += comparison.sharedGaps.length > 0
+    ? comparison.sharedGaps.map(skill => `- ${skill}`).join('\n') + '\n'
+    : '*No gap is shared by every target.*\n';
+
+  if (comparison.matrix.length > 0) {
+    content += `\n## Gap Matrix\n\n| Skill | ${comparison.targets.map(targetLabel).join(' | ')} |\n`;
+    content += `|-------|${comparison.targets.map(() => '---').join('|')}|\n`;
+    for (const row of comparison.matrix) {
+      content += `| ${row.skill} | ${row.statuses.map(s => statusLabels[s]).join(' | ')} |\n`;
+    }
+  }
+
+  if (comparison.recommendation) {
+    content += `\n## Recommendation\n\n${comparison.recommendation}\n`;
+  }
+
+  return content;
 }
 
 // ============================================================================
@@ -313,6 +501,7 @@ export class StrategyCore {
   private promptStore: PromptStore;
   private fileService: FileService;
   private settings: CareerOSSettings;
+  private ragEngine?: RagEngine;
 
   constructor(
     private app: App,
@@ -320,13 +509,15 @@ export class StrategyCore {
     llmClient: LLMClient,
     indexStore: IndexStore,
     promptStore: PromptStore,
-    pluginDataDir: string
+    pluginDataDir: string,
+    ragEngine?: RagEngine
   ) {
     this.settings = settings;
     this.llmClient = llmClient;
     this.indexStore = indexStore;
     this.promptStore = promptStore;
     this.fileService = new FileService(app, pluginDataDir);
+    this.ragEngine = ragEngine;
   }
 
   /**
@@ -353,12 +544,18 @@ export class StrategyCore {
    * 
    * @param selfProfile - User's self profile
    * @param marketProfile - Target market profile
+   * @param options - Optional streaming callback, cancellation signal and mode
    * @returns Gap analysis result
    */
   async analyzeGap(
     selfProfile: SelfProfile,
-    marketProfile: MarketProfile
+    marketProfile: MarketProfile,
+    options: GapAnalysisOptions = {}
   ): Promise<AnalyzeGapResult> {
+    if ((options.mode ?? this.settings.gapAnalysisMode) === 'offline') {
+      return await this.analyzeGapOffline(selfProfile, marketProfile);
+    }
+
     try {
       // Requirement 9.1: Load compressed analysis_view
       const analysisView = selfProfile.analysis_view;
@@ -369,19 +566,8 @@ export class StrategyCore {
         };
       }
 
-      // Calculate initial gap analysis locally (for validation)
-      const localMatchPercentage = calculateMatchPercentage(
-        analysisView.top_skills,
-        marketProfile.skills_demand
-      );
-      const localStrengths = identifyStrengths(
-        analysisView.top_skills,
-        marketProfile.skills_demand
-      );
-      const localGaps = identifyGaps(
-        analysisView.top_skills,
-        marketProfile.skills_demand
-      );
+      // Retrieve NoteCards that back the market's top skills (empty when RAG is off)
+      const relevantEvidence = await this.retrieveEvidence(marketProfile);
 
       // Requirement 9.2: Prepare compressed data for LLM
       // Only include top N skills, recent M projects, and high-frequency preferences
@@ -400,6 +586,14 @@ export class StrategyCore {
           likes: selfProfile.preferences.likes.slice(0, 5),
           dislikes: selfProfile.preferences.dislikes.slice(0, 3),
         },
+        ...(relevantEvidence.length > 0 && {
+          relevant_notes: relevantEvidence.map(e => ({
+            note: e.notePath,
+            related_skill: e.matchedSkill,
+            summary: e.summary,
+            evidence: e.evidence,
+          })),
+        }),
       }, null, 2);
 
       const compressedMarketProfile = JSON.stringify({
@@ -414,29 +608,20 @@ export class StrategyCore {
       }, null, 2);
 
       // Build prompt for LLM
-      const prompt = await getPlanPrompt(
+      const prompt = await getGapAnalysisPrompt(
         this.promptStore,
         compressedSelfProfile,
         compressedMarketProfile,
         marketProfile.role,
-        marketProfile.location,
-        3, // Default 3 months for gap analysis
-        10 // Default 10 hours/week
+        marketProfile.location
       );
 
-      // Requirement 9.3: Call LLM (analyze role) to generate report
+      // Requirement 9.3: Call LLM (analyze role) for the structured analysis
       console.log('Calling LLM for gap analysis...');
-      const llmResponse = await this.llmClient.call('analyze', prompt);
-
-      // Parse LLM response for structured data
-      const parsedMatchPercentage = parseMatchPercentage(llmResponse);
-      const parsedStrengths = parseStrengths(llmResponse);
-      const parsedGaps = parseGapsFromContent(llmResponse);
+      const content = await this.generateGapAnalysisContent(prompt, options);
+      const reportBody = renderGapAnalysisMarkdown(content);
 
-      // Use LLM-parsed values if available, otherwise use local calculations
-      const finalMatchPercentage = parsedMatchPercentage ?? localMatchPercentage;
-      const finalStrengths = parsedStrengths.length > 0 ? parsedStrengths : localStrengths;
-      const finalGaps = parsedGaps.length > 0 ? parsedGaps : localGaps;
+      const strengths = content.strengths.map(s => s.skill);
 
       // Requirement 9.4: Save report to mapping directory with frontmatter
       const timestamp = new Date().toISOString();
@@ -446,13 +631,14 @@ export class StrategyCore {
 
       // Build report with frontmatter
       const reportContent = this.buildGapAnalysisReport(
-        llmResponse,
-        finalMatchPercentage,
-        finalStrengths,
-        finalGaps,
+        reportBody,
+        content.matchPercentage,
+        strengths,
+        content.gaps,
         selfProfile,
         marketProfile,
-        timestamp
+        timestamp,
+        relevantEvidence
       );
 
       // Save report
@@ -460,19 +646,23 @@ export class StrategyCore {
 
       // Build GapAnalysis result
       const gapAnalysis: GapAnalysis = {
-        matchPercentage: finalMatchPercentage,
-        strengths: finalStrengths,
-        gaps: finalGaps,
+        matchPercentage: content.matchPercentage,
+        strengths,
+        gaps: content.gaps,
         reportPath,
       };
 
-      console.log(`Gap analysis completed: ${finalMatchPercentage}% match, ${finalGaps.length} gaps identified`);
+      console.log(`Gap analysis completed: ${content.matchPercentage}% match, ${content.gaps.length} gaps identified`);
 
       return {
         success: true,
         gapAnalysis,
       };
     } catch (error) {
+      if (error instanceof LLMCancelledError) {
+        console.log('Gap analysis cancelled');
+        return { success: false, error: 'Cancelled', cancelled: true };
+      }
       console.error('Gap analysis failed:', error);
       return {
         success: false,
@@ -481,17 +671,105 @@ export class StrategyCore {
     }
   }
 
+  /**
+   * Build the gap report from the local algorithm only
+   * 
+   * Uses every profile skill rather than the compressed analysis_view, since
+   * there is no prompt to keep small. The same profiles always give the same
+   * report (apart from the generation timestamp).
+   */
+  private async analyzeGapOffline(
+    selfProfile: SelfProfile,
+    marketProfile: MarketProfile
+  ): Promise<AnalyzeGapResult> {
+    try {
+      const matchPercentage = calculateMatchPercentage(selfProfile.skills, marketProfile.skills_demand);
+      const strengths = identifyStrengths(selfProfile.skills, marketProfile.skills_demand);
+      const gaps = identifyGaps(selfProfile.skills, marketProfile.skills_demand);
+
+      const timestamp = new Date().toISOString();
+      const dateStr = timestamp.split('T')[0];
+      const reportFilename = `gap_analysis_${marketProfile.role.replace(/\s+/g, '_')}_${marketProfile.location}_${dateStr}.md`;
+      const reportPath = `${this.settings.mappingDirectory}/${reportFilename}`;
+
+      const reportContent = this.buildGapAnalysisReport(
+        buildOfflineGapReport(selfProfile.skills, marketProfile, matchPercentage, strengths, gaps),
+        matchPercentage,
+        strengths,
+        gaps,
+        selfProfile,
+        marketProfile,
+        timestamp,
+        [],
+        'offline'
+      );
+
+      await this.saveReport(reportPath, reportContent);
+
+      console.log(`Offline gap analysis completed: ${matchPercentage}% match, ${gaps.length} gaps identified`);
+
+      return {
+        success: true,
+        gapAnalysis: { matchPercentage, strengths, gaps, reportPath },
+      };
+    } catch (error) {
+      console.error('Offline gap analysis failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Call the analyze LLM for the structured gap analysis
+   * 
+   * The JSON is validated (and retried) before anything is shown, so the
+   * rendered report reaches `onToken` in one piece once it is valid.
+   */
+  private async generateGapAnalysisContent(
+    prompt: string,
+    options: GenerationOptions
+  ): Promise<GapAnalysisContent> {
+    const content = await this.llmClient.callJSON('analyze', prompt, GapAnalysisContentSchema, {
+      usage: { operation: 'gap_analysis' },
+      signal: options.signal,
+    });
+    options.onToken?.(renderGapAnalysisMarkdown(content));
+    return content;
+  }
+
+  /**
+   * Call the analyze LLM, streaming when a token callback or signal is given
+   */
+  private async generateText(
+    prompt: string,
+    options: GenerationOptions,
+    operation: UsageOperation
+  ): Promise<string> {
+    if (options.onToken || options.signal) {
+      return await this.llmClient.stream('analyze', prompt, {
+        onToken: options.onToken,
+        signal: options.signal,
+        usage: { operation },
+      });
+    }
+    return await this.llmClient.call('analyze', prompt, { usage: { operation } });
+  }
+
   /**
    * Build gap analysis report with frontmatter
    */
   private buildGapAnalysisReport(
-    llmResponse: string,
+    reportBody: string,
     matchPercentage: number,
     strengths: string[],
     gaps: Gap[],
     selfProfile: SelfProfile,
     marketProfile: MarketProfile,
-    timestamp: string
+    timestamp: string,
+    relevantEvidence: RetrievedEvidence[] = [],
+    mode: GapAnalysisMode = 'llm'
   ): string {
     const dateStr = timestamp.split('T')[0];
     
@@ -503,6 +781,8 @@ target_location: "${marketProfile.location}"
 match_percentage: ${matchPercentage}
 strengths_count: ${strengths.length}
 gaps_count: ${gaps.length}
+evidence_notes_count: ${relevantEvidence.length}
+analysis_mode: ${mode}
 generated_at: "${timestamp}"
 source_self_profile: "self_profile_${dateStr}.json"
 source_market_profile: "market_${marketProfile.role.toLowerCase().replace(/\s+/g, '_')}_${marketProfile.location.toLowerCase()}_${dateStr}.json"
@@ -529,8 +809,66 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
 
 `;
 
-    // Combine with LLM response
-    return frontmatter + summary + llmResponse;
+    // Cite the notes that were given to the LLM as evidence
+    let evidenceSection = '';
+    if (relevantEvidence.length > 0) {
+      const lines = relevantEvidence.map(e => {
+        const linkTarget = e.notePath.replace(/\.md$/, '');
+        return `- [[${linkTarget}]] — ${e.matchedSkill} (similarity ${e.score.toFixed(2)}): ${e.summary}`;
+      });
+      evidenceSection = `## Evidence From Notes
+
+${lines.join('\n')}
+
+---
+
+`;
+    }
+
+    // Combine with the report body
+    return frontmatter + summary + evidenceSection + reportBody;
+  }
+
+  /**
+   * Retrieve NoteCards most relevant to the market's top skills
+   * 
+   * Uses the top market skills as queries against the RagEngine vector index.
+   * Returns an empty list when retrieval is disabled or fails, so gap analysis
+   * still works without an embedding model.
+   */
+  private async retrieveEvidence(marketProfile: MarketProfile): Promise<RetrievedEvidence[]> {
+    if (!this.ragEngine || !this.ragEngine.isEnabled()) {
+      return [];
+    }
+
+    try {
+      const skillQueries = marketProfile.skills_demand
+        .slice(0, RETRIEVAL_SKILL_COUNT)
+        .map(s => s.name);
+      const topK = this.settings.ragTopK ?? DEFAULT_RAG_TOP_K;
+      const results = await this.ragEngine.searchMany(skillQueries, topK);
+
+      const evidence: RetrievedEvidence[] = [];
+      for (const result of results) {
+        const card = await this.indexStore.readNoteCard(result.note_path);
+        if (!card || card.deleted) {
+          continue;
+        }
+        evidence.push({
+          notePath: card.note_path,
+          matchedSkill: result.matched_query,
+          score: result.score,
+          summary: card.summary,
+          evidence: card.evidence.slice(0, 3),
+        });
+      }
+
+      console.log(`Retrieved ${evidence.length} evidence notes for gap analysis`);
+      return evidence;
+    } catch (error) {
+      console.error('Evidence retrieval failed, continuing without it:', error);
+      return [];
+    }
   }
 
   /**
@@ -557,6 +895,92 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
     }
   }
 
+  // ============================================================================
+  // Target Comparison
+  // ============================================================================
+
+  /**
+   * Compare the self profile against several market targets
+   * 
+   * The ranking and matrix come from the local algorithm (all profile
+   * skills). The recommendation is only requested when enabled and not in
+   * offline mode; if it fails the comparison is still saved without it.
+   * 
+   * @returns Comparison with the saved report path
+   */
+  async compareTargets(
+    selfProfile: SelfProfile,
+    marketProfiles: MarketProfile[]
+  ): Promise<CompareTargetsResult> {
+    if (marketProfiles.length < 2) {
+      return {
+        success: false,
+        error: 'At least two market profiles are needed for a comparison.',
+      };
+    }
+
+    try {
+      const comparison = compareMarketTargets(selfProfile.skills, marketProfiles);
+
+      if (this.settings.targetComparisonRecommendation && this.settings.gapAnalysisMode !== 'offline') {
+        comparison.recommendation = await this.recommendTarget(selfProfile, comparison);
+      }
+
+      const timestamp = new Date().toISOString();
+      const reportPath = `${this.settings.mappingDirectory}/target_comparison_${timestamp.split('T')[0]}.md`;
+      await this.saveReport(reportPath, buildTargetComparisonReport(comparison, timestamp));
+      comparison.reportPath = reportPath;
+
+      console.log(`Target comparison completed: ${comparison.targets.length} targets, ${comparison.sharedGaps.length} shared gaps`);
+
+      return { success: true, comparison };
+    } catch (error) {
+      console.error('Target comparison failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Ask the analyze LLM which target to pursue
+   * 
+   * @returns Recommendation Markdown, or a note when the call failed
+   */
+  private async recommendTarget(selfProfile: SelfProfile, comparison: TargetComparison): Promise<string> {
+    try {
+      const analysisView = selfProfile.analysis_view;
+      const compressedSelfProfile = JSON.stringify({
+        top_skills: (analysisView?.top_skills ?? selfProfile.skills).map(s => ({
+          name: s.name,
+          level: s.level,
+        })),
+        preferences: {
+          likes: selfProfile.preferences.likes.slice(0, 5),
+          dislikes: selfProfile.preferences.dislikes.slice(0, 3),
+        },
+      }, null, 2);
+
+      const compressedComparison = JSON.stringify({
+        targets: comparison.targets.map(t => ({
+          role: t.role,
+          location: t.location,
+          matchPercentage: t.matchPercentage,
+          gaps: t.gaps.map(g => ({ skill: g.skillName, priority: g.priority })),
+          uniqueGaps: t.uniqueGaps,
+        })),
+        sharedGaps: comparison.sharedGaps,
+      }, null, 2);
+
+      const prompt = await getTargetComparisonPrompt(this.promptStore, compressedSelfProfile, compressedComparison);
+      return (await this.llmClient.call('analyze', prompt, { usage: { operation: 'target_comparison' } })).trim();
+    } catch (error) {
+      console.error('Target recommendation failed, saving the comparison without it:', error);
+      return `*Recommendation unavailable: ${error instanceof Error ? error.message : String(error)}*`;
+    }
+  }
+
   // ============================================================================
   // Action Plan Generation
   // Requirements: 10.1, 10.2, 10.3, 10.4
@@ -572,10 +996,12 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
    * - 10.4: Save plan with metadata in frontmatter
    * 
    * @param constraints - User constraints for plan generation (role, location, period, hours)
+   * @param options - Optional streaming callback and cancellation signal
    * @returns Plan generation result with path to saved plan
    */
   async generatePlan(
-    constraints: PlanConstraints
+    constraints: PlanConstraints,
+    options: GenerationOptions = {}
   ): Promise<GeneratePlanResult> {
     try {
       // Validate constraints (Requirement 10.1)
@@ -626,49 +1052,18 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
       }
 
       // Requirement 10.2: Prepare compressed profiles for LLM
-      const analysisView = selfProfile.analysis_view;
-      if (!analysisView) {
+      if (!selfProfile.analysis_view) {
         return {
           success: false,
           error: 'SelfProfile 缺少 analysis_view，请重新构建',
         };
       }
 
-      // Compress SelfProfile for token efficiency
-      const compressedSelfProfile = JSON.stringify({
-        top_skills: analysisView.top_skills.map(s => ({
-          name: s.name,
-          level: s.level,
-          category: s.category,
-        })),
-        recent_projects: analysisView.recent_projects.map(p => ({
-          summary: p.summary,
-          tech_stack: p.tech_stack.map(t => t.name),
-          time_span: p.time_span,
-        })),
-        preferences: {
-          likes: selfProfile.preferences.likes.slice(0, 5),
-          dislikes: selfProfile.preferences.dislikes.slice(0, 3),
-        },
-      }, null, 2);
-
-      // Compress MarketProfile for token efficiency
-      const compressedMarketProfile = JSON.stringify({
-        role: marketProfile.role,
-        location: marketProfile.location,
-        top_skills_demand: marketProfile.skills_demand.slice(0, 15).map(s => ({
-          name: s.name,
-          frequency: s.frequency,
-        })),
-        experience_distribution: marketProfile.experience_distribution,
-        soft_requirements: marketProfile.soft_requirements.slice(0, 5),
-      }, null, 2);
-
       // Build prompt for LLM
       const prompt = await getPlanPrompt(
         this.promptStore,
-        compressedSelfProfile,
-        compressedMarketProfile,
+        compressProfileForPlan(selfProfile),
+        compressMarketProfileForPlan(marketProfile),
         constraints.targetRole,
         constraints.location,
         constraints.periodMonths,
@@ -677,7 +1072,7 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
 
       // Requirement 10.3: Call LLM (analyze role) to generate plan
       console.log('Calling LLM for action plan generation...');
-      const llmResponse = await this.llmClient.call('analyze', prompt);
+      const llmResponse = await this.generateText(prompt, options, 'action_plan');
 
       // Requirement 10.4: Save plan with frontmatter metadata
       const timestamp = new Date().toISOString();
@@ -706,6 +1101,10 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
         planPath,
       };
     } catch (error) {
+      if (error instanceof LLMCancelledError) {
+        console.log('Action plan generation cancelled');
+        return { success: false, error: 'Cancelled', cancelled: true };
+      }
       console.error('Action plan generation failed:', error);
       return {
         success: false,
@@ -771,10 +1170,12 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
    * then generates the action plan based on the results.
    * 
    * @param constraints - User constraints for plan generation
+   * @param options - Optional streaming callback and cancellation signal (shared by both steps)
    * @returns Plan generation result
    */
   async generatePlanWithGapAnalysis(
-    constraints: PlanConstraints
+    constraints: PlanConstraints,
+    options: GenerationOptions = {}
   ): Promise<GeneratePlanResult> {
     try {
       // Load profiles
@@ -798,7 +1199,10 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
       }
 
       // First, perform gap analysis
-      const gapResult = await this.analyzeGap(selfProfile, marketProfile);
+      const gapResult = await this.analyzeGap(selfProfile, marketProfile, options);
+      if (gapResult.cancelled) {
+        return { success: false, error: 'Cancelled', cancelled: true };
+      }
       if (!gapResult.success || !gapResult.gapAnalysis) {
         return {
           success: false,
@@ -807,7 +1211,7 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
       }
 
       // Then generate the action plan
-      return await this.generatePlan(constraints);
+      return await this.generatePlan(constraints, options);
     } catch (error) {
       console.error('Plan generation with gap analysis failed:', error);
       return {
@@ -816,6 +1220,283 @@ schema_version: ${CURRENT_SCHEMA_VERSION}
       };
     }
   }
+
+  /**
+   * Revise a plan for its remaining period
+   * 
+   * Runs a fresh gap analysis, then asks the analyze LLM for a new plan built
+   * from the completed and open tasks and the weeks already spent. The new
+   * plan links to its predecessor and carries its completed-task history.
+   * 
+   * @param planPath - Plan to revise (usually the active one)
+   * @param options - Tracked progress, streaming callback and cancellation signal
+   */
+  async replan(planPath: string, options: ReplanOptions = {}): Promise<ReplanResult> {
+    try {
+      const plan = (await this.indexStore.listActionPlans()).find(p => p.planPath === planPath);
+      if (!plan) {
+        return { success: false, error: `未找到行动计划: ${planPath}` };
+      }
+
+      const selfProfile = await this.indexStore.readSelfProfile();
+      if (!selfProfile?.analysis_view) {
+        return { success: false, error: '未找到自我画像，请先构建 SelfProfile' };
+      }
+
+      const marketProfile = await this.indexStore.readMarketProfile(plan.role, plan.location);
+      if (!marketProfile) {
+        return {
+          success: false,
+          error: `未找到目标市场画像 (${plan.role} - ${plan.location})，请先构建 MarketProfile`,
+        };
+      }
+
+      const content = await this.fileService.read(planPath);
+      const now = options.now ?? new Date();
+      const execution = summarizePlanExecution(content, plan.period, plan.generatedAt, options.progress, now);
+
+      // Fresh gap analysis against the current profile
+      const gapResult = await this.analyzeGap(selfProfile, marketProfile, options);
+      if (gapResult.cancelled) {
+        return { success: false, error: 'Cancelled', cancelled: true };
+      }
+      if (!gapResult.success || !gapResult.gapAnalysis) {
+        return { success: false, error: `差距分析失败: ${gapResult.error}` };
+      }
+
+      const prompt = await getReplanPrompt(this.promptStore, {
+        selfProfileAnalysisView: compressProfileForPlan(selfProfile),
+        marketProfile: compressMarketProfileForPlan(marketProfile),
+        gapAnalysis: JSON.stringify({
+          matchPercentage: gapResult.gapAnalysis.matchPercentage,
+          strengths: gapResult.gapAnalysis.strengths,
+          gaps: gapResult.gapAnalysis.gaps,
+        }, null, 2),
+        targetRole: plan.role,
+        targetLocation: plan.location,
+        weeklyHours: plan.weeklyHours,
+        periodWeeks: execution.periodWeeks,
+        elapsedWeeks: execution.elapsedWeeks,
+        remainingWeeks: execution.remainingWeeks,
+        completedTasks: formatTaskList(execution.completed),
+        openTasks: formatTaskList(execution.open),
+      });
+
+      console.log('Calling LLM for plan revision...');
+      const llmResponse = await this.generateText(prompt, options, 'action_plan');
+
+      const timestamp = new Date().toISOString();
+      const revision = (plan.revision ?? 0) + 1;
+      const sanitizedRole = plan.role.replace(/\s+/g, '_');
+      const sanitizedLocation = plan.location.replace(/\s+/g, '_');
+      const newPlanPath = `${this.settings.mappingDirectory}/action_plan_${sanitizedRole}_${sanitizedLocation}_${timestamp.split('T')[0]}_r${revision}.md`;
+
+      await this.saveReport(newPlanPath, buildReplanDocument(llmResponse, {
+        role: plan.role,
+        location: plan.location,
+        weeklyHours: plan.weeklyHours,
+        previousPlanPath: planPath,
+        previousContent: content,
+        revision,
+        execution,
+        timestamp,
+      }));
+
+      console.log(`Revised action plan saved to: ${newPlanPath}`);
+
+      return {
+        success: true,
+        planPath: newPlanPath,
+        completedCount: execution.completed.length,
+        openCount: execution.open.length,
+      };
+    } catch (error) {
+      if (error instanceof LLMCancelledError) {
+        console.log('Re-planning cancelled');
+        return { success: false, error: 'Cancelled', cancelled: true };
+      }
+      console.error('Re-planning failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Re-planning
+// ============================================================================
+
+export interface ReplanResult extends GeneratePlanResult {
+  completedCount?: number;
+  openCount?: number;
+}
+
+/**
+ * Summary of a plan's execution handed to the re-plan prompt
+ */
+interface PlanExecution {
+  periodWeeks: number;
+  elapsedWeeks: number;
+  remainingWeeks: number;
+  completed: PlanTask[];
+  open: PlanTask[];
+}
+
+/**
+ * Week of the plan, counted from generated_at, and the tasks done so far
+ */
+function summarizePlanExecution(
+  content: string,
+  period: string,
+  generatedAt: string,
+  progress: PlanProgress | null | undefined,
+  now: Date
+): PlanExecution {
+  const tasks = readPlanTasks(content, progress);
+  const lastTaskWeek = tasks.reduce((max, t) => Math.max(max, t.week), 0);
+  const periodWeeks = Math.max(parsePeriodWeeks(period) ?? 0, lastTaskWeek, 1);
+  const startedAt = getPlanStart(generatedAt, progress);
+  const elapsedWeeks = startedAt ? getPlanWeek(startedAt, now) - 1 : 0;
+
+  return {
+    periodWeeks,
+    elapsedWeeks,
+    remainingWeeks: Math.max(1, periodWeeks - elapsedWeeks),
+    completed: tasks.filter(t => t.done),
+    open: tasks.filter(t => !t.done),
+  };
+}
+
+/**
+ * Task lines of a plan's completed-task history section
+ */
+export function extractCompletedHistory(content: string): string[] {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => line.trim() === COMPLETED_HISTORY_HEADING);
+  if (start === -1) {
+    return [];
+  }
+
+  const history: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^#{1,2}\s/.test(line)) {
+      break;
+    }
+    if (/^\s*[-*]\s+\[[xX]\]/.test(line)) {
+      history.push(line.trim());
+    }
+  }
+  return history;
+}
+
+/**
+ * Build a revised plan that links to the plan it replaces
+ *
+ * The completed tasks of the previous plan (and those it inherited) are kept
+ * in a history section at the end.
+ */
+export function buildReplanDocument(
+  llmResponse: string,
+  options: {
+    role: string;
+    location: string;
+    weeklyHours: number;
+    previousPlanPath: string;
+    previousContent: string;
+    revision: number;
+    execution: PlanExecution;
+    timestamp: string;
+  }
+): string {
+  const { execution, timestamp } = options;
+  const previousLink = options.previousPlanPath.replace(/\.md$/, '');
+  const history = [
+    ...extractCompletedHistory(options.previousContent),
+    ...execution.completed.map(t => `- [x] ${t.title}（第 ${t.week} 周，[[${previousLink}]]）`),
+  ];
+
+  const frontmatter = `---
+type: action_plan
+role: "${options.role}"
+location: "${options.location}"
+period: "${execution.remainingWeeks} 周"
+weekly_hours: ${options.weeklyHours}
+generated_at: "${timestamp}"
+previous_plan: "[[${previousLink}]]"
+revision: ${options.revision}
+inherited_completed_tasks: ${history.length}
+schema_version: ${CURRENT_SCHEMA_VERSION}
+---
+
+`;
+
+  const header = `# 行动计划（修订 ${options.revision}）
+
+## 计划概览
+- **目标岗位**: ${options.role}
+- **目标地点**: ${options.location}
+- **计划周期**: ${execution.remainingWeeks} 周（原计划 ${execution.periodWeeks} 周，已过去 ${execution.elapsedWeeks} 周）
+- **每周可用时间**: ${options.weeklyHours} 小时
+- **上一版计划**: [[${previousLink}]]
+- **原计划完成情况**: ${execution.completed.length} 项完成，${execution.open.length} 项未完成
+- **生成时间**: ${timestamp}
+
+---
+
+`;
+
+  const historySection = history.length > 0
+    ? `\n\n---\n\n${COMPLETED_HISTORY_HEADING}\n\n${history.join('\n')}\n`
+    : '\n';
+
+  return frontmatter + header + llmResponse.trim() + historySection;
+}
+
+function formatTaskList(tasks: PlanTask[]): string {
+  return tasks.length > 0
+    ? tasks.map(t => `- 第 ${t.week} 周：${t.title}`).join('\n')
+    : '- （无）';
+}
+
+/**
+ * Compress a SelfProfile for the plan prompts
+ */
+function compressProfileForPlan(selfProfile: SelfProfile): string {
+  const analysisView = selfProfile.analysis_view!;
+  return JSON.stringify({
+    top_skills: analysisView.top_skills.map(s => ({
+      name: s.name,
+      level: s.level,
+      category: s.category,
+    })),
+    recent_projects: analysisView.recent_projects.map(p => ({
+      summary: p.summary,
+      tech_stack: p.tech_stack.map(t => t.name),
+      time_span: p.time_span,
+    })),
+    preferences: {
+      likes: selfProfile.preferences.likes.slice(0, 5),
+      dislikes: selfProfile.preferences.dislikes.slice(0, 3),
+    },
+  }, null, 2);
+}
+
+/**
+ * Compress a MarketProfile for the plan prompts
+ */
+function compressMarketProfileForPlan(marketProfile: MarketProfile): string {
+  return JSON.stringify({
+    role: marketProfile.role,
+    location: marketProfile.location,
+    top_skills_demand: marketProfile.skills_demand.slice(0, 15).map(s => ({
+      name: s.name,
+      frequency: s.frequency,
+    })),
+    experience_distribution: marketProfile.experience_distribution,
+    soft_requirements: marketProfile.soft_requirements.slice(0, 5),
+  }, null, 2);
 }
 
 // ============================================================================
@@ -831,7 +1512,8 @@ export function createStrategyCore(
   llmClient: LLMClient,
   indexStore: IndexStore,
   promptStore: PromptStore,
-  pluginDataDir: string
+  pluginDataDir: string,
+  ragEngine?: RagEngine
 ): StrategyCore {
   return new StrategyCore(
     app,
@@ -839,6 +1521,7 @@ export function createStrategyCore(
     llmClient,
     indexStore,
     promptStore,
-    pluginDataDir
+    pluginDataDir,
+    ragEngine
   );
 }
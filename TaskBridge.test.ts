@@ -0,0 +1,205 @@
+/**
+ * TaskBridge Tests
+ *
+ * Unit tests for parsing plan checklists, writing tasks notes, reading
+ * checkbox state back into the progress record and listing completed tasks
+ * as skill evidence
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskBridge, parsePlanTasks, readTaskStates, getPlanWeek, isTaskDirectoryNote } from './TaskBridge';
+import { CareerOSSettings } from './types';
+import { createMockApp } from './test-mocks/vault';
+
+const PLAN_PATH = 'mapping/action_plan_backend_remote_2024-01-01.md';
+
+const PLAN = `---
+type: action_plan
+---
+
+## 2. 阶段性目标
+
+### 第一阶段（第 1-2 周）：基础夯实
+- 目标描述
+
+### 第二阶段（第 3-4 周）：技能提升
+
+## 3. 每周任务清单
+
+### 第 1 周
+- [ ] [skill:Python] 完成异步编程教程（预计 3 小时）
+- [ ] 整理学习笔记（预计 1 小时）
+
+**本周重点**：打基础
+
+### 第三周
+- [ ] [skill:Kubernetes] [skill:Docker] 部署一个服务 (2h)
+
+## 4. 学习资源推荐
+- [ ] 不是任务
+`;
+
+const createSettings = (overrides: Partial<CareerOSSettings> = {}): CareerOSSettings => ({
+  taskDirectory: 'Tasks',
+  dailyNotesFolder: 'Daily',
+  ...overrides,
+} as CareerOSSettings);
+
+describe('parsePlanTasks', () => {
+  it('should read weeks, phases, hours and skill tags', () => {
+    const tasks = parsePlanTasks(PLAN);
+
+    expect(tasks.map(t => [t.week, t.phase, t.estimated_hours, t.skills])).toEqual([
+      [1, '基础夯实', 3, ['Python']],
+      [1, '基础夯实', 1, []],
+      [3, '技能提升', 2, ['Kubernetes', 'Docker']],
+    ]);
+    expect(tasks.every(t => /^cos-w\d+-[a-z0-9]+$/.test(t.id))).toBe(true);
+    expect(parsePlanTasks(PLAN).map(t => t.id)).toEqual(tasks.map(t => t.id));
+  });
+
+  it('should keep ids unique for repeated tasks', () => {
+    const tasks = parsePlanTasks('### 第 1 周\n- [ ] 复习\n- [ ] 复习\n');
+    expect(tasks[1].id).toBe(`${tasks[0].id}-2`);
+  });
+});
+
+describe('isTaskDirectoryNote', () => {
+  it('should match notes under the tasks note directory only', () => {
+    expect(isTaskDirectoryNote('Tasks/action_plan_backend/week_01.md', createSettings())).toBe(true);
+    expect(isTaskDirectoryNote('Tasks.md', createSettings())).toBe(false);
+    expect(isTaskDirectoryNote('TasksArchive/week_01.md', createSettings())).toBe(false);
+    expect(isTaskDirectoryNote('CareerOS/Tasks/plan/week_01.md', createSettings({ taskDirectory: undefined }))).toBe(true);
+  });
+});
+
+describe('TaskBridge', () => {
+  let app: any;
+  let files: Map<string, string>;
+  const now = new Date('2024-01-01T09:00:00');
+
+  beforeEach(() => {
+    const mock = createMockApp();
+    app = mock.app;
+    files = mock.files;
+    files.set(PLAN_PATH, PLAN);
+  });
+
+  it('should write one tasks note per week and not duplicate lines', async () => {
+    const bridge = new TaskBridge(app, createSettings(), 'plugin');
+
+    const result = await bridge.dispatch(PLAN_PATH, now);
+
+    expect(result).toMatchObject({ success: true, taskCount: 3 });
+    const week1 = files.get('Tasks/action_plan_backend_remote_2024-01-01/week_01.md')!;
+    expect(week1).toContain('# Week 1 · 基础夯实');
+    expect(week1).toContain('plan: "[[mapping/action_plan_backend_remote_2024-01-01]]"');
+    expect(readTaskStates(week1).size).toBe(2);
+    expect(files.has('Tasks/action_plan_backend_remote_2024-01-01/week_03.md')).toBe(true);
+
+    await bridge.dispatch(PLAN_PATH, now);
+    expect(files.get('Tasks/action_plan_backend_remote_2024-01-01/week_01.md')).toBe(week1);
+  });
+
+  it('should track ticked checkboxes in the progress record', async () => {
+    const bridge = new TaskBridge(app, createSettings(), 'plugin');
+    await bridge.dispatch(PLAN_PATH, now);
+    const notePath = 'Tasks/action_plan_backend_remote_2024-01-01/week_01.md';
+
+    files.set(notePath, files.get(notePath)!.replace('- [ ] [skill:Python]', '- [x] [skill:Python]'));
+    const later = new Date('2024-01-03T10:00:00');
+
+    expect(bridge.isTaskNote(notePath)).toBe(true);
+    expect(await bridge.syncNote(notePath, later)).toBe(true);
+
+    const stored = JSON.parse(files.get('plugin/plan_progress/action_plan_backend_remote_2024-01-01.json')!);
+    expect(stored.tasks[0]).toMatchObject({ done: true, completed_at: later.toISOString() });
+    expect(stored.tasks[1].done).toBe(false);
+  });
+
+  it('should pick up ticks made while the plugin was not running', async () => {
+    await new TaskBridge(app, createSettings(), 'plugin').dispatch(PLAN_PATH, now);
+    const notePath = 'Tasks/action_plan_backend_remote_2024-01-01/week_01.md';
+    files.set(notePath, files.get(notePath)!.replace('- [ ] [skill:Python]', '- [x] [skill:Python]'));
+
+    const bridge = new TaskBridge(app, createSettings(), 'plugin');
+    await bridge.activate(PLAN_PATH, now);
+
+    expect((await bridge.getProgress())?.tasks[0].done).toBe(true);
+  });
+
+  it('should list completed skill tasks with their linked output notes', async () => {
+    const bridge = new TaskBridge(app, createSettings(), 'plugin');
+    await bridge.dispatch(PLAN_PATH, now);
+    const notePath = 'Tasks/action_plan_backend_remote_2024-01-01/week_01.md';
+    const later = new Date('2024-01-03T10:00:00');
+
+    // Unticked tasks and tasks without skills are not evidence
+    files.set(notePath, files.get(notePath)!
+      .replace('- [ ] [skill:Python] 完成异步编程教程', '- [x] [skill:Python] 完成异步编程教程 [[learning/asyncio|笔记]] [[projects/crawler#结果]]')
+      .replace('- [ ] 整理学习笔记', '- [x] 整理学习笔记'));
+    await bridge.syncNote(notePath, later);
+
+    const evidence = await bridge.listTaskEvidence();
+
+    expect(evidence).toEqual([{
+      plan_path: PLAN_PATH,
+      task_id: expect.stringMatching(/^cos-w1-/),
+      title: expect.stringContaining('完成异步编程教程'),
+      skills: ['Python'],
+      completed_at: later.toISOString(),
+      output_notes: ['learning/asyncio', 'projects/crawler'],
+    }]);
+  });
+
+  it('should date tasks ticked in the plan document and keep that date', async () => {
+    const bridge = new TaskBridge(app, createSettings(), 'plugin');
+    await bridge.dispatch(PLAN_PATH, now);
+    const later = new Date('2024-01-05T10:00:00');
+
+    files.set(PLAN_PATH, PLAN.replace('- [ ] [skill:Python]', '- [x] [skill:Python]'));
+    await bridge.dispatch(PLAN_PATH, later);
+    await bridge.dispatch(PLAN_PATH, new Date('2024-01-09T10:00:00'));
+
+    expect(await bridge.listTaskEvidence()).toMatchObject([
+      { skills: ['Python'], completed_at: later.toISOString() },
+    ]);
+  });
+
+  it('should add open tasks up to the current week to the daily note', async () => {
+    const bridge = new TaskBridge(app, createSettings({ taskBridgeTarget: 'daily_note' }), 'plugin');
+
+    await bridge.dispatch(PLAN_PATH, now);
+    const day1 = files.get('Daily/2024-01-01.md')!;
+    expect(day1).toContain('## CareerOS Tasks');
+    expect(readTaskStates(day1).size).toBe(2);
+
+    // Tick a task in day 1, then carry the other one over to day 16 (week 3)
+    files.set('Daily/2024-01-01.md', day1.replace('- [ ] [skill:Python]', '- [x] [skill:Python]'));
+    await bridge.syncNote('Daily/2024-01-01.md', now);
+    const day16 = new Date('2024-01-16T09:00:00');
+    await bridge.dispatch(PLAN_PATH, day16);
+
+    expect(readTaskStates(files.get('Daily/2024-01-16.md')!).size).toBe(2);
+    expect(getPlanWeek(now.toISOString(), day16)).toBe(3);
+
+    // The stale unticked copy in day 1 does not reopen anything
+    const progress = await bridge.getProgress();
+    const carried = progress!.tasks[1];
+    expect(carried.note).toBe('Daily/2024-01-16.md');
+    files.set('Daily/2024-01-16.md', files.get('Daily/2024-01-16.md')!.replace(`- [ ] ${carried.title}`, `- [x] ${carried.title}`));
+    await bridge.syncNote('Daily/2024-01-16.md', day16);
+    expect(await bridge.syncNote('Daily/2024-01-01.md', day16)).toBe(false);
+    expect((await bridge.getProgress())!.tasks[1].done).toBe(true);
+  });
+
+  it('should report plans without a weekly checklist', async () => {
+    files.set('mapping/empty.md', '# Plan\n\nNo tasks');
+    const bridge = new TaskBridge(app, createSettings(), 'plugin');
+
+    const result = await bridge.dispatch('mapping/empty.md', now);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No weekly checklist');
+  });
+});
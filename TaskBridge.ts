@@ -0,0 +1,618 @@
+/**
+ * TaskBridge - Turns the active action plan into Obsidian tasks
+ *
+ * Responsible for:
+ * - Parsing the plan's weekly checklists into structured tasks
+ *   (week, phase, estimated hours, [skill:Name] tags)
+ * - Writing the tasks into weekly tasks notes or today's daily note
+ * - Reading checkbox state back from those notes into a per-plan
+ *   progress record (plan_progress/)
+ * - Handing completed tasks to the SelfProfile build as skill evidence
+ *
+ * Every task line ends with a block ID (`^cos-w3-1a2b3c`), so tasks are
+ * recognised wherever they are and notes can be edited freely around them.
+ * Notes are only ever appended to; existing lines are never rewritten.
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import { CareerOSSettings, PlanProgress, PlanTask, TaskEvidence } from './types';
+import { PlanProgressSchema } from './schema';
+import { FileService } from './fs';
+import { WriteQueue } from './utils/writeQueue';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_TASK_DIRECTORY = 'CareerOS/Tasks';
+
+/**
+ * Heading the tasks are added under in daily notes
+ */
+export const DAILY_TASKS_HEADING = '## CareerOS Tasks';
+
+const WEEK_MS = 1000 * 60 * 60 * 24 * 7;
+
+const CHINESE_NUMBERS: Record<string, number> = {
+  一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const WEEK_HEADING_PATTERN = /^(?:第\s*([一二三四五六七八九十\d]+)\s*周|week\s+(\d+))/i;
+const PHASE_HEADING_PATTERN = /^(第\s*[一二三四五六七八九十\d]+\s*阶段|phase\s*\d+)\s*[（(]\s*(?:第|weeks?)?\s*(\d+)\s*[-–~至到]\s*(\d+)\s*周?\s*[）)]\s*[：:]?\s*(.*)$/i;
+const CHECKBOX_PATTERN = /^\s*[-*]\s+\[([ xX])\]\s+(.+?)\s*$/;
+const HOURS_PATTERN = /[（(]\s*(?:预计|约|~)?\s*(\d+(?:\.\d+)?)\s*(?:个)?\s*(?:小时|h|hours?)\s*[）)]/i;
+const SKILL_TAG_PATTERN = /\[skill:\s*([^\]]+?)\s*\]/gi;
+const TRACKED_TASK_PATTERN = /^\s*[-*]\s+\[([ xX])\]\s+(.*)\^(cos-[a-z0-9-]+)\s*$/;
+const WIKI_LINK_PATTERN = /\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A tracked task line in a tasks note
+ */
+export interface TaskLineState {
+  done: boolean;
+  links: string[];         // Wiki link targets on the line (output notes)
+}
+
+/**
+ * Result of writing a plan's tasks into notes
+ */
+export interface TaskDispatchResult {
+  success: boolean;
+  taskCount: number;
+  notePaths: string[];     // Notes that received new task lines
+  error?: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse the weekly checklists of an action plan
+ *
+ * Tasks are the checkboxes under "### 第 N 周" / "### Week N" headings. The
+ * phase comes from "第一阶段（第 1-4 周）：基础夯实" headings covering the week.
+ */
+export function parsePlanTasks(content: string): PlanTask[] {
+  const phases: { from: number; to: number; name: string }[] = [];
+  const tasks: PlanTask[] = [];
+  let week: { number: number; level: number } | null = null;
+
+  for (const line of content.split('\n')) {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      const text = heading[2].trim();
+
+      const phase = text.match(PHASE_HEADING_PATTERN);
+      if (phase) {
+        phases.push({
+          from: parseInt(phase[2], 10),
+          to: parseInt(phase[3], 10),
+          name: phase[4].trim() || phase[1].replace(/\s+/g, ''),
+        });
+      }
+
+      const weekMatch = text.match(WEEK_HEADING_PATTERN);
+      if (weekMatch) {
+        week = { number: parseWeekNumber(weekMatch[1] ?? weekMatch[2]), level };
+      } else if (week && level <= week.level) {
+        week = null;
+      }
+      continue;
+    }
+
+    const checkbox = week && line.match(CHECKBOX_PATTERN);
+    if (!week || !checkbox) {
+      continue;
+    }
+
+    const title = checkbox[2];
+    const hours = title.match(HOURS_PATTERN);
+    const skills: string[] = [];
+    const skillPattern = new RegExp(SKILL_TAG_PATTERN.source, 'gi');
+    let tag: RegExpExecArray | null;
+    while ((tag = skillPattern.exec(title)) !== null) {
+      skills.push(tag[1]);
+    }
+
+    tasks.push({
+      id: '',
+      week: week.number,
+      phase: '',
+      title,
+      estimated_hours: hours ? parseFloat(hours[1]) : undefined,
+      skills: Array.from(new Set(skills)),
+      done: checkbox[1] !== ' ',
+    });
+  }
+
+  // Phases may be listed before or after the weekly checklists
+  const seen = new Map<string, number>();
+  for (const task of tasks) {
+    task.phase = phases.find(p => task.week >= p.from && task.week <= p.to)?.name ?? '';
+
+    const base = `cos-w${task.week}-${hashTitle(task.title)}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    task.id = count === 0 ? base : `${base}-${count + 1}`;
+  }
+
+  return tasks;
+}
+
+/**
+ * Checkbox state and linked notes of every tracked task line in a note
+ */
+export function readTaskStates(content: string): Map<string, TaskLineState> {
+  const states = new Map<string, TaskLineState>();
+  for (const line of content.split('\n')) {
+    const match = line.match(TRACKED_TASK_PATTERN);
+    if (match) {
+      const links: string[] = [];
+      const linkPattern = new RegExp(WIKI_LINK_PATTERN.source, 'g');
+      let link: RegExpExecArray | null;
+      while ((link = linkPattern.exec(match[2])) !== null) {
+        links.push(link[1].trim());
+      }
+      states.set(match[3], { done: match[1] !== ' ', links });
+    }
+  }
+  return states;
+}
+
+/**
+ * Task line as written into tasks notes
+ */
+export function formatTaskLine(task: PlanTask): string {
+  return `- [${task.done ? 'x' : ' '}] ${task.title} ^${task.id}`;
+}
+
+/**
+ * Whether a note is in the tasks note directory
+ *
+ * These notes are written by TaskBridge and are not indexed: every tick
+ * would trigger a new extraction, and their [skill:X] tags already count
+ * as task evidence.
+ */
+export function isTaskDirectoryNote(notePath: string, settings: CareerOSSettings): boolean {
+  const directory = normalizePath(settings.taskDirectory || DEFAULT_TASK_DIRECTORY);
+  return normalizePath(notePath).startsWith(`${directory}/`);
+}
+
+/**
+ * Plan week (1-based) a date falls into
+ */
+export function getPlanWeek(startedAt: string, now: Date): number {
+  const elapsed = now.getTime() - new Date(startedAt).getTime();
+  return Math.max(1, Math.floor(elapsed / WEEK_MS) + 1);
+}
+
+/**
+ * "3", "三" or "十二" as a number
+ */
+function parseWeekNumber(text: string): number {
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+  const [tens, ones] = text.includes('十') ? text.split('十') : ['', text];
+  return (text.includes('十') ? (CHINESE_NUMBERS[tens] ?? 1) * 10 : 0) + (CHINESE_NUMBERS[ones] ?? 0);
+}
+
+/**
+ * Short stable hash for task IDs (block IDs allow [a-z0-9-] only)
+ */
+function hashTitle(title: string): string {
+  const normalized = title.replace(/\s+/g, ' ').trim().toLowerCase();
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36).slice(0, 6);
+}
+
+// ============================================================================
+// TaskBridge Class
+// ============================================================================
+
+export class TaskBridge {
+  private fileService: FileService;
+  private progressDir: string;
+  private progress: PlanProgress | null = null;
+  private writeQueue = new WriteQueue();
+
+  constructor(
+    private app: App,
+    private settings: CareerOSSettings,
+    pluginDataDir: string
+  ) {
+    this.fileService = new FileService(app, pluginDataDir);
+    this.progressDir = `${pluginDataDir}/plan_progress`;
+  }
+
+  /**
+   * Start tracking a plan whose tasks were dispatched earlier
+   *
+   * Loads the stored progress and reads back ticks made in the tasks notes
+   * while the plugin was not running; no notes are written.
+   */
+  async activate(planPath: string, now: Date = new Date()): Promise<void> {
+    this.progress = await this.readProgress(planPath);
+    for (const notePath of this.progress?.task_notes ?? []) {
+      await this.syncNote(notePath, now);
+    }
+  }
+
+  /**
+   * Write the plan's tasks into notes and start tracking them
+   *
+   * Weekly mode adds every week's tasks to its week note. Daily mode adds
+   * the open tasks of the current and earlier weeks to today's note. Lines
+   * already in a note are left alone, so dispatching again is safe.
+   */
+  async dispatch(planPath: string, now: Date = new Date()): Promise<TaskDispatchResult> {
+    try {
+      const file = this.app.vault.getAbstractFileByPath(normalizePath(planPath));
+      if (!(file instanceof TFile)) {
+        return { success: false, taskCount: 0, notePaths: [], error: `Plan not found: ${planPath}` };
+      }
+
+      const parsed = parsePlanTasks(await this.app.vault.read(file));
+      if (parsed.length === 0) {
+        return {
+          success: false,
+          taskCount: 0,
+          notePaths: [],
+          error: 'No weekly checklist found in the plan ("### 第 N 周" followed by "- [ ]" items).',
+        };
+      }
+
+      const stored = await this.readProgress(planPath);
+      const progress: PlanProgress = {
+        plan_path: planPath,
+        started_at: stored?.started_at ?? now.toISOString(),
+        tasks: mergeTasks(parsed, stored?.tasks ?? [], now),
+        task_notes: stored?.task_notes ?? [],
+        updated_at: now.toISOString(),
+      };
+
+      // Pick up ticks made while the plugin was not running
+      const doneInPlan = new Set(parsed.filter(t => t.done).map(t => t.id));
+      const tickedInPlan = progress.tasks.filter(t => doneInPlan.has(t.id));
+      const tickedAt = new Map(tickedInPlan.map(t => [t.id, t.completed_at]));
+      for (const notePath of progress.task_notes) {
+        const content = await this.readNote(notePath);
+        if (content !== null) {
+          applyTaskStates(progress, notePath, readTaskStates(content), now);
+        }
+      }
+
+      // A tick in the plan document counts even where the tasks note is unticked
+      for (const task of tickedInPlan) {
+        task.done = true;
+        task.completed_at = tickedAt.get(task.id);
+      }
+
+      const notePaths = this.settings.taskBridgeTarget === 'daily_note'
+        ? await this.writeDailyNote(progress, now)
+        : await this.writeWeeklyNotes(progress);
+
+      for (const notePath of notePaths) {
+        if (!progress.task_notes.includes(notePath)) {
+          progress.task_notes.push(notePath);
+        }
+      }
+
+      this.progress = progress;
+      await this.saveProgress(progress);
+
+      return { success: true, taskCount: progress.tasks.length, notePaths };
+    } catch (error) {
+      console.error('Failed to dispatch plan tasks:', error);
+      return {
+        success: false,
+        taskCount: 0,
+        notePaths: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Whether a note holds tasks of the tracked plan
+   */
+  isTaskNote(notePath: string): boolean {
+    return this.progress?.task_notes.includes(notePath) ?? false;
+  }
+
+  /**
+   * Read checkbox state back from an edited tasks note
+   *
+   * @returns Whether the progress record changed
+   */
+  async syncNote(notePath: string, now: Date = new Date()): Promise<boolean> {
+    const progress = this.progress;
+    if (!progress || !progress.task_notes.includes(notePath)) {
+      return false;
+    }
+
+    const content = await this.readNote(notePath);
+    if (content === null || !applyTaskStates(progress, notePath, readTaskStates(content), now)) {
+      return false;
+    }
+
+    progress.updated_at = now.toISOString();
+    await this.saveProgress(progress);
+    return true;
+  }
+
+  /**
+   * Completed tasks with linked skills, across every plan
+   *
+   * Tasks of replaced plans keep counting: the work was done.
+   */
+  async listTaskEvidence(): Promise<TaskEvidence[]> {
+    return (await this.listCompletedTasks()).filter(task => task.skills.length > 0);
+  }
+
+  /**
+   * Every completed task across every plan, with its completion time
+   */
+  async listCompletedTasks(): Promise<TaskEvidence[]> {
+    const completed: TaskEvidence[] = [];
+
+    for (const path of await this.fileService.listFiles(this.progressDir, 'json')) {
+      let progress: PlanProgress | null;
+      try {
+        progress = await this.fileService.readJSON(path, PlanProgressSchema);
+      } catch (error) {
+        console.error(`Failed to read plan progress: ${path}`, error);
+        continue;
+      }
+      if (progress?.plan_path === this.progress?.plan_path) {
+        progress = this.progress;
+      }
+
+      for (const task of progress?.tasks ?? []) {
+        if (task.done && task.completed_at) {
+          completed.push({
+            plan_path: progress!.plan_path,
+            task_id: task.id,
+            title: task.title,
+            skills: task.skills,
+            completed_at: task.completed_at,
+            output_notes: task.output_notes ?? [],
+          });
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Progress of the tracked plan, or of another plan when a path is given
+   */
+  async getProgress(planPath?: string): Promise<PlanProgress | null> {
+    if (!planPath || planPath === this.progress?.plan_path) {
+      return this.progress;
+    }
+    return this.readProgress(planPath);
+  }
+
+  // ============================================================================
+  // Tasks Notes
+  // ============================================================================
+
+  /**
+   * One note per plan week
+   */
+  private async writeWeeklyNotes(progress: PlanProgress): Promise<string[]> {
+    const directory = this.settings.taskDirectory || DEFAULT_TASK_DIRECTORY;
+    const planId = getPlanId(progress.plan_path);
+    const weeks = Array.from(new Set(progress.tasks.map(t => t.week))).sort((a, b) => a - b);
+    const written: string[] = [];
+
+    for (const week of weeks) {
+      const tasks = progress.tasks.filter(t => t.week === week);
+      const notePath = normalizePath(`${directory}/${planId}/week_${String(week).padStart(2, '0')}.md`);
+      const phase = tasks[0].phase;
+
+      const header = `---
+type: plan_tasks
+plan: "[[${progress.plan_path.replace(/\.md$/, '')}]]"
+week: ${week}
+phase: "${phase}"
+---
+
+# Week ${week}${phase ? ` · ${phase}` : ''}
+`;
+
+      if (await this.appendTasks(notePath, tasks, header)) {
+        written.push(notePath);
+      }
+    }
+
+    return written;
+  }
+
+  /**
+   * Open tasks up to the current week, added to today's daily note
+   */
+  private async writeDailyNote(progress: PlanProgress, now: Date): Promise<string[]> {
+    const currentWeek = getPlanWeek(progress.started_at, now);
+    const tasks = progress.tasks.filter(t => !t.done && t.week <= currentWeek);
+    if (tasks.length === 0) {
+      return [];
+    }
+
+    const folder = this.settings.dailyNotesFolder;
+    const notePath = normalizePath(folder ? `${folder}/${formatLocalDate(now)}.md` : `${formatLocalDate(now)}.md`);
+
+    return (await this.appendTasks(notePath, tasks, '', DAILY_TASKS_HEADING)) ? [notePath] : [];
+  }
+
+  /**
+   * Append task lines missing from a note, creating the note when needed
+   *
+   * @param header - Content of a newly created note
+   * @param heading - Heading the tasks go under; added when missing
+   * @returns Whether the note contains the tasks now
+   */
+  private async appendTasks(notePath: string, tasks: PlanTask[], header: string, heading?: string): Promise<boolean> {
+    const existing = await this.readNote(notePath);
+    const present = existing === null ? new Map<string, TaskLineState>() : readTaskStates(existing);
+    const missing = tasks.filter(t => !present.has(t.id));
+
+    for (const task of tasks) {
+      task.note = notePath;
+    }
+    if (missing.length === 0) {
+      return existing !== null;
+    }
+
+    let content = existing ?? header;
+    if (heading && !content.split('\n').some(line => line.trim() === heading)) {
+      content = `${content.trimEnd()}${content.trim() ? '\n\n' : ''}${heading}\n`;
+    }
+    content = `${content.trimEnd()}\n\n${missing.map(formatTaskLine).join('\n')}\n`;
+
+    await this.writeNote(notePath, content);
+    return true;
+  }
+
+  private async readNote(notePath: string): Promise<string | null> {
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(notePath));
+    return file instanceof TFile ? this.app.vault.read(file) : null;
+  }
+
+  private async writeNote(notePath: string, content: string): Promise<void> {
+    const parentPath = notePath.split('/').slice(0, -1).join('/');
+    if (parentPath && !this.app.vault.getAbstractFileByPath(parentPath)) {
+      await this.app.vault.createFolder(parentPath);
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    if (file instanceof TFile) {
+      await this.app.vault.modify(file, content);
+    } else {
+      await this.app.vault.create(notePath, content);
+    }
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private getProgressPath(planPath: string): string {
+    return `${this.progressDir}/${getPlanId(planPath)}.json`;
+  }
+
+  private async readProgress(planPath: string): Promise<PlanProgress | null> {
+    try {
+      return await this.fileService.readJSON(this.getProgressPath(planPath), PlanProgressSchema);
+    } catch (error) {
+      console.error(`Failed to read plan progress for ${planPath}, starting fresh:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Serialize progress writes; failures are logged, not thrown
+   */
+  private saveProgress(progress: PlanProgress): Promise<void> {
+    const snapshot: PlanProgress = JSON.parse(JSON.stringify(progress));
+    return this.writeQueue.runLogged(
+      () => this.fileService.writeJSON(this.getProgressPath(snapshot.plan_path), snapshot, PlanProgressSchema),
+      'Failed to save plan progress:'
+    );
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Plan file name without directory and extension
+ */
+function getPlanId(planPath: string): string {
+  return planPath.split('/').pop()!.replace(/\.md$/, '');
+}
+
+/**
+ * Keep the state of tasks that survived a re-parse of the plan
+ *
+ * A task first seen ticked in the plan document is completed now, so it
+ * counts as skill evidence like a task ticked in a tasks note.
+ */
+function mergeTasks(parsed: PlanTask[], stored: PlanTask[], now: Date): PlanTask[] {
+  const previous = new Map(stored.map(t => [t.id, t]));
+  return parsed.map(task => {
+    const old = previous.get(task.id);
+    const done = (old?.done ?? false) || task.done;
+    return {
+      ...task,
+      done,
+      completed_at: old?.completed_at ?? (done ? now.toISOString() : undefined),
+      note: old?.note,
+      output_notes: old?.output_notes,
+    };
+  });
+}
+
+/**
+ * Apply a note's checkbox states and links to the progress record
+ *
+ * A tick counts from any note; clearing a tick only counts in the note the
+ * task was last written to, so stale copies in older daily notes cannot
+ * reopen a finished task. Linked notes from every copy are kept.
+ *
+ * @returns Whether any task changed
+ */
+function applyTaskStates(progress: PlanProgress, notePath: string, states: Map<string, TaskLineState>, now: Date): boolean {
+  let changed = false;
+
+  for (const task of progress.tasks) {
+    const state = states.get(task.id);
+    if (!state) {
+      continue;
+    }
+
+    const newLinks = state.links.filter(link => !task.output_notes?.includes(link));
+    if (newLinks.length > 0) {
+      task.output_notes = [...(task.output_notes ?? []), ...newLinks];
+      changed = true;
+    }
+
+    if (state.done === task.done || (!state.done && task.note !== notePath)) {
+      continue;
+    }
+
+    task.done = state.done;
+    task.completed_at = state.done ? now.toISOString() : undefined;
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * YYYY-MM-DD in local time, as daily notes are named
+ */
+export function formatLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Create a TaskBridge instance
+ */
+export function createTaskBridge(app: App, settings: CareerOSSettings, pluginDataDir: string): TaskBridge {
+  return new TaskBridge(app, settings, pluginDataDir);
+}
@@ -0,0 +1,239 @@
+/**
+ * UsageTracker Tests
+ *
+ * Unit tests for price lookup, price table parsing, monthly summaries, rolling up
+ * old months and the ledger
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  UsageTracker,
+  DEFAULT_PRICE_TABLE,
+  findModelPrice,
+  calculateCost,
+  parsePriceTable,
+  formatPriceTable,
+  summarizeUsage,
+  rollUpUsage,
+  getDetailStartMonth,
+} from './UsageTracker';
+import { CareerOSSettings, LLMConfig, UsageLedger, UsageRecord } from './types';
+import { createMockApp } from './test-mocks/vault';
+
+const createMockSettings = (): CareerOSSettings => {
+  const config: LLMConfig = { provider: 'openai', model: 'gpt-4o-mini' };
+  return {
+    llmConfigs: { extract: config, analyze: config, embedding: config },
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    googleApiKey: '',
+    maxRetries: 0,
+    timeout: 30000,
+    concurrency: 1,
+    exclusionRules: { directories: [], tags: [] },
+    taxonomy: [],
+    dryRunEnabled: false,
+    dryRunMaxNotes: 10,
+    indexDirectory: 'test-index',
+    mappingDirectory: 'test-mapping',
+    marketCardsDirectory: 'test-market-cards',
+  };
+};
+
+const createRecord = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  timestamp: '2024-05-10T12:00:00.000Z',
+  role: 'extract',
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  operation: 'note_card',
+  prompt_tokens: 100,
+  completion_tokens: 50,
+  cost: 0.01,
+  ...overrides,
+});
+
+describe('findModelPrice', () => {
+  it('should prefer an exact match', () => {
+    expect(findModelPrice('gpt-4o', DEFAULT_PRICE_TABLE)?.model).toBe('gpt-4o');
+  });
+
+  it('should use the longest matching prefix', () => {
+    expect(findModelPrice('gpt-4o-mini-2024-07-18', DEFAULT_PRICE_TABLE)?.model).toBe('gpt-4o-mini');
+    expect(findModelPrice('gpt-4-0613', DEFAULT_PRICE_TABLE)?.model).toBe('gpt-4');
+  });
+
+  it('should return null for unlisted models', () => {
+    expect(findModelPrice('llama2', DEFAULT_PRICE_TABLE)).toBeNull();
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price tokens per million', () => {
+    const cost = calculateCost(
+      { prompt_tokens: 1_000_000, completion_tokens: 500_000 },
+      { model: 'm', input: 2, output: 8 }
+    );
+    expect(cost).toBeCloseTo(6);
+  });
+
+  it('should be free without a price entry', () => {
+    expect(calculateCost({ prompt_tokens: 1000, completion_tokens: 1000 }, null)).toBe(0);
+  });
+});
+
+describe('parsePriceTable', () => {
+  it('should round-trip the formatted table', () => {
+    expect(parsePriceTable(formatPriceTable(DEFAULT_PRICE_TABLE))).toEqual(DEFAULT_PRICE_TABLE);
+  });
+
+  it('should skip comments and invalid lines and default the output price', () => {
+    const table = parsePriceTable('# prices\nmy-model, 1, 2\nbroken, abc\nembed-model, 0.1\n\n');
+
+    expect(table).toEqual([
+      { model: 'my-model', input: 1, output: 2 },
+      { model: 'embed-model', input: 0.1, output: 0 },
+    ]);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('should group by month, role, operation and note', () => {
+    const summaries = summarizeUsage([
+      createRecord({ note_path: 'a.md', cost: 0.02 }),
+      createRecord({ note_path: 'b.md' }),
+      createRecord({ role: 'analyze', operation: 'gap_analysis', cost: 0.1 }),
+      createRecord({ timestamp: '2024-04-01T00:00:00.000Z' }),
+    ]);
+
+    expect(summaries.map(s => s.month)).toEqual(['2024-05', '2024-04']);
+
+    const may = summaries[0];
+    expect(may.calls).toBe(3);
+    expect(may.promptTokens).toBe(300);
+    expect(may.cost).toBeCloseTo(0.13);
+    expect(may.byRole.extract?.calls).toBe(2);
+    expect(may.byOperation.gap_analysis?.cost).toBeCloseTo(0.1);
+    expect(may.topNotes.map(n => n.notePath)).toEqual(['a.md', 'b.md']);
+  });
+});
+
+describe('rollUpUsage', () => {
+  it('should start the detailed window three months before the current one', () => {
+    expect(getDetailStartMonth(new Date('2024-05-10T12:00:00.000Z'))).toBe('2024-02');
+    expect(getDetailStartMonth(new Date('2024-02-10T12:00:00.000Z'))).toBe('2023-11');
+  });
+
+  it('should keep older months as summaries only', () => {
+    const ledger: UsageLedger = {
+      records: [
+        createRecord({ timestamp: '2024-01-05T00:00:00.000Z', note_path: 'a.md' }),
+        createRecord({ timestamp: '2024-01-06T00:00:00.000Z', cost: 0.02 }),
+        createRecord({ timestamp: '2024-05-10T00:00:00.000Z' }),
+      ],
+    };
+
+    expect(rollUpUsage(ledger, '2024-02')).toBe(true);
+
+    expect(ledger.records.map(r => r.timestamp)).toEqual(['2024-05-10T00:00:00.000Z']);
+    expect(ledger.monthly).toHaveLength(1);
+    expect(ledger.monthly![0]).toMatchObject({ month: '2024-01', calls: 2, promptTokens: 200 });
+    expect(ledger.monthly![0].cost).toBeCloseTo(0.03);
+    expect(ledger.monthly![0].topNotes.map(n => n.notePath)).toEqual(['a.md']);
+    expect(rollUpUsage(ledger, '2024-02')).toBe(false);
+  });
+});
+
+describe('UsageTracker', () => {
+  let settings: CareerOSSettings;
+  let files: Map<string, string>;
+  let app: any;
+
+  beforeEach(() => {
+    const mock = createMockApp();
+    app = mock.app;
+    files = mock.files;
+    settings = createMockSettings();
+  });
+
+  it('should price and persist records', async () => {
+    const tracker = new UsageTracker(app, settings, 'plugin');
+
+    const record = await tracker.record({
+      role: 'extract',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      operation: 'note_card',
+      notePath: 'notes/a.md',
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 0 },
+    });
+
+    expect(record?.cost).toBeCloseTo(0.15);
+    expect(record?.note_path).toBe('notes/a.md');
+
+    // A fresh tracker reads the ledger back from disk
+    const reloaded = new UsageTracker(app, settings, 'plugin');
+    expect(await reloaded.listRecords()).toHaveLength(1);
+    expect(files.has('plugin/usage_ledger.json')).toBe(true);
+  });
+
+  it('should use the price table from settings when set', async () => {
+    settings.priceTable = [{ model: 'llama2', input: 1, output: 1 }];
+    const tracker = new UsageTracker(app, settings, 'plugin');
+
+    const record = await tracker.record({
+      role: 'extract',
+      provider: 'local',
+      model: 'llama2',
+      operation: 'note_card',
+      usage: { prompt_tokens: 500_000, completion_tokens: 500_000 },
+    });
+
+    expect(record?.cost).toBeCloseTo(1);
+  });
+
+  it('should keep every record from concurrent calls', async () => {
+    const tracker = new UsageTracker(app, settings, 'plugin');
+    const usage = { prompt_tokens: 10, completion_tokens: 5 };
+
+    await Promise.all(Array.from({ length: 5 }, () => tracker.record({
+      role: 'extract',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      operation: 'note_card',
+      usage,
+    })));
+
+    const reloaded = new UsageTracker(app, settings, 'plugin');
+    const summaries = await reloaded.getMonthlySummaries();
+    expect(summaries[0].calls).toBe(5);
+  });
+
+  it('should roll up old months on load and still summarize them', async () => {
+    files.set('plugin/usage_ledger.json', JSON.stringify({
+      records: [
+        createRecord({ timestamp: '2020-01-05T00:00:00.000Z' }),
+        createRecord({ timestamp: new Date().toISOString() }),
+      ],
+    }));
+    const tracker = new UsageTracker(app, settings, 'plugin');
+
+    expect(await tracker.listRecords()).toHaveLength(1);
+    const summaries = await tracker.getMonthlySummaries();
+    expect(summaries.map(s => [s.month, s.calls])).toEqual([
+      [new Date().toISOString().slice(0, 7), 1],
+      ['2020-01', 1],
+    ]);
+
+    // The rolled-up ledger is written back with the next record at the latest
+    await tracker.record({
+      role: 'extract',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      operation: 'note_card',
+      usage: { prompt_tokens: 10, completion_tokens: 5 },
+    });
+    const stored = JSON.parse(files.get('plugin/usage_ledger.json')!);
+    expect(stored.records).toHaveLength(2);
+    expect(stored.monthly[0].month).toBe('2020-01');
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * UsageTracker - Token usage and cost ledger for LLM calls
+ *
+ * Responsible for:
+ * - Recording prompt/completion tokens reported by each provider response
+ * - Attributing usage to model role, operation and source note
+ * - Pricing calls from a configurable per-model price table
+ * - Persisting the ledger to the plugin data directory (usage_ledger.json)
+ * - Summarizing usage per month for the dashboard
+ * - Rolling up records of older months so the ledger does not grow forever
+ */
+
+import { App } from 'obsidian';
+import {
+  CareerOSSettings,
+  ModelPrice,
+  ModelRole,
+  TokenUsage,
+  UsageLedger,
+  UsageOperation,
+  UsageRecord,
+  UsageMonthSummary,
+  UsageTotals,
+} from './types';
+import { UsageLedgerSchema } from './schema';
+import { FileService } from './fs';
+import { WriteQueue } from './utils/writeQueue';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Built-in prices in USD per 1M tokens, used when settings have no price table
+ *
+ * Entries match by exact model name or by prefix (longest prefix wins), so
+ * "gpt-4o-mini-2024-07-18" is priced as "gpt-4o-mini". Unlisted models cost 0.
+ */
+export const DEFAULT_PRICE_TABLE: ModelPrice[] = [
+  { model: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { model: 'gpt-4o', input: 2.5, output: 10 },
+  { model: 'gpt-4-turbo', input: 10, output: 30 },
+  { model: 'gpt-4', input: 30, output: 60 },
+  { model: 'gpt-3.5-turbo', input: 0.5, output: 1.5 },
+  { model: 'text-embedding-3-small', input: 0.02, output: 0 },
+  { model: 'text-embedding-3-large', input: 0.13, output: 0 },
+  { model: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { model: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { model: 'claude-3-opus', input: 15, output: 75 },
+  { model: 'claude-3-sonnet', input: 3, output: 15 },
+  { model: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { model: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { model: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { model: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+];
+
+/**
+ * Number of notes listed per month in the summary
+ */
+const TOP_NOTES_LIMIT = 5;
+
+/**
+ * Months kept as individual records: the current month and the previous
+ * months shown in the dashboard. Older months are kept as summaries only.
+ */
+export const USAGE_DETAIL_MONTHS = 4;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Find the price entry for a model: exact match first, then longest prefix
+ */
+export function findModelPrice(model: string, table: ModelPrice[]): ModelPrice | null {
+  const name = model.toLowerCase();
+
+  const exact = table.find(p => p.model.toLowerCase() === name);
+  if (exact) {
+    return exact;
+  }
+
+  let best: ModelPrice | null = null;
+  for (const price of table) {
+    const prefix = price.model.toLowerCase();
+    if (name.startsWith(prefix) && (!best || prefix.length > best.model.length)) {
+      best = price;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Cost in USD of a call given its token usage and price entry
+ */
+export function calculateCost(usage: TokenUsage, price: ModelPrice | null): number {
+  if (!price) {
+    return 0;
+  }
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
+
+/**
+ * Format a price table as editable text, one "model, input, output" line per entry
+ */
+export function formatPriceTable(table: ModelPrice[]): string {
+  return table.map(p => `${p.model}, ${p.input}, ${p.output}`).join('\n');
+}
+
+/**
+ * Parse "model, input, output" lines into a price table
+ * Blank lines, lines starting with # and lines with invalid prices are skipped.
+ */
+export function parsePriceTable(text: string): ModelPrice[] {
+  const table: ModelPrice[] = [];
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    // Output price may be omitted (embedding models)
+    const [model, input = '', output = '0'] = trimmed.split(',').map(part => part.trim());
+    const inputPrice = parseFloat(input);
+    const outputPrice = parseFloat(output);
+
+    if (!model || !(inputPrice >= 0) || !(outputPrice >= 0)) {
+      continue;
+    }
+
+    table.push({ model, input: inputPrice, output: outputPrice });
+  }
+
+  return table;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1;
+  totals.promptTokens += record.prompt_tokens;
+  totals.completionTokens += record.completion_tokens;
+  totals.cost += record.cost;
+}
+
+/**
+ * Group ledger records into per-month summaries, most recent month first
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageMonthSummary[] {
+  const months = new Map<string, UsageMonthSummary>();
+  const notesByMonth = new Map<string, Map<string, UsageTotals>>();
+
+  for (const record of records) {
+    const month = record.timestamp.slice(0, 7);
+
+    let summary = months.get(month);
+    if (!summary) {
+      summary = { month, ...emptyTotals(), byRole: {}, byOperation: {}, topNotes: [] };
+      months.set(month, summary);
+      notesByMonth.set(month, new Map());
+    }
+
+    addToTotals(summary, record);
+
+    const roleTotals = summary.byRole[record.role] ?? emptyTotals();
+    addToTotals(roleTotals, record);
+    summary.byRole[record.role] = roleTotals;
+
+    const operationTotals = summary.byOperation[record.operation] ?? emptyTotals();
+    addToTotals(operationTotals, record);
+    summary.byOperation[record.operation] = operationTotals;
+
+    if (record.note_path) {
+      const notes = notesByMonth.get(month)!;
+      const noteTotals = notes.get(record.note_path) ?? emptyTotals();
+      addToTotals(noteTotals, record);
+      notes.set(record.note_path, noteTotals);
+    }
+  }
+
+  for (const [month, summary] of months) {
+    summary.topNotes = Array.from(notesByMonth.get(month)!.entries())
+      .map(([notePath, totals]) => ({ notePath, ...totals }))
+      .sort((a, b) =>
+        b.cost - a.cost ||
+        (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens)
+      )
+      .slice(0, TOP_NOTES_LIMIT);
+  }
+
+  return Array.from(months.values()).sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * First month (YYYY-MM) whose records are kept individually
+ */
+export function getDetailStartMonth(now: Date = new Date()): string {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (USAGE_DETAIL_MONTHS - 1), 1));
+  return start.toISOString().slice(0, 7);
+}
+
+/**
+ * Replace the records of months before `startMonth` with per-month summaries
+ *
+ * @returns Whether any record was rolled up
+ */
+export function rollUpUsage(ledger: UsageLedger, startMonth: string): boolean {
+  const old = ledger.records.filter(record => record.timestamp.slice(0, 7) < startMonth);
+  if (old.length === 0) {
+    return false;
+  }
+
+  const monthly = new Map((ledger.monthly ?? []).map(summary => [summary.month, summary]));
+  for (const summary of summarizeUsage(old)) {
+    const existing = monthly.get(summary.month);
+    monthly.set(summary.month, existing ? mergeMonthSummaries(existing, summary) : summary);
+  }
+
+  ledger.records = ledger.records.filter(record => record.timestamp.slice(0, 7) >= startMonth);
+  ledger.monthly = Array.from(monthly.values()).sort((a, b) => b.month.localeCompare(a.month));
+  return true;
+}
+
+function mergeTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    calls: a.calls + b.calls,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cost: a.cost + b.cost,
+  };
+}
+
+function mergeTotalsByKey<K extends string>(
+  a: Partial<Record<K, UsageTotals>>,
+  b: Partial<Record<K, UsageTotals>>
+): Partial<Record<K, UsageTotals>> {
+  const merged = { ...a };
+  for (const key of Object.keys(b) as K[]) {
+    const existing = merged[key];
+    merged[key] = existing ? mergeTotals(existing, b[key]!) : b[key];
+  }
+  return merged;
+}
+
+/**
+ * Combine two summaries of the same month (only approximate for top notes)
+ */
+function mergeMonthSummaries(a: UsageMonthSummary, b: UsageMonthSummary): UsageMonthSummary {
+  const notes = new Map<string, UsageTotals>();
+  for (const { notePath, ...totals } of [...a.topNotes, ...b.topNotes]) {
+    const existing = notes.get(notePath);
+    notes.set(notePath, existing ? mergeTotals(existing, totals) : totals);
+  }
+
+  return {
+    month: a.month,
+    ...mergeTotals(a, b),
+    byRole: mergeTotalsByKey(a.byRole, b.byRole),
+    byOperation: mergeTotalsByKey(a.byOperation, b.byOperation),
+    topNotes: Array.from(notes.entries())
+      .map(([notePath, totals]) => ({ notePath, ...totals }))
+      .sort((x, y) => y.cost - x.cost)
+      .slice(0, TOP_NOTES_LIMIT),
+  };
+}
+
+// ============================================================================
+// UsageTracker Class
+// ============================================================================
+
+export class UsageTracker {
+  private settings: CareerOSSettings;
+  private fileService: FileService;
+  private ledgerPath: string;
+  private ledgerLoad: Promise<UsageLedger> | null = null;
+  private writeQueue = new WriteQueue();
+  private pendingFlush: Promise<void> | null = null;
+
+  constructor(app: App, settings: CareerOSSettings, pluginDataDir: string) {
+    this.settings = settings;
+    this.fileService = new FileService(app, pluginDataDir);
+    this.ledgerPath = `${pluginDataDir}/usage_ledger.json`;
+  }
+
+  /**
+   * Update settings (e.g., when user changes configuration)
+   */
+  updateSettings(settings: CareerOSSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Active price table: the user's table from settings, or the built-in one
+   */
+  getPriceTable(): ModelPrice[] {
+    return this.settings.priceTable ?? DEFAULT_PRICE_TABLE;
+  }
+
+  /**
+   * Record the usage of a single LLM call
+   *
+   * Never throws: a failure to persist the ledger must not fail the LLM call.
+   */
+  async record(entry: {
+    role: ModelRole;
+    provider: UsageRecord['provider'];
+    model: string;
+    operation: UsageOperation;
+    notePath?: string;
+    usage: TokenUsage;
+  }): Promise<UsageRecord | null> {
+    try {
+      const record: UsageRecord = {
+        timestamp: new Date().toISOString(),
+        role: entry.role,
+        provider: entry.provider,
+        model: entry.model,
+        operation: entry.operation,
+        ...(entry.notePath && { note_path: entry.notePath }),
+        prompt_tokens: entry.usage.prompt_tokens,
+        completion_tokens: entry.usage.completion_tokens,
+        cost: calculateCost(entry.usage, findModelPrice(entry.model, this.getPriceTable())),
+      };
+
+      const ledger = await this.loadLedger();
+      ledger.records.push(record);
+      await this.flush();
+
+      return record;
+    } catch (error) {
+      console.error('Failed to record LLM usage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Recorded calls of the detailed months, oldest first
+   */
+  async listRecords(): Promise<UsageRecord[]> {
+    const ledger = await this.loadLedger();
+    return [...ledger.records];
+  }
+
+  /**
+   * Totals of calls recorded at or after a timestamp, optionally for one operation
+   * Only the detailed months count, which covers the budget's day and run windows.
+   */
+  async getTotalsSince(since: string, operation?: UsageOperation): Promise<UsageTotals> {
+    const ledger = await this.loadLedger();
+    const totals = emptyTotals();
+
+    for (const record of ledger.records) {
+      if (record.timestamp >= since && (!operation || record.operation === operation)) {
+        addToTotals(totals, record);
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Per-month usage totals, most recent month first
+   */
+  async getMonthlySummaries(): Promise<UsageMonthSummary[]> {
+    const ledger = await this.loadLedger();
+    const detailed = summarizeUsage(ledger.records);
+    const detailedMonths = new Set(detailed.map(summary => summary.month));
+    const rolledUp = (ledger.monthly ?? []).filter(summary => !detailedMonths.has(summary.month));
+    return [...detailed, ...rolledUp].sort((a, b) => b.month.localeCompare(a.month));
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  /**
+   * Load the ledger from disk once, starting empty if missing or unreadable
+   * Concurrent callers share the same load so no record is dropped. Months
+   * that left the detailed window are rolled up and written back.
+   */
+  private loadLedger(): Promise<UsageLedger> {
+    if (!this.ledgerLoad) {
+      this.ledgerLoad = (async () => {
+        try {
+          const ledger = await this.fileService.readJSON(this.ledgerPath, UsageLedgerSchema);
+          if (ledger) {
+            if (rollUpUsage(ledger, getDetailStartMonth())) {
+              this.flush().catch(error => console.error('Failed to write rolled-up usage ledger:', error));
+            }
+            return ledger;
+          }
+        } catch (error) {
+          console.error('Failed to read usage ledger, starting fresh:', error);
+        }
+        return { records: [] };
+      })();
+    }
+    return this.ledgerLoad;
+  }
+
+  /**
+   * Persist the ledger
+   *
+   * Writes are serialized, and records added while a write is still queued
+   * share that write, so a burst of calls does not rewrite the file per call.
+   */
+  private flush(): Promise<void> {
+    if (!this.pendingFlush) {
+      const run = async () => {
+        this.pendingFlush = null;
+        await this.fileService.writeJSON(this.ledgerPath, await this.loadLedger(), UsageLedgerSchema);
+      };
+      this.pendingFlush = this.writeQueue.run(run);
+    }
+    return this.pendingFlush;
+  }
+}
+
+/**
+ * Create a UsageTracker instance
+ */
+export function createUsageTracker(
+  app: App,
+  settings: CareerOSSettings,
+  pluginDataDir: string
+): UsageTracker {
+  return new UsageTracker(app, settings, pluginDataDir);
+}
@@ -0,0 +1,231 @@
+/**
+ * WeeklyReview Tests
+ *
+ * Unit tests for collecting the review week, computing skill changes and
+ * writing the review note
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WeeklyReview, collectWeeklyReview, computeSkillChanges, getReviewWeek, isWeeklyReviewNote, renderWeeklyReview, DEFAULT_WEEKLY_REVIEW_TEMPLATE } from './WeeklyReview';
+import { IndexStore } from './IndexStore';
+import { PromptStore } from './PromptStore';
+import type { LLMClient } from './llmClient';
+import type { TaskBridge } from './TaskBridge';
+import type { ProfileHistory } from './ProfileHistory';
+import { CareerOSSettings, JDCard, NoteCard, ProfileSnapshotEntry, TaskEvidence } from './types';
+import { createMockApp } from './test-mocks/vault';
+
+// Sunday evening; the review week starts on Monday 2024-01-08
+const NOW = new Date(2024, 0, 14, 20, 0);
+const IN_WEEK = new Date(2024, 0, 10, 9, 0).toISOString();
+const BEFORE_WEEK = new Date(2024, 0, 5, 9, 0).toISOString();
+
+const noteCard = (note_path: string, detected_date: string, extra: Partial<NoteCard> = {}): NoteCard => ({
+  note_path,
+  detected_date,
+  summary: `Summary of ${note_path}`,
+  type: 'project',
+  ...extra,
+} as NoteCard);
+
+const jdCard = (jd_id: string, created_at: string): JDCard => ({
+  jd_id,
+  source_note: `jds/${jd_id}.md`,
+  company: 'Acme',
+  title: 'Backend Engineer',
+  location: 'Remote',
+  created_at,
+} as JDCard);
+
+const task: TaskEvidence = {
+  plan_path: 'mapping/action_plan_backend_remote_2024-01-01.md',
+  task_id: 'cos-w2-abc',
+  title: '编写 Dockerfile',
+  skills: ['Docker'],
+  completed_at: IN_WEEK,
+  output_notes: ['projects/docker.md'],
+};
+
+const snapshots: ProfileSnapshotEntry[] = [
+  { id: 'a', built_at: new Date(2024, 0, 3).toISOString(), skill_levels: { Python: 2, Docker: 1 } },
+  { id: 'b', built_at: new Date(2024, 0, 9).toISOString(), skill_levels: { Python: 2.2, Docker: 1.5 } },
+  { id: 'c', built_at: new Date(2024, 0, 12).toISOString(), skill_levels: { Python: 2, Docker: 2.5, Go: 0.5 } },
+];
+
+describe('getReviewWeek', () => {
+  it('should span the seven days ending today', () => {
+    const { start, end } = getReviewWeek(NOW);
+
+    expect(start).toEqual(new Date(2024, 0, 8));
+    expect(end).toBe(NOW);
+  });
+});
+
+describe('isWeeklyReviewNote', () => {
+  it('should match notes under the review folder only', () => {
+    const settings = { weeklyReviewFolder: 'Reviews' } as CareerOSSettings;
+
+    expect(isWeeklyReviewNote('Reviews/weekly_review_2024-01-14.md', settings)).toBe(true);
+    expect(isWeeklyReviewNote('ReviewsArchive/notes.md', settings)).toBe(false);
+    expect(isWeeklyReviewNote('CareerOS/Reviews/weekly_review_2024-01-14.md', {} as CareerOSSettings)).toBe(true);
+  });
+});
+
+describe('computeSkillChanges', () => {
+  const { start, end } = getReviewWeek(NOW);
+
+  it('should compare the last snapshot before the week with the latest one', () => {
+    expect(computeSkillChanges(snapshots, start, end)).toEqual([
+      { name: 'Docker', before: 1, after: 2.5, delta: 1.5 },
+      { name: 'Go', before: 0, after: 0.5, delta: 0.5 },
+    ]);
+  });
+
+  it('should use the first build of the week without an earlier snapshot', () => {
+    expect(computeSkillChanges(snapshots.slice(1), start, end).map(c => [c.name, c.delta])).toEqual([
+      ['Docker', 1],
+      ['Go', 0.5],
+      ['Python', -0.2],
+    ]);
+  });
+
+  it('should report nothing when the profile was not rebuilt this week', () => {
+    expect(computeSkillChanges(snapshots.slice(0, 1), start, end)).toEqual([]);
+  });
+});
+
+describe('collectWeeklyReview', () => {
+  it('should keep only what happened in the week', () => {
+    const { start, end } = getReviewWeek(NOW);
+    const data = collectWeeklyReview({
+      noteCards: [
+        noteCard('projects/api.md', IN_WEEK),
+        noteCard('projects/old.md', BEFORE_WEEK),
+        noteCard('projects/removed.md', IN_WEEK, { deleted: true }),
+      ],
+      completedTasks: [task, { ...task, task_id: 'cos-w1-old', completed_at: BEFORE_WEEK }],
+      snapshots,
+      jdCards: [jdCard('jd-new', IN_WEEK), jdCard('jd-old', BEFORE_WEEK)],
+    }, start, end);
+
+    expect(data.week_start).toBe('2024-01-08');
+    expect(data.week_end).toBe('2024-01-14');
+    expect(data.note_cards.map(c => c.note_path)).toEqual(['projects/api.md']);
+    expect(data.completed_tasks.map(t => t.task_id)).toEqual(['cos-w2-abc']);
+    expect(data.skill_changes).toHaveLength(2);
+    expect(data.new_jds.map(jd => jd.jd_id)).toEqual(['jd-new']);
+  });
+});
+
+describe('renderWeeklyReview', () => {
+  it('should fill known placeholders and keep the others', () => {
+    const content = renderWeeklyReview(
+      '{{week_start}} {{tasks}} {{date:YYYY}} {{custom}}',
+      {
+        week_start: '2024-01-08',
+        week_end: '2024-01-14',
+        note_cards: [],
+        completed_tasks: [task],
+        skill_changes: [],
+        new_jds: [],
+      },
+      'summary',
+      NOW.toISOString()
+    );
+
+    expect(content).toBe('2024-01-08 - [x] 编写 Dockerfile → [[projects/docker]] {{date:YYYY}} {{custom}}');
+  });
+});
+
+describe('WeeklyReview', () => {
+  let app: any;
+  let files: Map<string, string>;
+  let indexStore: IndexStore;
+  let promptStore: PromptStore;
+  let llmClient: { call: ReturnType<typeof vi.fn> };
+  let taskBridge: TaskBridge;
+  let profileHistory: ProfileHistory;
+
+  const createReview = (overrides: Partial<CareerOSSettings> = {}) => new WeeklyReview(
+    app,
+    { weeklyReviewFolder: 'Reviews', ...overrides } as CareerOSSettings,
+    indexStore,
+    promptStore,
+    llmClient as unknown as LLMClient,
+    taskBridge,
+    profileHistory
+  );
+
+  beforeEach(() => {
+    const mock = createMockApp();
+    app = mock.app;
+    files = mock.files;
+
+    indexStore = new IndexStore(app, 'test-plugin-dir', 'index', 'mapping', 'market_cards');
+    vi.spyOn(indexStore, 'listNoteCards').mockResolvedValue([noteCard('projects/api.md', IN_WEEK)]);
+    vi.spyOn(indexStore, 'listJDCards').mockResolvedValue([jdCard('jd-new', IN_WEEK)]);
+    vi.spyOn(indexStore, 'getActivePlanPath').mockResolvedValue(null);
+
+    promptStore = new PromptStore(app, 'test-plugin-dir');
+    vi.spyOn(promptStore, 'getPrompt').mockResolvedValue('weekly review prompt');
+
+    llmClient = { call: vi.fn().mockResolvedValue('### 本周总结\nGood week.') };
+    taskBridge = { listCompletedTasks: vi.fn().mockResolvedValue([task]) } as unknown as TaskBridge;
+    profileHistory = { listSnapshots: vi.fn().mockResolvedValue(snapshots) } as unknown as ProfileHistory;
+  });
+
+  it('should write the review note from the built-in template', async () => {
+    const result = await createReview().generate(NOW);
+
+    expect(result).toEqual({ success: true, notePath: 'Reviews/weekly_review_2024-01-14.md' });
+    expect(app.vault.createFolder).toHaveBeenCalledWith('Reviews');
+
+    const content = files.get('Reviews/weekly_review_2024-01-14.md')!;
+    expect(content).toContain('type: weekly_review');
+    expect(content).toContain('week_start: "2024-01-08"');
+    expect(content).toContain('1 note(s) added or updated, 1 plan task(s) completed, 2 skill(s) grew, 1 new job description(s).');
+    expect(content).toContain('- [[projects/api]] (project) — Summary of projects/api.md');
+    expect(content).toContain('| Docker | 1.00 | 2.50 | +1.50 |');
+    expect(content).toContain('- Backend Engineer @ Acme (Remote) — [[jds/jd-new]]');
+    expect(llmClient.call).not.toHaveBeenCalled();
+  });
+
+  it('should add the LLM summary and keep the note when the call fails', async () => {
+    await createReview({ weeklyReviewSummary: true }).generate(NOW);
+
+    expect(llmClient.call).toHaveBeenCalledWith('analyze', 'weekly review prompt', { usage: { operation: 'weekly_review' } });
+    expect(files.get('Reviews/weekly_review_2024-01-14.md')).toContain('### 本周总结\nGood week.');
+
+    files.clear();
+    llmClient.call.mockRejectedValue(new Error('timeout'));
+    const result = await createReview({ weeklyReviewSummary: true }).generate(NOW);
+
+    expect(result.success).toBe(true);
+    expect(files.get('Reviews/weekly_review_2024-01-14.md')).toContain('_LLM summary unavailable: timeout_');
+  });
+
+  it('should use a template note when configured', async () => {
+    files.set('Templates/Review.md', '# Week of {{week_start}}\n{{skills}}');
+
+    await createReview({ weeklyReviewTemplate: 'Templates/Review.md' }).generate(NOW);
+
+    const content = files.get('Reviews/weekly_review_2024-01-14.md')!;
+    expect(content).toMatch(/^# Week of 2024-01-08\n\| Skill/);
+    expect(content).not.toContain(DEFAULT_WEEKLY_REVIEW_TEMPLATE.split('\n')[1]);
+  });
+
+  it('should never overwrite an existing review and only be due once on its weekday', async () => {
+    const review = createReview({ weeklyReviewDay: 0 });
+
+    expect(review.isDue(NOW)).toBe(true);
+    expect(review.isDue(new Date(2024, 0, 15, 9, 0))).toBe(false);
+    expect(createReview().isDue(NOW)).toBe(false);
+
+    files.set('Reviews/weekly_review_2024-01-14.md', 'my edits');
+    const result = await review.generate(NOW);
+
+    expect(result).toEqual({ success: true, notePath: 'Reviews/weekly_review_2024-01-14.md', existed: true });
+    expect(files.get('Reviews/weekly_review_2024-01-14.md')).toBe('my edits');
+    expect(review.isDue(NOW)).toBe(false);
+  });
+});
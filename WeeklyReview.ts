@@ -0,0 +1,391 @@
+/**
+ * WeeklyReview - Writes the weekly retrospective note
+ *
+ * Responsible for:
+ * - Collecting the week's NoteCards, completed plan tasks, skill level
+ *   changes (from profile snapshots) and newly extracted JDCards
+ * - Rendering them into a review note from a template note or the built-in
+ *   template
+ * - Optionally asking the analyze model for a summary and next week's focus
+ * - Telling the plugin when the scheduled review is due
+ *
+ * The review week is the seven days ending on the day the note is written.
+ * An existing review note is never overwritten.
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import { CareerOSSettings, JDCard, NoteCard, ProfileSnapshotEntry, SkillLevelChange, TaskEvidence, WeeklyReviewData } from './types';
+import { IndexStore } from './IndexStore';
+import { LLMClient } from './llmClient';
+import { PromptStore, getWeeklyReviewPrompt } from './PromptStore';
+import type { TaskBridge } from './TaskBridge';
+import { formatLocalDate, getPlanWeek, parsePlanTasks } from './TaskBridge';
+import type { ProfileHistory } from './ProfileHistory';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_WEEKLY_REVIEW_FOLDER = 'CareerOS/Reviews';
+
+/**
+ * Built-in template; a template note may use the same placeholders
+ */
+export const DEFAULT_WEEKLY_REVIEW_TEMPLATE = `---
+type: weekly_review
+week_start: "{{week_start}}"
+week_end: "{{week_end}}"
+generated_at: "{{generated_at}}"
+---
+
+# Weekly Review {{week_start}} – {{week_end}}
+
+## Summary
+{{summary}}
+
+## Notes
+{{notes}}
+
+## Completed Plan Tasks
+{{tasks}}
+
+## Skill Changes
+{{skills}}
+
+## New Job Descriptions
+{{jds}}
+
+## Reflection
+- What went well:
+- What to improve:
+`;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Level changes smaller than this are left out of the review
+ */
+const MIN_LEVEL_CHANGE = 0.01;
+
+/**
+ * Open plan tasks handed to the LLM as context for next week
+ */
+const PLAN_CONTEXT_TASKS = 10;
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WeeklyReviewResult {
+  success: boolean;
+  notePath?: string;
+  existed?: boolean;       // The week's note was already there and was left alone
+  error?: string;
+}
+
+// ============================================================================
+// Collecting
+// ============================================================================
+
+/**
+ * Whether a note is in the review folder; review notes are written by
+ * CareerOS and are not indexed
+ */
+export function isWeeklyReviewNote(notePath: string, settings: CareerOSSettings): boolean {
+  const folder = normalizePath(settings.weeklyReviewFolder || DEFAULT_WEEKLY_REVIEW_FOLDER);
+  return normalizePath(notePath).startsWith(`${folder}/`);
+}
+
+/**
+ * First and last day of the review week ending on `now`
+ */
+export function getReviewWeek(now: Date): { start: Date; end: Date } {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setTime(start.getTime() - 6 * DAY_MS);
+  return { start, end: now };
+}
+
+/**
+ * Level change of every skill between the last snapshot before the week and
+ * the last snapshot in it, largest change first
+ */
+export function computeSkillChanges(snapshots: ProfileSnapshotEntry[], start: Date, end: Date): SkillLevelChange[] {
+  const before = snapshots.filter(s => new Date(s.built_at) < start);
+  const during = snapshots.filter(s => {
+    const builtAt = new Date(s.built_at);
+    return builtAt >= start && builtAt <= end;
+  });
+  if (during.length === 0) {
+    return [];
+  }
+
+  // Without an earlier snapshot, the week's first build is the baseline
+  const baseline = before.length > 0 ? before[before.length - 1] : during[0];
+  const latest = during[during.length - 1];
+  if (baseline === latest) {
+    return [];
+  }
+
+  const names = new Set([...Object.keys(baseline.skill_levels), ...Object.keys(latest.skill_levels)]);
+  const changes: SkillLevelChange[] = [];
+  for (const name of names) {
+    const from = baseline.skill_levels[name] ?? 0;
+    const to = latest.skill_levels[name] ?? 0;
+    if (Math.abs(to - from) >= MIN_LEVEL_CHANGE) {
+      changes.push({ name, before: from, after: to, delta: Math.round((to - from) * 100) / 100 });
+    }
+  }
+
+  return changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Pick out what happened in the review week
+ */
+export function collectWeeklyReview(
+  sources: {
+    noteCards: NoteCard[];
+    completedTasks: TaskEvidence[];
+    snapshots: ProfileSnapshotEntry[];
+    jdCards: JDCard[];
+  },
+  start: Date,
+  end: Date
+): WeeklyReviewData {
+  const inWeek = (date: string | undefined) => {
+    const time = date ? new Date(date).getTime() : NaN;
+    return !isNaN(time) && time >= start.getTime() && time <= end.getTime();
+  };
+
+  return {
+    week_start: formatLocalDate(start),
+    week_end: formatLocalDate(end),
+    note_cards: sources.noteCards
+      .filter(card => !card.deleted && inWeek(card.detected_date))
+      .map(({ note_path, summary, type }) => ({ note_path, summary, type })),
+    completed_tasks: sources.completedTasks
+      .filter(task => inWeek(task.completed_at))
+      .sort((a, b) => a.completed_at.localeCompare(b.completed_at)),
+    skill_changes: computeSkillChanges(sources.snapshots, start, end),
+    new_jds: sources.jdCards
+      .filter(card => !card.deleted && inWeek(card.created_at))
+      .map(({ jd_id, source_note, company, title, location }) => ({ jd_id, source_note, company, title, location })),
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * One-line local summary of the week's numbers
+ */
+export function summarizeWeek(data: WeeklyReviewData): string {
+  const grown = data.skill_changes.filter(c => c.delta > 0).length;
+  return `${data.note_cards.length} note(s) added or updated, ${data.completed_tasks.length} plan task(s) completed, ` +
+    `${grown} skill(s) grew, ${data.new_jds.length} new job description(s).`;
+}
+
+/**
+ * Fill a review template
+ *
+ * Unknown placeholders are left as they are, so a template can carry its
+ * own (for example those of a templating plugin).
+ */
+export function renderWeeklyReview(
+  template: string,
+  data: WeeklyReviewData,
+  summary: string,
+  generatedAt: string
+): string {
+  const link = (path: string) => `[[${path.replace(/\.md$/, '')}]]`;
+  const list = (items: string[], empty: string) => items.length > 0 ? items.join('\n') : `_${empty}_`;
+
+  const values: Record<string, string> = {
+    week_start: data.week_start,
+    week_end: data.week_end,
+    generated_at: generatedAt,
+    summary,
+    notes: list(
+      data.note_cards.map(card => `- ${link(card.note_path)} (${card.type}) — ${card.summary}`),
+      'No notes indexed this week.'
+    ),
+    tasks: list(
+      data.completed_tasks.map(task => {
+        const outputs = task.output_notes.map(link).join(', ');
+        return `- [x] ${task.title}${outputs ? ` → ${outputs}` : ''}`;
+      }),
+      'No plan tasks completed this week.'
+    ),
+    skills: data.skill_changes.length > 0
+      ? [
+        '| Skill | Before | After | Change |',
+        '|-------|--------|-------|--------|',
+        ...data.skill_changes.map(c =>
+          `| ${c.name} | ${c.before.toFixed(2)} | ${c.after.toFixed(2)} | ${c.delta >= 0 ? '+' : ''}${c.delta.toFixed(2)} |`
+        ),
+      ].join('\n')
+      : '_No skill changes this week (rebuild the self profile to record them)._',
+    jds: list(
+      data.new_jds.map(jd => `- ${jd.title || 'Untitled'}${jd.company ? ` @ ${jd.company}` : ''}` +
+        `${jd.location ? ` (${jd.location})` : ''} — ${link(jd.source_note)}`),
+      'No job descriptions extracted this week.'
+    ),
+  };
+
+  return template.replace(PLACEHOLDER_PATTERN, (match, name) => name in values ? values[name] : match);
+}
+
+// ============================================================================
+// WeeklyReview Class
+// ============================================================================
+
+export class WeeklyReview {
+  constructor(
+    private app: App,
+    private settings: CareerOSSettings,
+    private indexStore: IndexStore,
+    private promptStore: PromptStore,
+    private llmClient: LLMClient,
+    private taskBridge?: TaskBridge,
+    private profileHistory?: ProfileHistory
+  ) {}
+
+  /**
+   * Path of the review note for the week ending on `now`
+   */
+  getNotePath(now: Date = new Date()): string {
+    const folder = this.settings.weeklyReviewFolder || DEFAULT_WEEKLY_REVIEW_FOLDER;
+    return normalizePath(`${folder}/weekly_review_${formatLocalDate(now)}.md`);
+  }
+
+  /**
+   * Whether the scheduled review should be written now
+   */
+  isDue(now: Date = new Date()): boolean {
+    return this.settings.weeklyReviewDay !== undefined &&
+      now.getDay() === this.settings.weeklyReviewDay &&
+      !this.app.vault.getAbstractFileByPath(this.getNotePath(now));
+  }
+
+  /**
+   * Write the review note for the week ending on `now`
+   */
+  async generate(now: Date = new Date()): Promise<WeeklyReviewResult> {
+    const notePath = this.getNotePath(now);
+
+    try {
+      if (this.app.vault.getAbstractFileByPath(notePath)) {
+        return { success: true, notePath, existed: true };
+      }
+
+      const { start, end } = getReviewWeek(now);
+      const [noteCards, completedTasks, snapshots, jdCards] = await Promise.all([
+        this.indexStore.listNoteCards(),
+        this.taskBridge?.listCompletedTasks() ?? Promise.resolve([]),
+        this.profileHistory?.listSnapshots() ?? Promise.resolve([]),
+        this.indexStore.listJDCards(),
+      ]);
+      const data = collectWeeklyReview({ noteCards, completedTasks, snapshots, jdCards }, start, end);
+
+      let summary = summarizeWeek(data);
+      if (this.settings.weeklyReviewSummary) {
+        summary += `\n\n${await this.writeSummary(data, now)}`;
+      }
+
+      const content = renderWeeklyReview(await this.loadTemplate(), data, summary, now.toISOString());
+      await this.createNote(notePath, content);
+
+      return { success: true, notePath };
+    } catch (error) {
+      console.error('Failed to write weekly review:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * LLM summary and next week's focus; a failure leaves a note in its place
+   * so the review is still written
+   */
+  private async writeSummary(data: WeeklyReviewData, now: Date): Promise<string> {
+    try {
+      const prompt = await getWeeklyReviewPrompt(
+        this.promptStore,
+        JSON.stringify(data, null, 2),
+        await this.describeActivePlan(now)
+      );
+      return (await this.llmClient.call('analyze', prompt, { usage: { operation: 'weekly_review' } })).trim();
+    } catch (error) {
+      console.error('Weekly review summary failed:', error);
+      return `_LLM summary unavailable: ${error instanceof Error ? error.message : String(error)}_`;
+    }
+  }
+
+  /**
+   * Active plan and its open tasks up to next week, for the summary prompt
+   */
+  private async describeActivePlan(now: Date): Promise<string> {
+    const planPath = await this.indexStore.getActivePlanPath();
+    const file = planPath ? this.app.vault.getAbstractFileByPath(planPath) : null;
+    if (!planPath || !(file instanceof TFile)) {
+      return '（无当前计划）';
+    }
+
+    const progress = await this.taskBridge?.getProgress(planPath);
+    const done = new Set(progress?.tasks.filter(t => t.done).map(t => t.id) ?? []);
+    const week = progress ? getPlanWeek(progress.started_at, now) : null;
+    const open = parsePlanTasks(await this.app.vault.read(file))
+      .filter(t => !t.done && !done.has(t.id) && (week === null || t.week <= week + 1))
+      .slice(0, PLAN_CONTEXT_TASKS);
+
+    return [
+      `- 计划：${planPath}${week !== null ? `（第 ${week} 周）` : ''}`,
+      ...open.map(t => `- [ ] 第 ${t.week} 周：${t.title}`),
+    ].join('\n');
+  }
+
+  /**
+   * The configured template note, or the built-in template
+   */
+  private async loadTemplate(): Promise<string> {
+    const templatePath = this.settings.weeklyReviewTemplate;
+    if (!templatePath) {
+      return DEFAULT_WEEKLY_REVIEW_TEMPLATE;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(templatePath));
+    if (!(file instanceof TFile)) {
+      console.warn(`Weekly review template not found: ${templatePath}, using the built-in template`);
+      return DEFAULT_WEEKLY_REVIEW_TEMPLATE;
+    }
+    return await this.app.vault.read(file);
+  }
+
+  private async createNote(notePath: string, content: string): Promise<void> {
+    const folder = notePath.split('/').slice(0, -1).join('/');
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    await this.app.vault.create(notePath, content);
+  }
+}
+
+/**
+ * Create a WeeklyReview instance
+ */
+export function createWeeklyReview(
+  app: App,
+  settings: CareerOSSettings,
+  indexStore: IndexStore,
+  promptStore: PromptStore,
+  llmClient: LLMClient,
+  taskBridge?: TaskBridge,
+  profileHistory?: ProfileHistory
+): WeeklyReview {
+  return new WeeklyReview(app, settings, indexStore, promptStore, llmClient, taskBridge, profileHistory);
+}
@@ -0,0 +1,735 @@
+/**
+ * LLMClient Tests
+ *
+ * Unit tests for the embedding API (request formats, batching, PII filtering),
+ * streaming calls (SSE / NDJSON parsing, cancellation), token usage recording,
+ * provider fallback chains, the response cache and Retry-After handling
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { LLMClient, LLMError, LLMCancelledError, parseRetryAfter } from './llmClient';
+import { PrivacyGuard } from './PrivacyGuard';
+import type { UsageTracker } from './UsageTracker';
+import type { ResponseCache } from './ResponseCache';
+import { RateLimiter } from './RateLimiter';
+import { CareerOSSettings, LLMConfig } from './types';
+
+// Mock settings with a configurable embedding role
+const createMockSettings = (embedding: LLMConfig): CareerOSSettings => {
+  const chatConfig: LLMConfig = {
+    provider: 'local',
+    model: 'test-model',
+    baseUrl: 'http://localhost:11434',
+  };
+
+  return {
+    llmConfigs: {
+      extract: chatConfig,
+      analyze: chatConfig,
+      embedding,
+    },
+    openaiApiKey: 'sk-test',
+    anthropicApiKey: '',
+    googleApiKey: 'g-test',
+    maxRetries: 0,
+    timeout: 30000,
+    concurrency: 2,
+    exclusionRules: {
+      directories: [],
+      tags: [],
+    },
+    taxonomy: [],
+    dryRunEnabled: false,
+    dryRunMaxNotes: 10,
+    indexDirectory: 'test-index',
+    mappingDirectory: 'test-mapping',
+    marketCardsDirectory: 'test-market-cards',
+  };
+};
+
+// Build a minimal fetch Response
+const jsonResponse = (data: unknown) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  json: async () => data,
+  text: async () => JSON.stringify(data),
+});
+
+describe('LLMClient.embed', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return empty array without calling fetch for empty input', async () => {
+    const client = new LLMClient(createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' }));
+
+    expect(await client.embed([])).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should use OpenAI /v1/embeddings format and restore input order', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    }));
+    const client = new LLMClient(createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' }));
+
+    const vectors = await client.embed(['a', 'b']);
+
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/embeddings');
+    expect(JSON.parse(init.body)).toEqual({ model: 'text-embedding-3-small', input: ['a', 'b'] });
+  });
+
+  it('should split inputs into batches of batchSize', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: { body: string }) => {
+      const input: string[] = JSON.parse(init.body).input;
+      return jsonResponse({ data: input.map((_, index) => ({ index, embedding: [index] })) });
+    });
+    const client = new LLMClient(createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' }));
+
+    const vectors = await client.embed(['a', 'b', 'c', 'd', 'e'], { batchSize: 2 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(vectors).toHaveLength(5);
+  });
+
+  it('should send one request per text to Ollama /api/embeddings', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ embedding: [0.5, 0.5] }));
+    const client = new LLMClient(createMockSettings({
+      provider: 'local',
+      model: 'nomic-embed-text',
+      baseUrl: 'http://localhost:11434',
+    }));
+
+    const vectors = await client.embed(['a', 'b']);
+
+    expect(vectors).toEqual([[0.5, 0.5], [0.5, 0.5]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('http://localhost:11434/api/embeddings');
+    expect(JSON.parse(init.body)).toEqual({ model: 'nomic-embed-text', prompt: 'b' });
+  });
+
+  it('should use Gemini batchEmbedContents format', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ embeddings: [{ values: [1] }, { values: [2] }] }));
+    const client = new LLMClient(createMockSettings({ provider: 'google', model: 'text-embedding-004' }));
+
+    const vectors = await client.embed(['a', 'b']);
+
+    expect(vectors).toEqual([[1], [2]]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain('models/text-embedding-004:batchEmbedContents');
+    expect(JSON.parse(init.body).requests[0]).toEqual({
+      model: 'models/text-embedding-004',
+      content: { parts: [{ text: 'a' }] },
+    });
+  });
+
+  it('should reject Anthropic without calling fetch', async () => {
+    const client = new LLMClient(createMockSettings({ provider: 'anthropic', model: 'claude-3-haiku' }));
+
+    await expect(client.embed(['a'])).rejects.toBeInstanceOf(LLMError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should filter PII for external providers', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ data: [{ index: 0, embedding: [1] }] }));
+    const guard = new PrivacyGuard({ directories: [], tags: [] });
+    const client = new LLMClient(
+      createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' }),
+      guard
+    );
+
+    await client.embed(['联系我 13812345678']);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.input[0]).not.toContain('13812345678');
+  });
+
+  it('should not filter PII for local providers', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ embedding: [1] }));
+    const guard = new PrivacyGuard({ directories: [], tags: [] });
+    const client = new LLMClient(
+      createMockSettings({ provider: 'local', model: 'nomic-embed-text', baseUrl: 'http://localhost:11434' }),
+      guard
+    );
+
+    await client.embed(['联系我 13812345678']);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.prompt).toContain('13812345678');
+  });
+
+  it('should filter PII for a local provider behind a custom base URL', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ data: [{ index: 0, embedding: [1] }] }));
+    const guard = new PrivacyGuard({ directories: [], tags: [] });
+    const client = new LLMClient(
+      {
+        ...createMockSettings({ provider: 'local', model: 'nomic-embed-text', baseUrl: 'http://localhost:11434' }),
+        customBaseUrl: 'https://proxy.example.com/v1/chat/completions',
+      },
+      guard
+    );
+
+    await client.embed(['联系我 13812345678']);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.input[0]).not.toContain('13812345678');
+  });
+});
+
+// Build a streaming Response from raw text chunks
+const streamResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+};
+
+describe('LLMClient.stream', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createClient = (config: LLMConfig) => {
+    const settings = createMockSettings(config);
+    settings.llmConfigs.analyze = config;
+    return new LLMClient(settings);
+  };
+
+  it('should parse OpenAI SSE deltas split across chunks', async () => {
+    fetchMock.mockResolvedValue(streamResponse([
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+      'ces":[{"delta":{"content":"lo"}}]}\n\n',
+      'data: [DONE]\n\n',
+    ]));
+    const tokens: string[] = [];
+    const client = createClient({ provider: 'openai', model: 'gpt-4' });
+
+    const text = await client.stream('analyze', 'hi', { onToken: t => tokens.push(t) });
+
+    expect(text).toBe('Hello');
+    expect(tokens).toEqual(['Hel', 'lo']);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('should only read text from Anthropic content_block_delta events', async () => {
+    fetchMock.mockResolvedValue(streamResponse([
+      'event: message_start\ndata: {"type":"message_start"}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"text":"Plan"}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+    ]));
+    const client = createClient({ provider: 'anthropic', model: 'claude-3-opus' });
+
+    expect(await client.stream('analyze', 'hi')).toBe('Plan');
+  });
+
+  it('should use the Gemini SSE endpoint', async () => {
+    fetchMock.mockResolvedValue(streamResponse([
+      'data: {"candidates":[{"content":{"parts":[{"text":"ok"}]}}]}\n\n',
+    ]));
+    const client = createClient({ provider: 'google', model: 'gemini-1.5-flash' });
+
+    expect(await client.stream('analyze', 'hi')).toBe('ok');
+    expect(fetchMock.mock.calls[0][0]).toContain(':streamGenerateContent?alt=sse');
+  });
+
+  it('should parse Ollama NDJSON chunks', async () => {
+    fetchMock.mockResolvedValue(streamResponse([
+      '{"message":{"content":"a"},"done":false}\n{"message":{"content":"b"},"done":false}\n',
+      '{"message":{"content":""},"done":true}',
+    ]));
+    const client = createClient({ provider: 'local', model: 'llama2', baseUrl: 'http://localhost:11434' });
+
+    expect(await client.stream('analyze', 'hi')).toBe('ab');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+  });
+
+  it('should throw LLMCancelledError when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const client = createClient({ provider: 'openai', model: 'gpt-4' });
+
+    await expect(client.stream('analyze', 'hi', { signal: controller.signal }))
+      .rejects.toBeInstanceOf(LLMCancelledError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should throw LLMCancelledError when aborted mid-request', async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation((_url: string, init: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => {
+          const error = new Error('aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      })
+    );
+    const client = createClient({ provider: 'openai', model: 'gpt-4' });
+
+    const pending = client.stream('analyze', 'hi', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(LLMCancelledError);
+  });
+});
+
+describe('LLMClient.callJSON cancellation', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should abort the pending request without retrying', async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation((_url: string, init: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => {
+          const error = new Error('aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+        controller.abort();
+      })
+    );
+    const settings = createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' });
+    settings.maxRetries = 2;
+    const client = new LLMClient(settings);
+
+    const pending = client.callJSON('analyze', 'hi', z.object({ ok: z.boolean() }), { signal: controller.signal });
+
+    await expect(pending).rejects.toBeInstanceOf(LLMCancelledError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('LLMClient usage recording', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let record: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    record = vi.fn(async () => null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createClient = (config: LLMConfig) => {
+    const settings = createMockSettings(config);
+    settings.llmConfigs.extract = config;
+    return new LLMClient(settings, undefined, { record } as unknown as UsageTracker);
+  };
+
+  it('should record OpenAI usage with the caller attribution', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      choices: [{ message: { content: 'ok' } }],
+      usage: { prompt_tokens: 12, completion_tokens: 3 },
+    }));
+    const client = createClient({ provider: 'openai', model: 'gpt-4o-mini' });
+
+    await client.call('extract', 'hi', { usage: { operation: 'note_card', note_path: 'a.md' } });
+
+    expect(record).toHaveBeenCalledWith({
+      role: 'extract',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      operation: 'note_card',
+      notePath: 'a.md',
+      usage: { prompt_tokens: 12, completion_tokens: 3 },
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).usage).toBeUndefined();
+  });
+
+  it('should read Anthropic, Gemini and Ollama usage fields', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({
+        content: [{ text: 'ok' }],
+        usage: { input_tokens: 5, output_tokens: 6 },
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        candidates: [{ content: { parts: [{ text: 'ok' }] } }],
+        usageMetadata: { promptTokenCount: 7, candidatesTokenCount: 8 },
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        message: { content: 'ok' },
+        prompt_eval_count: 9,
+        eval_count: 10,
+      }));
+
+    await createClient({ provider: 'anthropic', model: 'claude-3-haiku' }).call('extract', 'hi');
+    await createClient({ provider: 'google', model: 'gemini-1.5-flash' }).call('extract', 'hi');
+    await createClient({ provider: 'local', model: 'llama2' }).call('extract', 'hi');
+
+    expect(record.mock.calls.map(([entry]) => entry.usage)).toEqual([
+      { prompt_tokens: 5, completion_tokens: 6 },
+      { prompt_tokens: 7, completion_tokens: 8 },
+      { prompt_tokens: 9, completion_tokens: 10 },
+    ]);
+    expect(record.mock.calls[0][0].operation).toBe('other');
+  });
+
+  it('should not record when the response has no usage', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'ok' } }] }));
+
+    await createClient({ provider: 'openai', model: 'gpt-4o-mini' }).call('extract', 'hi');
+
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('should combine usage from Anthropic stream events', async () => {
+    fetchMock.mockResolvedValue(streamResponse([
+      'data: {"type":"message_start","message":{"usage":{"input_tokens":20,"output_tokens":1}}}\n\n',
+      'data: {"type":"content_block_delta","delta":{"text":"hi"}}\n\n',
+      'data: {"type":"message_delta","usage":{"output_tokens":15}}\n\n',
+    ]));
+    const client = createClient({ provider: 'anthropic', model: 'claude-3-haiku' });
+
+    await client.stream('extract', 'hi', { usage: { operation: 'gap_analysis' } });
+
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record.mock.calls[0][0].usage).toEqual({ prompt_tokens: 20, completion_tokens: 15 });
+    expect(record.mock.calls[0][0].operation).toBe('gap_analysis');
+  });
+
+  it('should ask OpenAI to include usage in streams', async () => {
+    fetchMock.mockResolvedValue(streamResponse([
+      'data: {"choices":[{"delta":{"content":"a"}}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":4,"completion_tokens":1}}\n\n',
+    ]));
+    const client = createClient({ provider: 'openai', model: 'gpt-4o-mini' });
+
+    expect(await client.stream('extract', 'hi')).toBe('a');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream_options).toEqual({ include_usage: true });
+    expect(record.mock.calls[0][0].usage).toEqual({ prompt_tokens: 4, completion_tokens: 1 });
+  });
+
+  it('should attribute embedding usage to the embedding role', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      data: [{ index: 0, embedding: [1] }],
+      usage: { prompt_tokens: 3, total_tokens: 3 },
+    }));
+    const client = createClient({ provider: 'openai', model: 'text-embedding-3-small' });
+
+    await client.embed(['a']);
+
+    expect(record.mock.calls[0][0]).toMatchObject({
+      role: 'embedding',
+      operation: 'embedding',
+      usage: { prompt_tokens: 3, completion_tokens: 0 },
+    });
+  });
+
+  it('should record estimated usage of a stream cancelled mid-response', async () => {
+    const controller = new AbortController();
+    // The stream delivers one delta, then fails once the request is aborted
+    fetchMock.mockImplementation(async (_url: string, init: { signal: AbortSignal }) => {
+      let pulls = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(stream) {
+          if (pulls++ === 0) {
+            stream.enqueue(new TextEncoder().encode('data: {"choices":[{"delta":{"content":"abcdefgh"}}]}\n\n'));
+            return;
+          }
+          return new Promise<void>((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => {
+              const error = new Error('aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          });
+        },
+      });
+      return new Response(body, { status: 200 });
+    });
+    const client = createClient({ provider: 'openai', model: 'gpt-4o-mini' });
+
+    const pending = client.stream('extract', 'a'.repeat(40), {
+      signal: controller.signal,
+      onToken: () => controller.abort(),
+    });
+
+    await expect(pending).rejects.toBeInstanceOf(LLMCancelledError);
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record.mock.calls[0][0].usage).toEqual({ prompt_tokens: 10, completion_tokens: 2 });
+  });
+});
+
+describe('LLMClient fallback chain', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Local Ollama primary with a Gemini and an OpenAI fallback
+  const createClient = (allowSensitive = false) => {
+    const settings = createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' });
+    settings.llmFallbacks = {
+      extract: [
+        { provider: 'google', model: 'gemini-1.5-flash' },
+        { provider: 'openai', model: 'gpt-4o-mini', allowSensitive },
+      ],
+    };
+    return new LLMClient(settings, new PrivacyGuard({ directories: [], tags: [] }));
+  };
+
+  const openaiReply = (content: string) => jsonResponse({ choices: [{ message: { content } }] });
+
+  it('should fall through the chain and report the provider that answered', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests', text: async () => '' })
+      .mockResolvedValueOnce(openaiReply('{"ok":true}'));
+    const onProvider = vi.fn();
+
+    const result = await createClient().callJSON('extract', 'hi', z.object({ ok: z.boolean() }), { onProvider });
+
+    expect(result).toEqual({ ok: true });
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+      expect.stringContaining('localhost:11434'),
+      expect.stringContaining('generativelanguage.googleapis.com'),
+      expect.stringContaining('api.openai.com'),
+    ]);
+    expect(onProvider).toHaveBeenCalledWith(expect.objectContaining({ provider: 'openai', model: 'gpt-4o-mini' }));
+  });
+
+  it('should skip external fallbacks for sensitive prompts unless allowed', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(createClient().call('extract', 'mail me@example.com', { sensitive: true }))
+      .rejects.toThrow('fetch failed');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should filter PII for eligible external fallbacks', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(openaiReply('done'));
+
+    const result = await createClient(true).call('extract', 'mail me@example.com', { sensitive: true });
+
+    expect(result).toBe('done');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][1].body).toContain('me@example.com');
+    expect(fetchMock.mock.calls[1][1].body).not.toContain('me@example.com');
+  });
+
+  it('should filter PII for a local provider behind a custom base URL', async () => {
+    fetchMock.mockResolvedValueOnce(openaiReply('done'));
+    const client = createClient();
+    client.updateSettings({
+      ...createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' }),
+      customBaseUrl: 'https://proxy.example.com/v1/chat/completions',
+    });
+
+    await client.call('extract', 'mail me@example.com', { sensitive: true });
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain('proxy.example.com');
+    expect(fetchMock.mock.calls[0][1].body).not.toContain('me@example.com');
+  });
+
+  it('should not fall back once stream tokens were delivered', async () => {
+    // Connection drops after the first chunk
+    let pulls = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (pulls++ === 0) {
+          controller.enqueue(new TextEncoder().encode('{"message":{"content":"par"},"done":false}\n'));
+        } else {
+          controller.error(new TypeError('fetch failed'));
+        }
+      },
+    });
+    fetchMock.mockResolvedValueOnce(new Response(body, { status: 200 }));
+    const onToken = vi.fn();
+
+    await expect(createClient().stream('extract', 'hi', { onToken })).rejects.toThrow();
+    expect(onToken).toHaveBeenCalledWith('par');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('LLMClient response cache', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let store: Map<string, string>;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    store = new Map();
+    cache = {
+      isEnabled: () => true,
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      set: vi.fn(async (key: string, _meta: unknown, response: string) => { store.set(key, response); }),
+    } as unknown as ResponseCache;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createClient = () => {
+    const settings = createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' });
+    settings.llmConfigs.extract = { provider: 'openai', model: 'gpt-4o-mini' };
+    return new LLMClient(settings, undefined, undefined, cache);
+  };
+
+  const openaiReply = (content: string) => jsonResponse({ choices: [{ message: { content } }] });
+
+  it('should serve identical calls from the cache', async () => {
+    fetchMock.mockResolvedValue(openaiReply('{"ok":true}'));
+    const client = createClient();
+    const schema = z.object({ ok: z.boolean() });
+
+    expect(await client.callJSON('extract', 'hi', schema)).toEqual({ ok: true });
+    expect(await client.callJSON('extract', 'hi', schema)).toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Different temperature is a different key
+    await client.callJSON('extract', 'hi', schema, { temperature: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the cache per call', async () => {
+    fetchMock.mockResolvedValue(openaiReply('fresh'));
+    const client = createClient();
+
+    await client.call('extract', 'hi');
+    await client.call('extract', 'hi', { cache: false });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(cache.set).toHaveBeenCalledTimes(1);
+  });
+
+  it('should neither cache nor accept an invalid reply to a cancellable JSON call', async () => {
+    fetchMock.mockResolvedValue(openaiReply('{"ok":"yes"}'));
+    const client = createClient();
+    const schema = z.object({ ok: z.boolean() });
+    const { signal } = new AbortController();
+
+    await expect(client.callJSON('extract', 'hi', schema, { signal })).rejects.toBeInstanceOf(z.ZodError);
+    expect(cache.set).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValue(openaiReply('{"ok":true}'));
+    expect(await client.callJSON('extract', 'hi', schema, { signal })).toEqual({ ok: true });
+    expect(store.size).toBe(1);
+  });
+
+  it('should deliver a cached stream as one token', async () => {
+    fetchMock.mockResolvedValue(openaiReply('plan'));
+    const client = createClient();
+    await client.call('extract', 'hi');
+    const onToken = vi.fn();
+
+    expect(await client.stream('extract', 'hi', { onToken })).toBe('plan');
+    expect(onToken).toHaveBeenCalledWith('plan');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('LLMClient Retry-After handling', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should parse delays in seconds and HTTP dates', () => {
+    const now = Date.parse('2024-05-01T00:00:00Z');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 May 2024 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('3600', now)).toBe(5 * 60 * 1000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it('should report Retry-After on the error and hold back the rate limiter', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: new Headers({ 'retry-after': '7' }),
+      text: async () => '',
+    });
+    const rateLimiter = { blockFor: vi.fn(), acquire: vi.fn(async () => true) } as unknown as RateLimiter;
+    const client = new LLMClient(
+      createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' }),
+      undefined,
+      undefined,
+      undefined,
+      rateLimiter
+    );
+
+    const error = await client.call('extract', 'hi').catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.retryAfterMs).toBe(7000);
+    expect(rateLimiter.blockFor).toHaveBeenCalledWith(7000);
+  });
+
+  it('should take rate limit capacity for every retried request', async () => {
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'retry-after': '0' }),
+        text: async () => '',
+      })
+      .mockResolvedValueOnce(jsonResponse({ message: { content: 'ok' } }));
+    const settings = { ...createMockSettings({ provider: 'openai', model: 'text-embedding-3-small' }), requestsPerMinute: 2 };
+    const rateLimiter = new RateLimiter(settings);
+    const client = new LLMClient(settings, undefined, undefined, undefined, rateLimiter);
+
+    expect(await client.call('extract', 'hi', { maxRetries: 1 })).toBe('ok');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(rateLimiter.getWaitTime(0)).toBeGreaterThan(0);
+  });
+});
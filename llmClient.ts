@@ -3,6 +3,11 @@
  * 
  * Unified interface for calling different LLM providers with retry and validation.
  * Supports: OpenAI, Anthropic, Local (Ollama), Google
+ * Streaming: SSE for OpenAI/Anthropic/Google, NDJSON for Local (Ollama)
+ * Embeddings: OpenAI, Local (Ollama), Google (Anthropic has no embeddings API)
+ * Usage: token counts reported by each response are recorded in the usage ledger
+ * Fallback: extract/analyze calls fall through `llmFallbacks` when the primary config fails
+ * Cache: completed responses are served from the on-disk ResponseCache when enabled
  * 
  * Requirements: 4.1, 4.2, 5.1, 12.1, 12.2, 12.3
  */
@@ -12,18 +17,37 @@ import {
   LLMConfig, 
   ModelRole, 
   CallOptions, 
+  StreamOptions,
+  EmbedOptions,
   CareerOSSettings,
-  LLMProvider 
+  LLMProvider,
+  TokenUsage,
+  UsageContext
 } from './types';
 import { cleanAndParseJSON } from './utils/jsonCleaner';
+import type { PrivacyGuard } from './PrivacyGuard';
+import type { UsageTracker } from './UsageTracker';
+import { ResponseCache, computeCacheKey } from './ResponseCache';
+import type { RateLimiter } from './RateLimiter';
+import { estimateTokens } from './BudgetGuard';
+
+// Call options after defaults are applied (usage attribution and chain options stay optional)
+type RequestOptions = Required<Omit<CallOptions, 'usage' | 'cache' | 'sensitive' | 'onProvider' | 'signal'>>;
 
 // Default call options
-const DEFAULT_CALL_OPTIONS: Required<CallOptions> = {
+const DEFAULT_CALL_OPTIONS: RequestOptions = {
   maxRetries: 3,
   timeout: 30000,
   temperature: 0.7,
 };
 
+// Default embed options
+const DEFAULT_EMBED_OPTIONS: Required<Omit<EmbedOptions, 'usage'>> = {
+  maxRetries: 3,
+  timeout: 30000,
+  batchSize: 32,
+};
+
 /**
  * Error class for LLM-related errors
  */
@@ -32,13 +56,29 @@ export class LLMError extends Error {
     message: string,
     public readonly provider: LLMProvider,
     public readonly statusCode?: number,
-    public readonly retryable: boolean = false
+    public readonly retryable: boolean = false,
+    public readonly retryAfterMs?: number
   ) {
     super(message);
     this.name = 'LLMError';
   }
 }
 
+/**
+ * Error thrown when a request is cancelled through an AbortSignal
+ * 
+ * `partialUsage` is set when a stream was cancelled after the provider
+ * accepted it, since the tokens up to that point are billed anyway.
+ */
+export class LLMCancelledError extends LLMError {
+  constructor(provider: LLMProvider, public readonly partialUsage?: TokenUsage) {
+    super('LLM request cancelled', provider, undefined, false);
+    this.name = 'LLMCancelledError';
+  }
+}
+
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
 /**
  * Sleep utility for retry delays
  */
@@ -60,6 +100,58 @@ function getBackoffDelay(attempt: number, baseDelay: number = 1000): number {
   return Math.min(exponentialDelay + jitter, 30000); // Cap at 30 seconds
 }
 
+/**
+ * Delay before retrying a failed request
+ * A provider's Retry-After takes precedence over exponential backoff.
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof LLMError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  return getBackoffDelay(attempt);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) to milliseconds
+ * Capped at 5 minutes so a misbehaving provider cannot stall the queue indefinitely.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  const delay = !isNaN(seconds) ? seconds * 1000 : Date.parse(value) - now;
+  return isNaN(delay) ? undefined : Math.min(Math.max(0, delay), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Whether a config sends requests off this machine (a custom base URL
+ * overrides every provider)
+ */
+export function isExternalConfig(config: LLMConfig, settings: CareerOSSettings): boolean {
+  return !!settings.customBaseUrl || config.provider !== 'local';
+}
+
+/**
+ * Ordered configs to try for a role: the primary config, then its fallbacks
+ * 
+ * For sensitive prompts, external fallbacks are skipped unless they opt in
+ * with `allowSensitive`. The primary config is always tried, as before.
+ */
+export function getModelChain(settings: CareerOSSettings, role: ModelRole, sensitive: boolean): LLMConfig[] {
+  const primary = settings.llmConfigs[role];
+  const fallbacks = role === 'embedding' ? [] : (settings.llmFallbacks?.[role] ?? []);
+
+  const eligible = fallbacks.filter(entry =>
+    !sensitive ||
+    entry.allowSensitive ||
+    !isExternalConfig(entry, settings)
+  );
+
+  return [primary, ...eligible];
+}
+
 /**
  * Build request headers for different providers
  */
@@ -141,7 +233,7 @@ function getEndpointUrl(config: LLMConfig, settings: CareerOSSettings): string {
 function buildRequestBody(
   config: LLMConfig,
   prompt: string,
-  options: Required<CallOptions>,
+  options: RequestOptions,
   settings: CareerOSSettings
 ): Record<string, any> {
   // Use custom model if configured, otherwise use config model
@@ -201,6 +293,102 @@ function buildRequestBody(
   }
 }
 
+/**
+ * Get the streaming endpoint URL for a provider
+ * 
+ * Only Google uses a different method for streaming; the others take a
+ * `stream: true` flag on the regular endpoint.
+ */
+function getStreamEndpointUrl(config: LLMConfig, settings: CareerOSSettings): string {
+  if (!settings.customBaseUrl && !config.baseUrl && config.provider === 'google') {
+    return `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:streamGenerateContent?alt=sse`;
+  }
+  return getEndpointUrl(config, settings);
+}
+
+/**
+ * Build streaming request body (regular body plus the provider's stream flag)
+ */
+function buildStreamRequestBody(
+  config: LLMConfig,
+  prompt: string,
+  options: RequestOptions,
+  settings: CareerOSSettings
+): Record<string, any> {
+  const body = buildRequestBody(config, prompt, options, settings);
+  
+  // Google streams via its endpoint, not a body flag
+  if (config.provider === 'google' && !settings.customBaseUrl) {
+    return body;
+  }
+  
+  // OpenAI only reports usage in a stream when asked to
+  if (config.provider === 'openai' && !settings.customBaseUrl) {
+    return { ...body, stream: true, stream_options: { include_usage: true } };
+  }
+  
+  return { ...body, stream: true };
+}
+
+/**
+ * Extract the text delta from one streamed event
+ */
+function extractStreamDelta(config: LLMConfig, eventData: any, settings: CareerOSSettings): string {
+  if (settings.customBaseUrl) {
+    return eventData.choices?.[0]?.delta?.content || '';
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return eventData.choices?.[0]?.delta?.content || '';
+    
+    case 'anthropic':
+      // Only content_block_delta events carry text
+      return eventData.type === 'content_block_delta' ? (eventData.delta?.text || '') : '';
+    
+    case 'google':
+      return eventData.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    
+    case 'local':
+      // Ollama NDJSON chunk
+      return eventData.message?.content || '';
+    
+    default:
+      throw new LLMError(`Unknown provider: ${config.provider}`, config.provider);
+  }
+}
+
+/**
+ * Parse one line of a stream into an event payload
+ * 
+ * Ollama sends NDJSON (one JSON object per line); the other providers send
+ * SSE, where only `data:` lines carry JSON. Returns null for lines without data.
+ */
+function parseStreamLine(line: string, ndjson: boolean): any | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  let payload = trimmed;
+  if (!ndjson) {
+    if (!trimmed.startsWith('data:')) {
+      return null; // event:, id:, comments
+    }
+    payload = trimmed.slice(5).trim();
+    if (payload === '[DONE]') {
+      return null;
+    }
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch {
+    console.warn('Skipping malformed stream chunk:', payload.slice(0, 200));
+    return null;
+  }
+}
+
 /**
  * Extract response text from different provider response formats
  */
@@ -229,6 +417,163 @@ function extractResponseText(config: LLMConfig, responseData: any, settings: Car
   }
 }
 
+/**
+ * Extract token usage from a response body or streamed event
+ * 
+ * Returns null when the payload carries no usage counts. Streamed events may
+ * report partial counts (e.g. Anthropic sends input and output tokens in
+ * separate events), so callers combine them with `mergeUsage`.
+ */
+function extractUsage(config: LLMConfig, responseData: any, settings: CareerOSSettings): TokenUsage | null {
+  const provider = settings.customBaseUrl ? 'openai' : config.provider;
+
+  switch (provider) {
+    case 'openai': {
+      const usage = responseData.usage;
+      if (!usage) return null;
+      return {
+        prompt_tokens: usage.prompt_tokens || 0,
+        completion_tokens: usage.completion_tokens || 0,
+      };
+    }
+    
+    case 'anthropic': {
+      // message_start nests usage under `message`, message_delta puts it at the top
+      const usage = responseData.usage || responseData.message?.usage;
+      if (!usage) return null;
+      return {
+        prompt_tokens: usage.input_tokens || 0,
+        completion_tokens: usage.output_tokens || 0,
+      };
+    }
+    
+    case 'google': {
+      const usage = responseData.usageMetadata;
+      if (!usage) return null;
+      return {
+        prompt_tokens: usage.promptTokenCount || 0,
+        completion_tokens: usage.candidatesTokenCount || 0,
+      };
+    }
+    
+    case 'local':
+      // Ollama reports counts on the final (done) message
+      if (responseData.prompt_eval_count === undefined && responseData.eval_count === undefined) {
+        return null;
+      }
+      return {
+        prompt_tokens: responseData.prompt_eval_count || 0,
+        completion_tokens: responseData.eval_count || 0,
+      };
+    
+    default:
+      return null;
+  }
+}
+
+/**
+ * Combine usage counts from streamed events (counts are cumulative, so keep the max)
+ */
+function mergeUsage(current: TokenUsage | null, next: TokenUsage | null): TokenUsage | null {
+  if (!current || !next) {
+    return current || next;
+  }
+  return {
+    prompt_tokens: Math.max(current.prompt_tokens, next.prompt_tokens),
+    completion_tokens: Math.max(current.completion_tokens, next.completion_tokens),
+  };
+}
+
+/**
+ * Get the embeddings endpoint URL for a provider
+ */
+function getEmbeddingEndpointUrl(config: LLMConfig, settings: CareerOSSettings): string {
+  // Custom proxies are OpenAI-compatible: swap the chat path for the embeddings path
+  if (settings.customBaseUrl) {
+    return settings.customBaseUrl.replace(/\/chat\/completions\/?$/, '/embeddings');
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return config.baseUrl
+        ? config.baseUrl.replace(/\/chat\/completions\/?$/, '/embeddings')
+        : 'https://api.openai.com/v1/embeddings';
+    case 'google':
+      return `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:batchEmbedContents`;
+    case 'local':
+      return `${config.baseUrl || 'http://localhost:11434'}/api/embeddings`;
+    case 'anthropic':
+      throw new LLMError('Anthropic does not provide an embeddings API', config.provider);
+    default:
+      throw new LLMError(`Unknown provider: ${config.provider}`, config.provider);
+  }
+}
+
+/**
+ * Build embeddings request body for different providers
+ * 
+ * Ollama's /api/embeddings accepts a single prompt, so callers send one text per request.
+ */
+function buildEmbeddingRequestBody(
+  config: LLMConfig,
+  texts: string[],
+  settings: CareerOSSettings
+): Record<string, any> {
+  const modelName = settings.customBaseUrl && settings.customModel 
+    ? settings.customModel 
+    : config.model;
+
+  if (settings.customBaseUrl) {
+    return { model: modelName, input: texts };
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return { model: modelName, input: texts };
+    
+    case 'google':
+      return {
+        requests: texts.map(text => ({
+          model: `models/${modelName}`,
+          content: { parts: [{ text }] },
+        })),
+      };
+    
+    case 'local':
+      return { model: modelName, prompt: texts[0] };
+    
+    default:
+      throw new LLMError(`Provider does not support embeddings: ${config.provider}`, config.provider);
+  }
+}
+
+/**
+ * Extract embedding vectors from different provider response formats
+ */
+function extractEmbeddings(config: LLMConfig, responseData: any, settings: CareerOSSettings): number[][] {
+  const provider = settings.customBaseUrl ? 'openai' : config.provider;
+
+  switch (provider) {
+    case 'openai': {
+      // OpenAI returns items with an index; restore input order explicitly
+      const items: Array<{ index: number; embedding: number[] }> = responseData.data || [];
+      return items
+        .slice()
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    }
+    
+    case 'google':
+      return (responseData.embeddings || []).map((item: { values: number[] }) => item.values);
+    
+    case 'local':
+      return responseData.embedding ? [responseData.embedding] : [];
+    
+    default:
+      throw new LLMError(`Provider does not support embeddings: ${config.provider}`, config.provider);
+  }
+}
+
 /**
  * Check if an error is retryable
  */
@@ -256,9 +601,23 @@ function isRetryableError(error: any): boolean {
  */
 export class LLMClient {
   private settings: CareerOSSettings;
+  private privacyGuard?: PrivacyGuard;
+  private usageTracker?: UsageTracker;
+  private responseCache?: ResponseCache;
+  private rateLimiter?: RateLimiter;
 
-  constructor(settings: CareerOSSettings) {
+  constructor(
+    settings: CareerOSSettings,
+    privacyGuard?: PrivacyGuard,
+    usageTracker?: UsageTracker,
+    responseCache?: ResponseCache,
+    rateLimiter?: RateLimiter
+  ) {
     this.settings = settings;
+    this.privacyGuard = privacyGuard;
+    this.usageTracker = usageTracker;
+    this.responseCache = responseCache;
+    this.rateLimiter = rateLimiter;
   }
 
   /**
@@ -275,9 +634,181 @@ export class LLMClient {
     return this.settings.llmConfigs[role];
   }
 
+  /**
+   * Ordered configs to try for a role (see `getModelChain`)
+   */
+  private getChainForRole(role: ModelRole, sensitive: boolean): LLMConfig[] {
+    return getModelChain(this.settings, role, sensitive);
+  }
+
+  /**
+   * Try each config of the role's chain until one succeeds
+   * 
+   * Each entry gets its own retries; cancellation is never retried on
+   * another provider. Sensitive prompts are PII-filtered per chain entry,
+   * since the caller only filtered for the primary one.
+   */
+  private async runChain<T>(
+    role: ModelRole,
+    prompt: string,
+    options: CallOptions | undefined,
+    run: (config: LLMConfig, prompt: string) => Promise<T>,
+    canFallBack: () => boolean = () => true
+  ): Promise<T> {
+    const sensitive = options?.sensitive ?? false;
+    const chain = this.getChainForRole(role, sensitive);
+    let lastError: Error | null = null;
+
+    for (let index = 0; index < chain.length; index++) {
+      const config = chain[index];
+      const entryPrompt = sensitive ? this.filterPIIFor(config, prompt) : prompt;
+
+      try {
+        const result = await run(config, entryPrompt);
+        options?.onProvider?.({ ...config, model: this.getEffectiveModel(config) });
+        return result;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        const next = chain[index + 1];
+        if (!next || error instanceof LLMCancelledError || !canFallBack()) {
+          break;
+        }
+
+        console.log(
+          `LLM ${config.provider}/${config.model} failed for ${role}, ` +
+          `falling back to ${next.provider}/${next.model}: ${lastError.message}`
+        );
+      }
+    }
+
+    throw lastError || new LLMError('Unknown error', chain[0].provider);
+  }
+
+  /**
+   * Filter PII from text bound for a config that leaves the machine
+   * Unlike `PrivacyGuard.filterPII`, a local provider behind a custom base URL is filtered too.
+   */
+  private filterPIIFor(config: LLMConfig, text: string): string {
+    return this.privacyGuard && isExternalConfig(config, this.settings)
+      ? this.privacyGuard.redactPII(text)
+      : text;
+  }
+
+  /**
+   * Model that actually runs for a config
+   * Mirrors buildRequestBody: with a custom base URL the proxy model is used.
+   */
+  private getEffectiveModel(config: LLMConfig): string {
+    return this.settings.customBaseUrl && this.settings.customModel
+      ? this.settings.customModel
+      : config.model;
+  }
+
+  /**
+   * Cache key of a request, or null when the cache is disabled or bypassed
+   */
+  private getCacheKey(
+    config: LLMConfig,
+    prompt: string,
+    options: RequestOptions,
+    cache?: boolean
+  ): string | null {
+    if (!this.responseCache?.isEnabled() || cache === false) {
+      return null;
+    }
+    return computeCacheKey(config.provider, this.getEffectiveModel(config), options.temperature, prompt);
+  }
+
+  /**
+   * Read a cached response for a key from getCacheKey
+   */
+  private async readCache(key: string | null): Promise<string | null> {
+    if (!key || !this.responseCache) {
+      return null;
+    }
+    return this.responseCache.get(key);
+  }
+
+  /**
+   * Store a completed response under a key from getCacheKey
+   */
+  private writeCache(key: string | null, config: LLMConfig, options: RequestOptions, response: string): void {
+    if (!key || !this.responseCache) {
+      return;
+    }
+
+    // The cache never rejects, so the call does not wait on the write
+    this.responseCache.set(key, {
+      provider: config.provider,
+      model: this.getEffectiveModel(config),
+      temperature: options.temperature,
+    }, response);
+  }
+
+  /**
+   * Wait for the rate limiter before an HTTP request, retries and fallbacks included
+   * 
+   * @throws LLMCancelledError when `signal` is aborted while waiting
+   */
+  private async acquireRateLimit(config: LLMConfig, body: Record<string, any>, signal?: AbortSignal): Promise<void> {
+    if (this.rateLimiter && !(await this.rateLimiter.acquire(estimateTokens(JSON.stringify(body)), signal))) {
+      throw new LLMCancelledError(config.provider);
+    }
+  }
+
+  /**
+   * Build the error for a non-OK response
+   * A Retry-After header also holds back queued requests through the rate limiter.
+   */
+  private async createHttpError(config: LLMConfig, response: Response): Promise<LLMError> {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    const retryAfterMs = parseRetryAfter(response.headers?.get('retry-after'));
+
+    if (retryAfterMs !== undefined) {
+      this.rateLimiter?.blockFor(retryAfterMs);
+    }
+
+    return new LLMError(
+      `LLM request failed: ${response.status} ${response.statusText} - ${errorText}`,
+      config.provider,
+      response.status,
+      response.status === 429 || response.status >= 500,
+      retryAfterMs
+    );
+  }
+
+  /**
+   * Record token usage for a completed request in the usage ledger
+   */
+  private recordUsage(
+    role: ModelRole,
+    config: LLMConfig,
+    usage: TokenUsage | null,
+    context?: UsageContext
+  ): void {
+    if (!this.usageTracker || !usage) {
+      return;
+    }
+
+    const model = this.getEffectiveModel(config);
+
+    // The tracker never rejects, so the call does not wait on the ledger write
+    this.usageTracker.record({
+      role,
+      provider: config.provider,
+      model,
+      operation: context?.operation || 'other',
+      notePath: context?.note_path,
+      usage,
+    });
+  }
+
   /**
    * Call LLM with specific role configuration
    * 
+   * Falls through the role's fallback chain when the primary config fails.
+   * 
    * @param role - Model role (extract, analyze, embedding)
    * @param prompt - Prompt string to send
    * @param options - Optional call options
@@ -288,28 +819,52 @@ export class LLMClient {
     prompt: string,
     options?: CallOptions
   ): Promise<string> {
-    const config = this.getConfigForRole(role);
-    const mergedOptions: Required<CallOptions> = {
+    return this.runChain(role, prompt, options, (config, entryPrompt) =>
+      this.callWithConfig(role, config, entryPrompt, options)
+    );
+  }
+
+  /**
+   * Call a single config with retry
+   */
+  private async callWithConfig(
+    role: ModelRole,
+    config: LLMConfig,
+    prompt: string,
+    options?: CallOptions
+  ): Promise<string> {
+    const { usage, cache, sensitive, onProvider, signal, ...callOptions } = options || {};
+    const mergedOptions: RequestOptions = {
       ...DEFAULT_CALL_OPTIONS,
       maxRetries: this.settings.maxRetries,
       timeout: this.settings.timeout,
-      ...options,
+      ...callOptions,
     };
 
+    const cacheKey = this.getCacheKey(config, prompt, mergedOptions, cache);
+    const cached = await this.readCache(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= mergedOptions.maxRetries; attempt++) {
       try {
-        const response = await this.makeRequest(config, prompt, mergedOptions);
+        const response = await this.makeRequest(role, config, prompt, mergedOptions, usage, signal);
+        this.writeCache(cacheKey, config, mergedOptions, response);
         return response;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
         // Check if we should retry
         if (attempt < mergedOptions.maxRetries && isRetryableError(error)) {
-          const delay = getBackoffDelay(attempt);
+          const delay = getRetryDelay(error, attempt);
           console.log(`LLM request failed (attempt ${attempt + 1}), retrying in ${delay}ms...`);
           await sleep(delay);
+          if (signal?.aborted) {
+            throw new LLMCancelledError(config.provider);
+          }
           continue;
         }
         
@@ -322,14 +877,114 @@ export class LLMClient {
   }
 
 
+  /**
+   * Call LLM and stream the response token by token
+   * 
+   * Retries only happen before the first token arrives; once output has been
+   * delivered through `onToken` a failure is surfaced to the caller. The timeout
+   * is an idle timeout that resets on every received chunk.
+   * 
+   * @param role - Model role (extract, analyze)
+   * @param prompt - Prompt string to send
+   * @param options - Call options plus `onToken` callback and `signal` for cancellation
+   * @returns Full response text
+   * @throws LLMCancelledError when `signal` is aborted
+   */
+  async stream(
+    role: ModelRole,
+    prompt: string,
+    options?: StreamOptions
+  ): Promise<string> {
+    // Output already shown to the user cannot be replaced by another provider's
+    let delivered = false;
+    const onToken = (token: string) => {
+      delivered = true;
+      options?.onToken?.(token);
+    };
+
+    return this.runChain(
+      role,
+      prompt,
+      options,
+      (config, entryPrompt) => this.streamWithConfig(role, config, entryPrompt, { ...options, onToken }),
+      () => !delivered
+    );
+  }
+
+  /**
+   * Stream from a single config with retry
+   */
+  private async streamWithConfig(
+    role: ModelRole,
+    config: LLMConfig,
+    prompt: string,
+    options?: StreamOptions
+  ): Promise<string> {
+    const { onToken, signal, usage, cache, sensitive, onProvider, ...callOptions } = options || {};
+    const mergedOptions: RequestOptions = {
+      ...DEFAULT_CALL_OPTIONS,
+      maxRetries: this.settings.maxRetries,
+      timeout: this.settings.timeout,
+      ...callOptions,
+    };
+
+    // A cached response is delivered as a single token
+    const cacheKey = this.getCacheKey(config, prompt, mergedOptions, cache);
+    const cached = await this.readCache(cacheKey);
+    if (cached !== null) {
+      if (signal?.aborted) {
+        throw new LLMCancelledError(config.provider);
+      }
+      onToken?.(cached);
+      return cached;
+    }
+
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= mergedOptions.maxRetries; attempt++) {
+      let receivedTokens = false;
+      try {
+        const result = await this.makeStreamRequest(config, prompt, mergedOptions, (token) => {
+          receivedTokens = true;
+          onToken?.(token);
+        }, signal);
+        this.recordUsage(role, config, result.usage, usage);
+        this.writeCache(cacheKey, config, mergedOptions, result.text);
+        return result.text;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        
+        if (error instanceof LLMCancelledError) {
+          this.recordUsage(role, config, error.partialUsage ?? null, usage);
+          break;
+        }
+        
+        if (attempt < mergedOptions.maxRetries && !receivedTokens && isRetryableError(error)) {
+          const delay = getRetryDelay(error, attempt);
+          console.log(`LLM stream failed (attempt ${attempt + 1}), retrying in ${delay}ms...`);
+          await sleep(delay);
+          if (signal?.aborted) {
+            throw new LLMCancelledError(config.provider);
+          }
+          continue;
+        }
+        
+        break;
+      }
+    }
+
+    throw lastError || new LLMError('Unknown error', config.provider);
+  }
+
   /**
    * Call LLM expecting JSON output with schema validation
    * 
    * @param role - Model role (extract, analyze, embedding)
    * @param prompt - Prompt string to send
    * @param schema - Zod schema for validation
-   * @param options - Optional call options
+   * @param options - Optional call options; `signal` aborts the pending request
    * @returns Parsed and validated JSON object
+   * @throws LLMCancelledError when `signal` is aborted
    */
   async callJSON<T>(
     role: ModelRole,
@@ -337,20 +992,46 @@ export class LLMClient {
     schema: z.ZodSchema<T>,
     options?: CallOptions
   ): Promise<T> {
-    const config = this.getConfigForRole(role);
-    const mergedOptions: Required<CallOptions> = {
+    return this.runChain(role, prompt, options, (config, entryPrompt) =>
+      this.callJSONWithConfig(role, config, entryPrompt, schema, options)
+    );
+  }
+
+  /**
+   * Call a single config for JSON output with retry
+   */
+  private async callJSONWithConfig<T>(
+    role: ModelRole,
+    config: LLMConfig,
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: CallOptions
+  ): Promise<T> {
+    const { usage, cache, sensitive, onProvider, signal, ...callOptions } = options || {};
+    const mergedOptions: RequestOptions = {
       ...DEFAULT_CALL_OPTIONS,
       maxRetries: this.settings.maxRetries,
       timeout: this.settings.timeout,
-      ...options,
+      ...callOptions,
     };
 
+    // A cached response that no longer fits the schema is treated as a miss
+    const cacheKey = this.getCacheKey(config, prompt, mergedOptions, cache);
+    const cached = await this.readCache(cacheKey);
+    if (cached !== null) {
+      try {
+        return schema.parse(cleanAndParseJSON(cached));
+      } catch {
+        console.log('Cached LLM response no longer matches the schema, requesting a new one');
+      }
+    }
+
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= mergedOptions.maxRetries; attempt++) {
       try {
-        // Make LLM request
-        const responseText = await this.makeRequest(config, prompt, mergedOptions);
+        // Make LLM request (usage is recorded per attempt, failed parses cost tokens too)
+        const responseText = await this.makeRequest(role, config, prompt, mergedOptions, usage, signal);
         
         // Clean and parse JSON
         const parsed = cleanAndParseJSON(responseText);
@@ -358,9 +1039,13 @@ export class LLMClient {
         // Validate against schema
         const validated = schema.parse(parsed);
         
+        this.writeCache(cacheKey, config, mergedOptions, responseText);
         return validated;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+        if (error instanceof LLMCancelledError) {
+          break;
+        }
         
         // For JSON/schema errors, always retry (LLM might produce better output)
         // For network errors, check if retryable
@@ -371,9 +1056,97 @@ export class LLMClient {
         );
         
         if (shouldRetry) {
-          const delay = getBackoffDelay(attempt);
+          const delay = getRetryDelay(error, attempt);
           console.log(`LLM JSON request failed (attempt ${attempt + 1}), retrying in ${delay}ms...`);
           await sleep(delay);
+          if (signal?.aborted) {
+            throw new LLMCancelledError(config.provider);
+          }
+          continue;
+        }
+        
+        break;
+      }
+    }
+
+    throw lastError || new LLMError('Unknown error', config.provider);
+  }
+
+  /**
+   * Generate embedding vectors for a list of texts using the embedding role
+   * 
+   * Texts are sent in batches of `batchSize` (one per request for Ollama).
+   * For external configs (see `isExternalConfig`), PII is filtered before any text leaves the machine.
+   * 
+   * @param texts - Texts to embed
+   * @param options - Optional embed options
+   * @returns One vector per input text, in input order
+   */
+  async embed(texts: string[], options?: EmbedOptions): Promise<number[][]> {
+    const config = this.getConfigForRole('embedding');
+    const { usage = { operation: 'embedding' }, ...embedOptions } = options || {};
+    const mergedOptions: Required<Omit<EmbedOptions, 'usage'>> = {
+      ...DEFAULT_EMBED_OPTIONS,
+      maxRetries: this.settings.maxRetries,
+      timeout: this.settings.timeout,
+      ...embedOptions,
+    };
+
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const inputs = texts.map(text => this.filterPIIFor(config, text));
+
+    const batchSize = config.provider === 'local' && !this.settings.customBaseUrl
+      ? 1
+      : Math.max(1, mergedOptions.batchSize);
+
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < inputs.length; start += batchSize) {
+      const batch = inputs.slice(start, start + batchSize);
+      const batchVectors = await this.embedBatch(config, batch, mergedOptions, usage);
+      vectors.push(...batchVectors);
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Embed a single batch with retry
+   */
+  private async embedBatch(
+    config: LLMConfig,
+    batch: string[],
+    options: Required<Omit<EmbedOptions, 'usage'>>,
+    usage: UsageContext
+  ): Promise<number[][]> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+      try {
+        const url = getEmbeddingEndpointUrl(config, this.settings);
+        const body = buildEmbeddingRequestBody(config, batch, this.settings);
+        const responseData = await this.postJSON(config, url, body, options.timeout);
+        const vectors = extractEmbeddings(config, responseData, this.settings);
+
+        if (vectors.length !== batch.length) {
+          throw new LLMError(
+            `Embedding response size mismatch: expected ${batch.length}, got ${vectors.length}`,
+            config.provider
+          );
+        }
+
+        this.recordUsage('embedding', config, extractUsage(config, responseData, this.settings), usage);
+        return vectors;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        
+        if (attempt < options.maxRetries && isRetryableError(error)) {
+          const delay = getRetryDelay(error, attempt);
+          console.log(`Embedding request failed (attempt ${attempt + 1}), retrying in ${delay}ms...`);
+          await sleep(delay);
           continue;
         }
         
@@ -388,17 +1161,73 @@ export class LLMClient {
    * Make a single HTTP request to the LLM provider
    */
   private async makeRequest(
+    role: ModelRole,
     config: LLMConfig,
     prompt: string,
-    options: Required<CallOptions>
+    options: RequestOptions,
+    usage?: UsageContext,
+    signal?: AbortSignal
   ): Promise<string> {
     const url = getEndpointUrl(config, this.settings);
-    const headers = buildHeaders(config, this.settings);
     const body = buildRequestBody(config, prompt, options, this.settings);
 
-    // Create abort controller for timeout
+    const responseData = await this.postJSON(config, url, body, options.timeout, signal);
+    this.recordUsage(role, config, extractUsage(config, responseData, this.settings), usage);
+    return extractResponseText(config, responseData, this.settings);
+  }
+
+  /**
+   * Make a single streaming HTTP request and feed deltas to `onToken`
+   * 
+   * @returns Full response text and the usage reported by the stream, if any
+   */
+  private async makeStreamRequest(
+    config: LLMConfig,
+    prompt: string,
+    options: RequestOptions,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ text: string; usage: TokenUsage | null }> {
+    if (signal?.aborted) {
+      throw new LLMCancelledError(config.provider);
+    }
+
+    const url = getStreamEndpointUrl(config, this.settings);
+    const headers = buildHeaders(config, this.settings);
+    const body = buildStreamRequestBody(config, prompt, options, this.settings);
+    await this.acquireRateLimit(config, body, signal);
+    const ndjson = config.provider === 'local' && !this.settings.customBaseUrl;
+
+    // One controller for both idle timeout and caller cancellation
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+    let timedOut = false;
+    let timeoutId = setTimeout(() => { timedOut = true; controller.abort(); }, options.timeout);
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => { timedOut = true; controller.abort(); }, options.timeout);
+    };
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    let fullText = '';
+    let usage: TokenUsage | null = null;
+    let accepted = false;
+    const handleLine = (line: string) => {
+      const eventData = parseStreamLine(line, ndjson);
+      if (eventData === null) {
+        return;
+      }
+      if (eventData.error) {
+        const message = typeof eventData.error === 'string' ? eventData.error : eventData.error.message;
+        throw new LLMError(`LLM stream error: ${message}`, config.provider);
+      }
+      usage = mergeUsage(usage, extractUsage(config, eventData, this.settings));
+      const delta = extractStreamDelta(config, eventData, this.settings);
+      if (delta) {
+        fullText += delta;
+        onToken(delta);
+      }
+    };
 
     try {
       const response = await fetch(url, {
@@ -409,17 +1238,114 @@ export class LLMClient {
       });
 
       if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
+        throw await this.createHttpError(config, response);
+      }
+      accepted = true;
+
+      // Environments without readable streams get the whole body at once
+      if (!response.body) {
+        const text = await response.text();
+        text.split('\n').forEach(handleLine);
+        return { text: fullText, usage };
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        resetTimeout();
+        buffer += decoder.decode(value, { stream: true });
+        
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+
+      buffer += decoder.decode();
+      handleLine(buffer);
+
+      return { text: fullText, usage };
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      
+      // Distinguish caller cancellation from idle timeout
+      if (error instanceof Error && error.name === 'AbortError') {
+        if (!timedOut) {
+          // Providers report usage at the end of a stream; estimate what was not reported
+          // (assigned in handleLine, which TypeScript does not follow)
+          const reported = usage as TokenUsage | null;
+          throw new LLMCancelledError(config.provider, accepted ? {
+            prompt_tokens: reported?.prompt_tokens || estimateTokens(prompt),
+            completion_tokens: reported?.completion_tokens || estimateTokens(fullText),
+          } : undefined);
+        }
         throw new LLMError(
-          `LLM request failed: ${response.status} ${response.statusText} - ${errorText}`,
+          `LLM stream stalled for ${options.timeout}ms`,
           config.provider,
-          response.status,
-          response.status === 429 || response.status >= 500
+          undefined,
+          true
         );
       }
+      
+      throw new LLMError(
+        `LLM request failed: ${error instanceof Error ? error.message : String(error)}`,
+        config.provider,
+        undefined,
+        true
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * POST a JSON body to a provider endpoint and return the parsed response
+   * 
+   * Wraps HTTP, timeout and network failures in LLMError.
+   * 
+   * @throws LLMCancelledError when `signal` is aborted
+   */
+  private async postJSON(
+    config: LLMConfig,
+    url: string,
+    body: Record<string, any>,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<any> {
+    if (signal?.aborted) {
+      throw new LLMCancelledError(config.provider);
+    }
+
+    await this.acquireRateLimit(config, body, signal);
+    const headers = buildHeaders(config, this.settings);
+
+    // One controller for both timeout and caller cancellation
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(config, response);
+      }
 
-      const responseData = await response.json();
-      return extractResponseText(config, responseData, this.settings);
+      return await response.json();
     } catch (error) {
       if (error instanceof LLMError) {
         throw error;
@@ -427,8 +1353,11 @@ export class LLMClient {
       
       // Handle abort/timeout
       if (error instanceof Error && error.name === 'AbortError') {
+        if (signal?.aborted) {
+          throw new LLMCancelledError(config.provider);
+        }
         throw new LLMError(
-          `LLM request timed out after ${options.timeout}ms`,
+          `LLM request timed out after ${timeout}ms`,
           config.provider,
           undefined,
           true
@@ -444,6 +1373,7 @@ export class LLMClient {
       );
     } finally {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -492,7 +1422,17 @@ export class LLMClient {
 
 /**
  * Create a new LLM client instance
+ * 
+ * @param settings - Plugin settings
+ * @param privacyGuard - Optional PrivacyGuard used to filter PII from embedding inputs
+ * @param usageTracker - Optional UsageTracker that records token usage and cost
  */
-export function createLLMClient(settings: CareerOSSettings): LLMClient {
-  return new LLMClient(settings);
+export function createLLMClient(
+  settings: CareerOSSettings,
+  privacyGuard?: PrivacyGuard,
+  usageTracker?: UsageTracker,
+  responseCache?: ResponseCache,
+  rateLimiter?: RateLimiter
+): LLMClient {
+  return new LLMClient(settings, privacyGuard, usageTracker, responseCache, rateLimiter);
 }
@@ -6,8 +6,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TFile } from 'obsidian';
 import { Logger, LoggerConfig, LogEntry, createLogger } from './logger';
 import { ErrorType } from './types';
+import { parseErrorLog } from './utils/errorLogParser';
 
 // Mock Obsidian App
 const createMockApp = () => {
@@ -189,3 +191,118 @@ describe('Logger error categorization', () => {
     }
   });
 });
+
+describe('Logger entry status', () => {
+  // Vault returning TFile instances so existing logs can be rewritten
+  const createVaultApp = (content: string) => {
+    const files = new Map<string, string>([['test/error_log.md', content]]);
+    return {
+      vault: {
+        getAbstractFileByPath: vi.fn((path: string) => files.has(path) ? Object.assign(new TFile(), { path }) : null),
+        read: vi.fn(async (file: TFile) => files.get(file.path) ?? ''),
+        modify: vi.fn(async (file: TFile, data: string) => { files.set(file.path, data); }),
+      },
+      _files: files,
+    };
+  };
+
+  const log = `# CareerOS Error Log
+
+## 2024-12-07T11:30:00.000Z
+
+- **Type**: Extraction
+- **Path**: notes/a.md
+- **Attempts**: 3
+- **Error**: NoteCard extraction failed
+- **Details**: Missing summary
+
+---
+
+## 2024-12-07T10:30:00.000Z
+
+- **Path**: notes/b.md
+- **Attempts**: 1
+- **Error**: LLM timeout error
+
+---
+`;
+
+  it('should mark the entries of a note resolved and keep their details', async () => {
+    const app = createVaultApp(log);
+    const logger = new Logger(app as any, { logFilePath: 'test/error_log.md' });
+
+    expect(await logger.resolveEntriesForPath('notes/a.md')).toBe(1);
+
+    const entries = parseErrorLog(app._files.get('test/error_log.md')!);
+    expect(entries[0]).toMatchObject({ path: 'notes/a.md', status: 'resolved', details: 'Missing summary' });
+    expect(entries[1].status).toBeUndefined();
+  });
+
+  it('should ignore entries by timestamp and path', async () => {
+    const app = createVaultApp(log);
+    const logger = new Logger(app as any, { logFilePath: 'test/error_log.md' });
+
+    expect(await logger.ignoreEntries([{ timestamp: '2024-12-07T10:30:00.000Z', path: 'notes/b.md' }])).toBe(1);
+    // Already ignored entries are not resolved later
+    expect(await logger.resolveEntriesForPath('notes/b.md')).toBe(0);
+
+    const entries = await logger.getEntries();
+    expect(entries.map(e => e.status)).toEqual([undefined, 'ignored']);
+  });
+
+  it('should reopen only ignored entries', async () => {
+    const app = createVaultApp(log);
+    const logger = new Logger(app as any, { logFilePath: 'test/error_log.md' });
+    const b = { timestamp: '2024-12-07T10:30:00.000Z', path: 'notes/b.md' };
+
+    await logger.ignoreEntries([b]);
+    await logger.resolveEntriesForPath('notes/a.md');
+
+    expect(await logger.unignoreEntries([b, { timestamp: '2024-12-07T11:30:00.000Z', path: 'notes/a.md' }])).toBe(1);
+    expect(app._files.get('test/error_log.md')).toContain(log.substring(log.indexOf('## 2024-12-07T10:30:00.000Z')));
+    expect((await logger.getEntries()).map(e => e.status)).toEqual(['resolved', undefined]);
+  });
+
+  it('should keep multi-line details and other entries verbatim', async () => {
+    const multiLine = log.replace('- **Details**: Missing summary', '- **Details**: Missing summary\n  at validate (schema.ts:10)');
+    const app = createVaultApp(multiLine);
+    const logger = new Logger(app as any, { logFilePath: 'test/error_log.md' });
+
+    await logger.resolveEntriesForPath('notes/a.md');
+
+    const content = app._files.get('test/error_log.md')!;
+    expect(content).toContain('- **Details**: Missing summary\n  at validate (schema.ts:10)\n- **Status**: Resolved\n\n---');
+    expect(content).toContain(multiLine.substring(multiLine.indexOf('## 2024-12-07T10:30:00.000Z')));
+    expect(parseErrorLog(content)[0].details).toBe('Missing summary\n  at validate (schema.ts:10)');
+  });
+
+  it('should not lose entries appended while statuses are updated', async () => {
+    const app = createVaultApp(log);
+    (app.vault as any).create = vi.fn();
+    (app.vault as any).createFolder = vi.fn();
+    const logger = new Logger(app as any, { logFilePath: 'test/error_log.md', maxAgeDays: 100000 });
+
+    await Promise.all([
+      logger.resolveEntriesForPath('notes/a.md'),
+      logger.logExtractionError('notes/c.md', 'NoteCard extraction failed', 3),
+      logger.ignoreEntries([{ timestamp: '2024-12-07T10:30:00.000Z', path: 'notes/b.md' }]),
+      logger.logExtractionError('notes/d.md', 'NoteCard extraction failed', 3),
+    ]);
+
+    const entries = await logger.getEntries();
+    expect(entries.map(e => [e.path, e.status])).toEqual([
+      ['notes/d.md', undefined],
+      ['notes/c.md', undefined],
+      ['notes/a.md', 'resolved'],
+      ['notes/b.md', 'ignored'],
+    ]);
+  });
+
+  it('should leave the log untouched when nothing matches', async () => {
+    const app = createVaultApp(log);
+    const logger = new Logger(app as any, { logFilePath: 'test/error_log.md' });
+
+    expect(await logger.resolveEntriesForPath('notes/missing.md')).toBe(0);
+    expect(app.vault.modify).not.toHaveBeenCalled();
+  });
+});
@@ -14,8 +14,9 @@
  */
 
 import { App, TFile, normalizePath } from 'obsidian';
-import { ErrorType, ErrorLogEntry } from './types';
-import { parseErrorLog, categorizeError } from './utils/errorLogParser';
+import { ErrorType, ErrorLogEntry, ErrorLogEntryStatus } from './types';
+import { parseErrorLog, splitErrorLog, categorizeError } from './utils/errorLogParser';
+import { WriteQueue } from './utils/writeQueue';
 
 // Error log configuration
 export interface LoggerConfig {
@@ -43,10 +44,14 @@ export interface LogEntry {
 
 /**
  * Logger class for CareerOS error logging
+ * 
+ * Every write to the log goes through one queue, so concurrent appends and
+ * status updates never overwrite each other.
  */
 export class Logger {
   private config: LoggerConfig;
   private app: App;
+  private writeQueue = new WriteQueue();
 
   constructor(app: App, config: Partial<LoggerConfig> = {}) {
     this.app = app;
@@ -68,8 +73,10 @@ export class Logger {
       type: errorType,
     }, entry.details);
 
-    await this.appendToLog(formattedEntry);
-    await this.rotateLog();
+    await this.writeQueue.run(async () => {
+      await this.appendToLog(formattedEntry);
+      await this.rotateLog();
+    });
   }
 
   /**
@@ -136,6 +143,10 @@ export class Logger {
       formatted += `- **Details**: ${details}\n`;
     }
     
+    if (entry.status && entry.status !== 'open') {
+      formatted += `- **Status**: ${entry.status === 'resolved' ? 'Resolved' : 'Ignored'}\n`;
+    }
+    
     formatted += '\n---\n\n';
     return formatted;
   }
@@ -225,6 +236,7 @@ export class Logger {
 
   /**
    * Rotate log to keep within limits
+   * Kept entries are copied verbatim.
    */
   private async rotateLog(): Promise<void> {
     const logPath = normalizePath(this.config.logFilePath);
@@ -234,10 +246,9 @@ export class Logger {
       return;
     }
     
-    const content = await this.app.vault.read(file);
-    const entries = parseErrorLog(content);
+    const { header, sections } = splitErrorLog(await this.app.vault.read(file));
     
-    if (entries.length === 0) {
+    if (sections.length === 0) {
       return;
     }
     
@@ -246,45 +257,115 @@ export class Logger {
     cutoffDate.setDate(cutoffDate.getDate() - this.config.maxAgeDays);
     const cutoffTimestamp = cutoffDate.toISOString();
     
-    let filteredEntries = entries.filter(entry => {
-      return entry.timestamp >= cutoffTimestamp;
+    let keptSections = sections.filter(section => {
+      const entry = parseErrorLog(section)[0];
+      return !entry || entry.timestamp >= cutoffTimestamp;
     });
     
     // Limit by count (keep newest)
-    if (filteredEntries.length > this.config.maxEntries) {
-      filteredEntries = filteredEntries.slice(0, this.config.maxEntries);
+    if (keptSections.length > this.config.maxEntries) {
+      keptSections = keptSections.slice(0, this.config.maxEntries);
     }
     
     // Only rewrite if entries were removed
-    if (filteredEntries.length < entries.length) {
-      const newContent = this.rebuildLogContent(filteredEntries);
-      await this.app.vault.modify(file, newContent);
+    if (keptSections.length < sections.length) {
+      await this.app.vault.modify(file, header + keptSections.join(''));
     }
   }
 
   /**
-   * Rebuild log content from entries
+   * Mark open entries for a note as resolved (e.g., after a successful retry)
+   * 
+   * @returns Number of entries updated
    */
-  private rebuildLogContent(entries: ErrorLogEntry[]): string {
-    let content = this.getLogHeader();
-    
-    for (const entry of entries) {
-      content += this.formatEntry(entry);
-    }
-    
-    return content;
+  async resolveEntriesForPath(path: string): Promise<number> {
+    return await this.setEntryStatus(entry => entry.path === path, 'open', 'resolved');
+  }
+
+  /**
+   * Mark entries as ignored so they are no longer counted or retried
+   * Entries are identified by timestamp and path.
+   * 
+   * @returns Number of entries updated
+   */
+  async ignoreEntries(entries: Array<Pick<ErrorLogEntry, 'timestamp' | 'path'>>): Promise<number> {
+    const keys = new Set(entries.map(e => `${e.timestamp}|${e.path}`));
+    return await this.setEntryStatus(entry => keys.has(`${entry.timestamp}|${entry.path}`), 'open', 'ignored');
+  }
+
+  /**
+   * Reopen ignored entries so they are counted and can be retried again
+   * 
+   * @returns Number of entries updated
+   */
+  async unignoreEntries(entries: Array<Pick<ErrorLogEntry, 'timestamp' | 'path'>>): Promise<number> {
+    const keys = new Set(entries.map(e => `${e.timestamp}|${e.path}`));
+    return await this.setEntryStatus(entry => keys.has(`${entry.timestamp}|${entry.path}`), 'ignored', 'open');
+  }
+
+  /**
+   * Move matching entries from one status to another
+   * Only the Status line of those entries changes; the rest of the log is kept verbatim.
+   */
+  private setEntryStatus(
+    matches: (entry: ErrorLogEntry) => boolean,
+    from: ErrorLogEntryStatus,
+    status: ErrorLogEntryStatus
+  ): Promise<number> {
+    return this.writeQueue.run(async () => {
+      const logPath = normalizePath(this.config.logFilePath);
+      const file = this.app.vault.getAbstractFileByPath(logPath);
+      
+      if (!file || !(file instanceof TFile)) {
+        return 0;
+      }
+      
+      const { header, sections } = splitErrorLog(await this.app.vault.read(file));
+      let updated = 0;
+      
+      const updatedSections = sections.map(section => {
+        const entry = parseErrorLog(section)[0];
+        if (!entry || (entry.status ?? 'open') !== from || !matches(entry)) {
+          return section;
+        }
+        updated++;
+        return setSectionStatus(section, status);
+      });
+      
+      if (updated > 0) {
+        await this.app.vault.modify(file, header + updatedSections.join(''));
+      }
+      
+      return updated;
+    });
+  }
+
+  /**
+   * Create the log with its header if it does not exist yet
+   */
+  async ensureLogFile(): Promise<void> {
+    await this.writeQueue.run(async () => {
+      const logPath = normalizePath(this.config.logFilePath);
+      if (this.app.vault.getAbstractFileByPath(logPath)) {
+        return;
+      }
+      await this.ensureLogDirectory();
+      await this.app.vault.create(logPath, this.getLogHeader());
+    });
   }
 
   /**
    * Clear all log entries
    */
   async clearLog(): Promise<void> {
-    const logPath = normalizePath(this.config.logFilePath);
-    const file = this.app.vault.getAbstractFileByPath(logPath);
-    
-    if (file && file instanceof TFile) {
-      await this.app.vault.modify(file, this.getLogHeader());
-    }
+    await this.writeQueue.run(async () => {
+      const logPath = normalizePath(this.config.logFilePath);
+      const file = this.app.vault.getAbstractFileByPath(logPath);
+      
+      if (file && file instanceof TFile) {
+        await this.app.vault.modify(file, this.getLogHeader());
+      }
+    });
   }
 
   /**
@@ -324,6 +405,27 @@ export class Logger {
   }
 }
 
+/**
+ * Write the Status line of one raw entry section, before its separator
+ * Open entries have no Status line.
+ */
+function setSectionStatus(section: string, status: ErrorLogEntryStatus): string {
+  if (status === 'open') {
+    return section.replace(/^- \*\*Status\*\*:.*\n?/m, '');
+  }
+
+  const statusLine = `- **Status**: ${status === 'resolved' ? 'Resolved' : 'Ignored'}`;
+  if (/^- \*\*Status\*\*:.*$/m.test(section)) {
+    return section.replace(/^- \*\*Status\*\*:.*$/m, statusLine);
+  }
+
+  const separator = section.lastIndexOf('\n---');
+  if (separator === -1) {
+    return `${section.replace(/\s*$/, '')}\n${statusLine}\n\n`;
+  }
+  return `${section.substring(0, separator).replace(/\s*$/, '')}\n${statusLine}\n${section.substring(separator)}`;
+}
+
 /**
  * Create a logger instance with default configuration
  */
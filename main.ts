@@ -7,17 +7,41 @@ import {
   ErrorLogSummary,
   MarketProfileSummary,
   GapAnalysisSummary,
-  ActionPlanSummary
+  ActionPlanSummary,
+  UsageMonthSummary,
+  CostEstimate,
+  IndexOptions,
+  ErrorLogEntry,
+  NoteCard,
+  GapAnalysisMode,
+  TargetComparison,
+  JobFit,
+  PlanBurndown
 } from './types';
-import { parseErrorLog, generateErrorSummary } from './utils/errorLogParser';
+import { parseErrorLog, generateErrorSummary, isOpenEntry } from './utils/errorLogParser';
+import { rankJobFits } from './utils/jobFit';
+import { buildPlanBurndown } from './utils/planBurndown';
+import { Logger, createLogger } from './logger';
 import { CareerOSSettingsSchema, CURRENT_SCHEMA_VERSION } from './schema';
 import { ProfileEngine, createProfileEngine } from './ProfileEngine';
 import { LLMClient, createLLMClient } from './llmClient';
 import { IndexStore } from './IndexStore';
 import { PromptStore, createPromptStore } from './PromptStore';
 import { PrivacyGuard, createPrivacyGuard } from './PrivacyGuard';
+import { RagEngine, createRagEngine } from './RagEngine';
+import { UsageTracker, createUsageTracker } from './UsageTracker';
+import { BudgetGuard, createBudgetGuard } from './BudgetGuard';
+import { ResponseCache, createResponseCache } from './ResponseCache';
+import { RateLimiter, createRateLimiter } from './RateLimiter';
+import { IndexJournal, createIndexJournal } from './IndexJournal';
+import { ProfileHistory, createProfileHistory } from './ProfileHistory';
+import { TaskBridge, createTaskBridge } from './TaskBridge';
+import { WeeklyReview, createWeeklyReview } from './WeeklyReview';
 import { CareerOSSettingsTab } from './SettingsTab';
 import { DashboardItemView, DASHBOARD_VIEW_TYPE } from './views/DashboardView';
+import { ReviewQueueItemView, REVIEW_QUEUE_VIEW_TYPE } from './views/ReviewQueueView';
+import { ProfileSnapshotModal } from './views/ProfileSnapshotModal';
+import type { ReportStreamHandlers } from './views/DashboardContext';
 
 // Default settings
 const DEFAULT_SETTINGS: CareerOSSettings = {
@@ -37,7 +61,7 @@ const DEFAULT_SETTINGS: CareerOSSettings = {
     embedding: {
       provider: 'local',
       baseUrl: 'http://localhost:11434',
-      model: 'llama2',
+      model: 'nomic-embed-text',
       jsonMode: false,
     },
   },
@@ -56,11 +80,16 @@ const DEFAULT_SETTINGS: CareerOSSettings = {
   taxonomy: [],
   dryRunEnabled: false,
   dryRunMaxNotes: 10,
+  ragEnabled: false,
+  ragTopK: 5,
   indexDirectory: '.career-os/index',
   mappingDirectory: '.career-os/mapping',
   marketCardsDirectory: '.career-os/market_cards',
 };
 
+// How often the scheduled weekly review is checked while Obsidian is open
+const WEEKLY_REVIEW_CHECK_INTERVAL = 60 * 60 * 1000;
+
 export default class CareerOSPlugin extends Plugin {
   settings: CareerOSSettings;
   
@@ -70,9 +99,25 @@ export default class CareerOSPlugin extends Plugin {
   private indexStore?: IndexStore;
   private promptStore?: PromptStore;
   private privacyGuard?: PrivacyGuard;
+  private ragEngine?: RagEngine;
+  private usageTracker?: UsageTracker;
+  private budgetGuard?: BudgetGuard;
+  private responseCache?: ResponseCache;
+  private rateLimiter?: RateLimiter;
+  private indexJournal?: IndexJournal;
+  private profileHistory?: ProfileHistory;
+  private taskBridge?: TaskBridge;
+  private weeklyReview?: WeeklyReview;
+  private logger?: Logger;
   
   // Plugin data directory
   private pluginDataDir: string = '';
+  
+  // Leaf showing the source note of the card under review
+  private reviewNoteLeaf?: WorkspaceLeaf;
+  
+  // Set while the scheduled weekly review is being written
+  private isWritingWeeklyReview = false;
 
   async onload() {
     console.log('Loading CareerOS plugin');
@@ -86,8 +131,9 @@ export default class CareerOSPlugin extends Plugin {
     // Initialize core services
     await this.initializeServices();
 
-    // Register dashboard view
+    // Register dashboard and review queue views
     this.registerDashboardView();
+    this.registerReviewQueueView();
 
     // Register commands
     this.registerCommands();
@@ -102,6 +148,16 @@ export default class CareerOSPlugin extends Plugin {
     this.addRibbonIcon('briefcase', 'CareerOS Dashboard', () => {
       this.activateDashboardView();
     });
+
+    // Offer to resume a cold start cut off by the last shutdown
+    this.app.workspace.onLayoutReady(() => this.offerIndexResume());
+    
+    // Track the active plan's tasks (daily mode adds today's tasks)
+    this.app.workspace.onLayoutReady(() => this.resumePlanTasks());
+    
+    // Write the scheduled weekly review on its weekday (checked hourly)
+    this.app.workspace.onLayoutReady(() => this.checkWeeklyReview());
+    this.registerInterval(window.setInterval(() => this.checkWeeklyReview(), WEEKLY_REVIEW_CHECK_INTERVAL));
   }
   
   /**
@@ -119,13 +175,26 @@ export default class CareerOSPlugin extends Plugin {
         onLoadErrorCount: () => this.loadErrorCount(),
         onLoadErrorLog: () => this.loadErrorLog(),
         onRefreshSelfProfile: () => this.refreshSelfProfile(),
-        onIndexNotes: () => this.runColdStartIndexingAsync(),
+        onIndexNotes: (onProgress) => this.runColdStartIndexingAsync(onProgress),
         onExtractJDs: () => this.extractJDsFromCurrentNote(),
-        onGeneratePlan: () => this.generateActionPlan(),
+        onGeneratePlan: (stream) => this.generateActionPlan(stream),
         onCheckActionPlans: () => this.checkActionPlansExist(),
         onBuildMarketProfile: (role, location) => this.buildMarketProfile(role, location),
         onSetActivePlan: (planPath) => this.setActivePlan(planPath),
         onLoadActivePlan: () => this.loadActivePlan(),
+        onLoadPlanBurndown: (planPath) => this.loadPlanBurndown(planPath),
+        onReplanActivePlan: () => this.replanActivePlan(),
+        onLoadUsageSummaries: () => this.loadUsageSummaries(),
+        onPauseQueue: () => this.profileEngine?.pauseIndexing(),
+        onResumeQueue: () => this.profileEngine?.resumeIndexing(),
+        onCancelQueue: () => this.profileEngine?.cancelIndexing(),
+        onRetryErrors: (entries) => this.retryErrorEntries(entries),
+        onIgnoreErrors: (entries) => this.ignoreErrorEntries(entries),
+        onUnignoreErrors: (entries) => this.unignoreErrorEntries(entries),
+        onLoadSkillHistory: async (skillName) => this.profileHistory?.getSkillSeries(skillName) ?? [],
+        onCompareTargets: () => this.compareTargets(),
+        onLoadJobFits: () => this.loadJobFits(),
+        onOpenNote: (path) => this.openNote(path),
       })
     );
   }
@@ -157,6 +226,75 @@ export default class CareerOSPlugin extends Plugin {
     }
   }
   
+  /**
+   * Register the NoteCard review queue view
+   */
+  private registerReviewQueueView(): void {
+    this.registerView(
+      REVIEW_QUEUE_VIEW_TYPE,
+      (leaf: WorkspaceLeaf) => new ReviewQueueItemView(leaf, {
+        onLoadDraftCards: async () => this.profileEngine?.listDraftCards() ?? [],
+        onSaveCard: (card, confirm) => this.saveReviewedCard(card, confirm),
+        onOpenNote: (path) => this.openReviewNote(path),
+      })
+    );
+  }
+  
+  /**
+   * Activate (open) the review queue in the main area
+   */
+  async activateReviewQueueView(): Promise<void> {
+    const { workspace } = this.app;
+    
+    let leaf = workspace.getLeavesOfType(REVIEW_QUEUE_VIEW_TYPE)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf('tab');
+      await leaf.setViewState({
+        type: REVIEW_QUEUE_VIEW_TYPE,
+        active: true,
+      });
+    }
+    
+    workspace.revealLeaf(leaf);
+  }
+  
+  /**
+   * Show a card's source note in a split next to the review queue
+   * The same split is reused while it stays open.
+   */
+  private async openReviewNote(path: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      new Notice(`Note not found: ${path}`);
+      return;
+    }
+    
+    const { workspace } = this.app;
+    const leafIsOpen = !!this.reviewNoteLeaf &&
+      workspace.getLeavesOfType('markdown').includes(this.reviewNoteLeaf);
+    
+    if (!this.reviewNoteLeaf || !leafIsOpen) {
+      const queueLeaf = workspace.getLeavesOfType(REVIEW_QUEUE_VIEW_TYPE)[0];
+      this.reviewNoteLeaf = queueLeaf
+        ? workspace.createLeafBySplit(queueLeaf, 'vertical')
+        : workspace.getLeaf('split', 'vertical');
+    }
+    
+    await this.reviewNoteLeaf.openFile(file, { active: false });
+  }
+  
+  /**
+   * Save a card edited in the review queue
+   */
+  private async saveReviewedCard(card: NoteCard, confirm: boolean): Promise<void> {
+    if (!this.profileEngine) {
+      throw new Error('ProfileEngine not initialized');
+    }
+    
+    await this.profileEngine.saveReviewedCard(card, confirm);
+    new Notice(confirm ? `Confirmed NoteCard for ${card.note_path}` : `Saved draft NoteCard for ${card.note_path}`);
+  }
+  
   /**
    * Load SelfProfile from IndexStore
    */
@@ -191,6 +329,52 @@ export default class CareerOSPlugin extends Plugin {
     }
   }
   
+  /**
+   * Score every JDCard against the SelfProfile, best fit first
+   */
+  private async loadJobFits(): Promise<JobFit[]> {
+    if (!this.indexStore) {
+      console.warn('IndexStore not initialized');
+      return [];
+    }
+    
+    try {
+      const [selfProfile, cards] = await Promise.all([
+        this.indexStore.readSelfProfile(),
+        this.indexStore.listJDCards(),
+      ]);
+      if (!selfProfile) {
+        return [];
+      }
+      
+      const { Taxonomy } = await import('./Taxonomy');
+      const taxonomy = new Taxonomy(this.settings.taxonomy);
+      
+      return rankJobFits(
+        cards,
+        selfProfile.skills,
+        { yearsOfExperience: this.settings.yearsOfExperience, degreeLevel: this.settings.degreeLevel },
+        skill => taxonomy.normalize(skill)
+      );
+    } catch (error) {
+      console.error('Failed to load job fits:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Open a vault note in the main workspace
+   */
+  private async openNote(path: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      new Notice(`Note not found: ${path}`);
+      return;
+    }
+    
+    await this.app.workspace.getLeaf().openFile(file);
+  }
+  
   /**
    * Load market profile summaries for dashboard display
    * Requirements: 9.5, 20
@@ -305,6 +489,7 @@ export default class CareerOSPlugin extends Plugin {
     try {
       await this.indexStore.setActivePlan(planPath);
       new Notice('Plan set as active');
+      await this.dispatchPlanTasks(planPath);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       new Notice(`Failed to set active plan: ${errorMessage}`);
@@ -328,7 +513,47 @@ export default class CareerOSPlugin extends Plugin {
       return null;
     }
   }
-  
+
+  /**
+   * Progress of a plan from the checkboxes in the plan document
+   */
+  private async loadPlanBurndown(planPath: string): Promise<PlanBurndown | null> {
+    if (!this.indexStore) {
+      return null;
+    }
+    
+    try {
+      const plans = await this.indexStore.listActionPlans();
+      const plan = plans.find(p => p.planPath === planPath);
+      const file = this.app.vault.getAbstractFileByPath(planPath);
+      if (!plan || !(file instanceof TFile)) {
+        return null;
+      }
+      
+      const progress = await this.taskBridge?.getProgress(planPath);
+      return buildPlanBurndown(await this.app.vault.read(file), plan, progress);
+    } catch (error) {
+      console.error('Failed to load plan progress:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load monthly token usage and cost totals from the usage ledger
+   */
+  private async loadUsageSummaries(): Promise<UsageMonthSummary[]> {
+    if (!this.usageTracker) {
+      return [];
+    }
+
+    try {
+      return await this.usageTracker.getMonthlySummaries();
+    } catch (error) {
+      console.error('Failed to load usage summaries:', error);
+      return [];
+    }
+  }
+
   /**
    * Load error count from error log
    */
@@ -342,9 +567,8 @@ export default class CareerOSPlugin extends Plugin {
       }
       
       const content = await this.app.vault.read(file);
-      // Count error entries (each starts with "## ")
-      const matches = content.match(/^## \d{4}-\d{2}-\d{2}/gm);
-      return matches ? matches.length : 0;
+      // Count open entries (resolved and ignored ones stay in the log)
+      return generateErrorSummary(parseErrorLog(content)).totalErrors;
     } catch (error) {
       console.error('Failed to load error count:', error);
       return 0;
@@ -413,8 +637,41 @@ export default class CareerOSPlugin extends Plugin {
    * Initialize core services
    */
   private async initializeServices(): Promise<void> {
+    // Create PrivacyGuard (shared with LLM client for embedding inputs)
+    this.privacyGuard = createPrivacyGuard(this.settings.exclusionRules);
+    
+    // Create UsageTracker (token usage and cost ledger)
+    this.usageTracker = createUsageTracker(this.app, this.settings, this.pluginDataDir);
+    
+    // Create BudgetGuard (spending caps for cold-start indexing)
+    this.budgetGuard = createBudgetGuard(this.settings, this.usageTracker);
+    
+    // Create ResponseCache (on-disk LLM response cache)
+    this.responseCache = createResponseCache(this.app, this.settings, this.pluginDataDir);
+    
+    // Create RateLimiter (requests/tokens per minute, shared by queues and LLM client)
+    this.rateLimiter = createRateLimiter(this.settings);
+    
+    // Create IndexJournal (resumable cold start, per-note attempt counts)
+    this.indexJournal = createIndexJournal(this.app, this.settings, this.pluginDataDir);
+    
+    // Create ProfileHistory (versioned SelfProfile snapshots)
+    this.profileHistory = createProfileHistory(this.app, this.pluginDataDir);
+    
+    // Create TaskBridge (active plan -> Obsidian tasks, checkbox state -> plan progress)
+    this.taskBridge = createTaskBridge(this.app, this.settings, this.pluginDataDir);
+    
+    // Create Logger (error_log.md, marks entries resolved after a successful retry)
+    this.logger = createLogger(this.app, { logFilePath: `${this.pluginDataDir}/error_log.md` });
+    
     // Create LLM client
-    this.llmClient = createLLMClient(this.settings);
+    this.llmClient = createLLMClient(
+      this.settings,
+      this.privacyGuard,
+      this.usageTracker,
+      this.responseCache,
+      this.rateLimiter
+    );
     
     // Create IndexStore
     this.indexStore = new IndexStore(
@@ -428,8 +685,14 @@ export default class CareerOSPlugin extends Plugin {
     // Create PromptStore
     this.promptStore = createPromptStore(this.app);
     
-    // Create PrivacyGuard
-    this.privacyGuard = createPrivacyGuard(this.settings.exclusionRules);
+    // Create RagEngine (NoteCard vector index)
+    this.ragEngine = createRagEngine(
+      this.app,
+      this.settings,
+      this.llmClient,
+      this.indexStore,
+      this.pluginDataDir
+    );
     
     // Create ProfileEngine
     this.profileEngine = createProfileEngine(
@@ -439,7 +702,25 @@ export default class CareerOSPlugin extends Plugin {
       this.indexStore,
       this.promptStore,
       this.privacyGuard,
-      this.pluginDataDir
+      this.pluginDataDir,
+      this.ragEngine,
+      this.budgetGuard,
+      this.rateLimiter,
+      this.indexJournal,
+      this.logger,
+      this.profileHistory,
+      this.taskBridge
+    );
+    
+    // Create WeeklyReview (weekly retrospective notes)
+    this.weeklyReview = createWeeklyReview(
+      this.app,
+      this.settings,
+      this.indexStore,
+      this.promptStore,
+      this.llmClient,
+      this.taskBridge,
+      this.profileHistory
     );
   }
 
@@ -469,6 +750,18 @@ export default class CareerOSPlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
+  /**
+   * Remove all cached LLM responses
+   * 
+   * @returns Number of entries removed
+   */
+  async clearResponseCache(): Promise<number> {
+    if (!this.responseCache) {
+      return 0;
+    }
+    return await this.responseCache.clear();
+  }
+
   registerCommands() {
     // CareerOS: Cold Start Indexing
     this.addCommand({
@@ -479,6 +772,19 @@ export default class CareerOSPlugin extends Plugin {
       },
     });
     
+    // Resume an indexing run interrupted by closing Obsidian
+    this.addCommand({
+      id: 'resume-interrupted-indexing',
+      name: 'CareerOS: Resume Previous Indexing Run',
+      callback: async () => {
+        if (await this.profileEngine?.getInterruptedIndexRun()) {
+          await this.runColdStartIndexing(undefined, true);
+        } else {
+          new Notice('No interrupted indexing run to resume');
+        }
+      },
+    });
+    
     // Pause Indexing
     this.addCommand({
       id: 'pause-indexing',
@@ -557,6 +863,24 @@ export default class CareerOSPlugin extends Plugin {
       },
     });
 
+    // CareerOS: Generate Gap Analysis without calling the LLM
+    this.addCommand({
+      id: 'generate-gap-analysis-offline',
+      name: 'CareerOS: Generate Gap Analysis (Offline)',
+      callback: async () => {
+        await this.runGapAnalysis('offline');
+      },
+    });
+
+    // CareerOS: Compare every market profile
+    this.addCommand({
+      id: 'compare-market-targets',
+      name: 'CareerOS: Compare Market Targets',
+      callback: async () => {
+        await this.runTargetComparison();
+      },
+    });
+
     // CareerOS: Generate Action Plan
     this.addCommand({
       id: 'generate-action-plan',
@@ -566,6 +890,51 @@ export default class CareerOSPlugin extends Plugin {
       },
     });
 
+    // CareerOS: Send Active Plan to Tasks
+    this.addCommand({
+      id: 'dispatch-plan-tasks',
+      name: 'CareerOS: Send Active Plan to Tasks',
+      callback: async () => {
+        const planPath = await this.loadActivePlan();
+        if (!planPath) {
+          new Notice('No active plan. Set a plan as active in the dashboard first.');
+          return;
+        }
+        await this.dispatchPlanTasks(planPath);
+      },
+    });
+
+    // CareerOS: Re-plan Active Plan
+    this.addCommand({
+      id: 'replan-active-plan',
+      name: 'CareerOS: Re-plan Active Plan',
+      callback: async () => {
+        try {
+          await this.replanActivePlan();
+        } catch {
+          // Reported by a notice
+        }
+      },
+    });
+
+    // CareerOS: Generate Weekly Review
+    this.addCommand({
+      id: 'generate-weekly-review',
+      name: 'CareerOS: Generate Weekly Review',
+      callback: async () => {
+        await this.generateWeeklyReview();
+      },
+    });
+
+    // CareerOS: Sync Vector Index
+    this.addCommand({
+      id: 'sync-vector-index',
+      name: 'CareerOS: Sync Vector Index',
+      callback: async () => {
+        await this.syncVectorIndex();
+      },
+    });
+
     // CareerOS: Open Dashboard
     this.addCommand({
       id: 'open-dashboard',
@@ -575,6 +944,43 @@ export default class CareerOSPlugin extends Plugin {
       },
     });
 
+    // CareerOS: Profile Diff (latest build vs the one before)
+    this.addCommand({
+      id: 'profile-diff-latest',
+      name: 'CareerOS: Profile Diff Report (Latest vs Previous)',
+      callback: async () => {
+        await this.writeProfileDiffReport();
+      },
+    });
+
+    // CareerOS: Profile Diff between two chosen snapshots
+    this.addCommand({
+      id: 'profile-diff-choose',
+      name: 'CareerOS: Profile Diff Report (Choose Snapshots)',
+      callback: async () => {
+        await this.chooseSnapshotsForDiff();
+      },
+    });
+
+    // CareerOS: Review Draft NoteCards
+    this.addCommand({
+      id: 'review-draft-cards',
+      name: 'CareerOS: Review Draft NoteCards',
+      callback: () => {
+        this.activateReviewQueueView();
+      },
+    });
+
+    // CareerOS: Retry Failed Extractions
+    this.addCommand({
+      id: 'retry-failed-extractions',
+      name: 'CareerOS: Retry Failed Extractions',
+      callback: async () => {
+        const entries = await this.logger?.getEntries() ?? [];
+        await this.retryErrorEntries(entries);
+      },
+    });
+
     // CareerOS: View Error Log
     this.addCommand({
       id: 'view-error-log',
@@ -590,6 +996,11 @@ export default class CareerOSPlugin extends Plugin {
     this.registerEvent(
       this.app.vault.on('modify', (file: TFile) => {
         if (file.extension === 'md') {
+          if (this.taskBridge?.isTaskNote(file.path)) {
+            this.taskBridge.syncNote(file.path).catch(error => {
+              console.error('Failed to sync plan tasks:', error);
+            });
+          }
           this.onNoteSaved(file.path);
         }
       })
@@ -708,8 +1119,8 @@ export default class CareerOSPlugin extends Plugin {
    * 
    * Requirements: 11.5 - Workflow action for Index Notes
    */
-  private async runColdStartIndexingAsync(): Promise<void> {
-    await this.runColdStartIndexing();
+  private async runColdStartIndexingAsync(onProgress?: (status: QueueStatus) => void): Promise<void> {
+    await this.runColdStartIndexing(onProgress);
     // After indexing, build the self profile
     if (this.profileEngine) {
       await this.profileEngine.buildSelfProfile();
@@ -780,9 +1191,12 @@ export default class CareerOSPlugin extends Plugin {
   /**
    * Generate action plan
    * 
+   * When stream handlers are given (dashboard), the gap analysis and plan are
+   * streamed token by token and can be cancelled through the handlers' signal.
+   * 
    * Requirements: 11.5 - Workflow action for Generate Plan
    */
-  private async generateActionPlan(): Promise<void> {
+  private async generateActionPlan(stream?: ReportStreamHandlers): Promise<void> {
     new Notice('Generating action plan...');
     
     try {
@@ -799,7 +1213,8 @@ export default class CareerOSPlugin extends Plugin {
         this.llmClient,
         this.indexStore,
         this.promptStore,
-        this.pluginDataDir
+        this.pluginDataDir,
+        this.ragEngine
       );
       
       // Load self profile
@@ -828,7 +1243,16 @@ export default class CareerOSPlugin extends Plugin {
       }
       
       // Generate gap analysis first
-      const gapResult = await strategyCore.analyzeGap(selfProfile, marketProfile);
+      stream?.onStage('gap');
+      const gapResult = await strategyCore.analyzeGap(selfProfile, marketProfile, {
+        onToken: stream?.onToken,
+        signal: stream?.signal,
+      });
+      
+      if (gapResult.cancelled) {
+        new Notice('Plan generation cancelled');
+        return;
+      }
       
       if (!gapResult.success || !gapResult.gapAnalysis) {
         new Notice(`Gap analysis failed: ${gapResult.error}`);
@@ -837,13 +1261,22 @@ export default class CareerOSPlugin extends Plugin {
       
       // Generate action plan with default constraints
       // TODO: Let user configure these constraints
+      stream?.onStage('plan');
       const planResult = await strategyCore.generatePlan({
         targetRole: marketProfile.role,
         location: marketProfile.location,
         periodMonths: 3,
         weeklyHours: 10,
+      }, {
+        onToken: stream?.onToken,
+        signal: stream?.signal,
       });
       
+      if (planResult.cancelled) {
+        new Notice('Plan generation cancelled');
+        return;
+      }
+      
       if (!planResult.success) {
         new Notice(`Plan generation failed: ${planResult.error}`);
         throw new Error(planResult.error || 'Plan generation failed');
@@ -857,6 +1290,56 @@ export default class CareerOSPlugin extends Plugin {
     }
   }
   
+  /**
+   * Revise the active plan for its remaining period
+   * 
+   * The revised plan becomes the active plan, so its tasks are dispatched
+   * and the predecessor's tasks stop being tracked.
+   */
+  private async replanActivePlan(): Promise<void> {
+    const planPath = await this.loadActivePlan();
+    if (!planPath) {
+      new Notice('No active plan. Set a plan as active in the dashboard first.');
+      return;
+    }
+    
+    new Notice('Re-planning the active plan...');
+    
+    try {
+      const { createStrategyCore } = await import('./StrategyCore');
+      
+      if (!this.llmClient || !this.indexStore || !this.promptStore) {
+        throw new Error('Required services not initialized');
+      }
+      
+      const strategyCore = createStrategyCore(
+        this.app,
+        this.settings,
+        this.llmClient,
+        this.indexStore,
+        this.promptStore,
+        this.pluginDataDir,
+        this.ragEngine
+      );
+      
+      const result = await strategyCore.replan(planPath, {
+        progress: await this.taskBridge?.getProgress(planPath),
+      });
+      
+      if (!result.success || !result.planPath) {
+        throw new Error(result.error || 'Re-planning failed');
+      }
+      
+      await this.setActivePlan(result.planPath);
+      new Notice(`Revised plan created: ${result.completedCount} task(s) done, ${result.openCount} rescheduled`);
+      await this.openNote(result.planPath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to re-plan: ${errorMessage}`);
+      throw error;
+    }
+  }
+  
   /**
    * Check if any action plans exist
    * 
@@ -909,8 +1392,10 @@ export default class CareerOSPlugin extends Plugin {
    * 
    * Command: CareerOS: Generate Gap Analysis
    * Requirements: 9.1, 9.2, 9.3, 9.4
+   * 
+   * @param mode - Overrides the gapAnalysisMode setting
    */
-  private async runGapAnalysis(): Promise<void> {
+  private async runGapAnalysis(mode?: GapAnalysisMode): Promise<void> {
     new Notice('Running gap analysis...');
     
     try {
@@ -926,7 +1411,8 @@ export default class CareerOSPlugin extends Plugin {
         this.llmClient,
         this.indexStore,
         this.promptStore,
-        this.pluginDataDir
+        this.pluginDataDir,
+        this.ragEngine
       );
       
       // Load self profile
@@ -954,7 +1440,7 @@ export default class CareerOSPlugin extends Plugin {
       }
       
       // Run gap analysis
-      const result = await strategyCore.analyzeGap(selfProfile, marketProfile);
+      const result = await strategyCore.analyzeGap(selfProfile, marketProfile, { mode });
       
       if (!result.success || !result.gapAnalysis) {
         new Notice(`Gap analysis failed: ${result.error}`);
@@ -977,6 +1463,134 @@ export default class CareerOSPlugin extends Plugin {
     }
   }
   
+  /**
+   * Compare the self profile against every market profile
+   * 
+   * @throws When a profile is missing or the comparison fails
+   */
+  private async compareTargets(): Promise<TargetComparison> {
+    const { createStrategyCore } = await import('./StrategyCore');
+    
+    if (!this.llmClient || !this.indexStore || !this.promptStore) {
+      throw new Error('Required services not initialized');
+    }
+    
+    const selfProfile = await this.indexStore.readSelfProfile();
+    if (!selfProfile) {
+      throw new Error('No self profile found. Please run "Build Self Profile" first.');
+    }
+    
+    // Each rebuild leaves a file behind; compare the latest build per target
+    const latest = new Map<string, MarketProfile>();
+    for (const profile of await this.indexStore.listMarketProfiles()) {
+      const key = `${profile.role}|${profile.location}`;
+      const existing = latest.get(key);
+      if (!existing || profile.last_built > existing.last_built) {
+        latest.set(key, profile);
+      }
+    }
+    const marketProfiles = Array.from(latest.values());
+    
+    const strategyCore = createStrategyCore(
+      this.app,
+      this.settings,
+      this.llmClient,
+      this.indexStore,
+      this.promptStore,
+      this.pluginDataDir,
+      this.ragEngine
+    );
+    
+    const result = await strategyCore.compareTargets(selfProfile, marketProfiles);
+    if (!result.success || !result.comparison) {
+      throw new Error(result.error || 'Target comparison failed');
+    }
+    
+    return result.comparison;
+  }
+  
+  /**
+   * Compare market targets and open the report
+   * 
+   * Command: CareerOS: Compare Market Targets
+   */
+  private async runTargetComparison(): Promise<void> {
+    new Notice('Comparing market targets...');
+    
+    try {
+      const comparison = await this.compareTargets();
+      const best = comparison.targets[0];
+      new Notice(`Best match: ${best.role} (${best.location}) at ${best.matchPercentage}%`);
+      
+      if (comparison.reportPath) {
+        const file = this.app.vault.getAbstractFileByPath(comparison.reportPath);
+        if (file instanceof TFile) {
+          await this.app.workspace.getLeaf().openFile(file);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`Target comparison failed: ${errorMessage}`);
+      console.error('Target comparison error:', error);
+    }
+  }
+  
+  /**
+   * Re-extract the notes of open error log entries
+   * 
+   * Command: CareerOS: Retry Failed Extractions
+   * Entries are marked resolved by ProfileEngine once a note succeeds.
+   */
+  private async retryErrorEntries(entries: ErrorLogEntry[]): Promise<void> {
+    if (!this.profileEngine) {
+      new Notice('ProfileEngine not initialized');
+      return;
+    }
+    
+    const paths = entries.filter(isOpenEntry).map(entry => entry.path);
+    if (paths.length === 0) {
+      new Notice('No failed extractions to retry');
+      return;
+    }
+    
+    const queued = await this.profileEngine.retryNotes(paths);
+    const missing = Math.max(0, new Set(paths).size - queued.length);
+    new Notice(
+      `Queued ${queued.length} notes for re-extraction` +
+      (missing > 0 ? ` (${missing} no longer exist)` : '')
+    );
+  }
+  
+  /**
+   * Mark error log entries as ignored
+   */
+  private async ignoreErrorEntries(entries: ErrorLogEntry[]): Promise<void> {
+    if (!this.logger) {
+      return;
+    }
+    
+    const open = entries.filter(isOpenEntry);
+    const ignored = await this.logger.ignoreEntries(open);
+    
+    // Keep cold start from indexing the notes again until they are edited
+    await this.indexJournal?.ignoreNotes(open.map(entry => entry.path));
+    new Notice(`Ignored ${ignored} error log ${ignored === 1 ? 'entry' : 'entries'}`);
+  }
+  
+  /**
+   * Reopen ignored error log entries so their notes are indexed again
+   */
+  private async unignoreErrorEntries(entries: ErrorLogEntry[]): Promise<void> {
+    if (!this.logger) {
+      return;
+    }
+    
+    const ignored = entries.filter(entry => entry.status === 'ignored');
+    const reopened = await this.logger.unignoreEntries(ignored);
+    await this.indexJournal?.unignoreNotes(ignored.map(entry => entry.path));
+    new Notice(`Reopened ${reopened} error log ${reopened === 1 ? 'entry' : 'entries'}`);
+  }
+  
   /**
    * Open the error log file
    * 
@@ -986,26 +1600,10 @@ export default class CareerOSPlugin extends Plugin {
   private async openErrorLog(): Promise<void> {
     try {
       const errorLogPath = `${this.pluginDataDir}/error_log.md`;
-      let file = this.app.vault.getAbstractFileByPath(errorLogPath);
       
-      if (!file) {
-        // Create empty error log if it doesn't exist
-        const parentPath = errorLogPath.split('/').slice(0, -1).join('/');
-        const parentDir = this.app.vault.getAbstractFileByPath(parentPath);
-        if (!parentDir) {
-          await this.app.vault.createFolder(parentPath);
-        }
-        
-        const initialContent = `# CareerOS Error Log
-
-> This file contains errors encountered during CareerOS operations.
-
----
-
-`;
-        await this.app.vault.create(errorLogPath, initialContent);
-        file = this.app.vault.getAbstractFileByPath(errorLogPath);
-      }
+      // Create empty error log if it doesn't exist
+      await this.logger?.ensureLogFile();
+      const file = this.app.vault.getAbstractFileByPath(errorLogPath);
       
       if (file && file instanceof TFile) {
         await this.app.workspace.getLeaf().openFile(file);
@@ -1020,12 +1618,197 @@ export default class CareerOSPlugin extends Plugin {
     }
   }
   
+  /**
+   * Write a profile diff report and open it
+   * 
+   * Command: CareerOS: Profile Diff Report
+   */
+  private async writeProfileDiffReport(fromId?: string, toId?: string): Promise<void> {
+    if (!this.profileEngine) {
+      new Notice('ProfileEngine not initialized');
+      return;
+    }
+    
+    try {
+      const reportPath = await this.profileEngine.writeProfileDiffReport(fromId, toId);
+      if (!reportPath) {
+        new Notice('At least two profile builds are needed. Run "Build Self Profile" again after your notes change.');
+        return;
+      }
+      
+      const file = this.app.vault.getAbstractFileByPath(reportPath);
+      if (file instanceof TFile) {
+        await this.app.workspace.getLeaf('tab').openFile(file);
+      }
+      new Notice(`Profile diff saved to ${reportPath}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to write profile diff: ${errorMessage}`);
+      console.error('Failed to write profile diff:', error);
+    }
+  }
+  
+  /**
+   * Pick the two snapshots to compare, then write the report
+   */
+  private async chooseSnapshotsForDiff(): Promise<void> {
+    const snapshots = await this.profileHistory?.listSnapshots() ?? [];
+    if (snapshots.length < 2) {
+      new Notice('At least two profile builds are needed. Run "Build Self Profile" again after your notes change.');
+      return;
+    }
+    
+    new ProfileSnapshotModal(this.app, snapshots, 'Compare from snapshot…', (from) => {
+      const others = snapshots.filter(s => s.id !== from.id);
+      new ProfileSnapshotModal(this.app, others, 'Compare to snapshot…', (to) => {
+        this.writeProfileDiffReport(from.id, to.id);
+      }).open();
+    }).open();
+  }
+  
+  /**
+   * Embed new or changed NoteCards into the RAG vector index
+   * 
+   * Command: CareerOS: Sync Vector Index
+   */
+  private async syncVectorIndex(): Promise<void> {
+    if (!this.ragEngine) {
+      new Notice('RagEngine not initialized');
+      return;
+    }
+    
+    if (!this.settings.ragEnabled) {
+      new Notice('Semantic retrieval is disabled. Enable it in CareerOS settings first.');
+      return;
+    }
+    
+    new Notice('Syncing vector index...');
+    
+    try {
+      const result = await this.ragEngine.syncAll();
+      new Notice(
+        `Vector index synced: ${result.embedded} embedded, ${result.removed} removed, ${result.failed} failed`
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new Notice(`Vector index sync failed: ${errorMessage}`);
+      console.error('Vector index sync error:', error);
+    }
+  }
+  
+  /**
+   * Write the plan's weekly checklists into tasks notes
+   */
+  private async dispatchPlanTasks(planPath: string): Promise<void> {
+    if (!this.taskBridge) {
+      return;
+    }
+    
+    const result = await this.taskBridge.dispatch(planPath);
+    if (!result.success) {
+      new Notice(`Plan tasks not created: ${result.error}`);
+      return;
+    }
+    
+    if (result.notePaths.length > 0) {
+      new Notice(`${result.taskCount} plan tasks tracked in ${result.notePaths.length} note(s)`);
+    }
+  }
+  
+  /**
+   * Start tracking the active plan's tasks after a restart
+   * In daily mode this also adds today's open tasks to the daily note.
+   */
+  private async resumePlanTasks(): Promise<void> {
+    const planPath = await this.loadActivePlan();
+    if (!planPath || !this.taskBridge) {
+      return;
+    }
+    
+    if (this.settings.taskBridgeTarget === 'daily_note') {
+      await this.taskBridge.dispatch(planPath);
+    } else {
+      await this.taskBridge.activate(planPath);
+    }
+  }
+  
+  /**
+   * Write the week's review note and open it
+   */
+  private async generateWeeklyReview(): Promise<void> {
+    if (!this.weeklyReview) {
+      return;
+    }
+    
+    new Notice('Writing weekly review...');
+    const result = await this.weeklyReview.generate();
+    if (!result.success || !result.notePath) {
+      new Notice(`Failed to write weekly review: ${result.error}`);
+      return;
+    }
+    
+    new Notice(result.existed ? 'This week\'s review already exists' : `Weekly review created: ${result.notePath}`);
+    await this.openNote(result.notePath);
+  }
+  
+  /**
+   * Write the scheduled weekly review once on its weekday
+   */
+  private async checkWeeklyReview(): Promise<void> {
+    if (!this.weeklyReview?.isDue() || this.isWritingWeeklyReview) {
+      return;
+    }
+    
+    this.isWritingWeeklyReview = true;
+    try {
+      const result = await this.weeklyReview.generate();
+      if (result.success && result.notePath && !result.existed) {
+        new Notice(`Weekly review created: ${result.notePath}`);
+      } else if (!result.success) {
+        console.error('Scheduled weekly review failed:', result.error);
+      }
+    } finally {
+      this.isWritingWeeklyReview = false;
+    }
+  }
+  
+  /**
+   * Show a notice offering to resume an interrupted cold start run
+   */
+  private async offerIndexResume(): Promise<void> {
+    const run = await this.profileEngine?.getInterruptedIndexRun();
+    if (!run) {
+      return;
+    }
+    
+    const started = new Date(run.startedAt).toLocaleString();
+    const notice = new Notice(createFragment(fragment => {
+      fragment.createDiv({
+        text: `CareerOS: indexing run from ${started} was interrupted with ${run.notePaths.length} notes left.`,
+      });
+      const buttons = fragment.createDiv({ cls: 'career-os-notice-actions' });
+      buttons.createEl('button', { text: 'Resume', cls: 'mod-cta' }).addEventListener('click', () => {
+        notice.hide();
+        this.runColdStartIndexing(undefined, true);
+      });
+      buttons.createEl('button', { text: 'Discard' }).addEventListener('click', () => {
+        notice.hide();
+        this.profileEngine?.discardInterruptedIndexRun();
+      });
+    }), 0);
+  }
+  
   /**
    * Run cold start indexing
    * 
    * Requirements: 4.1, 4.2, 4.3, 15.1, 15.2, 15.3
+   * 
+   * @param resume - Continue the journaled interrupted run instead of scanning the vault
    */
-  private async runColdStartIndexing(): Promise<void> {
+  private async runColdStartIndexing(
+    onProgress?: (status: QueueStatus) => void,
+    resume: boolean = false
+  ): Promise<void> {
     if (!this.profileEngine) {
       new Notice('ProfileEngine not initialized');
       return;
@@ -1037,10 +1820,12 @@ export default class CareerOSPlugin extends Plugin {
       return;
     }
     
-    const isDryRun = this.settings.dryRunEnabled;
+    const isDryRun = !resume && this.settings.dryRunEnabled;
     
     // Show start notice
-    if (isDryRun) {
+    if (resume) {
+      new Notice('Resuming previous indexing run...');
+    } else if (isDryRun) {
       new Notice(`Starting dry-run indexing (max ${this.settings.dryRunMaxNotes} notes)...`);
     } else {
       new Notice('Starting cold start indexing...');
@@ -1049,6 +1834,8 @@ export default class CareerOSPlugin extends Plugin {
     // Track progress for UI updates
     let lastProgressUpdate = 0;
     const progressCallback = (status: QueueStatus) => {
+      onProgress?.(status);
+      
       // Throttle progress updates to avoid too many notices
       const now = Date.now();
       if (now - lastProgressUpdate > 2000) { // Update every 2 seconds
@@ -1056,31 +1843,51 @@ export default class CareerOSPlugin extends Plugin {
         const percent = status.total > 0 
           ? Math.round((status.completed / status.total) * 100) 
           : 0;
-        new Notice(`Indexing progress: ${status.completed}/${status.total} (${percent}%)`);
+        const throttled = status.throttledUntil
+          ? ` - throttled, resuming in ${Math.max(1, Math.ceil((status.throttledUntil - now) / 1000))}s`
+          : '';
+        new Notice(`Indexing progress: ${status.completed}/${status.total} (${percent}%)${throttled}`);
       }
     };
     
     try {
+      const options: IndexOptions = {
+        dryRun: isDryRun,
+        maxNotes: isDryRun ? this.settings.dryRunMaxNotes : undefined,
+        concurrency: this.settings.concurrency,
+        onEstimate: (estimate) => this.confirmIndexingEstimate(estimate),
+        onBudgetExceeded: (status) => {
+          new Notice(
+            `Indexing paused: ${status.reason}. Raise the budget in settings and resume, or cancel.`,
+            0
+          );
+        },
+      };
+      
       // Run cold start indexing
       // Empty array means scan entire vault
-      const result = await this.profileEngine.coldStartIndex(
-        [], // Scan entire vault
-        {
-          dryRun: isDryRun,
-          maxNotes: isDryRun ? this.settings.dryRunMaxNotes : undefined,
-          concurrency: this.settings.concurrency,
-        },
-        progressCallback
-      );
+      const result = resume
+        ? await this.profileEngine.resumeInterruptedIndex(options, progressCallback)
+        : await this.profileEngine.coldStartIndex([], options, progressCallback);
       
       // Show completion notice
+      if (result.aborted) {
+        new Notice('Indexing cancelled before start');
+        return;
+      }
+      if (result.budgetExceeded) {
+        return;
+      }
       if (isDryRun) {
         new Notice(
           `Dry-run complete: ${result.processedNotes} processed, ${result.failedNotes} failed. Check console for details.`
         );
       } else {
+        const skipped = result.skippedNotes
+          ? `, ${result.skippedNotes} skipped after repeated failures`
+          : '';
         new Notice(
-          `Indexing complete: ${result.processedNotes} notes indexed, ${result.failedNotes} failed`
+          `Indexing complete: ${result.processedNotes} notes indexed, ${result.failedNotes} failed${skipped}`
         );
       }
       
@@ -1088,10 +1895,37 @@ export default class CareerOSPlugin extends Plugin {
       if (result.errors.length > 0) {
         console.log('Indexing errors:', result.errors);
       }
+      
+      // Embed the new cards for retrieval
+      if (!isDryRun && this.settings.ragEnabled) {
+        await this.syncVectorIndex();
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       new Notice(`Indexing failed: ${errorMessage}`);
       console.error('Cold start indexing error:', error);
     }
   }
+
+  /**
+   * Ask for confirmation of the projected indexing cost
+   * Local extraction is free, so the estimate is only logged.
+   */
+  private confirmIndexingEstimate(estimate: CostEstimate): boolean {
+    const minutes = Math.max(1, Math.round(estimate.estimatedSeconds / 60));
+    const tokens = estimate.promptTokens + estimate.completionTokens;
+    const cost = estimate.priced ? `~$${estimate.cost.toFixed(2)}` : 'unknown cost (model not in price table)';
+    const summary = `${estimate.notes} notes, ~${tokens.toLocaleString()} tokens, ${cost}, ~${minutes} min`;
+    
+    const extract = this.settings.llmConfigs.extract;
+    if (extract.provider === 'local' && !this.settings.customBaseUrl) {
+      console.log(`Cold start estimate: ${summary}`);
+      return true;
+    }
+    
+    const model = this.settings.customBaseUrl && this.settings.customModel
+      ? this.settings.customModel
+      : extract.model;
+    return confirm(`Index ${summary} with ${model}?`);
+  }
 }
@@ -2,12 +2,14 @@
  * Queue Manager Module
  * 
  * Manages asynchronous task processing with concurrency control,
- * pause/resume functionality, and progress tracking.
+ * requests/tokens-per-minute throttling, pause/resume functionality,
+ * and progress tracking.
  * 
  * Requirements: 4.1, 4.2, 4.3, 4.4
  */
 
 import { Task, QueueStatus, TaskType } from './types';
+import type { RateLimiter } from './RateLimiter';
 
 /**
  * Task execution result
@@ -34,6 +36,31 @@ export type ProgressCallback = (status: QueueStatus) => void;
  */
 export type TaskCompletionCallback = (result: TaskResult) => void;
 
+/**
+ * Estimates the LLM tokens a task will use, for tokens-per-minute throttling
+ */
+export type TaskTokenEstimator = (task: Task) => number | Promise<number>;
+
+/**
+ * Queue manager options
+ */
+export interface QueueManagerOptions {
+  concurrency?: number;
+  onProgress?: ProgressCallback;
+  onTaskComplete?: TaskCompletionCallback;
+  rateLimiter?: RateLimiter;
+  estimateTokens?: TaskTokenEstimator;
+}
+
+/**
+ * Longest single wait while throttled, so pause/cancel and the countdown stay responsive
+ */
+const THROTTLE_POLL_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 /**
  * Queue state enum
  */
@@ -60,6 +87,7 @@ interface QueuedTask {
  * 
  * Provides task queue management with:
  * - Configurable concurrency
+ * - Rate limiting through a shared RateLimiter
  * - Pause/resume functionality
  * - Progress tracking
  * - Error handling
@@ -75,22 +103,25 @@ export class QueueManager {
   private onProgress?: ProgressCallback;
   private onTaskComplete?: TaskCompletionCallback;
   
+  // Throttling
+  private rateLimiter?: RateLimiter;
+  private estimateTokens?: TaskTokenEstimator;
+  private throttledUntil: number | null = null;
+  
   // Statistics
   private completedCount: number = 0;
   private failedCount: number = 0;
 
   constructor(
     executor: TaskExecutor,
-    options: {
-      concurrency?: number;
-      onProgress?: ProgressCallback;
-      onTaskComplete?: TaskCompletionCallback;
-    } = {}
+    options: QueueManagerOptions = {}
   ) {
     this.executor = executor;
     this.concurrency = options.concurrency || 3;
     this.onProgress = options.onProgress;
     this.onTaskComplete = options.onTaskComplete;
+    this.rateLimiter = options.rateLimiter;
+    this.estimateTokens = options.estimateTokens;
   }
 
   /**
@@ -217,6 +248,7 @@ export class QueueManager {
       failed: this.failedCount,
       pending: pending + running,
       isRunning: this.state === QueueState.RUNNING,
+      ...(this.throttledUntil !== null && { throttledUntil: this.throttledUntil }),
     };
   }
 
@@ -309,6 +341,19 @@ export class QueueManager {
     this.activeCount++;
     this.notifyProgress();
     
+    // Wait for the rate limiter; hand the task back if paused or cancelled meanwhile
+    if (this.rateLimiter && !(await this.waitForRateLimit(queuedTask.task))) {
+      queuedTask.status = 'pending';
+      queuedTask.startedAt = undefined;
+      this.activeCount--;
+      // State changed during the await (TypeScript still narrows it to RUNNING)
+      if ((this.state as QueueState) === QueueState.CANCELLED) {
+        this.queue = this.queue.filter(qt => qt !== queuedTask);
+      }
+      this.notifyProgress();
+      return;
+    }
+    
     // Execute task
     let result: TaskResult;
     try {
@@ -347,6 +392,34 @@ export class QueueManager {
     this.processNext();
   }
 
+  /**
+   * Wait until the rate limiter has room for a task
+   * Capacity is only taken by the LLM client, once per HTTP request.
+   * 
+   * @returns false if the queue stopped running while throttled
+   */
+  private async waitForRateLimit(task: Task): Promise<boolean> {
+    const tokens = this.estimateTokens ? await this.estimateTokens(task) : 0;
+    
+    while (this.state === QueueState.RUNNING) {
+      const wait = this.rateLimiter!.getWaitTime(tokens);
+      if (wait === 0) {
+        if (this.throttledUntil !== null) {
+          this.throttledUntil = null;
+          this.notifyProgress();
+        }
+        return true;
+      }
+      
+      this.throttledUntil = Date.now() + wait;
+      this.notifyProgress();
+      await sleep(Math.min(wait, THROTTLE_POLL_MS));
+    }
+    
+    this.throttledUntil = null;
+    return false;
+  }
+
   /**
    * Notify progress callback
    */
@@ -363,11 +436,7 @@ export class QueueManager {
  */
 export function createQueueManager(
   executor: TaskExecutor,
-  options?: {
-    concurrency?: number;
-    onProgress?: ProgressCallback;
-    onTaskComplete?: TaskCompletionCallback;
-  }
+  options?: QueueManagerOptions
 ): QueueManager {
   return new QueueManager(executor, options);
 }
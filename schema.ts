@@ -108,10 +108,37 @@ export const NoteCardSchema = z.object({
   detected_date: z.string(),            // When this card was created/updated
   status: z.enum(['draft', 'confirmed']).optional(),  // Review status
   deleted: z.boolean().optional(),      // Soft delete flag
+  extracted_by: z.object({              // Provider and model that produced the card
+    provider: z.lazy(() => LLMProviderSchema),  // Declared with the LLM schemas below
+    model: z.string(),
+  }).optional(),
 });
 
 export type NoteCardType = z.infer<typeof NoteCardSchema>;
 
+/**
+ * `careeros:` frontmatter block that pins NoteCard fields.
+ * 
+ * YAML turns full dates into Date objects, so time_span accepts those too.
+ * 
+ * Example:
+ *   careeros:
+ *     type: project
+ *     time_span: 2023-01 到 2023-06
+ *     skills:
+ *       React: 精通
+ *     exclude_skills: [jQuery]
+ */
+export const NoteCardOverridesSchema = z.object({
+  type: NoteTypeSchema.optional(),
+  time_span: z.union([
+    z.string(),
+    z.date().transform(date => date.toISOString().split('T')[0]),
+  ]).optional(),
+  skills: z.record(TechItemSchema.shape.level).optional(),
+  exclude_skills: z.array(z.string()).optional(),
+});
+
 // ============================================================================
 // JDCard Schemas
 // ============================================================================
@@ -168,6 +195,15 @@ export const SkillCategorySchema = z.enum([
   'soft',       // Soft skills (Communication, Leadership, etc.)
 ]);
 
+/**
+ * Time decay curve of a skill category or individual skill.
+ * See utils/skillDecay.ts for the curves.
+ */
+export const DecayCurveSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('stepped') }),
+  z.object({ kind: z.literal('half_life'), halfLifeMonths: z.number().positive() }),
+]);
+
 /**
  * Aggregated skill profile with weighted scoring.
  * 
@@ -184,6 +220,20 @@ export const SkillProfileSchema = z.object({
   level: z.number().min(0).max(5),      // Weighted proficiency (0-5)
   evidence_notes: z.array(z.string()),  // Source NoteCard paths
   last_active: z.string(),              // Most recent activity date
+  decay: z.object({                     // Decay of the most recent evidence at build time
+    factor: z.number(),
+    curve: DecayCurveSchema,
+    source: z.enum(['skill', 'category', 'default']),
+  }).optional(),
+  task_level: z.number().min(0).max(5).optional(),  // Part of the level from completed plan tasks
+  task_evidence: z.array(z.object({
+    plan_path: z.string(),
+    task_id: z.string(),
+    title: z.string(),
+    skills: z.array(z.string()),
+    completed_at: z.string(),
+    output_notes: z.array(z.string()),
+  })).optional(),
 });
 
 export const ProjectSummarySchema = z.object({
@@ -252,6 +302,12 @@ export const GapSchema = z.object({
   marketDemand: z.number(),
   currentLevel: z.number(),
   priority: GapPrioritySchema,
+  suggestion: z.string().optional(),
+});
+
+export const StrengthSchema = z.object({
+  skill: z.string(),
+  reason: z.string(),
 });
 
 export const GapAnalysisSchema = z.object({
@@ -261,6 +317,16 @@ export const GapAnalysisSchema = z.object({
   reportPath: z.string(),
 });
 
+/**
+ * JSON output of the gap analysis prompt
+ */
+export const GapAnalysisContentSchema = z.object({
+  matchPercentage: z.number().min(0).max(100),
+  summary: z.string(),
+  strengths: z.array(StrengthSchema),
+  gaps: z.array(GapSchema),
+});
+
 export type GapAnalysisType = z.infer<typeof GapAnalysisSchema>;
 
 // ============================================================================
@@ -279,6 +345,15 @@ export const LLMConfigSchema = z.object({
   jsonMode: z.boolean().optional(),
 });
 
+export const LLMFallbackConfigSchema = LLMConfigSchema.extend({
+  allowSensitive: z.boolean().optional(),
+});
+
+export const LLMFallbackChainsSchema = z.object({
+  extract: z.array(LLMFallbackConfigSchema).optional(),
+  analyze: z.array(LLMFallbackConfigSchema).optional(),
+});
+
 export const CallOptionsSchema = z.object({
   maxRetries: z.number().optional(),
   timeout: z.number().optional(),
@@ -304,6 +379,7 @@ export const QueueStatusSchema = z.object({
   failed: z.number(),
   pending: z.number(),
   isRunning: z.boolean(),
+  throttledUntil: z.number().optional(),
 });
 
 // ============================================================================
@@ -324,6 +400,149 @@ export const IndexResultSchema = z.object({
     path: z.string(),
     error: z.string(),
   })),
+  aborted: z.boolean().optional(),
+  budgetExceeded: z.boolean().optional(),
+  skippedNotes: z.number().optional(),
+});
+
+// ============================================================================
+// Profile History Schemas
+// ============================================================================
+
+export const ProfileSnapshotEntrySchema = z.object({
+  id: z.string(),
+  built_at: z.string(),
+  skill_levels: z.record(z.number()),
+  task_levels: z.record(z.number()).optional(),
+});
+
+export const ProfileHistoryIndexSchema = z.object({
+  snapshots: z.array(ProfileSnapshotEntrySchema),
+});
+
+// ============================================================================
+// Task Bridge Schemas
+// ============================================================================
+
+export const PlanTaskSchema = z.object({
+  id: z.string(),
+  week: z.number().min(1),
+  phase: z.string(),
+  title: z.string(),
+  estimated_hours: z.number().min(0).optional(),
+  skills: z.array(z.string()),
+  done: z.boolean(),
+  completed_at: z.string().optional(),
+  note: z.string().optional(),
+  output_notes: z.array(z.string()).optional(),
+});
+
+export const PlanProgressSchema = z.object({
+  plan_path: z.string(),
+  started_at: z.string(),
+  tasks: z.array(PlanTaskSchema),
+  task_notes: z.array(z.string()),
+  updated_at: z.string(),
+});
+
+// ============================================================================
+// Index Journal Schemas
+// ============================================================================
+
+export const IndexJournalTaskSchema = z.object({
+  note_path: z.string(),
+  status: z.enum(['pending', 'running', 'failed']),
+  attempts: z.number().min(0),
+  last_error: z.string().optional(),
+  updated_at: z.string(),
+});
+
+export const IndexJournalStateSchema = z.object({
+  run_started_at: z.string().nullable(),
+  tasks: z.array(IndexJournalTaskSchema),
+  ignored: z.array(z.string()).optional(),
+});
+
+// ============================================================================
+// Retrieval (RAG) Schemas
+// ============================================================================
+
+export const VectorIndexEntrySchema = z.object({
+  note_path: z.string(),
+  card_hash: z.string(),
+  text: z.string(),
+  vector: z.array(z.number()),
+});
+
+export const VectorIndexSchema = z.object({
+  provider: LLMProviderSchema,
+  model: z.string(),
+  updated_at: z.string(),
+  entries: z.array(VectorIndexEntrySchema),
+});
+
+// ============================================================================
+// Usage Accounting Schemas
+// ============================================================================
+
+export const UsageOperationSchema = z.enum(['note_card', 'jd_card', 'gap_analysis', 'action_plan', 'weekly_review', 'target_comparison', 'embedding', 'other']);
+
+export const UsageRecordSchema = z.object({
+  timestamp: z.string(),
+  role: ModelRoleSchema,
+  provider: LLMProviderSchema,
+  model: z.string(),
+  operation: UsageOperationSchema,
+  note_path: z.string().optional(),
+  prompt_tokens: z.number().min(0),
+  completion_tokens: z.number().min(0),
+  cost: z.number().min(0),
+});
+
+export const UsageTotalsSchema = z.object({
+  calls: z.number().min(0),
+  promptTokens: z.number().min(0),
+  completionTokens: z.number().min(0),
+  cost: z.number().min(0),
+});
+
+export const UsageMonthSummarySchema = UsageTotalsSchema.extend({
+  month: z.string(),
+  byRole: z.record(ModelRoleSchema, UsageTotalsSchema),
+  byOperation: z.record(UsageOperationSchema, UsageTotalsSchema),
+  topNotes: z.array(UsageTotalsSchema.extend({ notePath: z.string() })),
+});
+
+export const UsageLedgerSchema = z.object({
+  records: z.array(UsageRecordSchema),
+  monthly: z.array(UsageMonthSummarySchema).optional(),
+});
+
+export const ModelPriceSchema = z.object({
+  model: z.string().min(1),
+  input: z.number().min(0),
+  output: z.number().min(0),
+});
+
+// ============================================================================
+// Response Cache Schemas
+// ============================================================================
+
+export const ResponseCacheEntrySchema = z.object({
+  key: z.string(),
+  provider: LLMProviderSchema,
+  model: z.string(),
+  temperature: z.number(),
+  created_at: z.string(),
+  response: z.string(),
+});
+
+export const ResponseCacheIndexSchema = z.object({
+  entries: z.array(z.object({
+    key: z.string(),
+    created_at: z.string(),
+    size: z.number().min(0),
+  })),
 });
 
 // ============================================================================
@@ -351,6 +570,7 @@ export const SkillMappingSchema = z.object({
   standardName: z.string(),
   aliases: z.array(z.string()),
   category: SkillCategorySchema.optional(),
+  decay: DecayCurveSchema.optional(),
 });
 
 // ============================================================================
@@ -381,6 +601,7 @@ export const CareerOSSettingsSchema = z.object({
     analyze: LLMConfigSchema,
     embedding: LLMConfigSchema,
   }),
+  llmFallbacks: LLMFallbackChainsSchema.optional(),
   openaiApiKey: z.string(),
   anthropicApiKey: z.string(),
   googleApiKey: z.string(),
@@ -389,10 +610,39 @@ export const CareerOSSettingsSchema = z.object({
   maxRetries: z.number(),
   timeout: z.number(),
   concurrency: z.number(),
+  rateLimitPreset: z.enum(['off', 'slow', 'medium', 'fast', 'custom']).optional(),
+  requestsPerMinute: z.number().min(0).optional(),
+  tokensPerMinute: z.number().min(0).optional(),
+  maxIndexAttempts: z.number().min(1).optional(),
+  chunkMaxTokens: z.number().min(0).optional(),
   exclusionRules: ExclusionRulesSchema,
   taxonomy: z.array(SkillMappingSchema),
+  decayCurves: z.record(SkillCategorySchema, DecayCurveSchema).optional(),
   dryRunEnabled: z.boolean(),
   dryRunMaxNotes: z.number(),
+  selfProfileCardMode: z.enum(['all', 'prefer_confirmed', 'confirmed_only']).optional(),
+  gapAnalysisMode: z.enum(['llm', 'offline']).optional(),
+  targetComparisonRecommendation: z.boolean().optional(),
+  yearsOfExperience: z.number().min(0).max(60).optional(),
+  degreeLevel: z.enum(['none', 'associate', 'bachelor', 'master', 'phd']).optional(),
+  taskBridgeTarget: z.enum(['weekly_note', 'daily_note']).optional(),
+  taskDirectory: z.string().optional(),
+  dailyNotesFolder: z.string().optional(),
+  taskEvidenceScore: z.number().min(0).optional(),
+  weeklyReviewDay: z.number().int().min(0).max(6).optional(),
+  weeklyReviewFolder: z.string().optional(),
+  weeklyReviewTemplate: z.string().optional(),
+  weeklyReviewSummary: z.boolean().optional(),
+  ragEnabled: z.boolean().optional(),
+  ragTopK: z.number().optional(),
+  priceTable: z.array(ModelPriceSchema).optional(),
+  budgetPerRunUsd: z.number().min(0).optional(),
+  budgetPerDayUsd: z.number().min(0).optional(),
+  budgetPerRunTokens: z.number().min(0).optional(),
+  budgetPerDayTokens: z.number().min(0).optional(),
+  responseCacheEnabled: z.boolean().optional(),
+  responseCacheMaxSizeMb: z.number().min(1).optional(),
+  responseCacheMaxAgeDays: z.number().min(0).optional(),
   indexDirectory: z.string(),
   mappingDirectory: z.string(),
   marketCardsDirectory: z.string(),
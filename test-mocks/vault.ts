@@ -0,0 +1,41 @@
+/**
+ * In-memory vault for testing
+ *
+ * Supports the vault calls FileService and the note readers make. Folders
+ * list the files directly inside them as children.
+ */
+
+import { vi } from 'vitest';
+import { TFile, TFolder } from './obsidian';
+
+export const createMockApp = (notes: Record<string, string> = {}) => {
+  const files = new Map<string, string>(Object.entries(notes));
+  const folders = new Set<string>();
+
+  const vault = {
+    getAbstractFileByPath: vi.fn((path: string) => {
+      if (files.has(path)) return Object.assign(new TFile(), { path });
+      if (folders.has(path)) {
+        const children = [...files.keys()]
+          .filter(f => f.startsWith(`${path}/`) && !f.slice(path.length + 1).includes('/'))
+          .map(f => Object.assign(new TFile(), { path: f, extension: f.split('.').pop() }));
+        return Object.assign(new TFolder(path), { children });
+      }
+      return null;
+    }),
+    getMarkdownFiles: vi.fn(() =>
+      [...files.keys()].filter(f => f.endsWith('.md')).map(path => Object.assign(new TFile(), { path }))
+    ),
+    read: vi.fn(async (file: TFile) => files.get(file.path) ?? ''),
+    create: vi.fn(async (path: string, content: string) => { files.set(path, content); }),
+    modify: vi.fn(async (file: TFile, content: string) => { files.set(file.path, content); }),
+    delete: vi.fn(async (file: TFile) => { files.delete(file.path); }),
+    rename: vi.fn(async (file: TFile, newPath: string) => {
+      files.set(newPath, files.get(file.path) ?? '');
+      files.delete(file.path);
+    }),
+    createFolder: vi.fn(async (path: string) => { folders.add(path); }),
+  };
+
+  return { app: { vault } as any, files };
+};
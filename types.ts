@@ -40,6 +40,11 @@ export interface NoteCard {
   
   status?: 'draft' | 'confirmed';
   deleted?: boolean;
+  
+  extracted_by?: {         // Provider and model that produced the card
+    provider: LLMProvider;
+    model: string;
+  };
 }
 
 // ============================================================================
@@ -70,10 +75,29 @@ export interface JDCard {
   deleted?: boolean;
 }
 
+/**
+ * Fields pinned by a note's `careeros:` frontmatter block
+ * Merged over the LLM output on every extraction of the note.
+ */
+export interface NoteCardOverrides {
+  type?: NoteType;
+  time_span?: string;
+  skills?: Record<string, TechItem['level']>;  // Skill name -> level (added when not extracted)
+  exclude_skills?: string[];                   // Skills dropped from the card
+}
+
 // ============================================================================
 // SelfProfile Types
 // ============================================================================
 
+/**
+ * Which NoteCards feed the SelfProfile, by review status
+ * - all: every card counts the same
+ * - prefer_confirmed: confirmed cards weigh more than drafts
+ * - confirmed_only: drafts are left out
+ */
+export type SelfProfileCardMode = 'all' | 'prefer_confirmed' | 'confirmed_only';
+
 export type SkillCategory =
   | 'language'
   | 'framework'
@@ -82,12 +106,33 @@ export type SkillCategory =
   | 'platform'
   | 'soft';
 
+/**
+ * How a skill's evidence loses weight with age
+ * - stepped: the built-in stepped curve (1.0 within 6 months down to 0.2 after 3 years)
+ * - half_life: exponential, the weight halves every `halfLifeMonths`
+ */
+export type DecayCurve =
+  | { kind: 'stepped' }
+  | { kind: 'half_life'; halfLifeMonths: number };
+
+/**
+ * Decay applied to a skill when the profile was built
+ */
+export interface SkillDecayInfo {
+  factor: number;                               // Weight of the most recent evidence
+  curve: DecayCurve;
+  source: 'skill' | 'category' | 'default';     // Where the curve was configured
+}
+
 export interface SkillProfile {
   name: string;            // Normalized standard name
   category?: SkillCategory;
   level: number;           // 0-5 float, weighted score
   evidence_notes: string[]; // Paths to source NoteCards
   last_active: string;     // Most recent activity date
+  decay?: SkillDecayInfo;
+  task_level?: number;     // Part of `level` contributed by completed plan tasks
+  task_evidence?: TaskEvidence[];
 }
 
 export interface ProjectSummary {
@@ -113,6 +158,60 @@ export interface SelfProfile {
   last_built: string;      // ISO timestamp
 }
 
+/**
+ * Entry of the SelfProfile history index (full profile stored separately)
+ */
+export interface ProfileSnapshotEntry {
+  id: string;                            // Snapshot file name without extension
+  built_at: string;                      // last_built of the profile
+  skill_levels: Record<string, number>;  // Skill name -> level, for series without reading snapshots
+  task_levels?: Record<string, number>;  // Skill name -> part of the level from plan tasks (non-zero only)
+}
+
+export interface ProfileHistoryIndex {
+  snapshots: ProfileSnapshotEntry[];     // Oldest first
+}
+
+/**
+ * Level of one skill in one snapshot
+ */
+export interface SkillLevelPoint {
+  date: string;
+  level: number;
+  task_level?: number;     // Part of the level from plan tasks, when any
+}
+
+/**
+ * Level change of one skill between two profiles
+ * Added skills have `before` 0, dropped skills have `after` 0.
+ */
+export interface SkillChange {
+  name: string;
+  before: number;
+  after: number;
+  notes: string[];         // Source notes whose evidence caused the change
+}
+
+export interface PreferenceShift {
+  field: keyof Preferences;
+  value: string;
+  change: 'added' | 'removed';
+  notes: string[];         // Source notes stating the preference
+}
+
+/**
+ * Changes between two SelfProfile builds
+ */
+export interface ProfileDiff {
+  from: string;            // last_built of the older profile
+  to: string;              // last_built of the newer profile
+  added_skills: SkillChange[];
+  removed_skills: SkillChange[];
+  changed_skills: SkillChange[];
+  new_projects: ProjectSummary[];
+  preference_shifts: PreferenceShift[];
+}
+
 // ============================================================================
 // MarketProfile Types
 // ============================================================================
@@ -164,10 +263,121 @@ export interface LLMConfig {
   jsonMode?: boolean;
 }
 
+/**
+ * Entry of a role's fallback chain, tried in order after the primary config fails
+ */
+export interface LLMFallbackConfig extends LLMConfig {
+  allowSensitive?: boolean;  // May receive note content (local entries always may)
+}
+
+export interface LLMFallbackChains {
+  extract?: LLMFallbackConfig[];
+  analyze?: LLMFallbackConfig[];
+  // No embedding chain: vectors from different models cannot share an index
+}
+
 export interface CallOptions {
   maxRetries?: number;
   timeout?: number;
   temperature?: number;
+  usage?: UsageContext;    // Attribution recorded in the usage ledger
+  cache?: boolean;         // Set false to bypass the response cache for this call
+  sensitive?: boolean;     // Prompt carries note content: only eligible fallbacks are tried
+  onProvider?: (config: LLMConfig) => void;  // Reports the config that produced the response
+  signal?: AbortSignal;    // Cancels the request mid-flight
+}
+
+export interface StreamOptions extends CallOptions {
+  onToken?: (token: string) => void;   // Called with each text delta as it arrives
+}
+
+export interface EmbedOptions {
+  maxRetries?: number;
+  timeout?: number;
+  batchSize?: number;      // Max texts per request (providers without batch APIs send one at a time)
+  usage?: UsageContext;    // Attribution recorded in the usage ledger
+}
+
+// ============================================================================
+// Usage Accounting Types
+// ============================================================================
+
+export type UsageOperation = 'note_card' | 'jd_card' | 'gap_analysis' | 'action_plan' | 'weekly_review' | 'target_comparison' | 'embedding' | 'other';
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface UsageContext {
+  operation: UsageOperation;
+  note_path?: string;      // Source note the call was made for
+}
+
+export interface UsageRecord {
+  timestamp: string;
+  role: ModelRole;
+  provider: LLMProvider;
+  model: string;
+  operation: UsageOperation;
+  note_path?: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number;            // USD, priced when the call was recorded
+}
+
+export interface UsageLedger {
+  records: UsageRecord[];
+  monthly?: UsageMonthSummary[];  // Months older than the detailed window, rolled up
+}
+
+export interface ModelPrice {
+  model: string;           // Model name or prefix (e.g. "gpt-4o-mini")
+  input: number;           // USD per 1M prompt tokens
+  output: number;          // USD per 1M completion tokens
+}
+
+// ============================================================================
+// Budget Types
+// ============================================================================
+
+export interface CostEstimate {
+  notes: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;              // USD
+  estimatedSeconds: number;
+  priced: boolean;           // false when the extract model has no price entry
+}
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  reason?: string;           // Which cap was hit, for display
+  runCost: number;
+  runTokens: number;
+  dayCost: number;
+  dayTokens: number;
+}
+
+// ============================================================================
+// Response Cache Types
+// ============================================================================
+
+export interface ResponseCacheEntry {
+  key: string;               // sha256 of provider, model, temperature and prompt hash
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+  created_at: string;
+  response: string;
+}
+
+export interface ResponseCacheIndex {
+  entries: {
+    key: string;
+    created_at: string;
+    size: number;            // Response length, used for size eviction
+  }[];
 }
 
 // ============================================================================
@@ -183,12 +393,15 @@ export interface Task {
   priority?: number;
 }
 
+export type RateLimitPreset = 'off' | 'slow' | 'medium' | 'fast' | 'custom';
+
 export interface QueueStatus {
   total: number;
   completed: number;
   failed: number;
   pending: number;
   isRunning: boolean;
+  throttledUntil?: number;   // Epoch ms when a rate limited queue resumes
 }
 
 // ============================================================================
@@ -199,6 +412,8 @@ export interface IndexOptions {
   dryRun?: boolean;
   maxNotes?: number;
   concurrency?: number;
+  onEstimate?: (estimate: CostEstimate) => boolean | Promise<boolean>;  // Return false to abort before any LLM call
+  onBudgetExceeded?: (status: BudgetStatus) => void;                     // Called once the queue has been paused
 }
 
 export interface IndexResult {
@@ -206,6 +421,53 @@ export interface IndexResult {
   processedNotes: number;
   failedNotes: number;
   errors: Array<{ path: string; error: string }>;
+  aborted?: boolean;         // Declined after seeing the cost estimate
+  budgetExceeded?: boolean;  // Not started because a budget cap was already reached
+  skippedNotes?: number;     // Left out after failing maxIndexAttempts times without an edit since
+}
+
+// ============================================================================
+// Index Journal Types
+// ============================================================================
+
+export type IndexJournalTaskStatus = 'pending' | 'running' | 'failed';
+
+export interface IndexJournalTask {
+  note_path: string;
+  status: IndexJournalTaskStatus;
+  attempts: number;          // Extractions started, including ones cut off by a restart
+  last_error?: string;
+  updated_at: string;
+}
+
+export interface IndexJournalState {
+  run_started_at: string | null;  // Set while a cold start run has unfinished tasks
+  tasks: IndexJournalTask[];
+  ignored?: string[];             // Notes whose errors were ignored in the error log; never indexed again
+}
+
+// ============================================================================
+// Retrieval (RAG) Types
+// ============================================================================
+
+export interface VectorIndexEntry {
+  note_path: string;
+  card_hash: string;       // NoteCard.hash at embedding time, used to detect stale vectors
+  text: string;            // Embedded text (summary + evidence); a reviewed card differs here with the same hash
+  vector: number[];
+}
+
+export interface VectorIndex {
+  provider: LLMProvider;
+  model: string;
+  updated_at: string;
+  entries: VectorIndexEntry[];
+}
+
+export interface RetrievalResult {
+  note_path: string;
+  score: number;           // Cosine similarity
+  matched_query: string;   // Query (e.g. market skill) that produced the best score
 }
 
 // ============================================================================
@@ -233,6 +495,7 @@ export interface SkillMapping {
   standardName: string;
   aliases: string[];
   category?: SkillCategory;
+  decay?: DecayCurve;      // Overrides the category's decay curve
 }
 
 // ============================================================================
@@ -241,11 +504,35 @@ export interface SkillMapping {
 
 export type GapPriority = 'high' | 'medium' | 'low';
 
+/**
+ * How gap analyses are produced
+ * - llm: the analyze LLM returns a structured analysis the report is rendered from
+ * - offline: the report is built from the local algorithm only, no LLM call
+ */
+export type GapAnalysisMode = 'llm' | 'offline';
+
 export interface Gap {
   skillName: string;
   marketDemand: number;
   currentLevel: number;
   priority: GapPriority;
+  suggestion?: string;     // How to close the gap (LLM analyses only)
+}
+
+export interface Strength {
+  skill: string;
+  reason: string;
+}
+
+/**
+ * Structured gap analysis returned by the analyze LLM
+ * The report Markdown and the GapAnalysis numbers are both derived from it.
+ */
+export interface GapAnalysisContent {
+  matchPercentage: number;
+  summary: string;
+  strengths: Strength[];
+  gaps: Gap[];
 }
 
 export interface GapAnalysis {
@@ -255,6 +542,63 @@ export interface GapAnalysis {
   reportPath: string;
 }
 
+/**
+ * Local match of the SelfProfile against one MarketProfile
+ */
+export interface TargetMatch {
+  role: string;
+  location: string;
+  matchPercentage: number;
+  gaps: Gap[];
+  uniqueGaps: string[];    // Gaps no other compared target has
+}
+
+/**
+ * Status of a skill for one target in the comparison matrix
+ */
+export type TargetSkillStatus = GapPriority | 'met' | 'not_required';
+
+export interface TargetGapRow {
+  skill: string;
+  statuses: TargetSkillStatus[];  // Aligned with TargetComparison.targets
+}
+
+/**
+ * Comparison of several market targets (best match first)
+ */
+export interface TargetComparison {
+  targets: TargetMatch[];
+  sharedGaps: string[];    // Gaps every target has
+  matrix: TargetGapRow[];  // Skills that are a gap for at least one target
+  recommendation?: string; // Optional LLM recommendation (Markdown)
+  reportPath?: string;
+}
+
+// ============================================================================
+// Job Fit Types
+// ============================================================================
+
+/**
+ * Highest degree, lowest first (`none` also means "no requirement")
+ */
+export type DegreeLevel = 'none' | 'associate' | 'bachelor' | 'master' | 'phd';
+
+/**
+ * Fit of a single JDCard against the SelfProfile
+ */
+export interface JobFit {
+  jd_id: string;
+  source_note: string;
+  company: string;
+  title: string;
+  location: string;
+  score: number;                 // 0-100
+  missing_required: string[];    // Must-have skills the profile lacks
+  matched_optional: string[];
+  experience_met?: boolean;      // Unset when the JD or the settings give no years
+  degree_met?: boolean;          // Unset when the JD or the settings give no degree
+}
+
 // ============================================================================
 // Strategy Types
 // ============================================================================
@@ -299,6 +643,142 @@ export interface ActionPlanSummary {
   generatedAt: string;
   planPath: string;
   isActive?: boolean;
+  previousPlan?: string;   // Plan this one revises
+  revision?: number;       // 1 for the first re-plan, 2 for the next...
+}
+
+// ============================================================================
+// Task Bridge Types
+// ============================================================================
+
+/**
+ * Where plan tasks are written
+ * - weekly_note: one tasks note per plan week
+ * - daily_note: the current week's open tasks are added to today's daily note
+ */
+export type TaskBridgeTarget = 'weekly_note' | 'daily_note';
+
+/**
+ * One checklist item of an action plan
+ */
+export interface PlanTask {
+  id: string;                // Block ID (^id) of the task line in the tasks notes
+  week: number;
+  phase: string;
+  title: string;             // Task text as written in the plan
+  estimated_hours?: number;
+  skills: string[];          // From [skill:Name] tags
+  done: boolean;
+  completed_at?: string;     // When the checkbox was seen ticked
+  note?: string;             // Tasks note the task was last written to
+  output_notes?: string[];   // Notes linked ([[...]]) from the task line
+}
+
+/**
+ * A completed plan task; skill evidence when it has skills
+ */
+export interface TaskEvidence {
+  plan_path: string;
+  task_id: string;
+  title: string;
+  skills: string[];
+  completed_at: string;
+  output_notes: string[];
+}
+
+/**
+ * Checkbox state of a plan's tasks, kept in sync with the tasks notes
+ */
+export interface PlanProgress {
+  plan_path: string;
+  started_at: string;        // Week 1 starts here
+  tasks: PlanTask[];
+  task_notes: string[];      // Notes the tasks were written to
+  updated_at: string;
+}
+
+// ============================================================================
+// Weekly Review Types
+// ============================================================================
+
+export interface SkillLevelChange {
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/**
+ * Everything that happened in one review week
+ */
+export interface WeeklyReviewData {
+  week_start: string;        // YYYY-MM-DD, inclusive
+  week_end: string;          // YYYY-MM-DD, inclusive
+  note_cards: Pick<NoteCard, 'note_path' | 'summary' | 'type'>[];  // Extracted or re-extracted this week
+  completed_tasks: TaskEvidence[];
+  skill_changes: SkillLevelChange[];
+  new_jds: Pick<JDCard, 'jd_id' | 'source_note' | 'company' | 'title' | 'location'>[];
+}
+
+// ============================================================================
+// Plan Burndown Types
+// ============================================================================
+
+export interface PlanWeekProgress {
+  week: number;
+  total: number;
+  done: number;
+  planned_hours: number;     // Estimated hours of all tasks in the week
+  done_hours: number;        // Estimated hours of the ticked tasks
+}
+
+export interface PlanPhaseProgress {
+  name: string;
+  from_week: number;
+  to_week: number;
+  total: number;
+  done: number;
+}
+
+export interface PlanBurndownPoint {
+  week: number;              // End of this plan week (0 = start)
+  ideal: number;             // Open tasks on a straight line over the period
+  scheduled: number;         // Open tasks if every week's checklist is done on time
+}
+
+/**
+ * Progress of an action plan, read from the checkboxes of the plan itself
+ */
+export interface PlanBurndown {
+  plan_path: string;
+  current_week: number;      // Plan week of today, counted from generated_at
+  period_weeks: number;
+  weekly_hours: number;
+  total_tasks: number;
+  done_tasks: number;
+  overdue_tasks: number;     // Open tasks of weeks before the current one
+  behind_schedule: boolean;
+  weeks: PlanWeekProgress[];
+  phases: PlanPhaseProgress[];
+  burndown: PlanBurndownPoint[];
+}
+
+// ============================================================================
+// Usage Summary Types
+// ============================================================================
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageMonthSummary extends UsageTotals {
+  month: string;           // YYYY-MM
+  byRole: Partial<Record<ModelRole, UsageTotals>>;
+  byOperation: Partial<Record<UsageOperation, UsageTotals>>;
+  topNotes: Array<UsageTotals & { notePath: string }>;
 }
 
 // ============================================================================
@@ -307,12 +787,16 @@ export interface ActionPlanSummary {
 
 export type ErrorType = 'extraction' | 'validation' | 'file_operation' | 'llm' | 'unknown';
 
+export type ErrorLogEntryStatus = 'open' | 'resolved' | 'ignored';
+
 export interface ErrorLogEntry {
   timestamp: string;
   path: string;
   attempts: number;
   error: string;
   type: ErrorType;
+  details?: string;
+  status?: ErrorLogEntryStatus;  // Missing = open
 }
 
 export interface ErrorLogSummary {
@@ -332,6 +816,7 @@ export interface CareerOSSettings {
     analyze: LLMConfig;
     embedding: LLMConfig;
   };
+  llmFallbacks?: LLMFallbackChains;  // Tried in order when the primary config fails
   
   // API Keys
   openaiApiKey: string;
@@ -349,16 +834,65 @@ export interface CareerOSSettings {
   timeout: number;
   concurrency: number;
   
+  // Rate Limiting (0 = unlimited)
+  rateLimitPreset?: RateLimitPreset;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxIndexAttempts?: number;  // Cold start skips notes that failed this often until they are edited
+  chunkMaxTokens?: number;    // Notes longer than this are extracted in heading-based chunks (0 = never)
+  
   // Privacy
   exclusionRules: ExclusionRules;
   
   // Taxonomy
   taxonomy: SkillMapping[];
+  decayCurves?: Partial<Record<SkillCategory, DecayCurve>>;  // Unset categories use the stepped curve
   
   // Dry Run
   dryRunEnabled: boolean;
   dryRunMaxNotes: number;
   
+  // Review
+  selfProfileCardMode?: SelfProfileCardMode;
+  
+  // Gap Analysis
+  gapAnalysisMode?: GapAnalysisMode;
+  targetComparisonRecommendation?: boolean;  // Ask the analyze LLM to recommend a target after comparing
+  
+  // Job Fit
+  yearsOfExperience?: number;    // Compared with each JD's experience requirement
+  degreeLevel?: DegreeLevel;     // Compared with each JD's degree requirement
+  
+  // Task Bridge
+  taskBridgeTarget?: TaskBridgeTarget;
+  taskDirectory?: string;        // Weekly tasks notes
+  dailyNotesFolder?: string;     // Daily notes, named YYYY-MM-DD
+  taskEvidenceScore?: number;    // Skill score per completed task (0 = tasks do not count)
+  
+  // Weekly Review
+  weeklyReviewDay?: number;      // 0 (Sunday) - 6; unset = not scheduled
+  weeklyReviewFolder?: string;
+  weeklyReviewTemplate?: string; // Template note; unset = built-in template
+  weeklyReviewSummary?: boolean; // Ask the analyze model for a summary and next week's focus
+  
+  // Retrieval (RAG)
+  ragEnabled?: boolean;    // Keep a NoteCard vector index and cite notes in gap analysis
+  ragTopK?: number;        // NoteCards attached to the gap analysis prompt
+  
+  // Usage Accounting
+  priceTable?: ModelPrice[];  // Overrides the built-in price table
+  
+  // Budget (external providers only, 0 = no limit)
+  budgetPerRunUsd?: number;
+  budgetPerDayUsd?: number;
+  budgetPerRunTokens?: number;
+  budgetPerDayTokens?: number;
+  
+  // Response Cache
+  responseCacheEnabled?: boolean;
+  responseCacheMaxSizeMb?: number;   // Oldest responses are evicted above this size
+  responseCacheMaxAgeDays?: number;  // 0 = never expire
+  
   // Directories
   indexDirectory: string;
   mappingDirectory: string;
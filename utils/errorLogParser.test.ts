@@ -11,7 +11,8 @@ import {
   generateErrorSummary,
   getErrorTypeLabel,
   getErrorTypeIcon,
-  parseTypeLabel
+  parseTypeLabel,
+  isOpenEntry
 } from './errorLogParser';
 
 describe('parseErrorLog', () => {
@@ -235,6 +236,27 @@ describe('parseErrorLog with new format', () => {
     expect(entries[0].error).toBe('Invalid JSON structure');
   });
 
+  it('should keep every line of multi-line details', () => {
+    const content = `# CareerOS Error Log
+
+## 2024-12-07T10:30:00.000Z
+
+- **Type**: Schema Validation
+- **Path**: notes/test.md
+- **Attempts**: 1
+- **Error**: Invalid JSON structure
+- **Details**: Missing required field 'summary'
+  at parse (schema.ts:10)
+- **Status**: Ignored
+
+---
+`;
+    const [entry] = parseErrorLog(content);
+
+    expect(entry.details).toBe("Missing required field 'summary'\n  at parse (schema.ts:10)");
+    expect(entry.status).toBe('ignored');
+  });
+
   it('should fallback to auto-categorization for legacy format', () => {
     const content = `# CareerOS Error Log
 
@@ -252,3 +274,44 @@ describe('parseErrorLog with new format', () => {
     expect(entries[0].type).toBe('llm');
   });
 });
+
+describe('error log entry status', () => {
+  const content = `# CareerOS Error Log
+
+## 2024-12-07T10:30:00.000Z
+
+- **Type**: Extraction
+- **Path**: notes/a.md
+- **Attempts**: 3
+- **Error**: NoteCard extraction failed
+- **Status**: Resolved
+
+---
+
+## 2024-12-07T11:30:00.000Z
+
+- **Type**: Extraction
+- **Path**: notes/b.md
+- **Attempts**: 3
+- **Error**: NoteCard extraction failed
+
+---
+`;
+
+  it('should parse the Status field and default to open', () => {
+    const entries = parseErrorLog(content);
+
+    expect(entries[0].status).toBe('resolved');
+    expect(entries[0].error).toBe('NoteCard extraction failed');
+    expect(entries[1].status).toBeUndefined();
+    expect(entries.map(isOpenEntry)).toEqual([false, true]);
+  });
+
+  it('should only count open entries in the summary', () => {
+    const summary = generateErrorSummary(parseErrorLog(content));
+
+    expect(summary.totalErrors).toBe(1);
+    expect(summary.byType.extraction).toBe(1);
+    expect(summary.entries).toHaveLength(2);
+  });
+});
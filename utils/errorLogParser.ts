@@ -6,7 +6,7 @@
  * - Categorize errors by type (extraction, validation, file operation)
  */
 
-import { ErrorLogEntry, ErrorLogSummary, ErrorType } from '../types';
+import { ErrorLogEntry, ErrorLogEntryStatus, ErrorLogSummary, ErrorType } from '../types';
 
 /**
  * Parse error_log.md content into structured entries
@@ -18,6 +18,7 @@ import { ErrorLogEntry, ErrorLogSummary, ErrorType } from '../types';
  * - **Attempts**: 3
  * - **Error**: Error message here
  * - **Details**: Optional details
+ * - **Status**: Resolved (optional, entries without it are open)
  * ---
  * 
  * Also supports legacy format without Type field (auto-categorizes from error message)
@@ -42,6 +43,9 @@ export function parseErrorLog(content: string): ErrorLogEntry[] {
     const pathMatch = body.match(/\*\*Path\*\*:\s*(.+)/);
     const attemptsMatch = body.match(/\*\*Attempts\*\*:\s*(\d+)/);
     const errorMatch = body.match(/\*\*Error\*\*:\s*([\s\S]*?)(?=\n-|\n$|$)/);
+    // Details may span several lines (stack traces, validation issues)
+    const detailsMatch = body.match(/\*\*Details\*\*:\s*([\s\S]*?)(?=\n- \*\*Status\*\*:|$)/);
+    const statusMatch = body.match(/\*\*Status\*\*:\s*(.+)/);
     
     if (timestamp) {
       const errorMessage = errorMatch ? errorMatch[1].trim() : 'Unknown error';
@@ -54,19 +58,49 @@ export function parseErrorLog(content: string): ErrorLogEntry[] {
         errorType = categorizeError(errorMessage);
       }
       
-      entries.push({
+      const entry: ErrorLogEntry = {
         timestamp,
         path: pathMatch ? pathMatch[1].trim() : 'Unknown path',
         attempts: attemptsMatch ? parseInt(attemptsMatch[1], 10) : 0,
         error: errorMessage,
         type: errorType,
-      });
+      };
+      if (detailsMatch) {
+        entry.details = detailsMatch[1].trim();
+      }
+      if (statusMatch) {
+        entry.status = parseStatusLabel(statusMatch[1].trim());
+      }
+      entries.push(entry);
     }
   }
   
   return entries;
 }
 
+/**
+ * Split error_log.md into the text before the first entry and one raw
+ * section per entry, so entries can be kept or edited without re-rendering
+ * the others
+ */
+export function splitErrorLog(content: string): { header: string; sections: string[] } {
+  const starts: number[] = [];
+  const headingPattern = /^## \d{4}-\d{2}-\d{2}T/gm;
+  let match;
+  while ((match = headingPattern.exec(content)) !== null) {
+    starts.push(match.index);
+  }
+
+  if (starts.length === 0) {
+    return { header: content, sections: [] };
+  }
+
+  return {
+    header: content.substring(0, starts[0]),
+    sections: starts.map((start, i) => content.substring(start, starts[i + 1] ?? content.length)),
+  };
+}
+
 /**
  * Parse type label back to ErrorType
  */
@@ -87,6 +121,23 @@ export function parseTypeLabel(label: string): ErrorType {
   return labelMap[normalized] || 'unknown';
 }
 
+/**
+ * Parse status label back to ErrorLogEntryStatus
+ */
+export function parseStatusLabel(label: string): ErrorLogEntryStatus {
+  const normalized = label.toLowerCase();
+  if (normalized.startsWith('resolved')) return 'resolved';
+  if (normalized.startsWith('ignored')) return 'ignored';
+  return 'open';
+}
+
+/**
+ * Whether an entry still needs attention (not resolved or ignored)
+ */
+export function isOpenEntry(entry: ErrorLogEntry): boolean {
+  return (entry.status ?? 'open') === 'open';
+}
+
 /**
  * Categorize error based on error message content
  */
@@ -142,6 +193,7 @@ export function categorizeError(errorMessage: string): ErrorType {
 
 /**
  * Generate error summary from entries
+ * Counts only open entries; resolved and ignored ones stay in `entries`.
  */
 export function generateErrorSummary(entries: ErrorLogEntry[]): ErrorLogSummary {
   const byType: Record<ErrorType, number> = {
@@ -152,12 +204,13 @@ export function generateErrorSummary(entries: ErrorLogEntry[]): ErrorLogSummary
     unknown: 0,
   };
   
-  for (const entry of entries) {
+  const openEntries = entries.filter(isOpenEntry);
+  for (const entry of openEntries) {
     byType[entry.type]++;
   }
   
   return {
-    totalErrors: entries.length,
+    totalErrors: openEntries.length,
     byType,
     entries,
   };
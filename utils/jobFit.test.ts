@@ -0,0 +1,101 @@
+/**
+ * Job Fit Tests
+ *
+ * Unit tests for parsing JD requirements and scoring single JDCards
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDegreeLevel, parseExperienceYears, rankJobFits, scoreJobFit } from './jobFit';
+import { JDCard, SkillProfile } from '../types';
+
+function skill(name: string, level: number): SkillProfile {
+  return { name, level, evidence_notes: [], last_active: '2024-01-01' };
+}
+
+function card(overrides: Partial<JDCard>): JDCard {
+  return {
+    schema_version: 1,
+    jd_id: 'jd-1',
+    source_note: 'jobs/acme.md',
+    company: 'Acme',
+    title: 'Backend Engineer',
+    location: 'Remote',
+    salary_range: '',
+    skills_required: [],
+    skills_optional: [],
+    experience: '',
+    degree: '',
+    raw_text_hash: '',
+    tags: [],
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const skills = [skill('Python', 4), skill('Go', 1.5), skill('Kubernetes', 0.5)];
+
+describe('parseExperienceYears', () => {
+  it('should read the minimum years', () => {
+    expect(parseExperienceYears('3-5年')).toBe(3);
+    expect(parseExperienceYears('五年以上')).toBe(5);
+    expect(parseExperienceYears('十二年')).toBe(12);
+    expect(parseExperienceYears('二十年')).toBe(20);
+    expect(parseExperienceYears('二十五年以上')).toBe(25);
+    expect(parseExperienceYears('三五年')).toBe(3);
+    expect(parseExperienceYears('2+ years')).toBe(2);
+    expect(parseExperienceYears('应届生')).toBe(0);
+    expect(parseExperienceYears('')).toBeNull();
+  });
+});
+
+describe('parseDegreeLevel', () => {
+  it('should take the lowest named degree', () => {
+    expect(parseDegreeLevel('本科，硕士优先')).toBe('bachelor');
+    expect(parseDegreeLevel('本科及以上，专业不限')).toBe('bachelor');
+    expect(parseDegreeLevel('学历不限')).toBe('none');
+    expect(parseDegreeLevel('PhD')).toBe('phd');
+    expect(parseDegreeLevel('')).toBeNull();
+  });
+});
+
+describe('scoreJobFit', () => {
+  it('should credit required skills up to a working level and list missing ones', () => {
+    const fit = scoreJobFit(card({ skills_required: ['Python', 'Go', 'Kubernetes'] }), skills);
+
+    // (1 + 0.5 + 0.5/3) / 3
+    expect(fit.score).toBe(55.6);
+    expect(fit.missing_required).toEqual(['Kubernetes']);
+    expect(fit.experience_met).toBeUndefined();
+  });
+
+  it('should weigh experience and degree only when both sides state them', () => {
+    const jd = card({ skills_required: ['Python'], skills_optional: ['Go', 'Rust'], experience: '4年以上', degree: '硕士' });
+
+    const withoutCandidate = scoreJobFit(jd, skills);
+    const withCandidate = scoreJobFit(jd, skills, { yearsOfExperience: 2, degreeLevel: 'bachelor' });
+
+    // (0.6 * 1 + 0.15 * 0.5) / 0.75
+    expect(withoutCandidate.score).toBe(90);
+    // (0.6 + 0.075 + 0.15 * 0.5 + 0) / 1
+    expect(withCandidate.score).toBe(75);
+    expect(withCandidate).toMatchObject({ experience_met: false, degree_met: false, matched_optional: ['Go'] });
+  });
+
+  it('should match JD skills through the taxonomy', () => {
+    const fit = scoreJobFit(card({ skills_required: ['golang'] }), skills, {}, s => (s === 'golang' ? 'Go' : s));
+    expect(fit.missing_required).toEqual([]);
+  });
+});
+
+describe('rankJobFits', () => {
+  it('should sort by score and skip deleted cards', () => {
+    const ranked = rankJobFits([
+      card({ jd_id: 'a', title: 'Platform', skills_required: ['Kubernetes'] }),
+      card({ jd_id: 'b', title: 'API', skills_required: ['Python'] }),
+      card({ jd_id: 'c', title: 'Gone', skills_required: ['Python'], deleted: true }),
+    ], skills);
+
+    expect(ranked.map(f => f.jd_id)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Job Fit - Scores single JDCards against the SelfProfile
+ *
+ * MarketProfile aggregates many postings; the fit score answers "which of
+ * these postings should I apply to". Each JDCard is scored from:
+ * - Required skills: credit per skill up to a working level (60%)
+ * - Optional skills: share of them the profile has (15%)
+ * - Experience: configured years against the JD's minimum (15%)
+ * - Degree: configured degree against the JD's minimum (10%)
+ *
+ * Parts a JD does not state (or the settings leave empty) are left out and
+ * the remaining weights are scaled up, so a missing field neither helps nor
+ * hurts the score.
+ */
+
+import { DegreeLevel, JDCard, JobFit, SkillProfile } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Level at which a required skill counts in full
+ */
+const REQUIRED_LEVEL = 3;
+
+/**
+ * Below this level a skill counts as missing
+ */
+const MIN_SKILL_LEVEL = 1;
+
+const WEIGHTS = {
+  required: 0.6,
+  optional: 0.15,
+  experience: 0.15,
+  degree: 0.1,
+};
+
+const DEGREE_RANK: Record<DegreeLevel, number> = {
+  none: 0,
+  associate: 1,
+  bachelor: 2,
+  master: 3,
+  phd: 4,
+};
+
+/**
+ * Lowest degree first; "不限" is only checked when no degree is named,
+ * so "本科及以上，专业不限" stays a bachelor
+ */
+const DEGREE_PATTERNS: [DegreeLevel, RegExp][] = [
+  ['associate', /大专|专科|associate/i],
+  ['bachelor', /本科|学士|bachelor|\bbs\b|\bba\b/i],
+  ['master', /硕士|研究生|master|\bms\b/i],
+  ['phd', /博士|ph\.?d|doctor/i],
+  ['none', /不限|无要求|no degree|not required/i],
+];
+
+const CHINESE_DIGITS: Record<string, number> = {
+  一: 1, 两: 2, 二: 2, 三: 3, 四: 4, 五: 5,
+  六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Minimum years of an experience requirement
+ *
+ * "3-5年" and "5年以上" give 3 and 5; "应届生" and "经验不限" give 0.
+ *
+ * @returns Years, or null when the text states no requirement
+ */
+export function parseExperienceYears(experience: string): number | null {
+  const text = experience.replace(/[一两二三四五六七八九十]+/g, chineseNumberToDigits);
+
+  const match = text.match(/(\d+(?:\.\d+)?)/);
+  if (match) {
+    return parseFloat(match[1]);
+  }
+
+  if (/应届|不限|无经验|no experience|entry|graduate/i.test(text)) {
+    return 0;
+  }
+
+  return null;
+}
+
+/**
+ * Digits of a Chinese number up to 99 ("五", "十二", "二十", "二十五")
+ * Adjacent digits without 十 are a range, so "三五年" reads as "3-5年".
+ */
+function chineseNumberToDigits(text: string): string {
+  if (!text.includes('十')) {
+    return text.split('').map(c => CHINESE_DIGITS[c]).join('-');
+  }
+  const [tens, ones] = text.split('十');
+  return String((CHINESE_DIGITS[tens] ?? 1) * 10 + (CHINESE_DIGITS[ones] ?? 0));
+}
+
+/**
+ * Minimum degree of a degree requirement
+ *
+ * The lowest degree mentioned wins, so "本科，硕士优先" is a bachelor.
+ *
+ * @returns Degree, or null when none is recognised
+ */
+export function parseDegreeLevel(degree: string): DegreeLevel | null {
+  for (const [level, pattern] of DEGREE_PATTERNS) {
+    if (pattern.test(degree)) {
+      return level;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Candidate facts the SelfProfile does not hold (from settings)
+ */
+export interface JobFitCandidate {
+  yearsOfExperience?: number;
+  degreeLevel?: DegreeLevel;
+}
+
+/**
+ * Score one JDCard
+ *
+ * @param normalize - Maps JD skill names to profile names (Taxonomy)
+ */
+export function scoreJobFit(
+  card: JDCard,
+  skills: SkillProfile[],
+  candidate: JobFitCandidate = {},
+  normalize: (skill: string) => string = s => s
+): JobFit {
+  const levels = new Map(skills.map(s => [s.name.toLowerCase(), s.level]));
+  const levelOf = (skill: string) => levels.get(normalize(skill).toLowerCase()) ?? 0;
+
+  const parts: { weight: number; value: number }[] = [];
+
+  const required = unique(card.skills_required);
+  const missingRequired = required.filter(skill => levelOf(skill) < MIN_SKILL_LEVEL);
+  if (required.length > 0) {
+    const credit = required.reduce((sum, skill) => sum + Math.min(levelOf(skill) / REQUIRED_LEVEL, 1), 0);
+    parts.push({ weight: WEIGHTS.required, value: credit / required.length });
+  }
+
+  const optional = unique(card.skills_optional);
+  const matchedOptional = optional.filter(skill => levelOf(skill) >= MIN_SKILL_LEVEL);
+  if (optional.length > 0) {
+    parts.push({ weight: WEIGHTS.optional, value: matchedOptional.length / optional.length });
+  }
+
+  let experienceMet: boolean | undefined;
+  const minYears = parseExperienceYears(card.experience || '');
+  if (minYears !== null && candidate.yearsOfExperience !== undefined) {
+    experienceMet = candidate.yearsOfExperience >= minYears;
+    parts.push({
+      weight: WEIGHTS.experience,
+      value: minYears === 0 ? 1 : Math.min(candidate.yearsOfExperience / minYears, 1),
+    });
+  }
+
+  let degreeMet: boolean | undefined;
+  const minDegree = parseDegreeLevel(card.degree || '');
+  if (minDegree !== null && candidate.degreeLevel !== undefined) {
+    degreeMet = DEGREE_RANK[candidate.degreeLevel] >= DEGREE_RANK[minDegree];
+    parts.push({ weight: WEIGHTS.degree, value: degreeMet ? 1 : 0 });
+  }
+
+  const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+  const score = totalWeight > 0
+    ? parts.reduce((sum, p) => sum + p.weight * p.value, 0) / totalWeight * 100
+    : 100; // Nothing to compare means nothing is missing
+
+  return {
+    jd_id: card.jd_id,
+    source_note: card.source_note,
+    company: card.company,
+    title: card.title,
+    location: card.location,
+    score: Math.round(score * 10) / 10,
+    missing_required: missingRequired,
+    matched_optional: matchedOptional,
+    experience_met: experienceMet,
+    degree_met: degreeMet,
+  };
+}
+
+/**
+ * Score every live JDCard, best fit first
+ *
+ * Ties go to the posting with fewer missing must-have skills.
+ */
+export function rankJobFits(
+  cards: JDCard[],
+  skills: SkillProfile[],
+  candidate: JobFitCandidate = {},
+  normalize?: (skill: string) => string
+): JobFit[] {
+  return cards
+    .filter(card => !card.deleted)
+    .map(card => scoreJobFit(card, skills, candidate, normalize))
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.missing_required.length - b.missing_required.length ||
+      a.title.localeCompare(b.title)
+    );
+}
+
+function unique(skills: string[]): string[] {
+  const seen = new Set<string>();
+  return skills.filter(skill => {
+    const key = skill.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
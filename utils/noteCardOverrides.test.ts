@@ -0,0 +1,80 @@
+/**
+ * NoteCard Overrides Tests
+ *
+ * Unit tests for parsing the careeros frontmatter block and merging it over cards
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseNoteCardOverrides, applyNoteCardOverrides, OVERRIDE_SKILL_CONTEXT } from './noteCardOverrides';
+import { NoteCard } from '../types';
+
+const card: Pick<NoteCard, 'type' | 'time_span' | 'tech_stack'> = {
+  type: 'other',
+  time_span: '2023-05',
+  tech_stack: [
+    { name: 'React', context: 'dashboard UI', level: '入门' },
+    { name: 'jQuery', context: 'legacy page', level: '熟悉' },
+  ],
+};
+
+describe('parseNoteCardOverrides', () => {
+  it('should return null without a careeros block', () => {
+    expect(parseNoteCardOverrides(null)).toBeNull();
+    expect(parseNoteCardOverrides({ tags: ['project'] })).toBeNull();
+  });
+
+  it('should parse a valid block and accept YAML dates as time span', () => {
+    const overrides = parseNoteCardOverrides({
+      careeros: {
+        type: 'project',
+        time_span: new Date('2023-01-15T00:00:00Z'),
+        skills: { react: '精通' },
+        exclude_skills: ['jQuery'],
+      },
+    });
+
+    expect(overrides).toEqual({
+      type: 'project',
+      time_span: '2023-01-15',
+      skills: { react: '精通' },
+      exclude_skills: ['jQuery'],
+    });
+  });
+
+  it('should ignore an invalid block', () => {
+    expect(parseNoteCardOverrides({ careeros: { skills: { React: 'expert' } } })).toBeNull();
+  });
+});
+
+describe('applyNoteCardOverrides', () => {
+  it('should return the card unchanged without overrides', () => {
+    expect(applyNoteCardOverrides(card, null)).toBe(card);
+  });
+
+  it('should pin type, time span and skill levels', () => {
+    const result = applyNoteCardOverrides(card, {
+      type: 'project',
+      time_span: '2023-01 到 2023-06',
+      skills: { react: '精通', Go: '熟练' },
+    });
+
+    expect(result.type).toBe('project');
+    expect(result.time_span).toBe('2023-01 到 2023-06');
+    expect(result.tech_stack).toEqual([
+      { name: 'React', context: 'dashboard UI', level: '精通' },
+      { name: 'jQuery', context: 'legacy page', level: '熟悉' },
+      { name: 'Go', context: OVERRIDE_SKILL_CONTEXT, level: '熟练' },
+    ]);
+    // The extracted card is not mutated
+    expect(card.tech_stack).toHaveLength(2);
+  });
+
+  it('should drop excluded skills even when a level is pinned', () => {
+    const result = applyNoteCardOverrides(card, {
+      skills: { jquery: '精通' },
+      exclude_skills: ['JQUERY'],
+    });
+
+    expect(result.tech_stack.map(t => t.name)).toEqual(['React']);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * NoteCard Overrides - Applies the `careeros:` frontmatter block to extracted cards
+ *
+ * The block lets a note pin what the model tends to get wrong: its type,
+ * time span and skill levels. Overrides are re-applied on every extraction,
+ * so they survive content changes and fix cards without editing index JSON.
+ */
+
+import { NoteCard, NoteCardOverrides } from '../types';
+import { NoteCardOverridesSchema } from '../schema';
+
+/**
+ * Context recorded for skills that only appear in the frontmatter
+ */
+export const OVERRIDE_SKILL_CONTEXT = 'frontmatter';
+
+/**
+ * Read the `careeros` key of parsed frontmatter
+ *
+ * An invalid block is logged and ignored, so a typo never fails extraction.
+ *
+ * @returns null when the note has no (valid) block
+ */
+export function parseNoteCardOverrides(frontmatter: unknown, notePath = ''): NoteCardOverrides | null {
+  if (!frontmatter || typeof frontmatter !== 'object') {
+    return null;
+  }
+
+  const block = (frontmatter as Record<string, unknown>).careeros;
+  if (block === undefined || block === null) {
+    return null;
+  }
+
+  const result = NoteCardOverridesSchema.safeParse(block);
+  if (!result.success) {
+    console.warn(`Ignoring invalid careeros frontmatter in ${notePath}:`, result.error.message);
+    return null;
+  }
+
+  return result.data;
+}
+
+/**
+ * Merge overrides over a card
+ *
+ * Skill names match case-insensitively. Listed skills get the pinned level
+ * (and are added when the model missed them); excluded skills are removed
+ * last, so exclusion wins over a level.
+ */
+export function applyNoteCardOverrides<T extends Pick<NoteCard, 'type' | 'time_span' | 'tech_stack'>>(
+  card: T,
+  overrides: NoteCardOverrides | null
+): T {
+  if (!overrides) {
+    return card;
+  }
+
+  let techStack = card.tech_stack;
+
+  if (overrides.skills) {
+    const pinned = new Map(Object.entries(overrides.skills).map(([name, level]) => [name.toLowerCase(), { name, level }]));
+
+    techStack = techStack.map(tech => {
+      const pin = pinned.get(tech.name.toLowerCase());
+      if (!pin) {
+        return tech;
+      }
+      pinned.delete(tech.name.toLowerCase());
+      return { ...tech, level: pin.level };
+    });
+
+    for (const { name, level } of pinned.values()) {
+      techStack.push({ name, context: OVERRIDE_SKILL_CONTEXT, level });
+    }
+  }
+
+  if (overrides.exclude_skills) {
+    const excluded = new Set(overrides.exclude_skills.map(name => name.toLowerCase()));
+    techStack = techStack.filter(tech => !excluded.has(tech.name.toLowerCase()));
+  }
+
+  return {
+    ...card,
+    type: overrides.type ?? card.type,
+    time_span: overrides.time_span ?? card.time_span,
+    tech_stack: techStack,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Note Chunker Tests
+ *
+ * Unit tests for heading-based splitting and merging of partial NoteCards
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitNoteIntoChunks, mergeNoteCardContents, NoteCardContent, MAX_MERGED_SUMMARY_LENGTH } from './noteChunker';
+
+const createPart = (overrides: Partial<NoteCardContent>): NoteCardContent => ({
+  summary: '',
+  type: 'other',
+  time_span: '',
+  tech_stack: [],
+  topics: [],
+  preferences: { likes: [], dislikes: [], traits: [] },
+  evidence: [],
+  last_updated: '',
+  ...overrides,
+});
+
+describe('splitNoteIntoChunks', () => {
+  it('should keep short notes whole', () => {
+    const content = '# Title\n\nShort note';
+    expect(splitNoteIntoChunks(content, 1000)).toEqual([content]);
+  });
+
+  it('should not split when chunking is disabled', () => {
+    const content = 'x'.repeat(10000);
+    expect(splitNoteIntoChunks(content, 0)).toEqual([content]);
+  });
+
+  it('should split on headings and keep the frontmatter in the first chunk', () => {
+    const section = (title: string) => `## ${title}\n\n${'word '.repeat(60)}\n`;
+    const content = `---\ntags: [log]\n---\n# Log\n\n${section('Week 1')}${section('Week 2')}${section('Week 3')}`;
+
+    const chunks = splitNoteIntoChunks(content, 100);
+
+    expect(chunks.length).toBe(3);
+    expect(chunks[0].startsWith('---\ntags: [log]\n---')).toBe(true);
+    expect(chunks[1].startsWith('## Week 2')).toBe(true);
+    expect(chunks[2].startsWith('## Week 3')).toBe(true);
+  });
+
+  it('should not split on headings inside code fences', () => {
+    const code = '```bash\n# not a heading\n' + 'echo hi\n'.repeat(40) + '```\n';
+    const content = `## Setup\n\n${code}## Next\n\n${'word '.repeat(100)}`;
+
+    const chunks = splitNoteIntoChunks(content, 150);
+
+    expect(chunks.some(c => c.startsWith('# not a heading'))).toBe(false);
+    expect(chunks[0]).toContain('# not a heading');
+  });
+
+  it('should split oversized sections on paragraphs and repeat the heading', () => {
+    const paragraph = 'word '.repeat(60).trim();
+    const content = `## Long\n\n${paragraph}\n\n${paragraph}\n\n${paragraph}\n`;
+
+    const chunks = splitNoteIntoChunks(content, 100);
+
+    expect(chunks.length).toBe(3);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith('## Long')).toBe(true);
+      expect(chunk).toContain(paragraph);
+    }
+  });
+});
+
+describe('mergeNoteCardContents', () => {
+  it('should keep the highest level of each tech item', () => {
+    const merged = mergeNoteCardContents([
+      createPart({ tech_stack: [{ name: 'React', context: 'first try', level: '入门' }] }),
+      createPart({ tech_stack: [
+        { name: 'react', context: 'shipped dashboard', level: '熟练' },
+        { name: 'Go', context: 'cli', level: '熟悉' },
+      ] }),
+    ]);
+
+    expect(merged.tech_stack).toEqual([
+      { name: 'react', context: 'shipped dashboard', level: '熟练' },
+      { name: 'Go', context: 'cli', level: '熟悉' },
+    ]);
+  });
+
+  it('should widen the time span and union the lists', () => {
+    const merged = mergeNoteCardContents([
+      createPart({
+        summary: 'Project log',
+        type: 'project',
+        time_span: '2023-03 到 2023-05',
+        topics: ['web'],
+        evidence: ['built login'],
+        preferences: { likes: ['pairing'], dislikes: [], traits: [] },
+        last_updated: '2023-05-20',
+      }),
+      createPart({
+        type: 'other',
+        time_span: '2023-01',
+        topics: ['web', 'infra'],
+        evidence: ['set up CI'],
+        preferences: { likes: ['pairing', 'docs'], dislikes: [], traits: ['careful'] },
+        last_updated: '2023-06-01',
+      }),
+    ]);
+
+    expect(merged.summary).toBe('Project log');
+    expect(merged.type).toBe('project');
+    expect(merged.time_span).toBe('2023-01 到 2023-05');
+    expect(merged.topics).toEqual(['web', 'infra']);
+    expect(merged.evidence).toEqual(['built login', 'set up CI']);
+    expect(merged.preferences).toEqual({ likes: ['pairing', 'docs'], dislikes: [], traits: ['careful'] });
+    expect(merged.last_updated).toBe('2023-06-01');
+  });
+
+  it('should join the chunk summaries', () => {
+    const merged = mergeNoteCardContents([
+      createPart({ summary: '搭建了爬虫框架。' }),
+      createPart({ summary: '将服务部署到 Kubernetes。' }),
+      createPart({ summary: '搭建了爬虫框架。' }),
+    ]);
+
+    expect(merged.summary).toBe('搭建了爬虫框架。 将服务部署到 Kubernetes。');
+  });
+
+  it('should keep the merged summary brief', () => {
+    const long = 'x'.repeat(MAX_MERGED_SUMMARY_LENGTH - 10);
+    const merged = mergeNoteCardContents([
+      createPart({ summary: long }),
+      createPart({ summary: '将服务部署到 Kubernetes。' }),
+      createPart({ summary: '加了监控。' }),
+    ]);
+
+    expect(merged.summary).toBe(long);
+  });
+
+  it('should keep an open end and year-only spans when widening', () => {
+    const span = (...spans: string[]) => mergeNoteCardContents(spans.map(time_span => createPart({ time_span }))).time_span;
+
+    expect(span('2021-03 到 2022-06', '2023-01 到 至今')).toBe('2021-03 到 至今');
+    expect(span('2020', '2021-03 到 2021-06')).toBe('2020 到 2021-06');
+    expect(span('2021-03 到 2021-06', '2021')).toBe('2021');
+  });
+});
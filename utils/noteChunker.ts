@@ -0,0 +1,254 @@
+/**
+ * Note Chunker - Splits long notes for extraction and merges the partial NoteCards
+ *
+ * Long project logs do not fit one extraction prompt, so they are split on
+ * heading boundaries and each chunk is extracted on its own. The partial
+ * cards are then merged into one card for the whole note:
+ * - summary: chunk summaries in order, up to MAX_MERGED_SUMMARY_LENGTH
+ * - tech_stack: union by name, keeping the highest level
+ * - topics, preferences, evidence: union in order of appearance
+ * - time_span: widest span covered by any chunk
+ */
+
+import { NoteCard, NoteType, TechItem } from '../types';
+import { estimateTokens } from '../BudgetGuard';
+
+/**
+ * Fields of a NoteCard produced by extraction (identity and hash are set by the caller)
+ */
+export type NoteCardContent = Pick<
+  NoteCard,
+  'summary' | 'type' | 'time_span' | 'tech_stack' | 'topics' | 'preferences' | 'evidence' | 'last_updated'
+>;
+
+/**
+ * Default chunk size; notes under it are extracted in one request (0 disables chunking)
+ */
+export const DEFAULT_CHUNK_MAX_TOKENS = 6000;
+
+const LEVEL_RANK: Record<TechItem['level'], number> = {
+  '入门': 1,
+  '熟悉': 2,
+  '熟练': 3,
+  '精通': 4,
+};
+
+// ============================================================================
+// Splitting
+// ============================================================================
+
+/**
+ * Split note content into chunks of at most `maxTokens` (estimated)
+ *
+ * Sections start at Markdown headings outside code fences and are packed
+ * greedily. A section that is too long on its own is split on blank lines,
+ * then on lines, and each continuation repeats the section heading.
+ * Content that fits returns a single chunk.
+ */
+export function splitNoteIntoChunks(content: string, maxTokens: number): string[] {
+  if (maxTokens <= 0 || estimateTokens(content) <= maxTokens) {
+    return [content];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+  };
+
+  for (const section of splitSections(content)) {
+    if (estimateTokens(current + section) <= maxTokens) {
+      current += section;
+      continue;
+    }
+
+    flush();
+    if (estimateTokens(section) <= maxTokens) {
+      current = section;
+      continue;
+    }
+
+    // Oversized section: pack its paragraphs (or lines) under the repeated heading
+    const heading = /^#{1,6}\s/.test(section) ? section.split('\n', 1)[0] + '\n\n' : '';
+    for (const piece of splitOversized(section.slice(heading.trimEnd().length), maxTokens - estimateTokens(heading))) {
+      if (current && estimateTokens(current + piece) > maxTokens) {
+        flush();
+      }
+      current = current || heading;
+      current += piece;
+    }
+    flush();
+  }
+  flush();
+
+  return chunks.length > 0 ? chunks : [content];
+}
+
+/**
+ * Split content before each heading line that is not inside a code fence
+ */
+function splitSections(content: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  let inFence = false;
+
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && /^#{1,6}\s/.test(line) && current.trim()) {
+      sections.push(current);
+      current = '';
+    }
+    current += line + '\n';
+  }
+  if (current) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * Pieces of an oversized section: paragraphs, or lines for oversized paragraphs
+ */
+function splitOversized(section: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+
+  for (const paragraph of section.split(/\n\s*\n/)) {
+    if (!paragraph.trim()) continue;
+    if (estimateTokens(paragraph) <= maxTokens) {
+      pieces.push(paragraph + '\n\n');
+    } else {
+      pieces.push(...paragraph.split('\n').map(line => line + '\n'));
+    }
+  }
+
+  return pieces;
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Longest merged summary, so a chunked card still has a brief (1-2 sentence) summary
+ */
+export const MAX_MERGED_SUMMARY_LENGTH = 200;
+
+const SPAN_DATE_PATTERN = /\b(?:19|20)\d{2}(?:-\d{2}(?:-\d{2})?)?\b/g;
+const OPEN_END_PATTERN = /至今|现在|目前|present|now/i;
+
+/**
+ * Merge the partial cards of a chunked note into one
+ */
+export function mergeNoteCardContents(parts: NoteCardContent[]): NoteCardContent {
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  return {
+    summary: mergeSummaries(unique(parts.map(p => p.summary.trim()).filter(Boolean))),
+    type: mergeType(parts.map(p => p.type)),
+    time_span: mergeTimeSpans(parts.map(p => p.time_span)),
+    tech_stack: mergeTechStacks(parts.map(p => p.tech_stack)),
+    topics: unique(parts.flatMap(p => p.topics)),
+    preferences: {
+      likes: unique(parts.flatMap(p => p.preferences.likes)),
+      dislikes: unique(parts.flatMap(p => p.preferences.dislikes)),
+      traits: unique(parts.flatMap(p => p.preferences.traits)),
+    },
+    evidence: unique(parts.flatMap(p => p.evidence)),
+    last_updated: parts.map(p => p.last_updated).filter(Boolean).sort().pop() ?? '',
+  };
+}
+
+/**
+ * Join chunk summaries in order while they fit MAX_MERGED_SUMMARY_LENGTH
+ * Whole summaries are dropped rather than cut; the first one is always kept.
+ */
+function mergeSummaries(summaries: string[]): string {
+  let merged = summaries[0] ?? '';
+  for (const summary of summaries.slice(1)) {
+    if (merged.length + 1 + summary.length > MAX_MERGED_SUMMARY_LENGTH) {
+      break;
+    }
+    merged += ' ' + summary;
+  }
+  return merged;
+}
+
+/**
+ * Union of tech items by case-insensitive name; the highest level wins,
+ * together with its context
+ */
+function mergeTechStacks(stacks: TechItem[][]): TechItem[] {
+  const merged = new Map<string, TechItem>();
+
+  for (const item of stacks.flat()) {
+    const key = item.name.trim().toLowerCase();
+    const existing = merged.get(key);
+    if (!existing || LEVEL_RANK[item.level] > LEVEL_RANK[existing.level]) {
+      merged.set(key, item);
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Most frequent specific type; 'other' only when no chunk found anything else
+ */
+function mergeType(types: NoteType[]): NoteType {
+  const counts = new Map<NoteType, number>();
+  for (const type of types) {
+    if (type !== 'other') {
+      counts.set(type, (counts.get(type) ?? 0) + 1);
+    }
+  }
+
+  let best: NoteType = 'other';
+  let bestCount = 0;
+  for (const [type, count] of counts) {
+    if (count > bestCount) {
+      best = type;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Widest span across chunks, formatted like the prompt asks ("2023-01 到 2023-06")
+ *
+ * Dates may be "2023", "2023-01" or "2023-01-15"; the span stays open
+ * ("到 至今") when any chunk's span is.
+ */
+function mergeTimeSpans(spans: string[]): string {
+  const dates = spans.flatMap(span => span.match(SPAN_DATE_PATTERN) ?? []);
+  const open = spans.some(span => OPEN_END_PATTERN.test(span));
+
+  if (dates.length === 0) {
+    return spans.find(Boolean) ?? '';
+  }
+
+  // A year alone starts before and ends after its months
+  const start = dates.reduce((a, b) => (b < a ? b : a));
+  const end = dates.reduce((a, b) => (endKey(b) > endKey(a) ? b : a));
+  if (open) {
+    return `${start} 到 至今`;
+  }
+  return start === end ? start : `${start} 到 ${end}`;
+}
+
+function endKey(date: string): string {
+  return date.length === 4 ? `${date}-99` : date;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
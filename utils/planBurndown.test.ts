@@ -0,0 +1,97 @@
+/**
+ * Plan Burndown Tests
+ *
+ * Unit tests for reading plan progress from the plan's own checkboxes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPlanBurndown, parsePeriodWeeks, readPlanTasks } from './planBurndown';
+import { PlanProgress } from '../types';
+
+const PLAN = `## 2. 阶段性目标
+
+### 第一阶段（第 1-2 周）：基础夯实
+### 第二阶段（第 3-4 周）：技能提升
+
+## 3. 每周任务清单
+
+### 第 1 周
+- [x] [skill:Python] 完成异步编程教程（预计 3 小时）
+- [x] 整理学习笔记（预计 1 小时）
+
+### 第 2 周
+- [ ] [skill:Docker] 编写 Dockerfile（预计 4 小时）
+
+### 第 3 周
+- [ ] [skill:Kubernetes] 部署一个服务（预计 5 小时）
+`;
+
+const plan = {
+  planPath: 'mapping/action_plan_backend_remote_2024-01-01.md',
+  period: '1 个月',
+  weeklyHours: 6,
+  generatedAt: '2024-01-01T09:00:00.000Z',
+};
+
+describe('parsePeriodWeeks', () => {
+  it('should convert months and keep weeks', () => {
+    expect(parsePeriodWeeks('3 个月')).toBe(13);
+    expect(parsePeriodWeeks('6 months')).toBe(26);
+    expect(parsePeriodWeeks('8 周')).toBe(8);
+    expect(parsePeriodWeeks('')).toBeNull();
+  });
+});
+
+describe('buildPlanBurndown', () => {
+  it('should summarize weeks, hours and phases from the checkboxes', () => {
+    const burndown = buildPlanBurndown(PLAN, plan, null, new Date('2024-01-09T10:00:00.000Z'));
+
+    expect(burndown).toMatchObject({
+      current_week: 2,
+      period_weeks: 4,
+      weekly_hours: 6,
+      total_tasks: 4,
+      done_tasks: 2,
+      overdue_tasks: 0,
+      behind_schedule: false,
+    });
+    expect(burndown.weeks).toEqual([
+      { week: 1, total: 2, done: 2, planned_hours: 4, done_hours: 4 },
+      { week: 2, total: 1, done: 0, planned_hours: 4, done_hours: 0 },
+      { week: 3, total: 1, done: 0, planned_hours: 5, done_hours: 0 },
+    ]);
+    expect(burndown.phases).toEqual([
+      { name: '基础夯实', from_week: 1, to_week: 2, total: 3, done: 2 },
+      { name: '技能提升', from_week: 3, to_week: 3, total: 1, done: 0 },
+    ]);
+    expect(burndown.burndown.map(p => [p.week, p.ideal, p.scheduled])).toEqual([
+      [0, 4, 4], [1, 3, 2], [2, 2, 1], [3, 1, 0], [4, 0, 0],
+    ]);
+  });
+
+  it('should warn when a past week still has open tasks', () => {
+    const burndown = buildPlanBurndown(PLAN, plan, null, new Date('2024-01-22T10:00:00.000Z'));
+
+    expect(burndown.current_week).toBe(4);
+    expect(burndown.overdue_tasks).toBe(2);
+    expect(burndown.behind_schedule).toBe(true);
+  });
+
+  it('should count tasks ticked in tasks notes and start week 1 when tracking started', () => {
+    const tasks = readPlanTasks(PLAN);
+    const progress: PlanProgress = {
+      plan_path: plan.planPath,
+      started_at: '2024-01-15T09:00:00.000Z',
+      tasks: tasks.map(t => ({ ...t, done: t.week === 2 })),
+      task_notes: [],
+      updated_at: '2024-01-20T09:00:00.000Z',
+    };
+
+    const burndown = buildPlanBurndown(PLAN, plan, progress, new Date('2024-01-22T10:00:00.000Z'));
+
+    expect(burndown.current_week).toBe(2);
+    expect(burndown.done_tasks).toBe(3);
+    expect(burndown.overdue_tasks).toBe(0);
+    expect(burndown.behind_schedule).toBe(false);
+  });
+});
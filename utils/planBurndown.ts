@@ -0,0 +1,148 @@
+/**
+ * Plan Burndown - Progress of an action plan
+ *
+ * A task under a "### 第 N 周" heading counts as done when it is ticked in
+ * the plan document or in the tasks notes TaskBridge tracks. Week 1 starts
+ * when TaskBridge started tracking the plan (the plan's generated_at before
+ * that), and the period ("3 个月") sets how many weeks the ideal burndown
+ * line spans.
+ *
+ * A plan is behind schedule when a week that has already ended still has
+ * open tasks.
+ */
+
+import { ActionPlanSummary, PlanBurndown, PlanBurndownPoint, PlanPhaseProgress, PlanProgress, PlanTask, PlanWeekProgress } from '../types';
+import { parsePlanTasks, getPlanWeek } from '../TaskBridge';
+
+const WEEKS_PER_MONTH = 52 / 12;
+
+/**
+ * Weeks in a plan period such as "3 个月" or "6 months"
+ *
+ * @returns Weeks, or null when the period has no number
+ */
+export function parsePeriodWeeks(period: string): number | null {
+  const match = period.match(/(\d+(?:\.\d+)?)/);
+  if (!match) {
+    return null;
+  }
+  const value = parseFloat(match[1]);
+  return Math.round(/周|week/i.test(period) ? value : value * WEEKS_PER_MONTH);
+}
+
+/**
+ * Tasks of a plan document, done when ticked there or in a tracked tasks note
+ *
+ * @param progress - TaskBridge progress record of the plan, if tracked
+ */
+export function readPlanTasks(content: string, progress?: PlanProgress | null): PlanTask[] {
+  const tasks = parsePlanTasks(content);
+  const tracked = new Map((progress?.tasks ?? []).map(t => [t.id, t]));
+  for (const task of tasks) {
+    task.done = task.done || tracked.get(task.id)?.done === true;
+  }
+  return tasks;
+}
+
+/**
+ * Start of week 1: when TaskBridge started tracking the plan, else when it was generated
+ */
+export function getPlanStart(generatedAt: string, progress?: PlanProgress | null): string {
+  return progress?.started_at || generatedAt;
+}
+
+/**
+ * Build the progress view of a plan
+ *
+ * @param content - Plan document
+ * @param plan - Summary from the plan's frontmatter
+ * @param progress - TaskBridge progress record of the plan, if tracked
+ */
+export function buildPlanBurndown(
+  content: string,
+  plan: Pick<ActionPlanSummary, 'planPath' | 'period' | 'weeklyHours' | 'generatedAt'>,
+  progress?: PlanProgress | null,
+  now: Date = new Date()
+): PlanBurndown {
+  const tasks = readPlanTasks(content, progress);
+  const lastTaskWeek = tasks.reduce((max, t) => Math.max(max, t.week), 0);
+  const periodWeeks = Math.max(parsePeriodWeeks(plan.period) ?? 0, lastTaskWeek, 1);
+  const startedAt = getPlanStart(plan.generatedAt, progress);
+  const currentWeek = startedAt ? getPlanWeek(startedAt, now) : 1;
+
+  const overdue = tasks.filter(t => !t.done && t.week < currentWeek).length;
+
+  return {
+    plan_path: plan.planPath,
+    current_week: currentWeek,
+    period_weeks: periodWeeks,
+    weekly_hours: plan.weeklyHours,
+    total_tasks: tasks.length,
+    done_tasks: tasks.filter(t => t.done).length,
+    overdue_tasks: overdue,
+    behind_schedule: overdue > 0,
+    weeks: summarizeWeeks(tasks),
+    phases: summarizePhases(tasks),
+    burndown: buildBurndownLine(tasks, periodWeeks),
+  };
+}
+
+function summarizeWeeks(tasks: PlanTask[]): PlanWeekProgress[] {
+  const weeks = new Map<number, PlanWeekProgress>();
+
+  for (const task of tasks) {
+    let week = weeks.get(task.week);
+    if (!week) {
+      week = { week: task.week, total: 0, done: 0, planned_hours: 0, done_hours: 0 };
+      weeks.set(task.week, week);
+    }
+    week.total++;
+    week.planned_hours += task.estimated_hours ?? 0;
+    if (task.done) {
+      week.done++;
+      week.done_hours += task.estimated_hours ?? 0;
+    }
+  }
+
+  return Array.from(weeks.values()).sort((a, b) => a.week - b.week);
+}
+
+/**
+ * Phases in plan order; tasks outside any phase heading are left out
+ */
+function summarizePhases(tasks: PlanTask[]): PlanPhaseProgress[] {
+  const phases = new Map<string, PlanPhaseProgress>();
+
+  for (const task of tasks) {
+    if (!task.phase) {
+      continue;
+    }
+    let phase = phases.get(task.phase);
+    if (!phase) {
+      phase = { name: task.phase, from_week: task.week, to_week: task.week, total: 0, done: 0 };
+      phases.set(task.phase, phase);
+    }
+    phase.from_week = Math.min(phase.from_week, task.week);
+    phase.to_week = Math.max(phase.to_week, task.week);
+    phase.total++;
+    if (task.done) {
+      phase.done++;
+    }
+  }
+
+  return Array.from(phases.values()).sort((a, b) => a.from_week - b.from_week);
+}
+
+function buildBurndownLine(tasks: PlanTask[], periodWeeks: number): PlanBurndownPoint[] {
+  const points: PlanBurndownPoint[] = [];
+
+  for (let week = 0; week <= periodWeeks; week++) {
+    points.push({
+      week,
+      ideal: Math.round(tasks.length * (1 - week / periodWeeks) * 10) / 10,
+      scheduled: tasks.filter(t => t.week > week).length,
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,95 @@
+/**
+ * Profile Diff Tests
+ *
+ * Unit tests for comparing SelfProfile builds and rendering the report
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffProfiles, isEmptyDiff, renderProfileDiffMarkdown } from './profileDiff';
+import { NoteCard, SelfProfile, SkillProfile } from '../types';
+
+function skill(name: string, level: number, evidence_notes: string[]): SkillProfile {
+  return { name, level, evidence_notes, last_active: '2024-01-01' };
+}
+
+function profile(overrides: Partial<SelfProfile>): SelfProfile {
+  return {
+    schema_version: 1,
+    skills: [],
+    preferences: { likes: [], dislikes: [], traits: [] },
+    projects: [],
+    last_built: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('diffProfiles', () => {
+  it('should report new, dropped and changed skills with their causing notes', () => {
+    const before = profile({
+      skills: [
+        skill('Python', 3.0, ['notes/a.md']),
+        skill('jQuery', 1.2, ['notes/old.md']),
+        skill('SQL', 2.0, ['notes/a.md']),
+      ],
+    });
+    const after = profile({
+      last_built: '2024-02-01T00:00:00.000Z',
+      skills: [
+        skill('Python', 3.6, ['notes/a.md', 'notes/b.md']),
+        skill('Go', 1.5, ['notes/c.md']),
+        skill('SQL', 2.02, ['notes/a.md']),
+      ],
+    });
+
+    const diff = diffProfiles(before, after);
+
+    expect(diff.added_skills).toEqual([{ name: 'Go', before: 0, after: 1.5, notes: ['notes/c.md'] }]);
+    expect(diff.removed_skills).toEqual([{ name: 'jQuery', before: 1.2, after: 0, notes: ['notes/old.md'] }]);
+    // SQL moved less than the threshold
+    expect(diff.changed_skills).toEqual([{ name: 'Python', before: 3.0, after: 3.6, notes: ['notes/b.md'] }]);
+  });
+
+  it('should report new projects and preference shifts linked to cards', () => {
+    const before = profile({
+      preferences: { likes: ['backend'], dislikes: [], traits: [] },
+      projects: [{ note_path: 'p/old.md', summary: 'Old', tech_stack: [], time_span: '' }],
+    });
+    const after = profile({
+      preferences: { likes: ['distributed systems'], dislikes: [], traits: [] },
+      projects: [
+        { note_path: 'p/old.md', summary: 'Old', tech_stack: [], time_span: '' },
+        { note_path: 'p/new.md', summary: 'New', tech_stack: [], time_span: '' },
+      ],
+    });
+    const cards = [
+      { note_path: 'r/retro.md', deleted: false, preferences: { likes: ['distributed systems'], dislikes: [], traits: [] } },
+    ] as unknown as NoteCard[];
+
+    const diff = diffProfiles(before, after, cards);
+
+    expect(diff.new_projects.map(p => p.note_path)).toEqual(['p/new.md']);
+    expect(diff.preference_shifts).toEqual([
+      { field: 'likes', value: 'distributed systems', change: 'added', notes: ['r/retro.md'] },
+      { field: 'likes', value: 'backend', change: 'removed', notes: [] },
+    ]);
+  });
+
+  it('should treat identical profiles as an empty diff', () => {
+    const p = profile({ skills: [skill('Python', 3, ['a.md'])] });
+    expect(isEmptyDiff(diffProfiles(p, p))).toBe(true);
+  });
+});
+
+describe('renderProfileDiffMarkdown', () => {
+  it('should link notes and mark level changes without evidence changes', () => {
+    const before = profile({ skills: [skill('Python', 3.0, ['notes/a.md']), skill('SQL', 2.0, ['notes/a.md'])] });
+    const after = profile({ skills: [skill('Python', 3.5, ['notes/a.md', 'notes/b.md']), skill('SQL', 1.6, ['notes/a.md'])] });
+
+    const markdown = renderProfileDiffMarkdown(diffProfiles(before, after));
+
+    expect(markdown).toContain('## Level Changes');
+    expect(markdown).toContain('| Python | 3.0 | 3.5 | +0.50 | [[notes/b\\|b]] |');
+    expect(markdown).toContain('| SQL | 2.0 | 1.6 | -0.40 | *time decay / reweighting* |');
+    expect(markdown).not.toContain('## New Skills');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Profile Diff - Compares two SelfProfile builds
+ *
+ * Lists what a rebuild changed and which notes caused it:
+ * - Skills: new, dropped and level changes, linked to the evidence notes
+ *   that were added or removed between the builds
+ * - Projects: projects that were not in the older profile
+ * - Preferences: likes, dislikes and traits that appeared or disappeared,
+ *   linked to the NoteCards that state them
+ *
+ * A level change without evidence changes comes from time decay or
+ * reweighting (e.g. a card being confirmed).
+ */
+
+import { NoteCard, Preferences, PreferenceShift, ProfileDiff, SelfProfile, SkillChange } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Level changes below this are rounding noise and not reported
+ */
+export const MIN_LEVEL_DELTA = 0.05;
+
+const PREFERENCE_FIELDS: (keyof Preferences)[] = ['likes', 'dislikes', 'traits'];
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * Compare an older and a newer profile
+ *
+ * @param cards - Current NoteCards, used to link preference shifts to notes
+ */
+export function diffProfiles(before: SelfProfile, after: SelfProfile, cards: NoteCard[] = []): ProfileDiff {
+  const beforeSkills = new Map(before.skills.map(s => [s.name, s]));
+  const afterSkills = new Map(after.skills.map(s => [s.name, s]));
+
+  const added_skills: SkillChange[] = after.skills
+    .filter(s => !beforeSkills.has(s.name))
+    .map(s => ({ name: s.name, before: 0, after: s.level, notes: s.evidence_notes }));
+
+  const removed_skills: SkillChange[] = before.skills
+    .filter(s => !afterSkills.has(s.name))
+    .map(s => ({ name: s.name, before: s.level, after: 0, notes: s.evidence_notes }));
+
+  const changed_skills: SkillChange[] = [];
+  for (const skill of after.skills) {
+    const previous = beforeSkills.get(skill.name);
+    if (!previous || Math.abs(skill.level - previous.level) < MIN_LEVEL_DELTA) {
+      continue;
+    }
+    changed_skills.push({
+      name: skill.name,
+      before: previous.level,
+      after: skill.level,
+      notes: symmetricDifference(previous.evidence_notes, skill.evidence_notes),
+    });
+  }
+  changed_skills.sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+
+  const beforeProjects = new Set(before.projects.map(p => p.note_path));
+  const new_projects = after.projects.filter(p => !beforeProjects.has(p.note_path));
+
+  const preference_shifts: PreferenceShift[] = [];
+  for (const field of PREFERENCE_FIELDS) {
+    const previous = new Set(before.preferences[field]);
+    const current = new Set(after.preferences[field]);
+    for (const value of current) {
+      if (!previous.has(value)) {
+        preference_shifts.push({ field, value, change: 'added', notes: findPreferenceNotes(cards, field, value) });
+      }
+    }
+    for (const value of previous) {
+      if (!current.has(value)) {
+        preference_shifts.push({ field, value, change: 'removed', notes: findPreferenceNotes(cards, field, value) });
+      }
+    }
+  }
+
+  return {
+    from: before.last_built,
+    to: after.last_built,
+    added_skills,
+    removed_skills,
+    changed_skills,
+    new_projects,
+    preference_shifts,
+  };
+}
+
+/**
+ * Whether the diff has anything to report
+ */
+export function isEmptyDiff(diff: ProfileDiff): boolean {
+  return diff.added_skills.length === 0 &&
+    diff.removed_skills.length === 0 &&
+    diff.changed_skills.length === 0 &&
+    diff.new_projects.length === 0 &&
+    diff.preference_shifts.length === 0;
+}
+
+function symmetricDifference(a: string[], b: string[]): string[] {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return [...b.filter(x => !setA.has(x)), ...a.filter(x => !setB.has(x))];
+}
+
+function findPreferenceNotes(cards: NoteCard[], field: keyof Preferences, value: string): string[] {
+  return cards
+    .filter(card => !card.deleted && card.preferences[field].includes(value))
+    .map(card => card.note_path);
+}
+
+// ============================================================================
+// Markdown Report
+// ============================================================================
+
+/**
+ * Render a diff as a Markdown report with wiki links to the source notes
+ */
+export function renderProfileDiffMarkdown(diff: ProfileDiff): string {
+  let content = `---
+from: ${diff.from}
+to: ${diff.to}
+added_skills: ${diff.added_skills.length}
+removed_skills: ${diff.removed_skills.length}
+changed_skills: ${diff.changed_skills.length}
+new_projects: ${diff.new_projects.length}
+---
+
+# Profile Diff
+
+Comparing the profile built ${diff.from} with the one built ${diff.to}.
+`;
+
+  if (isEmptyDiff(diff)) {
+    return content + '\n*No changes between these builds.*\n';
+  }
+
+  if (diff.added_skills.length > 0) {
+    content += '\n## New Skills\n\n';
+    for (const skill of diff.added_skills) {
+      content += `- **${skill.name}** (${skill.after.toFixed(1)})${formatNotes(skill.notes)}\n`;
+    }
+  }
+
+  if (diff.removed_skills.length > 0) {
+    content += '\n## Dropped Skills\n\n';
+    for (const skill of diff.removed_skills) {
+      content += `- **${skill.name}** (was ${skill.before.toFixed(1)})${formatNotes(skill.notes)}\n`;
+    }
+  }
+
+  if (diff.changed_skills.length > 0) {
+    content += '\n## Level Changes\n\n| Skill | Before | After | Δ | Caused by |\n|-------|--------|-------|---|-----------|\n';
+    for (const skill of diff.changed_skills) {
+      const delta = skill.after - skill.before;
+      const cause = skill.notes.length > 0
+        ? skill.notes.map(notePath => formatLink(notePath, true)).join(', ')
+        : '*time decay / reweighting*';
+      content += `| ${skill.name} | ${skill.before.toFixed(1)} | ${skill.after.toFixed(1)} | ${delta > 0 ? '+' : ''}${delta.toFixed(2)} | ${cause} |\n`;
+    }
+  }
+
+  if (diff.new_projects.length > 0) {
+    content += '\n## New Projects\n\n';
+    for (const project of diff.new_projects) {
+      content += `- ${formatLink(project.note_path)}: ${project.summary}\n`;
+    }
+  }
+
+  if (diff.preference_shifts.length > 0) {
+    content += '\n## Preference Shifts\n\n';
+    for (const shift of diff.preference_shifts) {
+      const sign = shift.change === 'added' ? '+' : '−';
+      content += `- ${sign} ${shift.field}: ${shift.value}${formatNotes(shift.notes)}\n`;
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Wiki link showing the note name; inside a table cell the alias pipe is
+ * escaped so it does not split the cell
+ */
+function formatLink(notePath: string, inTable: boolean = false): string {
+  const target = notePath.replace(/\.md$/, '');
+  const name = target.split('/').pop() || target;
+  return `[[${target}${inTable ? '\\|' : '|'}${name}]]`;
+}
+
+function formatNotes(notes: string[]): string {
+  return notes.length > 0 ? ` — ${notes.map(notePath => formatLink(notePath)).join(', ')}` : '';
+}
@@ -0,0 +1,60 @@
+/**
+ * Skill Decay Tests
+ *
+ * Unit tests for decay curves and per-skill/per-category curve resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateDecay, resolveDecayCurve, DEFAULT_DECAY_CURVE } from './skillDecay';
+
+const now = new Date('2024-07-01T00:00:00Z');
+
+// Date `months` (of 30 days) before `now`
+const monthsAgo = (months: number): string =>
+  new Date(now.getTime() - months * 30 * 24 * 60 * 60 * 1000).toISOString();
+
+describe('calculateDecay', () => {
+  it('should apply the stepped curve', () => {
+    expect(calculateDecay(DEFAULT_DECAY_CURVE, monthsAgo(3), now)).toBe(1.0);
+    expect(calculateDecay(DEFAULT_DECAY_CURVE, monthsAgo(9), now)).toBe(0.8);
+    expect(calculateDecay(DEFAULT_DECAY_CURVE, monthsAgo(18), now)).toBe(0.6);
+    expect(calculateDecay(DEFAULT_DECAY_CURVE, monthsAgo(30), now)).toBe(0.4);
+    expect(calculateDecay(DEFAULT_DECAY_CURVE, monthsAgo(60), now)).toBe(0.2);
+  });
+
+  it('should halve the weight every half-life', () => {
+    const curve = { kind: 'half_life' as const, halfLifeMonths: 12 };
+
+    expect(calculateDecay(curve, monthsAgo(0), now)).toBeCloseTo(1);
+    expect(calculateDecay(curve, monthsAgo(12), now)).toBeCloseTo(0.5);
+    expect(calculateDecay(curve, monthsAgo(36), now)).toBeCloseTo(0.125);
+  });
+
+  it('should not exceed 1 for future dates', () => {
+    const curve = { kind: 'half_life' as const, halfLifeMonths: 12 };
+    expect(calculateDecay(curve, '2025-01-01', now)).toBe(1);
+  });
+
+  it('should use a fixed factor for invalid dates', () => {
+    expect(calculateDecay(DEFAULT_DECAY_CURVE, 'not a date', now)).toBe(0.5);
+  });
+});
+
+describe('resolveDecayCurve', () => {
+  const categoryCurves = { language: { kind: 'half_life' as const, halfLifeMonths: 60 } };
+
+  it('should prefer the skill curve over the category curve', () => {
+    const skillCurve = { kind: 'half_life' as const, halfLifeMonths: 6 };
+    expect(resolveDecayCurve(skillCurve, 'language', categoryCurves))
+      .toEqual({ curve: skillCurve, source: 'skill' });
+  });
+
+  it('should fall back to the category curve, then the default', () => {
+    expect(resolveDecayCurve(undefined, 'language', categoryCurves))
+      .toEqual({ curve: categoryCurves.language, source: 'category' });
+    expect(resolveDecayCurve(undefined, 'framework', categoryCurves))
+      .toEqual({ curve: DEFAULT_DECAY_CURVE, source: 'default' });
+    expect(resolveDecayCurve(undefined, undefined, undefined))
+      .toEqual({ curve: DEFAULT_DECAY_CURVE, source: 'default' });
+  });
+});
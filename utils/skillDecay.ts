@@ -0,0 +1,102 @@
+/**
+ * Skill Decay - Time decay curves for skill scoring
+ *
+ * Property 19: Skill scoring with time decay
+ *
+ * A curve is picked per skill, most specific first:
+ * 1. The skill's taxonomy mapping (`decay`)
+ * 2. The skill category (`decayCurves` setting)
+ * 3. The stepped default curve
+ *
+ * So a language learned years ago can keep its weight while a short-lived
+ * framework fades quickly.
+ */
+
+import { DecayCurve, SkillCategory, SkillDecayInfo } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_DECAY_CURVE: DecayCurve = { kind: 'stepped' };
+
+/**
+ * Decay applied when the activity date cannot be parsed
+ */
+const INVALID_DATE_DECAY = 0.5;
+
+const MONTH_MS = 1000 * 60 * 60 * 24 * 30;
+
+// ============================================================================
+// Curves
+// ============================================================================
+
+/**
+ * Stepped decay:
+ * - Within 6 months: 1.0 (no decay)
+ * - 6-12 months: 0.8
+ * - 12-24 months: 0.6
+ * - 24-36 months: 0.4
+ * - Over 36 months: 0.2
+ */
+function steppedDecay(monthsDiff: number): number {
+  if (monthsDiff <= 6) return 1.0;
+  if (monthsDiff <= 12) return 0.8;
+  if (monthsDiff <= 24) return 0.6;
+  if (monthsDiff <= 36) return 0.4;
+  return 0.2;
+}
+
+/**
+ * Exponential decay halving every `halfLifeMonths`
+ */
+function halfLifeDecay(monthsDiff: number, halfLifeMonths: number): number {
+  return Math.pow(0.5, Math.max(0, monthsDiff) / halfLifeMonths);
+}
+
+/**
+ * Weight of evidence last active at `lastActiveDate` under a curve
+ */
+export function calculateDecay(curve: DecayCurve, lastActiveDate: string, now: Date = new Date()): number {
+  const lastActive = new Date(lastActiveDate);
+
+  // Handle invalid dates
+  if (isNaN(lastActive.getTime())) {
+    return INVALID_DATE_DECAY;
+  }
+
+  const monthsDiff = (now.getTime() - lastActive.getTime()) / MONTH_MS;
+
+  return curve.kind === 'half_life'
+    ? halfLifeDecay(monthsDiff, curve.halfLifeMonths)
+    : steppedDecay(monthsDiff);
+}
+
+/**
+ * Pick the curve of a skill (skill mapping, then category, then default)
+ */
+export function resolveDecayCurve(
+  skillCurve: DecayCurve | undefined,
+  category: SkillCategory | undefined,
+  categoryCurves: Partial<Record<SkillCategory, DecayCurve>> | undefined
+): Pick<SkillDecayInfo, 'curve' | 'source'> {
+  if (skillCurve) {
+    return { curve: skillCurve, source: 'skill' };
+  }
+
+  const categoryCurve = category ? categoryCurves?.[category] : undefined;
+  if (categoryCurve) {
+    return { curve: categoryCurve, source: 'category' };
+  }
+
+  return { curve: DEFAULT_DECAY_CURVE, source: 'default' };
+}
+
+/**
+ * Short description of a curve for display
+ */
+export function describeDecayCurve(curve: DecayCurve): string {
+  return curve.kind === 'half_life'
+    ? `half-life ${curve.halfLifeMonths} months`
+    : 'stepped';
+}
@@ -0,0 +1,45 @@
+/**
+ * Write Queue Tests
+ *
+ * Unit tests for task ordering and failure handling
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WriteQueue } from './writeQueue';
+
+describe('WriteQueue', () => {
+  it('should start each task after the previous one settles', async () => {
+    const queue = new WriteQueue();
+    const order: string[] = [];
+    let release: () => void = () => {};
+
+    const first = queue.run(() => new Promise<void>(resolve => {
+      order.push('first start');
+      release = () => { order.push('first end'); resolve(); };
+    }));
+    const second = queue.run(async () => { order.push('second'); });
+
+    await Promise.resolve();
+    release();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first start', 'first end', 'second']);
+  });
+
+  it('should keep running after a failed task', async () => {
+    const queue = new WriteQueue();
+
+    await expect(queue.run(async () => { throw new Error('disk full'); })).rejects.toThrow('disk full');
+    expect(await queue.run(async () => 'written')).toBe('written');
+  });
+
+  it('should log instead of throwing for logged tasks', async () => {
+    const queue = new WriteQueue();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(queue.runLogged(async () => { throw new Error('disk full'); }, 'Failed to save:')).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledWith('Failed to save:', expect.any(Error));
+
+    consoleError.mockRestore();
+  });
+});
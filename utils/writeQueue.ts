@@ -0,0 +1,28 @@
+/**
+ * Write Queue - Serializes writes to a plugin data file
+ *
+ * Each task starts only after every earlier task has settled, so concurrent
+ * updates never interleave on disk. A failed task does not block later ones.
+ */
+
+export class WriteQueue {
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue a task; the returned promise rejects when the task fails
+   */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.tail.then(task);
+    this.tail = next.then(() => undefined, () => undefined);
+    return next;
+  }
+
+  /**
+   * Queue a task whose failure is logged under `message`, not thrown
+   */
+  runLogged(task: () => Promise<void>, message: string): Promise<void> {
+    return this.run(task).catch(error => {
+      console.error(message, error);
+    });
+  }
+}
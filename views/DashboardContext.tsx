@@ -11,8 +11,8 @@
  * Requirements: 11.4
  */
 
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { SelfProfile, MarketProfile, QueueStatus, SkillProfile, ProjectSummary, ErrorLogSummary, MarketProfileSummary, GapAnalysisSummary, ActionPlanSummary } from '../types';
+import React, { createContext, useContext, useState, useCallback, useRef, ReactNode } from 'react';
+import { SelfProfile, MarketProfile, QueueStatus, SkillProfile, ProjectSummary, ErrorLogSummary, ErrorLogEntry, MarketProfileSummary, GapAnalysisSummary, ActionPlanSummary, UsageMonthSummary, SkillLevelPoint, TargetComparison, JobFit, PlanBurndown } from '../types';
 
 // ============================================================================
 // Types
@@ -56,6 +56,28 @@ export interface ProgressNotification {
   timestamp: string;
 }
 
+/**
+ * Stage of a streamed report generation
+ */
+export type ReportStreamStage = 'gap' | 'plan';
+
+/**
+ * Handlers passed to the plugin so gap/plan reports can be rendered as they stream
+ */
+export interface ReportStreamHandlers {
+  onStage: (stage: ReportStreamStage) => void;
+  onToken: (token: string) => void;
+  signal: AbortSignal;
+}
+
+/**
+ * Progressive report output shown while a plan is being generated
+ */
+export interface ReportStreamState {
+  stage: ReportStreamStage | null;
+  text: string;
+}
+
 export interface DashboardState {
   // Data
   selfProfile: SelfProfile | null;
@@ -64,7 +86,10 @@ export interface DashboardState {
   gapAnalyses: GapAnalysisSummary[];
   actionPlans: ActionPlanSummary[];
   activePlanPath: string | null;
+  planBurndown: PlanBurndown | null;
   errorCount: number;
+  usageSummaries: UsageMonthSummary[];
+  jobFits: JobFit[];
   
   // Error log data
   errorLogSummary: ErrorLogSummary | null;
@@ -80,6 +105,16 @@ export interface DashboardState {
   notifications: ProgressNotification[];
   isBuildingMarketProfile: boolean;
   
+  // Multi-target comparison
+  targetComparison: TargetComparison | null;
+  isComparingTargets: boolean;
+  
+  // Re-planning of the active plan
+  isReplanning: boolean;
+  
+  // Streamed gap analysis / plan output
+  reportStream: ReportStreamState;
+  
   // Workflow status
   workflowStatus: WorkflowStatus;
   
@@ -106,6 +141,9 @@ export interface DashboardActions {
   loadErrorLog: () => Promise<void>;
   openErrorLogModal: () => void;
   closeErrorLogModal: () => void;
+  retryErrorEntries: (entries: ErrorLogEntry[]) => Promise<void>;
+  ignoreErrorEntries: (entries: ErrorLogEntry[]) => Promise<void>;
+  unignoreErrorEntries: (entries: ErrorLogEntry[]) => Promise<void>;
   
   // State setters
   setSelfProfile: (profile: SelfProfile | null) => void;
@@ -120,19 +158,24 @@ export interface DashboardActions {
   
   // Detail view actions
   selectSkill: (skill: SkillProfile | null) => void;
+  loadSkillHistory: (skillName: string) => Promise<SkillLevelPoint[]>;
   selectProject: (project: ProjectSummary | null) => void;
   selectMarketProfile: (profile: MarketProfileSummary | null) => void;
+  openNote: (path: string) => void;
   
   // Workflow actions
   indexNotes: () => Promise<void>;
   extractJDs: () => Promise<void>;
   generatePlan: () => Promise<void>;
+  cancelPlanGeneration: () => void;
   
   // Market profile actions
   buildMarketProfile: (role: string, location: string) => Promise<void>;
+  compareTargets: () => Promise<void>;
   
   // Action plan actions
   setActivePlan: (planPath: string) => Promise<void>;
+  replanActivePlan: () => Promise<void>;
   
   // Progress tracking actions (Requirements: 4.3, 4.4)
   startProgressTracking: (operationLabel: string) => void;
@@ -186,23 +229,41 @@ export interface DashboardProviderProps {
   onLoadErrorLog: () => Promise<ErrorLogSummary | null>;
   onRefreshSelfProfile: () => Promise<SelfProfile>;
   
+  // Error log callbacks
+  onRetryErrors?: (entries: ErrorLogEntry[]) => Promise<void>;
+  onIgnoreErrors?: (entries: ErrorLogEntry[]) => Promise<void>;
+  onUnignoreErrors?: (entries: ErrorLogEntry[]) => Promise<void>;
+  
   // Workflow action callbacks
-  onIndexNotes?: () => Promise<void>;
+  onIndexNotes?: (onProgress?: (status: QueueStatus) => void) => Promise<void>;
   onExtractJDs?: () => Promise<void>;
-  onGeneratePlan?: () => Promise<void>;
+  onGeneratePlan?: (stream?: ReportStreamHandlers) => Promise<void>;
   onCheckActionPlans?: () => Promise<boolean>;
   
   // Market profile callbacks
   onBuildMarketProfile?: (role: string, location: string) => Promise<void>;
+  onCompareTargets?: () => Promise<TargetComparison>;
+  
+  // Job fit callbacks
+  onLoadJobFits?: () => Promise<JobFit[]>;
+  onOpenNote?: (path: string) => void;
   
   // Action plan callbacks
   onSetActivePlan?: (planPath: string) => Promise<void>;
   onLoadActivePlan?: () => Promise<string | null>;
+  onLoadPlanBurndown?: (planPath: string) => Promise<PlanBurndown | null>;
+  onReplanActivePlan?: () => Promise<void>;
+  
+  // Usage accounting callbacks
+  onLoadUsageSummaries?: () => Promise<UsageMonthSummary[]>;
   
   // Progress tracking callbacks (Requirements: 4.3, 4.4)
   onPauseQueue?: () => void;
   onResumeQueue?: () => void;
   onCancelQueue?: () => void;
+  
+  // Profile history callbacks
+  onLoadSkillHistory?: (skillName: string) => Promise<SkillLevelPoint[]>;
 }
 
 // ============================================================================
@@ -226,9 +287,19 @@ export function DashboardProvider({
   onBuildMarketProfile,
   onSetActivePlan,
   onLoadActivePlan,
+  onLoadPlanBurndown,
+  onReplanActivePlan,
+  onLoadUsageSummaries,
   onPauseQueue,
   onResumeQueue,
   onCancelQueue,
+  onRetryErrors,
+  onIgnoreErrors,
+  onUnignoreErrors,
+  onLoadSkillHistory,
+  onCompareTargets,
+  onLoadJobFits,
+  onOpenNote,
 }: DashboardProviderProps): JSX.Element {
   // State
   const [selfProfile, setSelfProfile] = useState<SelfProfile | null>(null);
@@ -237,13 +308,19 @@ export function DashboardProvider({
   const [gapAnalyses, setGapAnalyses] = useState<GapAnalysisSummary[]>([]);
   const [actionPlans, setActionPlans] = useState<ActionPlanSummary[]>([]);
   const [activePlanPath, setActivePlanPath] = useState<string | null>(null);
+  const [planBurndown, setPlanBurndown] = useState<PlanBurndown | null>(null);
   const [errorCount, setErrorCount] = useState<number>(0);
+  const [usageSummaries, setUsageSummaries] = useState<UsageMonthSummary[]>([]);
+  const [jobFits, setJobFits] = useState<JobFit[]>([]);
   const [errorLogSummary, setErrorLogSummary] = useState<ErrorLogSummary | null>(null);
   const [isErrorLogModalOpen, setIsErrorLogModalOpen] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
   const [isLoadingErrorLog, setIsLoadingErrorLog] = useState<boolean>(false);
   const [isBuildingMarketProfile, setIsBuildingMarketProfile] = useState<boolean>(false);
+  const [targetComparison, setTargetComparison] = useState<TargetComparison | null>(null);
+  const [isComparingTargets, setIsComparingTargets] = useState<boolean>(false);
+  const [isReplanning, setIsReplanning] = useState<boolean>(false);
   const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
   const [error, setError] = useState<DashboardError | null>(null);
   const [workflowStatus, setWorkflowStatusState] = useState<WorkflowStatus>({
@@ -270,6 +347,10 @@ export function DashboardProvider({
     isPaused: false,
   });
   const [notifications, setNotifications] = useState<ProgressNotification[]>([]);
+  
+  // Streamed report state
+  const [reportStream, setReportStream] = useState<ReportStreamState>({ stage: null, text: '' });
+  const planAbortRef = useRef<AbortController | null>(null);
 
   // Load all dashboard data
   const loadDashboardData = useCallback(async () => {
@@ -307,13 +388,46 @@ export function DashboardProvider({
         }
       }
       
+      // Read progress of the active plan from its checkboxes
+      let burndown: PlanBurndown | null = null;
+      if (activePlan && onLoadPlanBurndown) {
+        try {
+          burndown = await onLoadPlanBurndown(activePlan);
+        } catch {
+          // Ignore errors reading plan progress
+        }
+      }
+      
+      // Load usage ledger totals
+      let usage: UsageMonthSummary[] = [];
+      if (onLoadUsageSummaries) {
+        try {
+          usage = await onLoadUsageSummaries();
+        } catch {
+          // Ignore errors loading usage summaries
+        }
+      }
+      
+      // Score JDCards against the profile
+      let fits: JobFit[] = [];
+      if (onLoadJobFits) {
+        try {
+          fits = await onLoadJobFits();
+        } catch {
+          // Ignore errors scoring JDCards
+        }
+      }
+      
       setSelfProfile(profile);
       setMarketProfiles(profiles);
       setMarketProfileSummaries(profileSummaries);
       setGapAnalyses(gapAnalysisData);
       setActionPlans(actionPlanData);
       setActivePlanPath(activePlan);
+      setPlanBurndown(burndown);
       setErrorCount(errors);
+      setUsageSummaries(usage);
+      setJobFits(fits);
       
       // Update workflow status based on loaded data
       setWorkflowStatusState({
@@ -331,7 +445,7 @@ export function DashboardProvider({
     } finally {
       setIsLoading(false);
     }
-  }, [onLoadSelfProfile, onLoadMarketProfiles, onLoadMarketProfileSummaries, onLoadGapAnalyses, onLoadActionPlans, onLoadErrorCount, onCheckActionPlans, onLoadActivePlan]);
+  }, [onLoadSelfProfile, onLoadMarketProfiles, onLoadMarketProfileSummaries, onLoadGapAnalyses, onLoadActionPlans, onLoadErrorCount, onCheckActionPlans, onLoadActivePlan, onLoadPlanBurndown, onLoadUsageSummaries, onLoadJobFits]);
 
   // Refresh self profile (rebuild from NoteCards)
   const refreshSelfProfile = useCallback(async () => {
@@ -390,6 +504,58 @@ export function DashboardProvider({
     setIsErrorLogModalOpen(false);
   }, []);
 
+  // Re-extract the notes of error log entries (resolved in the log once they succeed)
+  const retryErrorEntries = useCallback(async (entries: ErrorLogEntry[]) => {
+    if (!onRetryErrors) return;
+    
+    try {
+      await onRetryErrors(entries);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setError({
+        message: `Failed to retry errors: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+        type: 'action',
+      });
+    }
+  }, [onRetryErrors]);
+
+  // Ignore error log entries, then refresh the log and count
+  const ignoreErrorEntries = useCallback(async (entries: ErrorLogEntry[]) => {
+    if (!onIgnoreErrors) return;
+    
+    try {
+      await onIgnoreErrors(entries);
+      await loadErrorLog();
+      setErrorCount(await onLoadErrorCount());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setError({
+        message: `Failed to ignore errors: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+        type: 'action',
+      });
+    }
+  }, [onIgnoreErrors, loadErrorLog, onLoadErrorCount]);
+
+  // Reopen ignored error log entries, then refresh the log and count
+  const unignoreErrorEntries = useCallback(async (entries: ErrorLogEntry[]) => {
+    if (!onUnignoreErrors) return;
+    
+    try {
+      await onUnignoreErrors(entries);
+      await loadErrorLog();
+      setErrorCount(await onLoadErrorCount());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setError({
+        message: `Failed to un-ignore errors: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+        type: 'action',
+      });
+    }
+  }, [onUnignoreErrors, loadErrorLog, onLoadErrorCount]);
+
   // Update workflow status partially
   const setWorkflowStatus = useCallback((status: Partial<WorkflowStatus>) => {
     setWorkflowStatusState(prev => ({ ...prev, ...status }));
@@ -405,6 +571,18 @@ export function DashboardProvider({
     setSelectedSkill(skill);
   }, []);
   
+  // Level of a skill across SelfProfile snapshots (empty without history)
+  const loadSkillHistory = useCallback(async (skillName: string): Promise<SkillLevelPoint[]> => {
+    if (!onLoadSkillHistory) return [];
+    
+    try {
+      return await onLoadSkillHistory(skillName);
+    } catch (err) {
+      console.error('Failed to load skill history:', err);
+      return [];
+    }
+  }, [onLoadSkillHistory]);
+  
   const selectProject = useCallback((project: ProjectSummary | null) => {
     setSelectedProject(project);
   }, []);
@@ -413,6 +591,10 @@ export function DashboardProvider({
     setSelectedMarketProfile(profile);
   }, []);
   
+  const openNote = useCallback((path: string) => {
+    onOpenNote?.(path);
+  }, [onOpenNote]);
+  
   // Workflow action: Index Notes
   const indexNotes = useCallback(async () => {
     if (!onIndexNotes) {
@@ -428,7 +610,7 @@ export function DashboardProvider({
     setError(null);
     
     try {
-      await onIndexNotes();
+      await onIndexNotes(setQueueStatus);
       // Reload data after indexing
       await loadDashboardData();
     } catch (err) {
@@ -440,6 +622,7 @@ export function DashboardProvider({
       });
     } finally {
       setIsIndexingNotes(false);
+      setQueueStatus(null);
     }
   }, [onIndexNotes, loadDashboardData]);
   
@@ -487,8 +670,15 @@ export function DashboardProvider({
     setIsGeneratingPlan(true);
     setError(null);
     
+    const controller = new AbortController();
+    planAbortRef.current = controller;
+    
     try {
-      await onGeneratePlan();
+      await onGeneratePlan({
+        onStage: (stage) => setReportStream({ stage, text: '' }),
+        onToken: (token) => setReportStream(prev => ({ ...prev, text: prev.text + token })),
+        signal: controller.signal,
+      });
       // Reload data after plan generation
       await loadDashboardData();
     } catch (err) {
@@ -499,10 +689,17 @@ export function DashboardProvider({
         type: 'action',
       });
     } finally {
+      planAbortRef.current = null;
+      setReportStream({ stage: null, text: '' });
       setIsGeneratingPlan(false);
     }
   }, [onGeneratePlan, loadDashboardData]);
   
+  // Workflow action: Cancel plan generation mid-stream
+  const cancelPlanGeneration = useCallback(() => {
+    planAbortRef.current?.abort();
+  }, []);
+  
   // Market profile action: Build Market Profile
   const buildMarketProfile = useCallback(async (role: string, location: string) => {
     if (!onBuildMarketProfile) {
@@ -533,6 +730,34 @@ export function DashboardProvider({
     }
   }, [onBuildMarketProfile, loadDashboardData]);
   
+  // Market profile action: Compare every market target
+  const compareTargets = useCallback(async () => {
+    if (!onCompareTargets) {
+      setError({
+        message: 'Compare Targets action not available',
+        timestamp: new Date().toISOString(),
+        type: 'action',
+      });
+      return;
+    }
+    
+    setIsComparingTargets(true);
+    setError(null);
+    
+    try {
+      setTargetComparison(await onCompareTargets());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setError({
+        message: `Failed to compare targets: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+        type: 'action',
+      });
+    } finally {
+      setIsComparingTargets(false);
+    }
+  }, [onCompareTargets]);
+  
   // Action plan action: Set Active Plan
   const setActivePlan = useCallback(async (planPath: string) => {
     if (!onSetActivePlan) {
@@ -552,6 +777,7 @@ export function DashboardProvider({
         ...plan,
         isActive: plan.planPath === planPath,
       })));
+      setPlanBurndown(onLoadPlanBurndown ? await onLoadPlanBurndown(planPath) : null);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
       setError({
@@ -560,7 +786,36 @@ export function DashboardProvider({
         type: 'action',
       });
     }
-  }, [onSetActivePlan]);
+  }, [onSetActivePlan, onLoadPlanBurndown]);
+  
+  // Action plan action: Re-plan the active plan for its remaining period
+  const replanActivePlan = useCallback(async () => {
+    if (!onReplanActivePlan) {
+      setError({
+        message: 'Re-plan action not available',
+        timestamp: new Date().toISOString(),
+        type: 'action',
+      });
+      return;
+    }
+    
+    setIsReplanning(true);
+    setError(null);
+    
+    try {
+      await onReplanActivePlan();
+      await loadDashboardData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setError({
+        message: `Failed to re-plan: ${errorMessage}`,
+        timestamp: new Date().toISOString(),
+        type: 'action',
+      });
+    } finally {
+      setIsReplanning(false);
+    }
+  }, [onReplanActivePlan, loadDashboardData]);
   
   // Progress tracking actions (Requirements: 4.3, 4.4)
   const startProgressTracking = useCallback((operationLabel: string) => {
@@ -628,13 +883,19 @@ export function DashboardProvider({
     gapAnalyses,
     actionPlans,
     activePlanPath,
+    planBurndown,
     errorCount,
+    usageSummaries,
+    jobFits,
     errorLogSummary,
     isErrorLogModalOpen,
     isLoading,
     isRefreshing,
     isLoadingErrorLog,
     isBuildingMarketProfile,
+    targetComparison,
+    isComparingTargets,
+    isReplanning,
     workflowStatus,
     queueStatus,
     error,
@@ -645,6 +906,7 @@ export function DashboardProvider({
     // Progress tracking state (Requirements: 4.3, 4.4)
     progressTracking,
     notifications,
+    reportStream,
     
     // Workflow action loading states
     isIndexingNotes,
@@ -657,6 +919,9 @@ export function DashboardProvider({
     loadErrorLog,
     openErrorLogModal,
     closeErrorLogModal,
+    retryErrorEntries,
+    ignoreErrorEntries,
+    unignoreErrorEntries,
     setSelfProfile,
     setMarketProfiles,
     setErrorCount,
@@ -665,19 +930,24 @@ export function DashboardProvider({
     setWorkflowStatus,
     clearError,
     selectSkill,
+    loadSkillHistory,
     selectProject,
     selectMarketProfile,
+    openNote,
     
     // Workflow actions
     indexNotes,
     extractJDs,
     generatePlan,
+    cancelPlanGeneration,
     
     // Market profile actions
     buildMarketProfile,
+    compareTargets,
     
     // Action plan actions
     setActivePlan,
+    replanActivePlan,
     
     // Progress tracking actions (Requirements: 4.3, 4.4)
     startProgressTracking,
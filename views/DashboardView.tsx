@@ -5,17 +5,20 @@
  * - Skills with proficiency levels
  * - Recent projects
  * - Workflow status (self-profile, market-profile, action plan)
+ * - Progress and burndown of the active plan
  * - Error summary
+ * - Token usage and cost per month
  * 
  * Requirements: 11.4
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { ItemView, WorkspaceLeaf } from 'obsidian';
 import { createRoot, Root } from 'react-dom/client';
-import { SelfProfile, MarketProfile, SkillProfile, ProjectSummary, TechItem, ErrorLogSummary, ErrorLogEntry, ErrorType, MarketProfileSummary, GapAnalysisSummary, ActionPlanSummary } from '../types';
-import { DashboardProvider, useDashboard } from './DashboardContext';
-import { getErrorTypeLabel, getErrorTypeIcon } from '../utils/errorLogParser';
+import { SelfProfile, MarketProfile, SkillProfile, ProjectSummary, TechItem, ErrorLogSummary, ErrorLogEntry, ErrorType, MarketProfileSummary, GapAnalysisSummary, ActionPlanSummary, UsageMonthSummary, UsageOperation, UsageTotals, QueueStatus, SkillLevelPoint, TargetComparison, TargetSkillStatus, JobFit, PlanBurndown } from '../types';
+import { DashboardProvider, useDashboard, ReportStreamHandlers, ReportStreamState } from './DashboardContext';
+import { getErrorTypeLabel, getErrorTypeIcon, isOpenEntry } from '../utils/errorLogParser';
+import { describeDecayCurve } from '../utils/skillDecay';
 import { ProgressTracker, ProgressNotification } from './ProgressTracker';
 
 // ============================================================================
@@ -172,7 +175,18 @@ function SkillItem({ skill, rank, isSelected, onSelect }: SkillItemProps): JSX.E
  * Requirements: 11.1
  */
 function SkillDetailPanel({ skill, onClose }: { skill: SkillProfile; onClose: () => void }): JSX.Element {
+  const { loadSkillHistory, actionPlans, activePlanPath, openNote } = useDashboard();
+  const [history, setHistory] = React.useState<SkillLevelPoint[]>([]);
   const levelLabel = getLevelLabel(skill.level);
+  const activePlan = actionPlans.find(plan => plan.planPath === activePlanPath);
+  
+  useEffect(() => {
+    let cancelled = false;
+    loadSkillHistory(skill.name).then(points => {
+      if (!cancelled) setHistory(points);
+    });
+    return () => { cancelled = true; };
+  }, [skill.name, loadSkillHistory]);
   
   return (
     <div className="career-os-detail-panel career-os-skill-detail">
@@ -197,6 +211,26 @@ function SkillDetailPanel({ skill, onClose }: { skill: SkillProfile; onClose: ()
             <span className="career-os-detail-label">Last Active:</span>
             <span className="career-os-detail-value">{skill.last_active || 'N/A'}</span>
           </div>
+          {skill.decay && (
+            <div className="career-os-detail-meta-item">
+              <span className="career-os-detail-label">Time Decay:</span>
+              <span
+                className="career-os-detail-value"
+                title={`Weight of the most recent evidence when the profile was built (curve set by ${skill.decay.source})`}
+              >
+                ×{skill.decay.factor.toFixed(2)} ({describeDecayCurve(skill.decay.curve)}, {skill.decay.source})
+              </span>
+            </div>
+          )}
+        </div>
+        
+        <div className="career-os-skill-history">
+          <h5>📈 Level History</h5>
+          {history.length < 2 ? (
+            <p className="career-os-no-evidence">Rebuild the profile over time to see how this skill develops.</p>
+          ) : (
+            <SkillTimeline points={history} planDate={activePlan?.generatedAt} />
+          )}
         </div>
         
         <div className="career-os-evidence-section">
@@ -217,11 +251,127 @@ function SkillDetailPanel({ skill, onClose }: { skill: SkillProfile; onClose: ()
             </ul>
           )}
         </div>
+        
+        {skill.task_evidence && skill.task_evidence.length > 0 && (
+          <div className="career-os-evidence-section">
+            <h5>✅ Completed Plan Tasks ({skill.task_evidence.length})</h5>
+            <ul className="career-os-evidence-list">
+              {skill.task_evidence.map(task => (
+                <li key={`${task.plan_path}#${task.task_id}`} className="career-os-evidence-item career-os-task-evidence-item">
+                  <span className="career-os-evidence-icon">☑️</span>
+                  <span className="career-os-evidence-path" title={`${task.plan_path} · completed ${formatDate(task.completed_at)}`}>
+                    {task.title}
+                  </span>
+                  {task.output_notes.map(note => (
+                    <a
+                      key={note}
+                      className="career-os-task-evidence-output"
+                      title={note}
+                      onClick={() => openNote(note.endsWith('.md') ? note : `${note}.md`)}
+                    >
+                      📄 {note.split('/').pop()}
+                    </a>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Line chart of a skill's level across profile snapshots
+ * The active plan's start is marked so growth since the plan is visible;
+ * the part of the level that comes from plan tasks is drawn dashed.
+ */
+function SkillTimeline({ points, planDate }: { points: SkillLevelPoint[]; planDate?: string }): JSX.Element {
+  const width = 280;
+  const height = 100;
+  const padding = 8;
+  
+  const times = points.map(p => new Date(p.date).getTime());
+  const start = times[0];
+  const span = Math.max(1, times[times.length - 1] - start);
+  const x = (time: number) => padding + ((time - start) / span) * (width - 2 * padding);
+  const y = (level: number) => height - padding - (level / 5) * (height - 2 * padding);
+  
+  const planTime = planDate ? new Date(planDate).getTime() : NaN;
+  const showPlan = !isNaN(planTime) && planTime >= start && planTime <= start + span;
+  
+  // Change since the last snapshot before the plan started
+  const baseline = showPlan ? [...points].reverse().find(p => new Date(p.date).getTime() <= planTime) : undefined;
+  const latest = points[points.length - 1];
+  const growth = baseline ? latest.level - baseline.level : null;
+  
+  // Growth split by source, since the plan baseline or the first snapshot
+  const hasTaskLevels = points.some(p => p.task_level !== undefined);
+  const from = baseline ?? points[0];
+  const taskGrowth = (latest.task_level ?? 0) - (from.task_level ?? 0);
+  const noteGrowth = (latest.level - (latest.task_level ?? 0)) - (from.level - (from.task_level ?? 0));
+  
+  return (
+    <div className="career-os-skill-timeline">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height}>
+        {showPlan && (
+          <line
+            className="career-os-skill-timeline-plan"
+            x1={x(planTime)} x2={x(planTime)} y1={padding} y2={height - padding}
+          >
+            <title>Active plan generated {formatDate(planDate!)}</title>
+          </line>
+        )}
+        <polyline
+          className="career-os-skill-timeline-line"
+          points={points.map((p, i) => `${x(times[i])},${y(p.level)}`).join(' ')}
+        />
+        {hasTaskLevels && (
+          <polyline
+            className="career-os-skill-timeline-task-line"
+            points={points.map((p, i) => `${x(times[i])},${y(p.task_level ?? 0)}`).join(' ')}
+          >
+            <title>Level from plan tasks</title>
+          </polyline>
+        )}
+        {points.map((p, i) => (
+          <circle key={p.date} className="career-os-skill-timeline-point" cx={x(times[i])} cy={y(p.level)} r={3}>
+            <title>{formatDate(p.date)}: {p.level.toFixed(2)}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="career-os-skill-timeline-legend">
+        <span>{formatDate(points[0].date)}</span>
+        {growth !== null && (
+          <span className={growth >= 0 ? 'career-os-growth-up' : 'career-os-growth-down'}>
+            Since plan: {growth >= 0 ? '+' : ''}{growth.toFixed(2)}
+          </span>
+        )}
+        <span>{formatDate(latest.date)}</span>
       </div>
+      {hasTaskLevels && (
+        <div className="career-os-skill-growth">
+          <span>
+            Growth from notes: <GrowthValue value={noteGrowth} />
+          </span>
+          <span>
+            Growth from plan tasks: <GrowthValue value={taskGrowth} />
+          </span>
+        </div>
+      )}
     </div>
   );
 }
 
+function GrowthValue({ value }: { value: number }): JSX.Element {
+  return (
+    <span className={value >= 0 ? 'career-os-growth-up' : 'career-os-growth-down'}>
+      {value >= 0 ? '+' : ''}{value.toFixed(2)}
+    </span>
+  );
+}
+
 /**
  * Convert numeric level to label
  */
@@ -416,6 +566,8 @@ function WorkflowSection(): JSX.Element {
     indexNotes, 
     extractJDs, 
     generatePlan,
+    cancelPlanGeneration,
+    reportStream,
     isIndexingNotes,
     isExtractingJDs,
     isGeneratingPlan,
@@ -500,6 +652,42 @@ function WorkflowSection(): JSX.Element {
           />
         ))}
       </div>
+      
+      {/* Streamed gap analysis / plan output */}
+      {isGeneratingPlan && reportStream.stage && (
+        <StreamingReportPreview stream={reportStream} onCancel={cancelPlanGeneration} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Live preview of a report while the LLM streams it
+ */
+function StreamingReportPreview({ stream, onCancel }: { stream: ReportStreamState; onCancel: () => void }): JSX.Element {
+  const outputRef = useRef<HTMLPreElement>(null);
+  
+  // Keep the newest tokens in view
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [stream.text]);
+  
+  const title = stream.stage === 'gap' ? 'Generating gap analysis...' : 'Generating action plan...';
+  
+  return (
+    <div className="career-os-stream-preview">
+      <div className="career-os-stream-header">
+        <span className="career-os-btn-spinner"></span>
+        <span className="career-os-stream-title">{title}</span>
+        <button className="career-os-stream-cancel-btn" onClick={onCancel}>
+          ✕ Cancel
+        </button>
+      </div>
+      <pre ref={outputRef} className="career-os-stream-output">
+        {stream.text || 'Waiting for first tokens...'}
+      </pre>
     </div>
   );
 }
@@ -633,7 +821,40 @@ interface ErrorLogModalProps {
   onClose: () => void;
 }
 
+/**
+ * Actions offered on open and ignored error log entries
+ */
+interface ErrorEntryActions {
+  retried: Set<string>;
+  onRetry: (entries: ErrorLogEntry[]) => void;
+  onIgnore: (entries: ErrorLogEntry[]) => void;
+  onUnignore: (entries: ErrorLogEntry[]) => void;
+}
+
+function getEntryKey(entry: ErrorLogEntry): string {
+  return `${entry.timestamp}|${entry.path}`;
+}
+
 function ErrorLogModal({ summary, isLoading, onClose }: ErrorLogModalProps): JSX.Element {
+  const { retryErrorEntries, ignoreErrorEntries, unignoreErrorEntries } = useDashboard();
+  
+  // Entries queued for retry in this session (the log is updated once they succeed)
+  const [retried, setRetried] = React.useState<Set<string>>(new Set());
+  
+  const actions: ErrorEntryActions = {
+    retried,
+    onRetry: (entries) => {
+      setRetried(prev => new Set([...prev, ...entries.map(getEntryKey)]));
+      retryErrorEntries(entries);
+    },
+    onIgnore: (entries) => {
+      ignoreErrorEntries(entries);
+    },
+    onUnignore: (entries) => {
+      unignoreErrorEntries(entries);
+    },
+  };
+  
   // Close on escape key
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -662,10 +883,10 @@ function ErrorLogModal({ summary, isLoading, onClose }: ErrorLogModalProps): JSX
           ) : summary ? (
             <>
               {/* Error Type Summary */}
-              <ErrorTypeSummary summary={summary} />
+              <ErrorTypeSummary summary={summary} actions={actions} />
               
               {/* Error List */}
-              <ErrorList entries={summary.entries} />
+              <ErrorList entries={summary.entries} actions={actions} />
             </>
           ) : (
             <div className="career-os-modal-empty">
@@ -682,7 +903,7 @@ function ErrorLogModal({ summary, isLoading, onClose }: ErrorLogModalProps): JSX
  * Error type summary - shows breakdown by error type
  * Requirements: 11.3
  */
-function ErrorTypeSummary({ summary }: { summary: ErrorLogSummary }): JSX.Element {
+function ErrorTypeSummary({ summary, actions }: { summary: ErrorLogSummary; actions: ErrorEntryActions }): JSX.Element {
   const errorTypes: ErrorType[] = ['extraction', 'validation', 'file_operation', 'llm', 'unknown'];
   const activeTypes = errorTypes.filter(type => summary.byType[type] > 0);
   
@@ -699,6 +920,13 @@ function ErrorTypeSummary({ summary }: { summary: ErrorLogSummary }): JSX.Elemen
             <span className="career-os-error-type-icon">{getErrorTypeIcon(type)}</span>
             <span className="career-os-error-type-count">{summary.byType[type]}</span>
             <span className="career-os-error-type-label">{getErrorTypeLabel(type)}</span>
+            <button
+              className="career-os-error-action-btn"
+              onClick={() => actions.onRetry(summary.entries.filter(e => e.type === type && isOpenEntry(e)))}
+              title={`Re-extract every note with an open ${getErrorTypeLabel(type)} error`}
+            >
+              ↻ Retry all
+            </button>
           </div>
         ))}
       </div>
@@ -710,7 +938,7 @@ function ErrorTypeSummary({ summary }: { summary: ErrorLogSummary }): JSX.Elemen
  * Error list - displays individual error entries
  * Requirements: 11.3
  */
-function ErrorList({ entries }: { entries: ErrorLogEntry[] }): JSX.Element {
+function ErrorList({ entries, actions }: { entries: ErrorLogEntry[]; actions: ErrorEntryActions }): JSX.Element {
   if (entries.length === 0) {
     return (
       <div className="career-os-error-list-empty">
@@ -729,7 +957,7 @@ function ErrorList({ entries }: { entries: ErrorLogEntry[] }): JSX.Element {
       <h4>Recent Errors ({entries.length})</h4>
       <div className="career-os-error-entries">
         {sortedEntries.map((entry, index) => (
-          <ErrorEntryItem key={`${entry.timestamp}-${index}`} entry={entry} />
+          <ErrorEntryItem key={`${entry.timestamp}-${index}`} entry={entry} actions={actions} />
         ))}
       </div>
     </div>
@@ -740,16 +968,47 @@ function ErrorList({ entries }: { entries: ErrorLogEntry[] }): JSX.Element {
  * Single error entry item
  * Requirements: 11.3
  */
-function ErrorEntryItem({ entry }: { entry: ErrorLogEntry }): JSX.Element {
+function ErrorEntryItem({ entry, actions }: { entry: ErrorLogEntry; actions: ErrorEntryActions }): JSX.Element {
   const formattedTime = formatTimestamp(entry.timestamp);
   const fileName = entry.path.split('/').pop() || entry.path;
+  const isOpen = isOpenEntry(entry);
+  const isRetried = actions.retried.has(getEntryKey(entry));
   
   return (
-    <div className={`career-os-error-entry career-os-error-entry-${entry.type}`}>
+    <div className={`career-os-error-entry career-os-error-entry-${entry.type} ${isOpen ? '' : 'career-os-error-entry-closed'}`}>
       <div className="career-os-error-entry-header">
         <span className="career-os-error-entry-icon">{getErrorTypeIcon(entry.type)}</span>
         <span className="career-os-error-entry-type">{getErrorTypeLabel(entry.type)}</span>
         <span className="career-os-error-entry-time">{formattedTime}</span>
+        {entry.status === 'ignored' ? (
+          <span className="career-os-error-entry-actions">
+            <span className="career-os-error-entry-status">Ignored</span>
+            <button
+              className="career-os-error-action-btn"
+              onClick={() => actions.onUnignore([entry])}
+              title="Count this error again and index the note on the next run"
+            >
+              Un-ignore
+            </button>
+          </span>
+        ) : !isOpen ? (
+          <span className="career-os-error-entry-status">✓ Resolved</span>
+        ) : isRetried ? (
+          <span className="career-os-error-entry-status">Queued for retry</span>
+        ) : (
+          <span className="career-os-error-entry-actions">
+            <button className="career-os-error-action-btn" onClick={() => actions.onRetry([entry])}>
+              ↻ Retry
+            </button>
+            <button
+              className="career-os-error-action-btn"
+              onClick={() => actions.onIgnore([entry])}
+              title="Stop counting this error and leave it out of retries"
+            >
+              Ignore
+            </button>
+          </span>
+        )}
       </div>
       <div className="career-os-error-entry-path" title={entry.path}>
         📄 {fileName}
@@ -974,6 +1233,178 @@ function BuildMarketProfileModal({ onClose, onBuild, isBuilding }: BuildMarketPr
   );
 }
 
+// ============================================================================
+// Target Comparison Section
+// ============================================================================
+
+const TARGET_STATUS_LABELS: Record<TargetSkillStatus, string> = {
+  high: '🔴 high',
+  medium: '🟠 medium',
+  low: '🟡 low',
+  met: '✅',
+  not_required: '–',
+};
+
+/**
+ * Target comparison section - ranks every market target by match
+ */
+function TargetComparisonSection(): JSX.Element {
+  const { marketProfileSummaries, targetComparison, isComparingTargets, compareTargets } = useDashboard();
+  
+  const canCompare = marketProfileSummaries.length >= 2;
+  
+  return (
+    <div className="career-os-section career-os-comparison-section">
+      <div className="career-os-section-header">
+        <h3>🎯 Target Comparison</h3>
+        <button
+          className="career-os-add-btn"
+          onClick={() => compareTargets()}
+          disabled={!canCompare || isComparingTargets}
+          title="Compare all market targets"
+        >
+          {isComparingTargets ? '⟳' : '⇄'} Compare
+        </button>
+      </div>
+      
+      {!targetComparison ? (
+        <div className="career-os-empty-state">
+          <p>{canCompare ? 'Compare your profile against every market target.' : 'Build at least two market profiles to compare.'}</p>
+        </div>
+      ) : (
+        <TargetComparisonResult comparison={targetComparison} />
+      )}
+    </div>
+  );
+}
+
+function TargetComparisonResult({ comparison }: { comparison: TargetComparison }): JSX.Element {
+  return (
+    <div className="career-os-comparison-content">
+      <ol className="career-os-comparison-ranking">
+        {comparison.targets.map((target) => (
+          <li key={`${target.role}-${target.location}`} className="career-os-comparison-target">
+            <span className="career-os-market-role">{target.role}</span>
+            <span className="career-os-market-location">📍 {target.location}</span>
+            <span
+              className="career-os-comparison-match"
+              style={{ color: getMatchColor(target.matchPercentage) }}
+            >
+              {target.matchPercentage}%
+            </span>
+          </li>
+        ))}
+      </ol>
+      
+      {comparison.sharedGaps.length > 0 && (
+        <p className="career-os-hint">Shared gaps: {comparison.sharedGaps.join(', ')}</p>
+      )}
+      
+      {comparison.matrix.length > 0 && (
+        <table className="career-os-comparison-matrix">
+          <thead>
+            <tr>
+              <th>Skill</th>
+              {comparison.targets.map((target) => (
+                <th key={`${target.role}-${target.location}`}>{target.role}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.matrix.map((row) => (
+              <tr key={row.skill}>
+                <td>{row.skill}</td>
+                {row.statuses.map((status, i) => (
+                  <td key={i} className={`career-os-comparison-status-${status}`}>
+                    {TARGET_STATUS_LABELS[status]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Job Fit Section
+// ============================================================================
+
+/**
+ * Postings listed before "Show all"
+ */
+const JOB_FIT_PREVIEW_COUNT = 10;
+
+/**
+ * Job fit section - JDCards ranked by fit against the SelfProfile
+ */
+function JobFitSection(): JSX.Element {
+  const { jobFits, openNote } = useDashboard();
+  const [showAll, setShowAll] = React.useState(false);
+  
+  const visible = showAll ? jobFits : jobFits.slice(0, JOB_FIT_PREVIEW_COUNT);
+  
+  return (
+    <div className="career-os-section career-os-job-fit-section">
+      <h3>💼 Job Fit</h3>
+      
+      {jobFits.length === 0 ? (
+        <div className="career-os-empty-state">
+          <p>No postings scored yet.</p>
+          <p className="career-os-hint">Extract JDs and build your self profile to rank postings by fit.</p>
+        </div>
+      ) : (
+        <>
+          <div className="career-os-job-fit-list">
+            {visible.map((fit) => (
+              <JobFitItem key={fit.jd_id} fit={fit} onOpen={() => openNote(fit.source_note)} />
+            ))}
+          </div>
+          {jobFits.length > JOB_FIT_PREVIEW_COUNT && (
+            <button className="career-os-job-fit-more" onClick={() => setShowAll(!showAll)}>
+              {showAll ? 'Show less' : `Show all ${jobFits.length}`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function JobFitItem({ fit, onOpen }: { fit: JobFit; onOpen: () => void }): JSX.Element {
+  return (
+    <div className="career-os-job-fit-item">
+      <div className="career-os-job-fit-header">
+        <a
+          className="career-os-job-fit-title"
+          onClick={onOpen}
+          role="button"
+          tabIndex={0}
+          onKeyDown={(e) => e.key === 'Enter' && onOpen()}
+          title={fit.source_note}
+        >
+          {fit.title || 'Untitled'}{fit.company ? ` @ ${fit.company}` : ''}
+        </a>
+        <span className="career-os-job-fit-score" style={{ color: getMatchColor(fit.score) }}>
+          {Math.round(fit.score)}%
+        </span>
+      </div>
+      <div className="career-os-job-fit-meta">
+        {fit.location && <span>📍 {fit.location}</span>}
+        {fit.experience_met === false && <span className="career-os-job-fit-warning">Experience</span>}
+        {fit.degree_met === false && <span className="career-os-job-fit-warning">Degree</span>}
+      </div>
+      {fit.missing_required.length > 0 && (
+        <div className="career-os-job-fit-missing">
+          Missing: {fit.missing_required.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // Gap Analyses and Action Plans Section
 // Requirements: 9.5, 10.5, 20
@@ -1094,6 +1525,11 @@ function ActionPlanItem({ plan, isActive, onSetActive }: ActionPlanItemProps): J
         <span className="career-os-plan-location">📍 {plan.location}</span>
         <span className="career-os-plan-period">📅 {plan.period}</span>
         <span className="career-os-plan-hours">⏱️ {plan.weeklyHours}h/week</span>
+        {plan.previousPlan && (
+          <span className="career-os-plan-revision" title={`Revises ${plan.previousPlan}`}>
+            🔄 Revision {plan.revision ?? 1}
+          </span>
+        )}
       </div>
       <div className="career-os-plan-item-footer">
         <span className="career-os-plan-date">{formattedDate}</span>
@@ -1136,6 +1572,293 @@ function formatDate(dateStr: string): string {
   }
 }
 
+// ============================================================================
+// Plan Progress Section
+// ============================================================================
+
+/**
+ * Progress of the active plan: weekly tasks and hours, phases and burndown
+ */
+function PlanProgressSection(): JSX.Element | null {
+  const { planBurndown, actionPlans, openNote, replanActivePlan, isReplanning } = useDashboard();
+  
+  if (!planBurndown) {
+    return null;
+  }
+  
+  const plan = actionPlans.find(p => p.planPath === planBurndown.plan_path);
+  const { total_tasks, done_tasks, current_week, period_weeks } = planBurndown;
+  const percent = total_tasks > 0 ? Math.round((done_tasks / total_tasks) * 100) : 0;
+  
+  return (
+    <div className="career-os-section career-os-plan-progress-section">
+      <h3>📊 Plan Progress</h3>
+      
+      <div className="career-os-plan-progress-summary">
+        <a
+          className="career-os-plan-progress-title"
+          onClick={() => openNote(planBurndown.plan_path)}
+          title={planBurndown.plan_path}
+        >
+          {plan ? `${plan.role} · ${plan.location}` : planBurndown.plan_path}
+          {plan?.revision ? ` (revision ${plan.revision})` : ''}
+        </a>
+        <span>Week {Math.min(current_week, period_weeks)} of {period_weeks}</span>
+        <span>{done_tasks}/{total_tasks} tasks ({percent}%)</span>
+      </div>
+      
+      {total_tasks === 0 ? (
+        <div className="career-os-empty-state">
+          <p>The active plan has no weekly checklist.</p>
+          <p className="career-os-hint">Tasks are read from checkboxes under "### 第 N 周" headings.</p>
+        </div>
+      ) : (
+        <>
+          {planBurndown.behind_schedule && (
+            <div className="career-os-plan-progress-warning">
+              <span>
+                ⚠️ Behind schedule: {planBurndown.overdue_tasks} task{planBurndown.overdue_tasks === 1 ? '' : 's'} from past weeks still open
+              </span>
+              <button
+                className="career-os-plan-replan-button"
+                onClick={replanActivePlan}
+                disabled={isReplanning}
+                title="Run a fresh gap analysis and revise the plan for the remaining weeks"
+              >
+                {isReplanning ? 'Re-planning...' : '🔄 Re-plan'}
+              </button>
+            </div>
+          )}
+          
+          <PlanBurndownChart burndown={planBurndown} />
+          
+          {planBurndown.phases.length > 0 && (
+            <div className="career-os-plan-phases">
+              {planBurndown.phases.map(phase => (
+                <span
+                  key={phase.name}
+                  className={`career-os-plan-phase ${phase.done === phase.total ? 'career-os-plan-phase-done' : ''}`}
+                  title={`Weeks ${phase.from_week}-${phase.to_week}`}
+                >
+                  {phase.done === phase.total ? '✅' : '⏳'} {phase.name} ({phase.done}/{phase.total})
+                </span>
+              ))}
+            </div>
+          )}
+          
+          <table className="career-os-plan-weeks">
+            <thead>
+              <tr>
+                <th>Week</th>
+                <th>Tasks</th>
+                <th>Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {planBurndown.weeks.map(week => (
+                <tr
+                  key={week.week}
+                  className={week.week === current_week ? 'career-os-plan-week-current' : ''}
+                >
+                  <td>{week.week}</td>
+                  <td className={week.week < current_week && week.done < week.total ? 'career-os-growth-down' : ''}>
+                    {week.done}/{week.total}
+                  </td>
+                  <td title="Estimated hours of ticked tasks / of all tasks, against the weekly budget">
+                    {week.done_hours}/{week.planned_hours}h
+                    {planBurndown.weekly_hours > 0 && ` of ${planBurndown.weekly_hours}h`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Open tasks over the plan period: the ideal straight line, the weekly
+ * schedule and where the plan stands today
+ */
+function PlanBurndownChart({ burndown }: { burndown: PlanBurndown }): JSX.Element {
+  const width = 280;
+  const height = 110;
+  const padding = 10;
+  
+  const maxTasks = Math.max(1, burndown.total_tasks);
+  const x = (week: number) => padding + (week / burndown.period_weeks) * (width - 2 * padding);
+  const y = (tasks: number) => height - padding - (tasks / maxTasks) * (height - 2 * padding);
+  
+  // Today sits inside the current week; past the period it stays at the end
+  const todayWeek = Math.min(burndown.current_week - 0.5, burndown.period_weeks);
+  const remaining = burndown.total_tasks - burndown.done_tasks;
+  
+  return (
+    <div className="career-os-plan-burndown">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height}>
+        <polyline
+          className="career-os-plan-burndown-ideal"
+          points={burndown.burndown.map(p => `${x(p.week)},${y(p.ideal)}`).join(' ')}
+        >
+          <title>Ideal: even progress over {burndown.period_weeks} weeks</title>
+        </polyline>
+        <polyline
+          className="career-os-plan-burndown-scheduled"
+          points={burndown.burndown.map(p => `${x(p.week)},${y(p.scheduled)}`).join(' ')}
+        >
+          <title>Scheduled: every week's checklist done on time</title>
+        </polyline>
+        <circle
+          className={burndown.behind_schedule ? 'career-os-plan-burndown-behind' : 'career-os-plan-burndown-today'}
+          cx={x(todayWeek)} cy={y(remaining)} r={4}
+        >
+          <title>Now: {remaining} open</title>
+        </circle>
+      </svg>
+      <div className="career-os-skill-timeline-legend">
+        <span>Week 0</span>
+        <span>{remaining} open</span>
+        <span>Week {burndown.period_weeks}</span>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Usage Section Component
+// ============================================================================
+
+const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+  note_card: 'NoteCards',
+  jd_card: 'JDCards',
+  gap_analysis: 'Gap analysis',
+  action_plan: 'Action plans',
+  weekly_review: 'Weekly reviews',
+  target_comparison: 'Target comparisons',
+  embedding: 'Embeddings',
+  other: 'Other',
+};
+
+/**
+ * Usage section - token usage and cost for the current month
+ */
+function UsageSection(): JSX.Element {
+  const { usageSummaries } = useDashboard();
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const current = usageSummaries.find(summary => summary.month === currentMonth);
+  const previous = usageSummaries.filter(summary => summary.month < currentMonth).slice(0, 3);
+  
+  return (
+    <div className="career-os-section career-os-usage-section">
+      <h3>💰 Usage ({currentMonth})</h3>
+      
+      {!current ? (
+        <div className="career-os-empty-state">
+          <p>No LLM usage recorded this month.</p>
+          <p className="career-os-hint">Token counts are recorded for every LLM call.</p>
+        </div>
+      ) : (
+        <>
+          <div className="career-os-usage-totals">
+            <div className="career-os-usage-stat">
+              <span className="career-os-usage-value">{formatCost(current.cost)}</span>
+              <span className="career-os-usage-label">cost</span>
+            </div>
+            <div className="career-os-usage-stat">
+              <span className="career-os-usage-value">{formatTokens(current.promptTokens + current.completionTokens)}</span>
+              <span className="career-os-usage-label">tokens</span>
+            </div>
+            <div className="career-os-usage-stat">
+              <span className="career-os-usage-value">{current.calls}</span>
+              <span className="career-os-usage-label">calls</span>
+            </div>
+          </div>
+          
+          <UsageBreakdown
+            title="By operation"
+            rows={(Object.keys(current.byOperation) as UsageOperation[]).map(operation => ({
+              label: USAGE_OPERATION_LABELS[operation],
+              totals: current.byOperation[operation]!,
+            }))}
+          />
+          
+          <UsageBreakdown
+            title="By role"
+            rows={Object.entries(current.byRole).map(([role, totals]) => ({ label: role, totals: totals! }))}
+          />
+          
+          {current.topNotes.length > 0 && (
+            <UsageBreakdown
+              title="Most expensive notes"
+              rows={current.topNotes.map(note => ({
+                label: note.notePath.split('/').pop() || note.notePath,
+                title: note.notePath,
+                totals: note,
+              }))}
+            />
+          )}
+        </>
+      )}
+      
+      {previous.length > 0 && (
+        <UsageBreakdown
+          title="Previous months"
+          rows={previous.map(summary => ({ label: summary.month, totals: summary }))}
+        />
+      )}
+    </div>
+  );
+}
+
+interface UsageBreakdownRow {
+  label: string;
+  title?: string;
+  totals: UsageTotals;
+}
+
+/**
+ * Table of token and cost totals
+ */
+function UsageBreakdown({ title, rows }: { title: string; rows: UsageBreakdownRow[] }): JSX.Element {
+  return (
+    <div className="career-os-usage-breakdown">
+      <h4>{title}</h4>
+      <table className="career-os-usage-table">
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td className="career-os-usage-row-label" title={row.title}>{row.label}</td>
+              <td>{formatTokens(row.totals.promptTokens + row.totals.completionTokens)}</td>
+              <td>{formatCost(row.totals.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Format a USD amount, keeping precision for sub-cent totals
+ */
+function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) {
+    return `$${cost.toFixed(4)}`;
+  }
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Format a token count compactly (e.g. 12.3k, 1.2M)
+ */
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
 // ============================================================================
 // Main Dashboard Component
 // ============================================================================
@@ -1242,12 +1965,16 @@ function DashboardContent(): JSX.Element {
           <SkillsSection />
           <ProjectsSection />
           <MarketProfilesSection />
+          <TargetComparisonSection />
+          <JobFitSection />
           <PlansSection />
+          <PlanProgressSection />
         </div>
         
         <div className="career-os-side-column">
           <WorkflowSection />
           <ErrorSummarySection />
+          <UsageSection />
         </div>
       </div>
     </div>
@@ -1269,22 +1996,40 @@ export interface DashboardAppProps {
   onRefreshSelfProfile: () => Promise<SelfProfile>;
   
   // Workflow action callbacks
-  onIndexNotes?: () => Promise<void>;
+  onIndexNotes?: (onProgress?: (status: QueueStatus) => void) => Promise<void>;
   onExtractJDs?: () => Promise<void>;
-  onGeneratePlan?: () => Promise<void>;
+  onGeneratePlan?: (stream?: ReportStreamHandlers) => Promise<void>;
   onCheckActionPlans?: () => Promise<boolean>;
   
   // Market profile callbacks
   onBuildMarketProfile?: (role: string, location: string) => Promise<void>;
+  onCompareTargets?: () => Promise<TargetComparison>;
+  
+  // Job fit callbacks
+  onLoadJobFits?: () => Promise<JobFit[]>;
+  onOpenNote?: (path: string) => void;
   
   // Action plan callbacks
   onSetActivePlan?: (planPath: string) => Promise<void>;
   onLoadActivePlan?: () => Promise<string | null>;
+  onLoadPlanBurndown?: (planPath: string) => Promise<PlanBurndown | null>;
+  onReplanActivePlan?: () => Promise<void>;
+  
+  // Usage accounting callbacks
+  onLoadUsageSummaries?: () => Promise<UsageMonthSummary[]>;
   
   // Progress tracking callbacks (Requirements: 4.3, 4.4)
   onPauseQueue?: () => void;
   onResumeQueue?: () => void;
   onCancelQueue?: () => void;
+  
+  // Error log callbacks
+  onRetryErrors?: (entries: ErrorLogEntry[]) => Promise<void>;
+  onIgnoreErrors?: (entries: ErrorLogEntry[]) => Promise<void>;
+  onUnignoreErrors?: (entries: ErrorLogEntry[]) => Promise<void>;
+  
+  // Profile history callbacks
+  onLoadSkillHistory?: (skillName: string) => Promise<SkillLevelPoint[]>;
 }
 
 /**
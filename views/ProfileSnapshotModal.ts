@@ -0,0 +1,34 @@
+/**
+ * ProfileSnapshotModal - Pick a SelfProfile snapshot from the history
+ *
+ * Used by the profile diff command to choose the builds to compare.
+ */
+
+import { App, FuzzySuggestModal } from 'obsidian';
+import { ProfileSnapshotEntry } from '../types';
+
+export class ProfileSnapshotModal extends FuzzySuggestModal<ProfileSnapshotEntry> {
+  constructor(
+    app: App,
+    private snapshots: ProfileSnapshotEntry[],
+    placeholder: string,
+    private onChoose: (snapshot: ProfileSnapshotEntry) => void
+  ) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): ProfileSnapshotEntry[] {
+    // Newest first
+    return [...this.snapshots].reverse();
+  }
+
+  getItemText(snapshot: ProfileSnapshotEntry): string {
+    const skillCount = Object.keys(snapshot.skill_levels).length;
+    return `${new Date(snapshot.built_at).toLocaleString()} · ${skillCount} skills`;
+  }
+
+  onChooseItem(snapshot: ProfileSnapshotEntry): void {
+    this.onChoose(snapshot);
+  }
+}
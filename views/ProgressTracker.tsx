@@ -6,6 +6,7 @@
  * - Real-time progress updates (completed/total tasks)
  * - Pause/resume/cancel buttons
  * - Estimated time remaining
+ * - Rate limit countdown
  * - Success/failure notifications
  * 
  * Requirements: 4.3, 4.4
@@ -217,6 +218,31 @@ function TimeRemaining({ seconds }: { seconds: number | null }): JSX.Element | n
   );
 }
 
+/**
+ * Countdown while the queue waits on the rate limiter
+ */
+function ThrottleNotice({ until }: { until?: number }): JSX.Element | null {
+  const [now, setNow] = useState(Date.now());
+  
+  useEffect(() => {
+    if (!until) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+  
+  if (!until || until <= now) return null;
+  
+  return (
+    <div className="career-os-progress-throttle">
+      <span className="career-os-progress-eta-icon">⏳</span>
+      <span className="career-os-progress-eta-text">
+        限流中，{Math.ceil((until - now) / 1000)} 秒后继续
+      </span>
+    </div>
+  );
+}
+
 /**
  * Control buttons (pause/resume/cancel)
  */
@@ -345,6 +371,7 @@ function StatusIndicator({
  * - Visual progress bar
  * - Task counts (completed/total/failed)
  * - Estimated time remaining
+ * - Rate limit countdown
  * - Pause/resume/cancel controls
  */
 export function ProgressTracker({
@@ -424,6 +451,7 @@ export function ProgressTracker({
           failed={progressState.failed}
           total={progressState.total}
         />
+        <ThrottleNotice until={status?.throttledUntil} />
       </div>
     );
   }
@@ -462,6 +490,8 @@ export function ProgressTracker({
         <ProgressStats state={progressState} />
         <TimeRemaining seconds={progressState.estimatedTimeRemaining} />
       </div>
+      
+      <ThrottleNotice until={status?.throttledUntil} />
     </div>
   );
 }
@@ -0,0 +1,336 @@
+/**
+ * ReviewQueueView - Human review of draft NoteCards
+ *
+ * Lists cards that have not been confirmed yet. Selecting a card opens its
+ * source note next to the queue and shows an editor for:
+ * - Summary
+ * - Tech stack levels
+ * - Preferences and evidence
+ *
+ * Confirmed cards leave the queue; how they count in the SelfProfile is
+ * controlled by the selfProfileCardMode setting.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { createRoot, Root } from 'react-dom/client';
+import { NoteCard, TechItem } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const REVIEW_QUEUE_VIEW_TYPE = 'career-os-review-queue';
+
+const TECH_LEVELS: TechItem['level'][] = ['入门', '熟悉', '熟练', '精通'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * List fields are edited as one item per line
+ */
+function toLines(items: string[]): string {
+  return items.join('\n');
+}
+
+function fromLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function getFileName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+// ============================================================================
+// Sub-Components
+// ============================================================================
+
+interface ListFieldProps {
+  label: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+}
+
+function ListField({ label, items, onChange }: ListFieldProps): JSX.Element {
+  // Keep the raw text so blank lines can be typed before the next item
+  const [text, setText] = useState(toLines(items));
+
+  return (
+    <label className="career-os-review-field">
+      <span>{label}</span>
+      <textarea
+        rows={Math.max(2, items.length + 1)}
+        value={text}
+        placeholder="One item per line"
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(fromLines(e.target.value));
+        }}
+      />
+    </label>
+  );
+}
+
+function TechStackEditor({ items, onChange }: { items: TechItem[]; onChange: (items: TechItem[]) => void }): JSX.Element {
+  const update = (index: number, item: TechItem) => {
+    onChange(items.map((existing, i) => (i === index ? item : existing)));
+  };
+
+  return (
+    <div className="career-os-review-field">
+      <span>Tech stack</span>
+      {items.length === 0 && <div className="career-os-review-empty">No skills extracted.</div>}
+      {items.map((tech, index) => (
+        <div key={`${tech.name}-${index}`} className="career-os-review-tech-row">
+          <span className="career-os-review-tech-name" title={tech.context}>{tech.name}</span>
+          <select
+            value={tech.level}
+            onChange={(e) => update(index, { ...tech, level: e.target.value as TechItem['level'] })}
+          >
+            {TECH_LEVELS.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+          <button
+            className="career-os-review-remove-btn"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            title="Remove this skill from the card"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CardEditorProps {
+  card: NoteCard;
+  isSaving: boolean;
+  onSave: (card: NoteCard, confirm: boolean) => void;
+  onOpenNote: (path: string) => void;
+}
+
+function CardEditor({ card, isSaving, onSave, onOpenNote }: CardEditorProps): JSX.Element {
+  const [draft, setDraft] = useState<NoteCard>(card);
+
+  return (
+    <div className="career-os-review-editor">
+      <div className="career-os-review-editor-header">
+        <h3>{getFileName(card.note_path)}</h3>
+        <button className="career-os-review-btn" onClick={() => onOpenNote(card.note_path)}>
+          Open note
+        </button>
+      </div>
+      <div className="career-os-review-meta">
+        {card.type} · {card.time_span || 'no time span'}
+        {card.extracted_by && ` · ${card.extracted_by.provider}/${card.extracted_by.model}`}
+      </div>
+
+      <label className="career-os-review-field">
+        <span>Summary</span>
+        <textarea
+          rows={3}
+          value={draft.summary}
+          onChange={(e) => setDraft({ ...draft, summary: e.target.value })}
+        />
+      </label>
+
+      <TechStackEditor
+        items={draft.tech_stack}
+        onChange={(tech_stack) => setDraft({ ...draft, tech_stack })}
+      />
+
+      <ListField
+        label="Likes"
+        items={draft.preferences.likes}
+        onChange={(likes) => setDraft({ ...draft, preferences: { ...draft.preferences, likes } })}
+      />
+      <ListField
+        label="Dislikes"
+        items={draft.preferences.dislikes}
+        onChange={(dislikes) => setDraft({ ...draft, preferences: { ...draft.preferences, dislikes } })}
+      />
+      <ListField
+        label="Traits"
+        items={draft.preferences.traits}
+        onChange={(traits) => setDraft({ ...draft, preferences: { ...draft.preferences, traits } })}
+      />
+      <ListField
+        label="Evidence"
+        items={draft.evidence}
+        onChange={(evidence) => setDraft({ ...draft, evidence })}
+      />
+
+      <div className="career-os-review-actions">
+        <button className="career-os-review-btn" disabled={isSaving} onClick={() => onSave(draft, false)}>
+          Save draft
+        </button>
+        <button className="career-os-review-btn mod-cta" disabled={isSaving} onClick={() => onSave(draft, true)}>
+          ✓ Confirm
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Review Queue App
+// ============================================================================
+
+export interface ReviewQueueAppProps {
+  onLoadDraftCards: () => Promise<NoteCard[]>;
+  onSaveCard: (card: NoteCard, confirm: boolean) => Promise<void>;
+  onOpenNote: (path: string) => void;
+}
+
+export function ReviewQueueApp({ onLoadDraftCards, onSaveCard, onOpenNote }: ReviewQueueAppProps): JSX.Element {
+  const [cards, setCards] = useState<NoteCard[]>([]);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCards = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setCards(await onLoadDraftCards());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load draft cards');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onLoadDraftCards]);
+
+  useEffect(() => {
+    loadCards();
+  }, [loadCards]);
+
+  const selectCard = (card: NoteCard) => {
+    setSelectedPath(card.note_path);
+    onOpenNote(card.note_path);
+  };
+
+  const saveCard = async (card: NoteCard, confirm: boolean) => {
+    setIsSaving(true);
+    try {
+      await onSaveCard(card, confirm);
+      if (confirm) {
+        // Move on to the next card in the queue
+        const index = cards.findIndex(c => c.note_path === card.note_path);
+        const remaining = cards.filter(c => c.note_path !== card.note_path);
+        setCards(remaining);
+        setSelectedPath(remaining[Math.min(index, remaining.length - 1)]?.note_path ?? null);
+      } else {
+        setCards(cards.map(c => (c.note_path === card.note_path ? card : c)));
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save card');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedCard = cards.find(c => c.note_path === selectedPath) ?? null;
+
+  return (
+    <div className="career-os-review-queue">
+      <div className="career-os-review-header">
+        <h2>📝 Review Queue</h2>
+        <span className="career-os-review-count">{cards.length} draft{cards.length === 1 ? '' : 's'}</span>
+        <button className="career-os-refresh-btn" onClick={loadCards} disabled={isLoading}>
+          {isLoading ? '⏳' : '🔄'} Refresh
+        </button>
+      </div>
+
+      {error && <div className="career-os-error-banner">{error}</div>}
+
+      {!isLoading && cards.length === 0 ? (
+        <div className="career-os-empty-state">
+          <p>No draft cards. Every NoteCard has been reviewed.</p>
+        </div>
+      ) : (
+        <div className="career-os-review-layout">
+          <div className="career-os-review-list">
+            {cards.map(card => (
+              <div
+                key={card.note_path}
+                className={`career-os-review-item ${card.note_path === selectedPath ? 'selected' : ''}`}
+                onClick={() => selectCard(card)}
+                title={card.note_path}
+              >
+                <div className="career-os-review-item-name">{getFileName(card.note_path)}</div>
+                <div className="career-os-review-item-meta">
+                  {card.type} · {card.tech_stack.length} skills
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {selectedCard ? (
+            <CardEditor
+              key={selectedCard.note_path}
+              card={selectedCard}
+              isSaving={isSaving}
+              onSave={saveCard}
+              onOpenNote={onOpenNote}
+            />
+          ) : (
+            <div className="career-os-review-editor career-os-empty-state">
+              <p>Select a card to review it next to its note.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Obsidian ItemView Integration
+// ============================================================================
+
+/**
+ * Obsidian ItemView for the review queue
+ */
+export class ReviewQueueItemView extends ItemView {
+  private root: Root | null = null;
+  private callbacks: ReviewQueueAppProps;
+
+  constructor(leaf: WorkspaceLeaf, callbacks: ReviewQueueAppProps) {
+    super(leaf);
+    this.callbacks = callbacks;
+  }
+
+  getViewType(): string {
+    return REVIEW_QUEUE_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'CareerOS Review Queue';
+  }
+
+  getIcon(): string {
+    return 'check-square';
+  }
+
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('career-os-review-container');
+
+    this.root = createRoot(container);
+    this.root.render(<ReviewQueueApp {...this.callbacks} />);
+  }
+
+  async onClose(): Promise<void> {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}